@@ -1,20 +1,14 @@
+import { MorpheusConfigSchema, SizeSchema, TemplateSchema } from '@morpheus-deploy/core';
 import { z } from 'zod';
 
-export const TemplateSchema = z.enum(['ai-agent', 'mcp-server', 'website', 'custom']);
+// Shared with the CLI so morpheus.yaml is validated the same way everywhere
+export { TemplateSchema };
 export type Template = z.infer<typeof TemplateSchema>;
 
 export const ResourceConfigSchema = z.object({
   cpu: z.number().min(0.5).max(32).optional().default(2),
-  memory: z
-    .string()
-    .regex(/^\d+[GM]i$/)
-    .optional()
-    .default('4Gi'),
-  storage: z
-    .string()
-    .regex(/^\d+[GM]i$/)
-    .optional()
-    .default('10Gi'),
+  memory: SizeSchema.optional().default('4Gi'),
+  storage: SizeSchema.optional().default('10Gi'),
   gpu: z
     .object({
       model: z.string(),
@@ -41,6 +35,8 @@ export const DeployRequestSchema = z.object({
   resources: ResourceConfigSchema.optional(),
   env: z.record(z.string()).optional(),
   funding: FundingConfigSchema.optional(),
+  /** morpheus.yaml contents, overriding the one in the repository */
+  config: MorpheusConfigSchema.optional(),
 });
 export type DeployRequest = z.infer<typeof DeployRequestSchema>;
 
@@ -1,10 +1,17 @@
+import { AkashClient } from '@morpheus-deploy/contracts';
+import { PriceOracle, PricingService, type SDLResources } from '@morpheus-deploy/core';
 import { Hono } from 'hono';
-import { createAuthMiddleware, requirePermission, getAuthContext } from '../middleware/auth.js';
-import { DeployRequestSchema, PreviewRequestSchema } from '../lib/types.js';
+
+import { getConfig } from '../lib/config.js';
 import { validationError } from '../lib/errors.js';
+import { DeployRequestSchema, PreviewRequestSchema, type ResourceConfig } from '../lib/types.js';
+import { createAuthMiddleware, requirePermission, getAuthContext } from '../middleware/auth.js';
 
 const deploy = new Hono();
 
+// Shared across requests so market rates are cached between previews
+let pricing: PricingService | undefined;
+
 deploy.use('*', createAuthMiddleware());
 
 deploy.post('/', requirePermission('deploy'), async (c) => {
@@ -13,7 +20,9 @@ deploy.post('/', requirePermission('deploy'), async (c) => {
   const parseResult = DeployRequestSchema.safeParse(body);
   if (!parseResult.success) {
     const error = validationError('Invalid request body', {
-      issues: parseResult.error.issues.map((i) => i.message).join(', '),
+      issues: parseResult.error.issues
+        .map((i) => (i.path.length > 0 ? `${i.path.join('.')}: ${i.message}` : i.message))
+        .join(', '),
     });
     return c.json(error.toJSON(), 400);
   }
@@ -52,7 +61,9 @@ deploy.post('/preview', requirePermission('deploy'), async (c) => {
   const request = parseResult.data;
   const resources = request.resources || { cpu: 2, memory: '4Gi', storage: '10Gi' };
 
-  const hourlyRate = calculateHourlyRate(resources);
+  const quote = await getPricingService().quote();
+  const cost = quote.service(toSDLResources(resources));
+  const hourlyRate = Math.round(cost.usd.total * 100) / 100;
 
   return c.json({
     estimate: {
@@ -61,30 +72,38 @@ deploy.post('/preview', requirePermission('deploy'), async (c) => {
       monthlyRate: hourlyRate * 24 * 30,
       currency: 'USD',
     },
+    breakdown: { uakt: cost.uakt, usd: cost.usd },
+    aktPrice: quote.aktUsd,
+    pricingSource: quote.source,
+    warnings: quote.warnings,
     resources,
     suggestedTemplate: request.template || 'ai-agent',
     detectedFramework: 'node',
   });
 });
 
-function calculateHourlyRate(resources: {
-  cpu?: number;
-  memory?: string;
-  gpu?: { model?: string; count?: number };
-}): number {
-  const cpuCost = (resources.cpu || 2) * 0.02;
-  const memoryGb = parseMemory(resources.memory ?? '4Gi');
-  const memoryCost = memoryGb * 0.01;
-  const gpuCost = resources.gpu ? 0.5 * (resources.gpu.count || 1) : 0;
-
-  return Math.round((cpuCost + memoryCost + gpuCost) * 100) / 100;
+function getPricingService(): PricingService {
+  if (!pricing) {
+    pricing = new PricingService({
+      market: new AkashClient({ network: getConfig().network }),
+      oracle: new PriceOracle(),
+    });
+  }
+  return pricing;
 }
 
-function parseMemory(memory: string): number {
-  const match = memory.match(/^(\d+)(Gi|Mi)$/);
-  if (!match || !match[1] || !match[2]) return 4;
-  const value = parseInt(match[1], 10);
-  return match[2] === 'Gi' ? value : value / 1024;
+function toSDLResources(resources: Partial<ResourceConfig>): SDLResources {
+  return {
+    cpu: { units: resources.cpu ?? 2 },
+    memory: { size: resources.memory ?? '4Gi' },
+    storage: [{ size: resources.storage ?? '10Gi' }],
+    gpu: resources.gpu && {
+      units: resources.gpu.count ?? 1,
+      attributes: {
+        vendor: { nvidia: [{ model: resources.gpu.model.replace(/^nvidia-/, '') }] },
+      },
+    },
+  };
 }
 
 export { deploy };
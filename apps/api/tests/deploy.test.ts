@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { Hono } from 'hono';
+import { deploy } from '../src/routes/deploy.js';
+
+vi.mock('../src/middleware/auth.js', () => ({
+  createAuthMiddleware: () => async (c: any, next: () => Promise<void>) => {
+    if (c.req.header('Authorization') === 'Bearer wallet_token') {
+      c.set('auth', { userId: 'user_0x1234', method: 'wallet', permissions: ['deploy'] });
+    }
+    await next();
+  },
+  requirePermission: () => async (_c: any, next: () => Promise<void>) => next(),
+  getAuthContext: (c: any) => c.get('auth'),
+}));
+
+describe('Deploy Routes', () => {
+  let app: Hono;
+
+  beforeAll(() => {
+    // Neither the Akash REST API nor price feeds are reachable in tests
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('fetch failed')));
+    app = new Hono();
+    app.route('/api/deploy', deploy);
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('POST /api/deploy/preview', () => {
+    it('returns a per-resource estimate from the fallback rates when offline', async () => {
+      const res = await app.request('/api/deploy/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer wallet_token' },
+        body: JSON.stringify({
+          repoUrl: 'user/repo',
+          resources: { cpu: 2, memory: '4Gi', storage: '10Gi', gpu: { model: 'nvidia-a100' } },
+        }),
+      });
+      expect(res.status).toBe(200);
+
+      const body = await res.json();
+      expect(body.pricingSource).toEqual({ rates: 'fallback', aktUsd: 'fallback' });
+      expect(body.warnings).toEqual([expect.stringContaining('AKT price unavailable')]);
+      expect(body.breakdown.uakt).toEqual({
+        cpu: 20_000,
+        memory: 20_000,
+        storage: 10_000,
+        gpu: 2_500_000,
+        total: 2_550_000,
+      });
+      expect(body.estimate.hourlyRate).toBe(2.55);
+      expect(body.estimate.currency).toBe('USD');
+    });
+  });
+});
@@ -1,12 +1,18 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 
+import { budgetCommand } from './commands/budget.js';
+import { ciKeyCommand } from './commands/ci-key.js';
+import { closeCommand } from './commands/close.js';
 import { deployCommand } from './commands/deploy.js';
 import { fundCommand } from './commands/fund.js';
 import { initCommand } from './commands/init.js';
 import { logsCommand } from './commands/logs.js';
+import { rollbackCommand } from './commands/rollback.js';
 import { statusCommand } from './commands/status.js';
+import { watchCommand } from './commands/watch.js';
+import { OUTPUT_FORMATS } from './lib/output.js';
 
 const program = new Command();
 
@@ -35,7 +41,12 @@ program
   .option('--repo <url>', 'Deploy from a remote GitHub repository')
   .option('--testnet', 'Deploy to Akash Sandbox/Testnet')
   .option('-y, --yes', 'Skip confirmation prompts')
-  .option('-d, --duration <period>', 'Funding duration: 1y (default), 6m, 30d, etc.', '1y')
+  .option('-d, --duration <period>', 'Funding duration: 1y (default), 6m, 30d, etc.')
+  .option('-e, --env <name>', 'Apply environments.<name> from morpheus.yaml')
+  .option('--dry-run', 'Build and synthesize the SDL without touching the wallet or chain')
+  .option('--skip-build', 'Deploy runtime.image from morpheus.yaml without building')
+  .option('--update', 'Push a new manifest to the active deployment instead of creating one')
+  .option('--ci', 'Non-interactive: read the signer and settings from MORPHEUS_* variables')
   .action(deployCommand);
 
 // morpheus logs - Stream logs from deployment
@@ -52,6 +63,7 @@ program
   .description('Check the status of your deployments')
   .option('-d, --deployment <dseq>', 'Deployment sequence ID')
   .option('--all', 'Show all deployments')
+  .option('-e, --env <name>', 'Show the deployment for environments.<name>')
   .action(statusCommand);
 
 // morpheus fund - Add funds to deployment
@@ -60,11 +72,71 @@ program
   .description('Add funds to an existing deployment')
   .option('-d, --deployment <dseq>', 'Deployment sequence ID')
   .option('-a, --amount <usdc>', 'Amount in USDC to add')
+  .option('-y, --yes', 'Skip the confirmation prompt')
   .action(fundCommand);
 
+// morpheus watch - Keep deployment escrow funded
+program
+  .command('watch')
+  .description('Monitor deployment escrow and top it up when it runs low')
+  .option('-d, --deployment <dseq...>', 'Deployment sequence IDs (default: the active deployment)')
+  .option('-i, --interval <seconds>', 'Seconds between checks', '300')
+  .option('-p, --port <port>', 'Port for the /health endpoint', '9464')
+  .option('--once', 'Check once and exit, e.g. from cron')
+  .option('--clear-pending', 'Forget unconfirmed top-ups so they can be retried')
+  .option('--testnet', 'Watch deployments on Akash Sandbox/Testnet')
+  .action(watchCommand);
+
+// morpheus budget - Show spending against funding.limits
+program
+  .command('budget')
+  .description('Show automatic top-up spending against the limits in morpheus.yaml')
+  .option('-d, --deployment <dseq>', 'Deployment sequence ID')
+  .action(budgetCommand);
+
+// morpheus close - Close deployments and recover their escrow
+program
+  .command('close')
+  .description('Close a deployment and refund what is left in its escrow')
+  .option('-d, --deployment <dseq>', 'Deployment sequence ID')
+  .option('--all', 'Close every active deployment')
+  .option('-e, --env <name>', 'Close the deployment for environments.<name>')
+  .option('--sweep', 'Swap the refunded AKT back to USDC on Base')
+  .option('-y, --yes', 'Skip the confirmation prompt')
+  .action(closeCommand);
+
+// morpheus rollback - Restore an earlier manifest on the same lease
+program
+  .command('rollback')
+  .description('Re-send an earlier manifest to the active lease')
+  .option('-d, --deployment <dseq>', 'Deployment sequence ID')
+  .option('--to <version>', 'Version number from --list, or a version hash prefix')
+  .option('--list', 'List the versions that can be restored')
+  .option('-e, --env <name>', 'Roll back the deployment for environments.<name>')
+  .option('-y, --yes', 'Skip the confirmation prompt')
+  .action(rollbackCommand);
+
+// morpheus ci-key - Create a signing key for CI
+program
+  .command('ci-key')
+  .description('Create an ephemeral signing key for morpheus deploy --ci')
+  .option('--hours <hours>', 'Hours until the key expires', '720')
+  .option('--testnet', 'Grant on Akash Sandbox/Testnet')
+  .action(ciKeyCommand);
+
 // Global options
 program
   .option('--node <url>', 'Custom RPC endpoint')
-  .option('--testnet', 'Use Akash Sandbox/Testnet');
+  .option('--testnet', 'Use Akash Sandbox/Testnet')
+  .addOption(
+    new Option('-o, --output <format>', 'Output format: text, or json/yaml for scripts')
+      .choices(OUTPUT_FORMATS)
+      .default('text')
+  );
+
+// Hand the global --output to whichever command runs
+program.hook('preAction', (_, actionCommand) => {
+  actionCommand.setOptionValue('output', program.opts().output);
+});
 
 program.parse();
@@ -0,0 +1,101 @@
+import { DEFAULT_SPEND_WARN_AT, SpendTracker, type SpendUsage } from '@morpheus-deploy/core';
+import chalk from 'chalk';
+
+import { FileSpendStore } from '../lib/budget.js';
+import { loadConfig } from '../lib/config.js';
+import { DeploymentManager } from '../lib/deployment.js';
+import { Output, money, type MoneyResult, type OutputFormat } from '../lib/output.js';
+import { WalletManager } from '../lib/wallet.js';
+
+interface BudgetOptions {
+  deployment?: string;
+  output?: OutputFormat;
+}
+
+/** `morpheus budget --output json` result; `usage` is empty without funding.limits */
+export interface BudgetResult {
+  wallet?: string;
+  dseq?: string;
+  usage: {
+    scope: SpendUsage['scope'];
+    period: SpendUsage['period'];
+    limit: MoneyResult;
+    spent: MoneyResult;
+  }[];
+}
+
+export async function budgetCommand(options: BudgetOptions): Promise<void> {
+  const out = new Output('budget', options.output);
+  const { spinner } = out;
+  out.log(chalk.bold.cyan('\n  Morpheus Budget\n'));
+
+  try {
+    const config = await loadConfig('morpheus.yaml');
+    const limits = config.funding?.limits;
+
+    if (!limits?.deployment && !limits?.wallet) {
+      out.log(
+        chalk.yellow(
+          '  No spending limits set; automatic top-ups are only capped by the wallet balance.'
+        )
+      );
+      out.log(chalk.dim(`  Add ${chalk.cyan('funding.limits')} to morpheus.yaml to cap them.\n`));
+      out.result<BudgetResult>({ usage: [] });
+      return;
+    }
+
+    const walletManager = new WalletManager();
+    const deploymentManager = new DeploymentManager(config, walletManager);
+
+    let dseq = options.deployment;
+    if (!dseq) {
+      spinner.start('Loading active deployment...');
+      const activeDeployment = await deploymentManager.getActiveDeployment();
+      spinner.stop();
+      dseq = activeDeployment?.dseq;
+    }
+
+    const { address } = await walletManager.load();
+    const tracker = new SpendTracker(limits, new FileSpendStore());
+    const usage = await tracker.usage(dseq ?? '', address);
+    const warnAt = limits.warnAt ?? DEFAULT_SPEND_WARN_AT;
+
+    out.log(`  ${chalk.dim('Wallet:')}      ${address}`);
+    out.log(`  ${chalk.dim('Deployment:')}  ${dseq ? chalk.cyan(dseq) : chalk.dim('none')}`);
+    out.log();
+    out.log(chalk.bold('  Automatic top-ups (USDC):'));
+
+    const shown = usage.filter(entry => entry.scope !== 'deployment' || dseq);
+    for (const entry of shown) {
+      printUsage(out, entry, warnAt);
+    }
+    out.log();
+
+    out.result<BudgetResult>({
+      wallet: address,
+      dseq,
+      usage: shown.map(({ scope, period, limit, spent }) => ({
+        scope,
+        period,
+        limit: money(limit),
+        spent: money(spent),
+      })),
+    });
+  } catch (error) {
+    out.fail(error, 'Failed to load budget');
+  }
+}
+
+function printUsage(
+  out: Output,
+  { scope, period, limit, spent }: SpendUsage,
+  warnAt: number
+): void {
+  const used = spent.toNumber() / limit.toNumber();
+  const color = !spent.lt(limit) ? chalk.red : used >= warnAt ? chalk.yellow : chalk.green;
+  const label = `${scope} ${period}`.padEnd(18);
+
+  out.log(
+    `    ${chalk.dim(label)} $${spent.toFixed(2)} of $${limit.toFixed(2)}  ${color(`${Math.round(used * 100)}%`)}`
+  );
+}
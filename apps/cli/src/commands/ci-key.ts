@@ -0,0 +1,97 @@
+import { homedir } from 'os';
+import { join } from 'path';
+
+import { AKASH_CONFIG, AuthZManager, EphemeralKeyManager } from '@morpheus-deploy/contracts';
+import chalk from 'chalk';
+
+import { CI_ENV } from '../lib/ci.js';
+import { CliError, Output, type OutputFormat } from '../lib/output.js';
+import { WalletManager } from '../lib/wallet.js';
+
+const DEFAULT_HOURS = 720;
+/** Kept apart from ~/.morpheus so a CI key never replaces the local one */
+const CI_KEY_DIR = join(homedir(), '.morpheus', 'ci');
+
+interface CiKeyOptions {
+  hours?: string;
+  testnet?: boolean;
+  output?: OutputFormat;
+}
+
+/** `morpheus ci-key --output json` result */
+export interface CiKeyResult {
+  address: string;
+  expiresAt: string;
+  permissions: string[];
+  /** The key's Akash address, which pays the fees of its transactions */
+  akashAddress: string;
+  /** Wallet address that granted the permissions and owns the deployments */
+  granter: string;
+  grantTxHash: string;
+  /** Value for MORPHEUS_EPHEMERAL_KEY */
+  key: string;
+}
+
+export async function ciKeyCommand(options: CiKeyOptions): Promise<void> {
+  const out = new Output('ci-key', options.output);
+  const { spinner } = out;
+  out.log(chalk.bold.cyan('\n  Morpheus CI Key\n'));
+
+  try {
+    const hours = Number(options.hours ?? DEFAULT_HOURS);
+    if (!Number.isInteger(hours) || hours <= 0) {
+      throw new CliError('--hours must be a positive whole number', 'general');
+    }
+
+    spinner.start('Generating ephemeral key...');
+    const keys = new EphemeralKeyManager({ storageDir: CI_KEY_DIR, expirationHours: hours });
+    const key = await keys.generate(
+      AuthZManager.DEPLOYMENT_PERMISSIONS.map(permission => permission.msgType)
+    );
+    spinner.succeed(`Ephemeral key: ${chalk.cyan(key.address)}`);
+
+    // CI sends deployment messages through MsgExec, so the grant has to be
+    // on chain before the key is any use, and last as long as the key
+    spinner.start('Granting deployment permissions from your wallet...');
+    const master = await new WalletManager().getAkashSigner();
+    const [granter] = await master.getAccounts();
+    const [grantee] = await (await keys.getAkashSigner()).getAccounts();
+    if (!granter || !grantee) {
+      throw new CliError('Wallet has no Akash account', 'config');
+    }
+    const authz = new AuthZManager(AKASH_CONFIG[options.testnet ? 'testnet' : 'mainnet'].rpcUrl);
+    await authz.connect(master);
+    const grant = await authz.createGrant({
+      granter: granter.address,
+      grantee: grantee.address,
+      permissions: AuthZManager.DEPLOYMENT_PERMISSIONS,
+      expirationDays: Math.ceil(hours / 24),
+    });
+    await keys.recordGrant(grant.txHash!, granter.address);
+    spinner.succeed(`Granted by ${chalk.cyan(granter.address)}`);
+
+    const exported = await keys.exportKey();
+
+    out.log();
+    out.log(`  Add this as the ${chalk.cyan(CI_ENV.ephemeralKey)} secret in your CI:`);
+    out.log();
+    out.log(`  ${exported}`);
+    out.log();
+    out.log(chalk.dim(`  Expires: ${new Date(key.expiresAt).toLocaleString()}`));
+    out.log(chalk.dim('  The key deploys for your wallet under the grant and never has'));
+    out.log(chalk.dim('  access to the master key. It pays its own transaction fees, so'));
+    out.log(chalk.dim(`  send a few AKT to ${grantee.address}.\n`));
+
+    out.result<CiKeyResult>({
+      address: key.address,
+      expiresAt: key.expiresAt,
+      permissions: key.permissions,
+      akashAddress: grantee.address,
+      granter: granter.address,
+      grantTxHash: grant.txHash!,
+      key: exported,
+    });
+  } catch (error) {
+    out.fail(error, 'Could not create CI key');
+  }
+}
@@ -0,0 +1,189 @@
+import { AKT, Amount, EconomicEngine, PriceOracle, USDC } from '@morpheus-deploy/core';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+
+import { loadConfig } from '../lib/config.js';
+import { DeploymentManager } from '../lib/deployment.js';
+import {
+  CliError,
+  Output,
+  categorize,
+  categorized,
+  money,
+  type MoneyResult,
+  type OutputFormat,
+} from '../lib/output.js';
+import { WalletManager } from '../lib/wallet.js';
+
+interface CloseOptions {
+  deployment?: string;
+  all?: boolean;
+  env?: string;
+  sweep?: boolean;
+  yes?: boolean;
+  output?: OutputFormat;
+}
+
+/** `morpheus close --output json` result */
+export interface CloseResult {
+  closed: { dseq: string; txHash: string; refund: MoneyResult }[];
+  refunded: MoneyResult;
+  /** Value of the refund in USDC; missing when the AKT price is unavailable */
+  refundedUsd?: MoneyResult;
+  /** The --sweep swap back to USDC on Base */
+  sweep?: { txHash: string; source: MoneyResult; destination: MoneyResult };
+}
+
+export async function closeCommand(options: CloseOptions): Promise<void> {
+  const out = new Output('close', options.output);
+  const { spinner } = out;
+  out.log(chalk.bold.cyan('\n  Morpheus Close\n'));
+
+  try {
+    if (options.deployment && options.all) {
+      throw new CliError('Use either --deployment or --all, not both', 'general');
+    }
+
+    const config = await loadConfig('morpheus.yaml', options.env);
+    const walletManager = new WalletManager();
+    const deploymentManager = new DeploymentManager(config, walletManager, options.env);
+
+    spinner.start('Loading deployments...');
+    const dseqs = await closeTargets(deploymentManager, options);
+    spinner.stop();
+
+    if (dseqs.length === 0) {
+      if (options.all) {
+        out.log(chalk.dim('  No active deployments to close.\n'));
+        out.result<CloseResult>({ closed: [], refunded: money(Amount.zero(AKT)) });
+        return;
+      }
+      throw new CliError(
+        options.env
+          ? `No active deployment found for environment "${options.env}"`
+          : 'No active deployment found',
+        'general',
+        { hint: `Use ${chalk.cyan('morpheus close -d <dseq>')} to specify a deployment` }
+      );
+    }
+
+    out.log(chalk.bold(`  Closing: ${dseqs.map(dseq => chalk.cyan(dseq)).join(', ')}`));
+    out.log(chalk.dim('  Leases end and services stop now. What is left in escrow is refunded.\n'));
+
+    if (!options.yes) {
+      out.assertInteractive('--yes');
+      const { confirm } = await inquirer.prompt<{ confirm: boolean }>([
+        {
+          type: 'confirm',
+          name: 'confirm',
+          message:
+            dseqs.length === 1
+              ? `Close deployment ${dseqs[0]}?`
+              : `Close ${dseqs.length} deployments?`,
+          default: false,
+        },
+      ]);
+      if (!confirm) {
+        out.log(chalk.yellow('\n  Close cancelled.\n'));
+        return;
+      }
+    }
+
+    let refunded = Amount.zero(AKT);
+    const closedResults: CloseResult['closed'] = [];
+    for (const dseq of dseqs) {
+      spinner.start(`Closing deployment ${dseq}...`);
+      const closed = await categorized('deployment', deploymentManager.close(dseq));
+      await deploymentManager.archive(dseq, closed);
+      refunded = refunded.plus(closed.refund);
+      closedResults.push({ dseq, txHash: closed.txHash, refund: money(closed.refund) });
+      spinner.succeed(
+        `Closed ${chalk.cyan(dseq)}: ${closed.refund.toFixed(4)} AKT refunded ${chalk.dim(closed.txHash)}`
+      );
+    }
+
+    const usd = await usdValue(refunded);
+    out.log();
+    out.log(
+      `  ${chalk.bold('Refunded:')} ${refunded.toFixed(4)} AKT` +
+        (usd ? ` (~$${usd.toFixed(2)} USDC)` : chalk.dim(' (AKT price unavailable)'))
+    );
+    out.log();
+
+    const result: CloseResult = {
+      closed: closedResults,
+      refunded: money(refunded),
+      refundedUsd: usd && money(usd),
+    };
+    if (options.sweep) {
+      result.sweep = await sweep(out, new EconomicEngine(config, walletManager), refunded);
+    }
+    out.result(result);
+  } catch (error) {
+    out.fail(error, 'Close failed');
+  }
+}
+
+/**
+ * The deployment named with --deployment, every deployment the owner has open
+ * on chain with --all, or the active deployment
+ */
+async function closeTargets(
+  deploymentManager: DeploymentManager,
+  options: CloseOptions
+): Promise<string[]> {
+  if (options.deployment) {
+    return [options.deployment];
+  }
+  if (options.all) {
+    return deploymentManager.listOpenDeployments();
+  }
+
+  const active = await deploymentManager.getActiveDeployment();
+  return active ? [active.dseq] : [];
+}
+
+async function usdValue(amount: Amount): Promise<Amount | undefined> {
+  try {
+    return amount.convert(USDC, await new PriceOracle().getPrice('AKT', 'USDC'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Swap the refund back to USDC on Base. The deployments are closed either
+ * way, so a failure here leaves the AKT in the wallet.
+ */
+async function sweep(
+  out: Output,
+  engine: EconomicEngine,
+  refunded: Amount
+): Promise<CloseResult['sweep']> {
+  if (refunded.isZero()) {
+    out.log(chalk.dim('  Nothing refunded to sweep.\n'));
+    return undefined;
+  }
+
+  out.spinner.start('Swapping refunded AKT to USDC on Base...');
+  try {
+    const result = await engine.swapToUsdc(refunded);
+    out.spinner.succeed(`Swept: ${result.sourceAmount} -> ${result.destinationAmount}`);
+    out.log(chalk.dim(`  Transaction: ${result.txHash}\n`));
+    return {
+      txHash: result.txHash,
+      source: money(result.sourceAmount),
+      destination: money(result.destinationAmount),
+    };
+  } catch (error) {
+    const category = categorize(error);
+    throw new CliError(
+      `Sweep failed: ${error instanceof Error ? error.message : error}`,
+      category === 'general' ? 'funding' : category,
+      {
+        cause: error,
+        hint: 'The deployments are closed; the refund is still in your Akash wallet.',
+      }
+    );
+  }
+}
@@ -1,16 +1,44 @@
-import ora from 'ora';
+import { existsSync } from 'fs';
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
+import { AkashClient } from '@morpheus-deploy/contracts';
+import {
+  BlockClock,
+  BuildEngine,
+  EconomicEngine,
+  PriceOracle,
+  PricingService,
+  SDLSynthesizer,
+  SDLValidator,
+  USDC,
+  formatDuration,
+  parseDuration,
+  type Amount,
+  type BidPriceReview,
+  type BidRejection,
+  type SDLConfig,
+  type SDLOutput,
+} from '@morpheus-deploy/core';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
-import { existsSync } from 'fs';
+
+import { loadCiSettings, missingSecrets, reportToGitHub, type CiSettings } from '../lib/ci.js';
 import { loadConfig } from '../lib/config.js';
+import { DeploymentManager, type Bid, type Deployment, type Lease } from '../lib/deployment.js';
+import { HealthCheckError } from '../lib/health.js';
+import {
+  CliError,
+  Output,
+  categorized,
+  money,
+  type MoneyResult,
+  type OutputFormat,
+} from '../lib/output.js';
 import { WalletManager } from '../lib/wallet.js';
-import { DeploymentManager } from '../lib/deployment.js';
-import { SDLSynthesizer } from '@morpheus-deploy/core';
-import { BuildEngine } from '@morpheus-deploy/core';
-import { EconomicEngine } from '@morpheus-deploy/core';
-import { parseDuration, formatDuration } from '@morpheus-deploy/core';
 
 const DEFAULT_DURATION = '1y';
+const SDL_OUTPUT_PATH = '.morpheus/deploy.yaml';
 
 interface DeployOptions {
   template?: string;
@@ -19,171 +47,592 @@ interface DeployOptions {
   testnet?: boolean;
   yes?: boolean;
   duration?: string;
+  dryRun?: boolean;
+  skipBuild?: boolean;
+  /** Name of an entry in `environments` to overlay on morpheus.yaml */
+  env?: string;
+  /** Push a new manifest to the active deployment instead of creating one */
+  update?: boolean;
+  /** Read the signer, network, environment and secrets from the environment; never prompt */
+  ci?: boolean;
+  output?: OutputFormat;
+}
+
+/** `morpheus deploy --output json` result */
+export interface DeployResult {
+  /** Nothing was broadcast, so there is no dseq, lease or URL */
+  dryRun: boolean;
+  /** The active deployment was updated in place */
+  updated: boolean;
+  dseq?: string;
+  lease?: { id: string; provider: string };
+  url?: string;
+  image: string;
+  cost: {
+    /** Estimated USD per hour */
+    perHour: number;
+    /** Funding for the whole duration; not spent on an update */
+    upfront: MoneyResult;
+    duration: string;
+  };
+  /** The USDC -> AKT swap that funded a new deployment */
+  swap?: {
+    txHash: string;
+    source: MoneyResult;
+    destination: MoneyResult;
+  };
+  /** Where --dry-run wrote the SDL */
+  sdlPath?: string;
 }
 
 export async function deployCommand(options: DeployOptions): Promise<void> {
-  console.log(chalk.bold.cyan('\n  Morpheus Deploy\n'));
+  const out = new Output('deploy', options.output);
+  const { spinner } = out;
+  out.log(chalk.bold.cyan('\n  Morpheus Deploy\n'));
 
-  // Check for morpheus.yaml
-  if (!existsSync('morpheus.yaml') && !options.repo) {
-    console.log(chalk.red('  Error: morpheus.yaml not found'));
-    console.log(chalk.dim(`  Run ${chalk.cyan('morpheus init')} to create a new project\n`));
-    process.exit(1);
-  }
+  try {
+    // Check for morpheus.yaml
+    if (!existsSync('morpheus.yaml') && !options.repo) {
+      throw new CliError('morpheus.yaml not found', 'config', {
+        hint: `Run ${chalk.cyan('morpheus init')} to create a new project`,
+      });
+    }
 
-  const spinner = ora();
+    // CI signs with an exported ephemeral key and is never asked anything
+    let ci: CiSettings | undefined;
+    if (options.ci) {
+      ci = await loadCiSettings();
+      spinner.info('CI mode: settings from the environment, no prompts');
+    }
+    const environment = options.env || ci?.environment;
+    const yes = options.yes || options.ci;
 
-  try {
     // Load configuration
     spinner.start('Loading configuration...');
-    const config = await loadConfig('morpheus.yaml');
-    spinner.succeed(`Project: ${chalk.cyan(config.project)}`);
-
-    // Load wallet
-    spinner.start('Connecting to wallet...');
-    const walletManager = new WalletManager();
-    const wallet = await walletManager.load();
-    spinner.succeed(`Wallet: ${chalk.cyan(wallet.address)}`);
-
-    // Check wallet balance
-    spinner.start('Checking wallet balance...');
-    const balance = await walletManager.getBalance();
-
-    if (balance.usdc < 10) {
-      spinner.warn(chalk.yellow(`Low balance: $${balance.usdc} USDC`));
-      console.log(chalk.dim('  Fund your wallet to continue with deployment\n'));
-
-      if (!options.yes) {
-        const { proceed } = await inquirer.prompt<{ proceed: boolean }>([
-          {
-            type: 'confirm',
-            name: 'proceed',
-            message: 'Continue anyway?',
-            default: false,
-          },
-        ]);
-        if (!proceed) return;
+    const loaded = await loadConfig('morpheus.yaml', environment);
+    // --testnet and MORPHEUS_NETWORK override morpheus.yaml for everything built
+    // from the config: the swap, staking and Akash clients alike
+    const config = {
+      ...loaded,
+      network: options.testnet ? 'testnet' : (ci?.network ?? loaded.network),
+    };
+    spinner.succeed(
+      `Project: ${chalk.cyan(config.project)}` +
+        (environment ? ` (environment: ${chalk.cyan(environment)})` : '')
+    );
+    const testnet = config.network === 'testnet';
+
+    // An empty secret would be sealed and deployed as-is
+    if (ci) {
+      const missing = missingSecrets(config);
+      if (missing.length > 0) {
+        throw new CliError(`Secrets missing from the environment: ${missing.join(', ')}`, 'config');
       }
-    } else {
-      spinner.succeed(`Balance: $${balance.usdc} USDC`);
     }
 
-    // Build container image
-    spinner.start('Building container image...');
-    const buildEngine = new BuildEngine(config);
-    const image = await buildEngine.build({
-      context: process.cwd(),
-      template: options.template || config.template,
-    });
-    spinner.succeed(`Image built: ${chalk.dim(image.tag)}`);
+    // Load wallet (a dry run never touches the wallet)
+    const walletManager = ci?.wallet ?? new WalletManager();
+    const deploymentManager = new DeploymentManager(config, walletManager, environment);
+    if (!options.dryRun) {
+      spinner.start('Connecting to wallet...');
+      const wallet = await walletManager.load();
+      spinner.succeed(`Wallet: ${chalk.cyan(wallet.address)}`);
+
+      // Check wallet balance
+      spinner.start('Checking wallet balance...');
+      const balance = await walletManager.getBalance();
+
+      if (balance.usdc < 10) {
+        spinner.warn(chalk.yellow(`Low balance: $${balance.usdc} USDC`));
+        out.log(chalk.dim('  Fund your wallet to continue with deployment\n'));
+
+        if (!yes) {
+          out.assertInteractive('--yes');
+          const { proceed } = await inquirer.prompt<{ proceed: boolean }>([
+            {
+              type: 'confirm',
+              name: 'proceed',
+              message: 'Continue anyway?',
+              default: false,
+            },
+          ]);
+          if (!proceed) return;
+        }
+      } else {
+        spinner.succeed(`Balance: $${balance.usdc} USDC`);
+      }
+    }
+
+    // Find what to update before spending time on a build
+    let target: { deployment: Deployment; lease: Lease } | undefined;
+    if (options.update && !options.dryRun) {
+      const deployment = await deploymentManager.getActiveDeployment();
+      const lease = await deploymentManager.getActiveLease();
+      if (!deployment || lease?.dseq !== deployment.dseq) {
+        throw new CliError(
+          `No active deployment with a lease to update. Run ${chalk.cyan('morpheus deploy')} first.`,
+          'deployment'
+        );
+      }
+      target = { deployment, lease };
+      spinner.info(`Updating DSEQ ${chalk.cyan(deployment.dseq)} on ${chalk.cyan(lease.provider)}`);
+    }
+
+    // Build container image, or use runtime.image as-is
+    let image: SDLConfig['image'];
+    if (options.skipBuild) {
+      if (!config.runtime?.image) {
+        throw new CliError('--skip-build requires runtime.image in morpheus.yaml', 'config');
+      }
+      image = { tag: config.runtime.image };
+      spinner.info(`Using existing image: ${chalk.dim(image.tag)}`);
+    } else {
+      spinner.start('Building container image...');
+      const buildEngine = new BuildEngine(config);
+      const built = await categorized(
+        'build',
+        buildEngine.build({
+          context: process.cwd(),
+          onProgress: message => {
+            spinner.text = `Building container image... ${chalk.dim(message.slice(0, 60))}`;
+          },
+        })
+      );
+      spinner.succeed(`Image built: ${chalk.dim(built.tag)} (${built.framework})`);
+      image = built;
+    }
 
     // Synthesize SDL
     spinner.start('Synthesizing Akash SDL manifest...');
-    const sdlSynthesizer = new SDLSynthesizer(config);
+    // Price the SDL against recent bids on the network being deployed to
+    const pricing = new PricingService({
+      market: new AkashClient({ network: testnet ? 'testnet' : 'mainnet' }),
+      oracle: new PriceOracle(),
+    });
+    const sdlSynthesizer = new SDLSynthesizer(config, pricing);
     const sdl = await sdlSynthesizer.synthesize({
       image,
       gpu: options.gpu || config.resources?.gpu?.model,
-      testnet: options.testnet,
+      testnet,
+      credentials: (await deploymentManager.loadCredentials()) || undefined,
     });
+    if (sdl.credentials && !options.dryRun) {
+      await deploymentManager.saveCredentials(sdl.credentials);
+    }
     spinner.succeed('SDL manifest generated');
 
-    const durationStr = options.duration || config.funding?.duration || DEFAULT_DURATION;
+    // Validate SDL
+    const validation = new SDLValidator().validate(sdl);
+    for (const warning of validation.warnings) {
+      out.warn(warning.message);
+    }
+    if (!validation.valid) {
+      throw new CliError(
+        `Invalid SDL:\n${validation.errors.map(e => `  - ${e.path}: ${e.message}`).join('\n')}`,
+        'config'
+      );
+    }
+
+    const durationStr =
+      options.duration || ci?.duration || config.funding?.duration || DEFAULT_DURATION;
     const durationHours = parseDuration(durationStr);
-    const totalUpfrontCost = sdl.estimatedCost * durationHours;
+    // Akash bills per block, so fund every block of the duration at the estimated price
+    const clock = new BlockClock(config.funding?.blockTime);
+    const totalUpfrontCost = sdl.costPerBlock
+      .times(clock.blocks(durationHours))
+      .convert(USDC, sdl.costs.aktUsd);
 
     // Display deployment summary
-    console.log(chalk.dim('\n  Deployment Summary:'));
-    console.log(chalk.dim(`  - Template: ${config.template}`));
-    console.log(
-      chalk.dim(
-        `  - Resources: ${config.resources?.cpu || 2} CPU, ${config.resources?.memory || '4Gi'} RAM`
-      )
-    );
+    out.log(chalk.dim('\n  Deployment Summary:'));
+    out.log(chalk.dim(`  - Template: ${config.template}`));
+    if (config.services) {
+      out.log(chalk.dim('  - Services:'));
+      for (const [name, placements] of Object.entries(sdl.deployment)) {
+        for (const { profile, count } of Object.values(placements)) {
+          const resources = sdl.profiles.compute[profile]!.resources;
+          out.log(
+            chalk.dim(
+              `      ${name}: ${resources.cpu.units} CPU, ${resources.memory.size} RAM x${count}`
+            )
+          );
+        }
+      }
+    } else {
+      out.log(
+        chalk.dim(
+          `  - Resources: ${config.resources?.cpu || 2} CPU, ${config.resources?.memory || '4Gi'} RAM`
+        )
+      );
+    }
     if (sdl.gpu) {
-      console.log(chalk.dim(`  - GPU: ${sdl.gpu.model} x${sdl.gpu.units}`));
+      out.log(chalk.dim(`  - GPU: ${sdl.gpu.model} x${sdl.gpu.units}`));
+    }
+    out.log(chalk.dim(`  - Network: ${testnet ? 'Sandbox (Testnet)' : 'Mainnet'}`));
+    out.log(chalk.dim(`  - Estimated cost: ~$${sdl.estimatedCost}/hour`));
+    out.log(chalk.dim(`  - Duration: ${formatDuration(durationHours)}`));
+    for (const warning of sdl.costs.warnings) {
+      out.warn(warning);
+    }
+    if (target) {
+      out.log(chalk.bold.yellow(`  - Updating: DSEQ ${target.deployment.dseq} in place\n`));
+    } else {
+      out.log(
+        chalk.bold.yellow(`  - Total Upfront Funding: ~$${totalUpfrontCost.toFixed(2)} USDC\n`)
+      );
+    }
+
+    const cost: DeployResult['cost'] = {
+      perHour: sdl.estimatedCost,
+      upfront: money(totalUpfrontCost),
+      duration: durationStr,
+    };
+
+    if (options.dryRun) {
+      await writeSDL(sdl);
+      printCostBreakdown(out, sdl, totalUpfrontCost, config.funding?.split);
+      out.log(chalk.green.bold('  Dry run complete.'));
+      out.log(chalk.dim(`  SDL written to ${chalk.cyan(SDL_OUTPUT_PATH)}`));
+      out.log(chalk.dim('  No swap or deployment transactions were broadcast.\n'));
+      out.result<DeployResult>({
+        dryRun: true,
+        updated: false,
+        image: image.tag,
+        cost,
+        sdlPath: SDL_OUTPUT_PATH,
+      });
+      return;
     }
-    console.log(chalk.dim(`  - Network: ${options.testnet ? 'Sandbox (Testnet)' : 'Mainnet'}`));
-    console.log(chalk.dim(`  - Estimated cost: ~$${sdl.estimatedCost}/hour`));
-    console.log(chalk.dim(`  - Duration: ${formatDuration(durationHours)}`));
-    console.log(
-      chalk.bold.yellow(`  - Total Upfront Funding: ~$${totalUpfrontCost.toFixed(2)} USDC\n`)
-    );
 
     // Confirm deployment
-    if (!options.yes) {
+    if (!yes) {
+      out.assertInteractive('--yes');
       const { confirm } = await inquirer.prompt<{ confirm: boolean }>([
         {
           type: 'confirm',
           name: 'confirm',
-          message: 'Deploy to Akash Network?',
+          message: target
+            ? `Update deployment ${target.deployment.dseq}?`
+            : 'Deploy to Akash Network?',
           default: true,
         },
       ]);
       if (!confirm) {
-        console.log(chalk.yellow('\n  Deployment cancelled.\n'));
+        out.log(chalk.yellow('\n  Deployment cancelled.\n'));
         return;
       }
     }
 
-    spinner.start('Executing cross-chain swap (USDC -> AKT)...');
-    const economicEngine = new EconomicEngine(config, walletManager);
-    const swapResult = await economicEngine.executeSwap({
-      sourceToken: config.funding?.sourceToken || 'USDC',
-      amount: totalUpfrontCost,
-      destination: 'akash',
-    });
-    spinner.succeed(
-      `Swapped: ${swapResult.sourceAmount} USDC -> ${swapResult.destinationAmount} AKT`
-    );
+    let deployment: Deployment;
+    let lease: Lease;
+    let sealedSdl: SDLOutput;
+    // Repriced when the order is re-posted
+    let orderSdl = sdl;
+    let swap: DeployResult['swap'];
+    // Manifest version broadcast by --update, replacing the running one
+    let updatedVersion: string | undefined;
+    if (target) {
+      ({ deployment, lease } = target);
 
-    // Deploy to Akash
-    spinner.start('Broadcasting deployment to Akash...');
-    const deploymentManager = new DeploymentManager(config, walletManager);
-    const deployment = await deploymentManager.create(sdl);
-    spinner.succeed(`Deployment created: DSEQ ${chalk.cyan(deployment.dseq)}`);
+      spinner.start('Sealing secrets for provider...');
+      sealedSdl = await deploymentManager.sealSecrets(sdl, lease.provider);
+      spinner.succeed('Secrets sealed');
 
-    // Wait for bids
-    spinner.start('Waiting for provider bids...');
-    const bids = await deploymentManager.waitForBids(deployment.dseq);
-    spinner.succeed(`Received ${bids.length} bids`);
+      // The provider only accepts a manifest matching the on-chain version
+      spinner.start(`Updating deployment DSEQ ${deployment.dseq}...`);
+      updatedVersion = await categorized(
+        'deployment',
+        deploymentManager.update(deployment.dseq, sealedSdl)
+      );
+      spinner.succeed(`Manifest version: ${chalk.dim(updatedVersion)}`);
+    } else {
+      spinner.start('Executing cross-chain swap (USDC -> AKT)...');
+      const economicEngine = new EconomicEngine(config, walletManager);
+      const swapResult = await categorized(
+        'funding',
+        economicEngine.executeSwap({
+          sourceToken: config.funding?.sourceToken || 'USDC',
+          amount: totalUpfrontCost,
+          destination: 'akash',
+        })
+      );
+      spinner.succeed(
+        `Swapped: ${swapResult.sourceAmount} -> ${swapResult.destinationAmount}`
+      );
+      swap = {
+        txHash: swapResult.txHash,
+        source: money(swapResult.sourceAmount),
+        destination: money(swapResult.destinationAmount),
+      };
 
-    // Select best bid
-    spinner.start('Selecting provider...');
-    const selectedBid = await deploymentManager.selectBestBid(bids);
-    spinner.succeed(`Selected: ${chalk.cyan(selectedBid.provider)}`);
+      // Deploy to Akash
+      spinner.start('Broadcasting deployment to Akash...');
+      deployment = await categorized('deployment', deploymentManager.create(orderSdl));
+      spinner.succeed(`Deployment created: DSEQ ${chalk.cyan(deployment.dseq)}`);
 
-    // Create lease
-    spinner.start('Creating lease...');
-    const lease = await deploymentManager.createLease(deployment.dseq, selectedBid);
-    spinner.succeed('Lease created');
+      const first = await selectBid(out, deploymentManager, deployment.dseq, orderSdl);
+      let selectedBid = first.selectedBid;
+
+      // Re-post once with a lower ceiling rather than lease an overpriced bid
+      const { action, repostCeiling } = first.review;
+      if (action === 'repost' && repostCeiling !== undefined) {
+        spinner.start(`Re-posting order with a ceiling of ${repostCeiling} uakt/block...`);
+        ({ deployment, sdl: orderSdl } = await categorized(
+          'deployment',
+          deploymentManager.repost(deployment.dseq, orderSdl, repostCeiling)
+        ));
+        spinner.succeed(`Deployment created: DSEQ ${chalk.cyan(deployment.dseq)}`);
+
+        ({ selectedBid } = await selectBid(out, deploymentManager, deployment.dseq, orderSdl));
+      }
+
+      // Create lease
+      spinner.start('Creating lease...');
+      lease = await categorized(
+        'deployment',
+        deploymentManager.createLease(deployment.dseq, selectedBid)
+      );
+      spinner.succeed('Lease created');
+
+      // Seal secrets now that the provider is known
+      spinner.start('Sealing secrets for provider...');
+      sealedSdl = await deploymentManager.sealSecrets(orderSdl, selectedBid.provider);
+      spinner.succeed('Secrets sealed');
+    }
 
     // Send manifest
     spinner.start('Sending manifest to provider...');
-    await deploymentManager.sendManifest(lease, sdl);
+    await categorized('deployment', deploymentManager.sendManifest(lease, sealedSdl));
     spinner.succeed('Manifest deployed');
 
-    // Get service URL
-    spinner.start('Waiting for service to come online...');
-    const serviceUrl = await deploymentManager.waitForService(lease);
-    spinner.succeed('Service online');
+    // Get service URL, and only count the deploy once health checks pass
+    const checked = config.runtime?.healthCheck !== undefined;
+    spinner.start(
+      checked
+        ? 'Waiting for service to pass health checks...'
+        : 'Waiting for service to come online...'
+    );
+    const serviceUrl = await categorized(
+      'deployment',
+      deploymentManager.waitForService(lease).catch(async error => {
+        if (error instanceof HealthCheckError) {
+          spinner.fail('Health checks failed');
+          if (updatedVersion) {
+            await restorePrevious(out, deploymentManager, deployment, lease, updatedVersion, error);
+          }
+          await keepUnhealthy(deploymentManager, deployment, lease, image, error);
+        }
+        throw error;
+      })
+    );
+    spinner.succeed(checked ? 'Service online and healthy' : 'Service online');
 
     // Print success
-    console.log(chalk.green.bold('\n  Deployment successful!\n'));
-    console.log(`  ${chalk.bold('URL:')}         ${chalk.cyan(serviceUrl)}`);
-    console.log(`  ${chalk.bold('DSEQ:')}        ${deployment.dseq}`);
-    console.log(`  ${chalk.bold('Provider:')}    ${selectedBid.provider}`);
-    console.log(`  ${chalk.bold('Lease ID:')}    ${lease.id}`);
-    console.log();
-    console.log(chalk.dim(`  View logs:   ${chalk.cyan(`morpheus logs -d ${deployment.dseq}`)}`));
-    console.log(
+    out.log(chalk.green.bold(`\n  ${target ? 'Update' : 'Deployment'} successful!\n`));
+    out.log(`  ${chalk.bold('URL:')}         ${chalk.cyan(serviceUrl)}`);
+    out.log(`  ${chalk.bold('DSEQ:')}        ${deployment.dseq}`);
+    out.log(`  ${chalk.bold('Provider:')}    ${lease.provider}`);
+    out.log(`  ${chalk.bold('Lease ID:')}    ${lease.id}`);
+    out.log();
+    out.log(chalk.dim(`  View logs:   ${chalk.cyan(`morpheus logs -d ${deployment.dseq}`)}`));
+    out.log(
       chalk.dim(`  Check status: ${chalk.cyan(`morpheus status -d ${deployment.dseq}`)}\n`)
     );
 
     // Save deployment state
-    await deploymentManager.saveState(deployment, lease, serviceUrl);
+    await deploymentManager.saveState(deployment, lease, serviceUrl, image);
+
+    if (ci) {
+      await reportToGitHub(`Morpheus ${target ? 'update' : 'deployment'}: ${config.project}`, {
+        dseq: deployment.dseq,
+        url: serviceUrl,
+        provider: lease.provider,
+        'lease-id': lease.id,
+      });
+    }
+
+    out.result<DeployResult>({
+      dryRun: false,
+      updated: target !== undefined,
+      dseq: deployment.dseq,
+      lease: { id: lease.id, provider: lease.provider },
+      url: serviceUrl,
+      image: image.tag,
+      cost,
+      swap,
+    });
   } catch (error) {
-    spinner.fail('Deployment failed');
-    console.error(chalk.red('\nError:'), error instanceof Error ? error.message : error);
-    process.exit(1);
+    out.fail(error, 'Deployment failed');
+  }
+}
+
+/**
+ * Put back the last healthy manifest that was running before an update failed
+ * its health checks, recording it as a rollback from the update. Always throws,
+ * reporting the failed checks and what was restored.
+ */
+async function restorePrevious(
+  out: Output,
+  deploymentManager: DeploymentManager,
+  deployment: Deployment,
+  lease: Lease,
+  failedVersion: string,
+  failure: HealthCheckError
+): Promise<never> {
+  const previous = (await deploymentManager.getVersions())
+    .filter(entry => entry.dseq === lease.dseq && !entry.unhealthy)
+    .pop();
+  if (!previous) {
+    throw new CliError(`${failure.message}\nNo earlier healthy version to restore.`, 'deployment', {
+      cause: failure,
+    });
+  }
+
+  const version = previous.version.slice(0, 12);
+  out.spinner.start(`Restoring version ${version} (${previous.image})...`);
+  let url: string;
+  try {
+    const manifest = await deploymentManager.loadManifest(previous);
+    await deploymentManager.update(lease.dseq, manifest);
+    await deploymentManager.sendManifest(lease, manifest);
+    url = await deploymentManager.waitForService(lease);
+  } catch (error) {
+    out.spinner.fail(`Could not restore version ${version}`);
+    throw new CliError(
+      `${failure.message}\nRestoring version ${version} also failed: ` +
+        (error instanceof Error ? error.message : String(error)),
+      'deployment',
+      {
+        cause: failure,
+        hint: `The update is still on the lease; check ${chalk.cyan('morpheus logs')}.`,
+      }
+    );
+  }
+  out.spinner.succeed(`Restored version ${version} (${previous.image})`);
+
+  await deploymentManager.saveState(
+    deployment,
+    lease,
+    url,
+    { tag: previous.image, digest: previous.digest },
+    { rolledBackFrom: failedVersion }
+  );
+
+  throw new CliError(
+    `${failure.message}\nRestored version ${version} (${previous.image}).`,
+    'deployment',
+    { cause: failure }
+  );
+}
+
+/**
+ * Record a new deployment that failed its health checks, so its lease and
+ * escrow can still be found with `status`, `logs` and `close`. Always throws,
+ * reporting the failed checks and the DSEQ left running.
+ */
+async function keepUnhealthy(
+  deploymentManager: DeploymentManager,
+  deployment: Deployment,
+  lease: Lease,
+  image: SDLConfig['image'],
+  failure: HealthCheckError
+): Promise<never> {
+  await deploymentManager.saveState(deployment, lease, new URL(failure.url).host, image, {
+    unhealthy: true,
+  });
+
+  throw new CliError(
+    `${failure.message}\nDeployment DSEQ ${deployment.dseq} is still running on ` +
+      `${lease.provider} and holds its escrow.`,
+    'deployment',
+    {
+      cause: failure,
+      hint:
+        `Check ${chalk.cyan(`morpheus logs -d ${deployment.dseq}`)}, ` +
+        `then redeploy with ${chalk.cyan('--update')}\n` +
+        `  or run ${chalk.cyan(`morpheus close -d ${deployment.dseq}`)} to get the escrow back`,
+    }
+  );
+}
+
+/**
+ * Wait for bids on an order, pick one, and check its price against the estimate
+ */
+async function selectBid(
+  out: Output,
+  deploymentManager: DeploymentManager,
+  dseq: string,
+  sdl: SDLOutput
+): Promise<{ selectedBid: Bid; review: BidPriceReview }> {
+  const { spinner } = out;
+  spinner.start('Waiting for provider bids...');
+  const bids = await categorized('deployment', deploymentManager.waitForBids(dseq));
+  spinner.succeed(`Received ${bids.length} bids`);
+
+  spinner.start('Selecting provider...');
+  const selection = await deploymentManager.selectBestBid(bids);
+  spinner.succeed(`Selected: ${chalk.cyan(selection.selected.provider)}`);
+  printBids(out, selection.accepted, selection.rejected);
+
+  const review = await deploymentManager.reviewBidPrice(sdl, selection.selected, bids);
+  for (const warning of review.warnings) {
+    out.warn(warning);
+  }
+
+  return { selectedBid: selection.selected, review };
+}
+
+/**
+ * List every bid considered, best first, with the reason for each rejection
+ */
+function printBids(out: Output, accepted: Bid[], rejected: BidRejection<Bid>[]): void {
+  for (const [index, bid] of accepted.entries()) {
+    const mark = index === 0 ? chalk.green('*') : ' ';
+    out.log(chalk.dim(`  ${mark} ${bid.provider}  ${bid.price} uakt/block`));
+  }
+  for (const { bid, reason } of rejected) {
+    out.log(
+      chalk.dim(`  ${chalk.red('x')} ${bid.provider}  ${bid.price} uakt/block - ${reason}`)
+    );
+  }
+  out.log();
+}
+
+/**
+ * Write the SDL YAML. Secrets are left as placeholders, so the file holds no plaintext.
+ */
+async function writeSDL(sdl: SDLOutput): Promise<void> {
+  await mkdir(dirname(SDL_OUTPUT_PATH), { recursive: true });
+  await writeFile(SDL_OUTPUT_PATH, sdl.raw, 'utf-8');
+}
+
+function printCostBreakdown(
+  out: Output,
+  sdl: SDLOutput,
+  totalUpfrontCost: Amount,
+  split?: { staking: number; compute: number }
+): void {
+  out.log(chalk.dim('  Cost Breakdown (per hour):'));
+  for (const [name, placements] of Object.entries(sdl.deployment)) {
+    for (const { profile, count } of Object.values(placements)) {
+      const resources = sdl.profiles.compute[profile]!.resources;
+      const gpu = resources.gpu ? `, ${resources.gpu.units} GPU` : '';
+      out.log(
+        chalk.dim(
+          `  - ${name}: ${resources.cpu.units} CPU, ${resources.memory.size} RAM${gpu} x${count}` +
+            ` ~$${(sdl.serviceCosts[name] ?? 0).toFixed(4)}`
+        )
+      );
+    }
+  }
+
+  if (split) {
+    out.log(chalk.dim('\n  Funding Split:'));
+    out.log(
+      chalk.dim(`  - Compute (AKT): ~$${totalUpfrontCost.times(split.compute).toFixed(2)} USDC`)
+    );
+    out.log(
+      chalk.dim(`  - Staking (MOR): ~$${totalUpfrontCost.times(split.staking).toFixed(2)} USDC`)
+    );
   }
+  out.log();
 }
@@ -1,20 +1,45 @@
-import ora from 'ora';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
 import { loadConfig } from '../lib/config.js';
 import { WalletManager } from '../lib/wallet.js';
 import { DeploymentManager } from '../lib/deployment.js';
-import { EconomicEngine } from '@morpheus-deploy/core';
+import {
+  CliError,
+  Output,
+  categorized,
+  money,
+  type MoneyResult,
+  type OutputFormat,
+} from '../lib/output.js';
+import { Amount, EconomicEngine, USDC } from '@morpheus-deploy/core';
 
 interface FundOptions {
   deployment?: string;
   amount?: string;
+  yes?: boolean;
+  output?: OutputFormat;
 }
 
-export async function fundCommand(options: FundOptions): Promise<void> {
-  console.log(chalk.bold.cyan('\n  Morpheus Fund\n'));
+/** `morpheus fund --output json` result */
+export interface FundResult {
+  dseq: string;
+  txHash: string;
+  swap: {
+    source: MoneyResult;
+    destination: MoneyResult;
+    fees: MoneyResult;
+    route: string[];
+  };
+  escrow?: {
+    balance: MoneyResult;
+    estimatedTimeRemaining: string;
+  };
+}
 
-  const spinner = ora();
+export async function fundCommand(options: FundOptions): Promise<void> {
+  const out = new Output('fund', options.output);
+  const { spinner } = out;
+  out.log(chalk.bold.cyan('\n  Morpheus Fund\n'));
 
   try {
     // Load configuration
@@ -31,9 +56,9 @@ export async function fundCommand(options: FundOptions): Promise<void> {
       spinner.start('Loading active deployment...');
       const activeDeployment = await deploymentManager.getActiveDeployment();
       if (!activeDeployment) {
-        spinner.fail('No active deployment found');
-        console.log(chalk.dim(`  Use ${chalk.cyan('morpheus fund -d <dseq>')} to specify a deployment\n`));
-        process.exit(1);
+        throw new CliError('No active deployment found', 'general', {
+          hint: `Use ${chalk.cyan('morpheus fund -d <dseq>')} to specify a deployment`,
+        });
       }
       dseq = activeDeployment.dseq;
       spinner.stop();
@@ -43,17 +68,16 @@ export async function fundCommand(options: FundOptions): Promise<void> {
     spinner.start('Fetching deployment status...');
     const status = await deploymentManager.getStatus(dseq);
     if (!status) {
-      spinner.fail('Deployment not found');
-      process.exit(1);
+      throw new CliError(`Deployment ${dseq} not found`, 'general');
     }
     spinner.succeed(`Deployment: ${chalk.cyan(dseq)}`);
 
     // Show current escrow status
-    console.log();
-    console.log(chalk.bold('  Current Escrow Status:'));
-    console.log(`    ${chalk.dim('Balance:')}      ${status.escrowBalance.toFixed(4)} AKT`);
-    console.log(`    ${chalk.dim('Time left:')}    ${status.estimatedTimeRemaining}`);
-    console.log();
+    out.log();
+    out.log(chalk.bold('  Current Escrow Status:'));
+    out.log(`    ${chalk.dim('Balance:')}      ${status.escrowBalance.toFixed(4)} AKT`);
+    out.log(`    ${chalk.dim('Time left:')}    ${status.estimatedTimeRemaining}`);
+    out.log();
 
     // Check wallet balance
     spinner.start('Checking wallet balance...');
@@ -61,9 +85,10 @@ export async function fundCommand(options: FundOptions): Promise<void> {
     spinner.succeed(`Wallet balance: $${balance.usdc} USDC`);
 
     // Determine amount to fund
-    let amount = options.amount ? parseFloat(options.amount) : undefined;
+    let amount = options.amount ? Amount.parse(options.amount, USDC) : undefined;
 
     if (!amount) {
+      out.assertInteractive('--amount');
       const { fundAmount } = await inquirer.prompt<{ fundAmount: string }>([
         {
           type: 'list',
@@ -86,22 +111,27 @@ export async function fundCommand(options: FundOptions): Promise<void> {
             name: 'customAmount',
             message: 'Enter amount in USDC:',
             validate: (input: string) => {
-              const num = parseFloat(input);
-              if (isNaN(num) || num <= 0) return 'Please enter a valid positive number';
-              return true;
+              try {
+                if (Amount.parse(input, USDC).gt(Amount.zero(USDC))) return true;
+              } catch {
+                // Not a decimal, or more precise than USDC allows
+              }
+              return 'Please enter a valid positive amount';
             },
           },
         ]);
-        amount = parseFloat(customAmount);
+        amount = Amount.parse(customAmount, USDC);
       } else {
-        amount = parseFloat(fundAmount);
+        amount = Amount.parse(fundAmount, USDC);
       }
     }
 
     // Check if user has enough balance
-    if (balance.usdc < amount) {
-      console.log(chalk.red(`\n  Insufficient balance. You have $${balance.usdc} USDC but requested $${amount}.\n`));
-      process.exit(1);
+    if (Amount.from(balance.usdc, USDC).lt(amount)) {
+      throw new CliError(
+        `Insufficient balance. You have $${balance.usdc} USDC but requested $${amount.toDecimal()}.`,
+        'funding'
+      );
     }
 
     // Get swap quote
@@ -111,44 +141,53 @@ export async function fundCommand(options: FundOptions): Promise<void> {
       amount,
       destination: 'akash',
     });
-    spinner.succeed(`Quote: ${amount} USDC -> ${quote.destinationAmount.toFixed(4)} AKT`);
+    spinner.succeed(`Quote: ${amount} -> ${quote.destinationAmount.toFixed(4)} AKT`);
 
     // Confirm transaction
-    console.log();
-    console.log(chalk.bold('  Transaction Summary:'));
-    console.log(`    ${chalk.dim('Source:')}       ${amount} USDC (Base)`);
-    console.log(`    ${chalk.dim('Destination:')}  ${quote.destinationAmount.toFixed(4)} AKT (Akash)`);
-    console.log(`    ${chalk.dim('Fee:')}          ~$${quote.estimatedFee.toFixed(2)}`);
-    console.log(`    ${chalk.dim('Route:')}        ${quote.route.join(' -> ')}`);
-    console.log();
-
-    const { confirm } = await inquirer.prompt<{ confirm: boolean }>([
-      {
-        type: 'confirm',
-        name: 'confirm',
-        message: 'Execute swap and fund deployment?',
-        default: true,
-      },
-    ]);
+    out.log();
+    out.log(chalk.bold('  Transaction Summary:'));
+    out.log(`    ${chalk.dim('Source:')}       ${amount} (Base)`);
+    out.log(`    ${chalk.dim('Destination:')}  ${quote.destinationAmount.toFixed(4)} AKT (Akash)`);
+    out.log(`    ${chalk.dim('Fee:')}          ~$${quote.estimatedFee.toFixed(2)}`);
+    out.log(`    ${chalk.dim('Route:')}        ${quote.route.join(' -> ')}`);
+    out.log();
+
+    if (!options.yes) {
+      out.assertInteractive('--yes');
+      const { confirm } = await inquirer.prompt<{ confirm: boolean }>([
+        {
+          type: 'confirm',
+          name: 'confirm',
+          message: 'Execute swap and fund deployment?',
+          default: true,
+        },
+      ]);
 
-    if (!confirm) {
-      console.log(chalk.yellow('\n  Transaction cancelled.\n'));
-      return;
+      if (!confirm) {
+        out.log(chalk.yellow('\n  Transaction cancelled.\n'));
+        return;
+      }
     }
 
     // Execute cross-chain swap
     spinner.start('Executing cross-chain swap...');
-    const swapResult = await economicEngine.executeSwap({
-      sourceToken: 'USDC',
-      amount,
-      destination: 'akash',
-      dseq, // Target deployment escrow
-    });
-    spinner.succeed(`Swapped: ${swapResult.sourceAmount} USDC -> ${swapResult.destinationAmount} AKT`);
+    const swapResult = await categorized(
+      'funding',
+      economicEngine.executeSwap({
+        sourceToken: 'USDC',
+        amount,
+        destination: 'akash',
+        dseq, // Target deployment escrow
+      })
+    );
+    spinner.succeed(`Swapped: ${swapResult.sourceAmount} -> ${swapResult.destinationAmount}`);
 
     // Deposit to escrow
     spinner.start('Depositing to deployment escrow...');
-    await deploymentManager.depositToEscrow(dseq, swapResult.destinationAmount);
+    await categorized(
+      'funding',
+      deploymentManager.depositToEscrow(dseq, swapResult.destinationAmount)
+    );
     spinner.succeed('Funds deposited');
 
     // Get updated status
@@ -157,17 +196,32 @@ export async function fundCommand(options: FundOptions): Promise<void> {
     spinner.stop();
 
     // Print success
-    console.log(chalk.green.bold('\n  Funding successful!\n'));
-    console.log(chalk.bold('  Updated Escrow Status:'));
-    console.log(`    ${chalk.dim('Balance:')}      ${updatedStatus!.escrowBalance.toFixed(4)} AKT`);
-    console.log(`    ${chalk.dim('Time left:')}    ${updatedStatus!.estimatedTimeRemaining}`);
-    console.log();
-    console.log(chalk.dim(`  Transaction: ${swapResult.txHash}`));
-    console.log();
+    out.log(chalk.green.bold('\n  Funding successful!\n'));
+    out.log(chalk.bold('  Updated Escrow Status:'));
+    out.log(`    ${chalk.dim('Balance:')}      ${updatedStatus!.escrowBalance.toFixed(4)} AKT`);
+    out.log(`    ${chalk.dim('Time left:')}    ${updatedStatus!.estimatedTimeRemaining}`);
+    out.log();
+    out.log(chalk.dim(`  Transaction: ${swapResult.txHash}`));
+    out.log();
+
+    out.result<FundResult>({
+      dseq,
+      txHash: swapResult.txHash,
+      swap: {
+        source: money(swapResult.sourceAmount),
+        destination: money(swapResult.destinationAmount),
+        fees: money(swapResult.fees),
+        route: swapResult.route,
+      },
+      escrow: updatedStatus
+        ? {
+            balance: money(updatedStatus.escrowBalance),
+            estimatedTimeRemaining: updatedStatus.estimatedTimeRemaining,
+          }
+        : undefined,
+    });
 
   } catch (error) {
-    spinner.fail('Funding failed');
-    console.error(chalk.red('\nError:'), error instanceof Error ? error.message : error);
-    process.exit(1);
+    out.fail(error, 'Funding failed');
   }
 }
@@ -3,14 +3,15 @@ import { writeFile, mkdir } from 'fs/promises';
 
 import chalk from 'chalk';
 import inquirer from 'inquirer';
-import ora from 'ora';
 
 import { generateMorpheusConfig } from '../lib/config.js';
+import { CliError, Output, type OutputFormat } from '../lib/output.js';
 import { WalletManager } from '../lib/wallet.js';
 
 interface InitOptions {
   template: string;
   skipWallet?: boolean;
+  output?: OutputFormat;
 }
 
 interface ProjectAnswers {
@@ -23,6 +24,15 @@ interface ProjectAnswers {
 }
 
 export async function initCommand(options: InitOptions): Promise<void> {
+  const out = new Output('init', options.output);
+  // Every step is a prompt, so there is nothing to run unattended
+  if (out.machine) {
+    out.fail(
+      new CliError('morpheus init is interactive; run it with --output text', 'general'),
+      'Initialization failed'
+    );
+  }
+
   console.log(chalk.bold.cyan('\n  Morpheus - Decentralized AI Deployment\n'));
   console.log(chalk.dim('  The Vercel for DePin\n'));
 
@@ -120,7 +130,8 @@ export async function initCommand(options: InitOptions): Promise<void> {
     },
   ]);
 
-  const spinner = ora('Initializing project...').start();
+  const { spinner } = out;
+  spinner.start('Initializing project...');
 
   try {
     // Generate morpheus.yaml configuration
@@ -179,8 +190,6 @@ export async function initCommand(options: InitOptions): Promise<void> {
     }
 
   } catch (error) {
-    spinner.fail('Initialization failed');
-    console.error(chalk.red('\nError:'), error instanceof Error ? error.message : error);
-    process.exit(1);
+    out.fail(error, 'Initialization failed');
   }
 }
@@ -1,19 +1,31 @@
-import ora from 'ora';
 import chalk from 'chalk';
 import WebSocket from 'ws';
 import { loadConfig } from '../lib/config.js';
 import { WalletManager } from '../lib/wallet.js';
 import { DeploymentManager } from '../lib/deployment.js';
+import { CliError, Output, type OutputFormat } from '../lib/output.js';
 
 interface LogsOptions {
   deployment?: string;
   follow?: boolean;
+  output?: OutputFormat;
 }
 
-export async function logsCommand(options: LogsOptions): Promise<void> {
-  console.log(chalk.bold.cyan('\n  Morpheus Logs\n'));
+/**
+ * One line of `morpheus logs --output json`. Lines the relay sends as plain
+ * text only have `message`.
+ */
+export interface LogRecord {
+  timestamp?: string;
+  service?: string;
+  level?: string;
+  message: string;
+}
 
-  const spinner = ora();
+export async function logsCommand(options: LogsOptions): Promise<void> {
+  const out = new Output('logs', options.output);
+  const { spinner } = out;
+  out.log(chalk.bold.cyan('\n  Morpheus Logs\n'));
 
   try {
     // Load configuration
@@ -29,9 +41,9 @@ export async function logsCommand(options: LogsOptions): Promise<void> {
       spinner.start('Loading active deployment...');
       const activeDeployment = await deploymentManager.getActiveDeployment();
       if (!activeDeployment) {
-        spinner.fail('No active deployment found');
-        console.log(chalk.dim(`  Use ${chalk.cyan('morpheus logs -d <dseq>')} to specify a deployment\n`));
-        process.exit(1);
+        throw new CliError('No active deployment found', 'general', {
+          hint: `Use ${chalk.cyan('morpheus logs -d <dseq>')} to specify a deployment`,
+        });
       }
       dseq = activeDeployment.dseq;
       spinner.succeed(`Deployment: ${chalk.cyan(dseq)}`);
@@ -41,14 +53,13 @@ export async function logsCommand(options: LogsOptions): Promise<void> {
     spinner.start('Connecting to provider...');
     const lease = await deploymentManager.getLease(dseq);
     if (!lease) {
-      spinner.fail('Lease not found for deployment');
-      process.exit(1);
+      throw new CliError(`Lease not found for deployment ${dseq}`, 'deployment');
     }
     spinner.succeed(`Provider: ${chalk.dim(lease.provider)}`);
 
     // Connect to log relay WebSocket
-    console.log(chalk.dim('\n  Streaming logs (Ctrl+C to exit)...\n'));
-    console.log(chalk.dim('  ─'.repeat(40)));
+    out.log(chalk.dim('\n  Streaming logs (Ctrl+C to exit)...\n'));
+    out.log(chalk.dim('  ─'.repeat(40)));
 
     const logRelayUrl = await deploymentManager.getLogRelayUrl(lease);
 
@@ -72,6 +83,11 @@ export async function logsCommand(options: LogsOptions): Promise<void> {
           const service = message.service || 'agent';
           const level = message.level || 'info';
 
+          if (out.machine) {
+            out.record({ timestamp, service, level, message: message.message } satisfies LogRecord);
+            return;
+          }
+
           // Color code by level
           let levelColor = chalk.dim;
           if (level === 'error') levelColor = chalk.red;
@@ -83,32 +99,44 @@ export async function logsCommand(options: LogsOptions): Promise<void> {
           if (service === 'postgres') serviceColor = chalk.blue;
           else if (service === 'vector') serviceColor = chalk.magenta;
 
-          console.log(
+          out.log(
             chalk.dim(`[${timestamp}]`),
             serviceColor(`[${service}]`),
             levelColor(message.message)
           );
         } else if (message.type === 'error') {
-          console.error(chalk.red(`  Error: ${message.message}`));
+          if (out.machine) {
+            spinner.warn(message.message);
+          } else {
+            console.error(chalk.red(`  Error: ${message.message}`));
+          }
         }
       } catch {
         // Raw log line
-        console.log(chalk.dim('  '), data.toString().trim());
+        if (out.machine) {
+          out.record({ message: data.toString().trim() } satisfies LogRecord);
+        } else {
+          console.log(chalk.dim('  '), data.toString().trim());
+        }
       }
     });
 
     ws.on('error', (error) => {
-      console.error(chalk.red('\n  WebSocket error:'), error.message);
+      if (out.machine) {
+        spinner.warn(`WebSocket error: ${error.message}`);
+      } else {
+        console.error(chalk.red('\n  WebSocket error:'), error.message);
+      }
     });
 
     ws.on('close', () => {
-      console.log(chalk.dim('\n  ─'.repeat(40)));
-      console.log(chalk.dim('  Connection closed\n'));
+      out.log(chalk.dim('\n  ─'.repeat(40)));
+      out.log(chalk.dim('  Connection closed\n'));
     });
 
     // Handle Ctrl+C gracefully
     process.on('SIGINT', () => {
-      console.log(chalk.dim('\n\n  Disconnecting...'));
+      out.log(chalk.dim('\n\n  Disconnecting...'));
       ws.close();
       process.exit(0);
     });
@@ -127,8 +155,6 @@ export async function logsCommand(options: LogsOptions): Promise<void> {
     }
 
   } catch (error) {
-    spinner.fail('Failed to stream logs');
-    console.error(chalk.red('\nError:'), error instanceof Error ? error.message : error);
-    process.exit(1);
+    out.fail(error, 'Failed to stream logs');
   }
 }
@@ -0,0 +1,193 @@
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+
+import { loadConfig } from '../lib/config.js';
+import { DeploymentManager, type DeploymentVersion } from '../lib/deployment.js';
+import { CliError, Output, categorized, type OutputFormat } from '../lib/output.js';
+import { WalletManager } from '../lib/wallet.js';
+
+interface RollbackOptions {
+  deployment?: string;
+  to?: string;
+  list?: boolean;
+  env?: string;
+  yes?: boolean;
+  output?: OutputFormat;
+}
+
+/** A version in the history of one deployment, numbered from 1 */
+export interface RollbackVersion extends DeploymentVersion {
+  number: number;
+}
+
+/** `morpheus rollback --output json` result */
+export interface RollbackResult {
+  dseq: string;
+  /** Version that was running */
+  from: RollbackVersion;
+  /** Version restored */
+  to: RollbackVersion;
+  url: string;
+}
+
+/** `morpheus rollback --list --output json` result */
+export interface RollbackListResult {
+  dseq: string;
+  /** Oldest first; the last is running */
+  versions: RollbackVersion[];
+}
+
+export async function rollbackCommand(options: RollbackOptions): Promise<void> {
+  const out = new Output('rollback', options.output);
+  const { spinner } = out;
+  out.log(chalk.bold.cyan('\n  Morpheus Rollback\n'));
+
+  try {
+    const config = await loadConfig('morpheus.yaml', options.env);
+    const walletManager = new WalletManager();
+    const deploymentManager = new DeploymentManager(config, walletManager, options.env);
+
+    const deployment = await deploymentManager.getActiveDeployment();
+    const lease = await deploymentManager.getActiveLease();
+    const dseq = options.deployment ?? deployment?.dseq;
+    if (!deployment || !lease || lease.dseq !== dseq || deployment.dseq !== dseq) {
+      throw new CliError(
+        dseq
+          ? `No lease for deployment ${dseq} in this project`
+          : 'No active deployment with a lease to roll back',
+        'deployment',
+        { hint: 'Only the active deployment of a project, or of an --env, can be rolled back.' }
+      );
+    }
+
+    const versions = (await deploymentManager.getVersions())
+      .filter(entry => entry.dseq === dseq)
+      .map((entry, index) => ({ ...entry, number: index + 1 }));
+    const current = versions.at(-1);
+    if (!current) {
+      throw new CliError(`No versions of deployment ${dseq} were recorded`, 'general');
+    }
+
+    if (options.list) {
+      printVersions(out, versions);
+      out.result<RollbackListResult>({ dseq, versions });
+      return;
+    }
+
+    const target = options.to
+      ? findVersion(versions, options.to)
+      : previousVersion(versions, current);
+    if (target.version === current.version) {
+      throw new CliError(
+        `Version ${target.number} (${short(target)}) is already running on ${dseq}`,
+        'general'
+      );
+    }
+    const manifest = await deploymentManager.loadManifest(target);
+
+    out.log(`  ${chalk.bold('Deployment:')} ${chalk.cyan(dseq)} on ${lease.provider}`);
+    out.log(`  ${chalk.bold('Running:')}    ${label(current)}`);
+    out.log(`  ${chalk.bold('Restoring:')}  ${label(target)}\n`);
+
+    if (!options.yes) {
+      out.assertInteractive('--yes');
+      const { confirm } = await inquirer.prompt<{ confirm: boolean }>([
+        {
+          type: 'confirm',
+          name: 'confirm',
+          message: `Roll back ${dseq} to version ${target.number}?`,
+          default: false,
+        },
+      ]);
+      if (!confirm) {
+        out.log(chalk.yellow('\n  Rollback cancelled.\n'));
+        return;
+      }
+    }
+
+    // The provider only accepts a manifest matching the on-chain version
+    spinner.start(`Restoring manifest version ${short(target)}...`);
+    await categorized('deployment', deploymentManager.update(dseq, manifest));
+    await categorized('deployment', deploymentManager.sendManifest(lease, manifest));
+    spinner.succeed(`Manifest version ${chalk.dim(short(target))} sent`);
+
+    spinner.start('Waiting for service to come online...');
+    const url = await categorized('deployment', deploymentManager.waitForService(lease));
+    spinner.succeed('Service online');
+
+    await deploymentManager.saveState(
+      deployment,
+      lease,
+      url,
+      { tag: target.image, digest: target.digest },
+      { rolledBackFrom: current.version }
+    );
+
+    out.log(chalk.green.bold('\n  Rollback successful!\n'));
+    out.log(`  ${chalk.bold('URL:')}   ${chalk.cyan(url)}`);
+    out.log(`  ${chalk.bold('Image:')} ${target.image}\n`);
+
+    out.result<RollbackResult>({ dseq, from: current, to: target, url });
+  } catch (error) {
+    out.fail(error, 'Rollback failed');
+  }
+}
+
+/**
+ * Version named with --to: its number in the history, or a prefix of its
+ * manifest version hash
+ */
+function findVersion(versions: RollbackVersion[], to: string): RollbackVersion {
+  if (/^\d+$/.test(to)) {
+    const numbered = versions[Number(to) - 1];
+    if (!numbered) {
+      throw new CliError(`No version ${to}; there are ${versions.length}`, 'general', {
+        hint: `List them with ${chalk.cyan('morpheus rollback --list')}`,
+      });
+    }
+    return numbered;
+  }
+
+  // The most recent entry, for a version that was deployed more than once
+  const matches = versions.filter(entry => entry.version.startsWith(to));
+  const match = matches.at(-1);
+  if (!match || matches.some(entry => entry.version !== match.version)) {
+    throw new CliError(
+      match ? `"${to}" matches more than one version` : `No version matches "${to}"`,
+      'general',
+      { hint: `List them with ${chalk.cyan('morpheus rollback --list')}` }
+    );
+  }
+  return match;
+}
+
+/** The last version that differs from the one running */
+function previousVersion(versions: RollbackVersion[], current: RollbackVersion): RollbackVersion {
+  const previous = versions
+    .filter(entry => entry.version !== current.version && !entry.unhealthy)
+    .at(-1);
+  if (!previous) {
+    throw new CliError('There is no earlier healthy version to roll back to', 'general');
+  }
+  return previous;
+}
+
+function printVersions(out: Output, versions: RollbackVersion[]): void {
+  for (const entry of versions) {
+    const running = entry.number === versions.length ? chalk.green(' (running)') : '';
+    out.log(`  ${String(entry.number).padStart(3)}  ${label(entry)}${running}`);
+    if (entry.rolledBackFrom) {
+      out.log(chalk.dim(`       rollback from ${entry.rolledBackFrom.slice(0, 12)}`));
+    }
+  }
+  out.log();
+}
+
+function label(entry: RollbackVersion): string {
+  const deployed = new Date(entry.deployedAt).toLocaleString();
+  return `${chalk.dim(short(entry))} ${entry.image} ${chalk.dim(deployed)}`;
+}
+
+function short(entry: DeploymentVersion): string {
+  return entry.version.slice(0, 12);
+}
@@ -1,26 +1,60 @@
-import ora from 'ora';
+import { AKT, Amount } from '@morpheus-deploy/core';
 import chalk from 'chalk';
+
 import { loadConfig } from '../lib/config.js';
+import {
+  DeploymentManager,
+  type Deployment,
+  type DeploymentStatus,
+  type DeploymentVersion,
+} from '../lib/deployment.js';
+import { CliError, Output, money, type MoneyResult, type OutputFormat } from '../lib/output.js';
 import { WalletManager } from '../lib/wallet.js';
-import { DeploymentManager, type Deployment, type DeploymentStatus } from '../lib/deployment.js';
+
+/** Escrow balance below which status suggests `morpheus fund` */
+const LOW_ESCROW = Amount.parse('10', AKT);
 
 interface StatusOptions {
   deployment?: string;
   all?: boolean;
+  env?: string;
+  output?: OutputFormat;
 }
 
-export async function statusCommand(options: StatusOptions): Promise<void> {
-  console.log(chalk.bold.cyan('\n  Morpheus Status\n'));
+/** `morpheus status --output json` result for one deployment */
+export interface StatusResult {
+  dseq: string;
+  state: DeploymentStatus['state'];
+  provider: string;
+  url?: string;
+  createdAt: string;
+  resources: DeploymentStatus['resources'];
+  escrow: {
+    balance: MoneyResult;
+    estimatedTimeRemaining: string;
+    /** Below the balance at which status suggests `morpheus fund` */
+    low: boolean;
+  };
+  version?: DeploymentVersion;
+}
 
-  const spinner = ora();
+/** `morpheus status --all --output json` result */
+export interface StatusListResult {
+  deployments: { dseq: string; state: Deployment['state']; createdAt: string }[];
+}
+
+export async function statusCommand(options: StatusOptions): Promise<void> {
+  const out = new Output('status', options.output);
+  const { spinner } = out;
+  out.log(chalk.bold.cyan('\n  Morpheus Status\n'));
 
   try {
     // Load configuration
-    const config = await loadConfig('morpheus.yaml');
+    const config = await loadConfig('morpheus.yaml', options.env);
 
     // Initialize managers
     const walletManager = new WalletManager();
-    const deploymentManager = new DeploymentManager(config, walletManager);
+    const deploymentManager = new DeploymentManager(config, walletManager, options.env);
 
     if (options.all) {
       // List all deployments
@@ -29,16 +63,23 @@ export async function statusCommand(options: StatusOptions): Promise<void> {
       spinner.stop();
 
       if (deployments.length === 0) {
-        console.log(chalk.dim('  No deployments found.\n'));
-        return;
+        out.log(chalk.dim('  No deployments found.\n'));
+      } else {
+        out.log(chalk.bold(`  Found ${deployments.length} deployment(s):\n`));
       }
 
-      console.log(chalk.bold(`  Found ${deployments.length} deployment(s):\n`));
-
       for (const deployment of deployments) {
-        printDeploymentSummary(deployment);
+        printDeploymentSummary(out, deployment);
       }
 
+      out.result<StatusListResult>({
+        deployments: deployments.map(({ dseq, state, createdAt }) => ({
+          dseq,
+          state,
+          createdAt: createdAt.toISOString(),
+        })),
+      });
+
     } else {
       // Show specific or active deployment
       let dseq = options.deployment;
@@ -47,10 +88,17 @@ export async function statusCommand(options: StatusOptions): Promise<void> {
         spinner.start('Loading active deployment...');
         const activeDeployment = await deploymentManager.getActiveDeployment();
         if (!activeDeployment) {
-          spinner.fail('No active deployment found');
-          console.log(chalk.dim(`\n  Use ${chalk.cyan('morpheus status --all')} to list all deployments`));
-          console.log(chalk.dim(`  Use ${chalk.cyan('morpheus status -d <dseq>')} for a specific deployment\n`));
-          process.exit(1);
+          throw new CliError(
+            options.env
+              ? `No active deployment found for environment "${options.env}"`
+              : 'No active deployment found',
+            'general',
+            {
+              hint:
+                `Use ${chalk.cyan('morpheus status --all')} to list all deployments\n` +
+                `  Use ${chalk.cyan('morpheus status -d <dseq>')} for a specific deployment`,
+            }
+          );
         }
         dseq = activeDeployment.dseq;
         spinner.stop();
@@ -61,27 +109,40 @@ export async function statusCommand(options: StatusOptions): Promise<void> {
       spinner.stop();
 
       if (!status) {
-        console.log(chalk.red(`  Deployment ${dseq} not found.\n`));
-        process.exit(1);
+        throw new CliError(`Deployment ${dseq} not found`, 'general');
       }
 
-      printDeploymentStatus(status, true);
+      printDeploymentStatus(out, status, true);
 
       // Show escrow warning if low
-      if (status.escrowBalance < 10) {
-        console.log(chalk.yellow.bold('\n  Warning: Low escrow balance!'));
-        console.log(chalk.dim(`  Run ${chalk.cyan(`morpheus fund -d ${dseq}`)} to add funds\n`));
+      const low = status.escrowBalance.lt(LOW_ESCROW);
+      if (low) {
+        out.log(chalk.yellow.bold('\n  Warning: Low escrow balance!'));
+        out.log(chalk.dim(`  Run ${chalk.cyan(`morpheus fund -d ${dseq}`)} to add funds\n`));
       }
+
+      out.result<StatusResult>({
+        dseq: status.dseq,
+        state: status.state,
+        provider: status.provider,
+        url: status.url,
+        createdAt: status.createdAt.toISOString(),
+        resources: status.resources,
+        escrow: {
+          balance: money(status.escrowBalance),
+          estimatedTimeRemaining: status.estimatedTimeRemaining,
+          low,
+        },
+        version: status.version,
+      });
     }
 
   } catch (error) {
-    spinner.fail('Failed to get status');
-    console.error(chalk.red('\nError:'), error instanceof Error ? error.message : error);
-    process.exit(1);
+    out.fail(error, 'Failed to get status');
   }
 }
 
-function printDeploymentStatus(status: DeploymentStatus, detailed = false): void {
+function printDeploymentStatus(out: Output, status: DeploymentStatus, detailed = false): void {
   // Status indicator
   let stateIcon: string;
   let stateColor: typeof chalk;
@@ -103,39 +164,51 @@ function printDeploymentStatus(status: DeploymentStatus, detailed = false): void
       stateColor = chalk.gray;
   }
 
-  console.log(`  ${stateColor(stateIcon)} ${chalk.bold('DSEQ:')} ${status.dseq}`);
-  console.log(`    ${chalk.dim('State:')}     ${stateColor(status.state.toUpperCase())}`);
-  console.log(`    ${chalk.dim('Provider:')}  ${status.provider}`);
+  out.log(`  ${stateColor(stateIcon)} ${chalk.bold('DSEQ:')} ${status.dseq}`);
+  out.log(`    ${chalk.dim('State:')}     ${stateColor(status.state.toUpperCase())}`);
+  out.log(`    ${chalk.dim('Provider:')}  ${status.provider}`);
 
   if (status.url) {
-    console.log(`    ${chalk.dim('URL:')}       ${chalk.cyan(status.url)}`);
+    out.log(`    ${chalk.dim('URL:')}       ${chalk.cyan(status.url)}`);
   }
 
   if (detailed) {
-    console.log();
-    console.log(chalk.bold('  Resources:'));
-    console.log(`    ${chalk.dim('CPU:')}       ${status.resources.cpu} units`);
-    console.log(`    ${chalk.dim('Memory:')}    ${status.resources.memory}`);
+    out.log();
+    out.log(chalk.bold('  Resources:'));
+    out.log(`    ${chalk.dim('CPU:')}       ${status.resources.cpu} units`);
+    out.log(`    ${chalk.dim('Memory:')}    ${status.resources.memory}`);
     if (status.resources.gpu) {
-      console.log(`    ${chalk.dim('GPU:')}       ${status.resources.gpu.model} x${status.resources.gpu.units}`);
+      out.log(`    ${chalk.dim('GPU:')}       ${status.resources.gpu.model} x${status.resources.gpu.units}`);
     }
 
-    console.log();
-    console.log(chalk.bold('  Escrow:'));
-    console.log(`    ${chalk.dim('Balance:')}   ${status.escrowBalance.toFixed(4)} AKT`);
-    console.log(`    ${chalk.dim('Time left:')} ${status.estimatedTimeRemaining}`);
-
-    console.log();
-    console.log(chalk.bold('  Metadata:'));
-    console.log(`    ${chalk.dim('Created:')}   ${status.createdAt.toLocaleString()}`);
+    out.log();
+    out.log(chalk.bold('  Escrow:'));
+    out.log(`    ${chalk.dim('Balance:')}   ${status.escrowBalance.toFixed(4)} AKT`);
+    out.log(`    ${chalk.dim('Time left:')} ${status.estimatedTimeRemaining}`);
+
+    out.log();
+    out.log(chalk.bold('  Metadata:'));
+    out.log(`    ${chalk.dim('Created:')}   ${status.createdAt.toLocaleString()}`);
+    if (status.version) {
+      const digest = status.version.digest ? chalk.dim(` (${status.version.digest})`) : '';
+      out.log(`    ${chalk.dim('Version:')}   ${status.version.version.slice(0, 12)}`);
+      out.log(`    ${chalk.dim('Image:')}     ${status.version.image}${digest}`);
+      out.log(`    ${chalk.dim('Deployed:')}  ${new Date(status.version.deployedAt).toLocaleString()}`);
+      if (status.version.rolledBackFrom) {
+        out.log(`    ${chalk.dim('Rollback:')}  from ${status.version.rolledBackFrom.slice(0, 12)}`);
+      }
+      if (status.version.unhealthy) {
+        out.log(`    ${chalk.dim('Health:')}    ${chalk.red('failed its health checks')}`);
+      }
+    }
   } else {
-    console.log(`    ${chalk.dim('Escrow:')}    ${status.escrowBalance.toFixed(2)} AKT (${status.estimatedTimeRemaining})`);
+    out.log(`    ${chalk.dim('Escrow:')}    ${status.escrowBalance.toFixed(2)} AKT (${status.estimatedTimeRemaining})`);
   }
 
-  console.log();
+  out.log();
 }
 
-function printDeploymentSummary(deployment: Deployment): void {
+function printDeploymentSummary(out: Output, deployment: Deployment): void {
   // Status indicator
   let stateIcon: string;
   let stateColor: typeof chalk;
@@ -157,8 +230,8 @@ function printDeploymentSummary(deployment: Deployment): void {
       stateColor = chalk.gray;
   }
 
-  console.log(`  ${stateColor(stateIcon)} ${chalk.bold('DSEQ:')} ${deployment.dseq}`);
-  console.log(`    ${chalk.dim('State:')}     ${stateColor(deployment.state.toUpperCase())}`);
-  console.log(`    ${chalk.dim('Created:')}   ${deployment.createdAt.toLocaleString()}`);
-  console.log();
+  out.log(`  ${stateColor(stateIcon)} ${chalk.bold('DSEQ:')} ${deployment.dseq}`);
+  out.log(`    ${chalk.dim('State:')}     ${stateColor(deployment.state.toUpperCase())}`);
+  out.log(`    ${chalk.dim('Created:')}   ${deployment.createdAt.toLocaleString()}`);
+  out.log();
 }
@@ -0,0 +1,173 @@
+import { createServer, type Server } from 'http';
+
+import { AkashClient } from '@morpheus-deploy/contracts';
+import { Amount, AKT, EconomicEngine, SpendTracker } from '@morpheus-deploy/core';
+import chalk from 'chalk';
+
+import { FileSpendStore } from '../lib/budget.js';
+import { loadConfig } from '../lib/config.js';
+import { DeploymentManager } from '../lib/deployment.js';
+import { CliError, Output, type OutputFormat } from '../lib/output.js';
+import { WalletManager } from '../lib/wallet.js';
+import { EscrowWatcher, type WatchedDeployment } from '../lib/watcher.js';
+
+const DEFAULT_INTERVAL = 300;
+const DEFAULT_PORT = 9464;
+
+interface WatchOptions {
+  deployment?: string[];
+  interval?: string;
+  port?: string;
+  once?: boolean;
+  clearPending?: boolean;
+  testnet?: boolean;
+  output?: OutputFormat;
+}
+
+/** `morpheus watch --once --output json` result */
+export interface WatchResult {
+  deployments: WatchedDeployment[];
+}
+
+export async function watchCommand(options: WatchOptions): Promise<void> {
+  const out = new Output('watch', options.output);
+  const { spinner } = out;
+  out.log(chalk.bold.cyan('\n  Morpheus Watch\n'));
+
+  try {
+    const config = await loadConfig('morpheus.yaml');
+    const walletManager = new WalletManager();
+    const deploymentManager = new DeploymentManager(config, walletManager);
+    const testnet = options.testnet || config.network === 'testnet';
+
+    let dseqs = options.deployment ?? [];
+    if (dseqs.length === 0) {
+      spinner.start('Loading active deployment...');
+      const activeDeployment = await deploymentManager.getActiveDeployment();
+      if (!activeDeployment) {
+        throw new CliError('No active deployment found', 'general', {
+          hint: `Use ${chalk.cyan('morpheus watch -d <dseq...>')} to specify deployments`,
+        });
+      }
+      dseqs = [activeDeployment.dseq];
+      spinner.stop();
+    }
+
+    const interval = parsePositive(options.interval, DEFAULT_INTERVAL, '--interval');
+    const watcher = new EscrowWatcher({
+      chain: new AkashClient({ network: testnet ? 'testnet' : 'mainnet' }),
+      engine: new EconomicEngine(
+        config,
+        walletManager,
+        new SpendTracker(config.funding?.limits, new FileSpendStore())
+      ),
+      owner: await deploymentManager.getOwnerAddress(),
+      dseqs,
+      interval: interval * 1000,
+    });
+
+    if (options.clearPending) {
+      await watcher.load();
+      await watcher.clearPending();
+      out.log(
+        chalk.yellow('  Cleared unconfirmed top-ups; they will be retried if still needed.\n')
+      );
+    }
+
+    if (!config.funding?.autoTopUp) {
+      out.warn('funding.autoTopUp is off: escrow will be monitored but not topped up.');
+    }
+
+    out.log(`  ${chalk.dim('Deployments:')}  ${dseqs.map(d => chalk.cyan(d)).join(', ')}`);
+
+    if (options.once) {
+      await watcher.load();
+      const results = await watcher.checkAll();
+      results.forEach(entry => printCheck(out, entry));
+      out.log();
+      out.result<WatchResult>({ deployments: results });
+      if (results.some(r => r.status === 'error' || r.status === 'stuck')) {
+        process.exit(1);
+      }
+      return;
+    }
+
+    const port = parsePositive(options.port, DEFAULT_PORT, '--port');
+    const server = serveHealth(watcher, port);
+    out.log(`  ${chalk.dim('Interval:')}     ${interval}s`);
+    out.log(`  ${chalk.dim('Health:')}       http://localhost:${port}/health`);
+    out.log(chalk.dim('\n  Watching escrow (Ctrl+C to exit)...\n'));
+
+    process.on('SIGINT', () => {
+      watcher.stop();
+      server.close();
+      out.log(chalk.dim('\n  Watcher stopped.\n'));
+      process.exit(0);
+    });
+
+    // Machine output streams a record per check
+    await watcher.start(results =>
+      results.forEach(entry => (out.machine ? out.record(entry) : printCheck(out, entry)))
+    );
+  } catch (error) {
+    out.fail(error, 'Watch failed');
+  }
+}
+
+/**
+ * `GET /health` returns the watcher's state as JSON: 200 while healthy, 503
+ * when a deployment can't be checked, a top-up is stuck or checks have stalled
+ */
+function serveHealth(watcher: EscrowWatcher, port: number): Server {
+  const server = createServer((req, res) => {
+    if (req.method !== 'GET' || req.url !== '/health') {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const health = watcher.health();
+    res.writeHead(health.healthy ? 200 : 503, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(health));
+  });
+
+  return server.listen(port);
+}
+
+function printCheck(out: Output, entry: WatchedDeployment): void {
+  const time = new Date(entry.checkedAt ?? Date.now()).toLocaleTimeString();
+  const balance = entry.balance ? `${Amount.fromUnits(entry.balance, AKT).toFixed(2)} AKT` : '-';
+  const color = {
+    ok: chalk.green,
+    low: chalk.yellow,
+    'topping-up': chalk.cyan,
+    limited: chalk.yellow,
+    stuck: chalk.red,
+    closed: chalk.dim,
+    error: chalk.red,
+  }[entry.status];
+
+  let detail = '';
+  if (entry.status === 'error' || entry.status === 'limited') {
+    detail = entry.error ?? '';
+  } else if (entry.status === 'stuck') {
+    detail = 'top-up not confirmed; check the swap, then run with --clear-pending to retry';
+  } else if (entry.hoursRemaining !== undefined && Number.isFinite(entry.hoursRemaining)) {
+    detail = `~${Math.floor(entry.hoursRemaining)}h left`;
+  }
+
+  out.log(
+    `  ${chalk.dim(time)}  ${chalk.cyan(entry.dseq)}  ${color(entry.status.padEnd(10))}  ${balance}  ${chalk.dim(detail)}`
+  );
+}
+
+function parsePositive(value: string | undefined, fallback: number, flag: string): number {
+  if (value === undefined) {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new CliError(`${flag} must be a positive whole number`, 'general');
+  }
+  return parsed;
+}
@@ -4,7 +4,37 @@ export { deployCommand } from './commands/deploy.js';
 export { logsCommand } from './commands/logs.js';
 export { statusCommand } from './commands/status.js';
 export { fundCommand } from './commands/fund.js';
+export { watchCommand } from './commands/watch.js';
+export { budgetCommand } from './commands/budget.js';
+export { closeCommand } from './commands/close.js';
+export { rollbackCommand } from './commands/rollback.js';
+export { ciKeyCommand } from './commands/ci-key.js';
 
 export { loadConfig, saveConfig, type MorpheusConfig } from './lib/config.js';
 export { WalletManager } from './lib/wallet.js';
-export { DeploymentManager } from './lib/deployment.js';
+export { DeploymentManager, type DeploymentVersion } from './lib/deployment.js';
+export { FileSpendStore } from './lib/budget.js';
+export { EscrowWatcher, type WatchedDeployment } from './lib/watcher.js';
+export { CI_ENV, loadCiSettings, missingSecrets, type CiSettings } from './lib/ci.js';
+export {
+  CliError,
+  EXIT_CODES,
+  Output,
+  categorize,
+  type CommandOutput,
+  type ErrorCategory,
+  type MoneyResult,
+  type OutputFormat,
+  type ProgressEvent,
+} from './lib/output.js';
+
+// --output json|yaml result objects
+export type { DeployResult } from './commands/deploy.js';
+export type { StatusResult, StatusListResult } from './commands/status.js';
+export type { FundResult } from './commands/fund.js';
+export type { LogRecord } from './commands/logs.js';
+export type { WatchResult } from './commands/watch.js';
+export type { BudgetResult } from './commands/budget.js';
+export type { CloseResult } from './commands/close.js';
+export type { RollbackListResult, RollbackResult, RollbackVersion } from './commands/rollback.js';
+export type { CiKeyResult } from './commands/ci-key.js';
@@ -0,0 +1,37 @@
+import { existsSync } from 'fs';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+
+import type { SpendRecord, SpendStore } from '@morpheus-deploy/core';
+
+/**
+ * Kept next to the wallet rather than in the project, so wallet-wide limits
+ * count top-ups from every project the wallet pays for
+ */
+export const SPEND_LEDGER_PATH = join(homedir(), '.morpheus', 'spend.json');
+
+/**
+ * Spend records for `funding.limits`, stored as JSON
+ */
+export class FileSpendStore implements SpendStore {
+  private path: string;
+
+  constructor(path: string = SPEND_LEDGER_PATH) {
+    this.path = path;
+  }
+
+  async load(): Promise<SpendRecord[]> {
+    if (!existsSync(this.path)) {
+      return [];
+    }
+    return JSON.parse(await readFile(this.path, 'utf-8'));
+  }
+
+  async save(records: SpendRecord[]): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const temp = `${this.path}.tmp`;
+    await writeFile(temp, JSON.stringify(records, null, 2), { mode: 0o600 });
+    await rename(temp, this.path);
+  }
+}
@@ -0,0 +1,102 @@
+import { appendFile } from 'fs/promises';
+
+import { EphemeralKeyManager } from '@morpheus-deploy/contracts';
+import type { MorpheusConfig } from '@morpheus-deploy/core';
+
+import { CliError } from './output.js';
+import { WalletManager } from './wallet.js';
+
+/** Environment variables read by `morpheus deploy --ci` */
+export const CI_ENV = {
+  /** Output of `morpheus ci-key`; signs in place of the master wallet */
+  ephemeralKey: 'MORPHEUS_EPHEMERAL_KEY',
+  /** mainnet or testnet, overriding `network` in morpheus.yaml */
+  network: 'MORPHEUS_NETWORK',
+  /** Entry in `environments` to apply, like --env */
+  environment: 'MORPHEUS_ENV',
+  /** Funding duration, like --duration */
+  duration: 'MORPHEUS_DURATION',
+} as const;
+
+export interface CiSettings {
+  wallet: WalletManager;
+  network?: 'mainnet' | 'testnet';
+  environment?: string;
+  duration?: string;
+}
+
+/**
+ * Read CI settings from the environment. Every problem is reported at once
+ * as a configuration error, since CI can't be asked for anything.
+ */
+export async function loadCiSettings(env: NodeJS.ProcessEnv = process.env): Promise<CiSettings> {
+  const problems: string[] = [];
+
+  const network = env[CI_ENV.network] || undefined;
+  if (network && network !== 'mainnet' && network !== 'testnet') {
+    problems.push(`${CI_ENV.network} must be mainnet or testnet, not "${network}"`);
+  }
+
+  const signer = new EphemeralKeyManager();
+  const exported = env[CI_ENV.ephemeralKey];
+  if (!exported) {
+    problems.push(`${CI_ENV.ephemeralKey} is not set; create one with \`morpheus ci-key\``);
+  } else {
+    try {
+      await signer.loadExported(exported);
+    } catch (error) {
+      problems.push(`${CI_ENV.ephemeralKey}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new CliError(`CI mode can't start:\n  - ${problems.join('\n  - ')}`, 'config');
+  }
+
+  return {
+    wallet: new WalletManager(signer),
+    network: network as CiSettings['network'],
+    environment: env[CI_ENV.environment] || undefined,
+    duration: env[CI_ENV.duration] || undefined,
+  };
+}
+
+/**
+ * Secrets named in morpheus.yaml, for the project and each service, that
+ * have no value in the environment
+ */
+export function missingSecrets(
+  config: MorpheusConfig,
+  env: NodeJS.ProcessEnv = process.env
+): string[] {
+  const names = new Set([
+    ...(config.env?.secrets ?? []),
+    ...Object.values(config.services ?? {}).flatMap(service => service.env?.secrets ?? []),
+  ]);
+  return [...names].filter(name => !env[name]);
+}
+
+/**
+ * Set GitHub Actions step outputs and add them to the job summary under
+ * `title`. Does nothing outside GitHub Actions.
+ */
+export async function reportToGitHub(
+  title: string,
+  outputs: Record<string, string>,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<void> {
+  const entries = Object.entries(outputs);
+  if (env.GITHUB_OUTPUT) {
+    await appendFile(
+      env.GITHUB_OUTPUT,
+      entries.map(([name, value]) => `${name}=${value}\n`).join('')
+    );
+  }
+  if (env.GITHUB_STEP_SUMMARY) {
+    const rows = entries.map(([name, value]) => `| ${name} | \`${value}\` |\n`);
+    await appendFile(
+      env.GITHUB_STEP_SUMMARY,
+      `### ${title}\n\n| | |\n|---|---|\n${rows.join('')}\n`
+    );
+  }
+}
@@ -1,71 +1,20 @@
-import { readFile, writeFile } from 'fs/promises';
-import { parse, stringify } from 'yaml';
+import { writeFile } from 'fs/promises';
 
-export interface MorpheusConfig {
-  project: string;
-  template: 'ai-agent' | 'mcp-server' | 'website' | 'custom';
-  provider: 'akash' | 'render' | 'filecoin';
-  funding?: {
-    wallet?: string;
-    sourceToken: string;
-    autoTopUp: boolean;
-    threshold: number;
-    duration?: string;
-    split: {
-      staking: number;
-      compute: number;
-    };
-  };
-  resources?: {
-    tier?: 'small' | 'medium' | 'large' | 'custom';
-    cpu?: number;
-    memory?: string;
-    storage?: string;
-    gpu?: {
-      units: number;
-      model: string;
-    };
-  };
-  runtime?: {
-    image?: string;
-    port?: number;
-    framework?: 'nextjs' | 'express' | 'node';
-  };
-  env?: {
-    variables?: Record<string, string>;
-    secrets?: string[];
-  };
-}
+import { loadMorpheusConfig, type MorpheusConfig } from '@morpheus-deploy/core';
+import { stringify } from 'yaml';
 
-export async function loadConfig(path: string): Promise<MorpheusConfig> {
-  const content = await readFile(path, 'utf-8');
-  const config = parse(content) as Partial<MorpheusConfig>;
+import { categorized } from './output.js';
 
-  // Apply defaults
-  return {
-    project: config.project || 'unnamed',
-    template: config.template || 'ai-agent',
-    provider: config.provider || 'akash',
-    resources: {
-      tier: 'medium',
-      cpu: 2,
-      memory: '4Gi',
-      storage: '10Gi',
-      ...config.resources,
-    },
-    runtime: {
-      port: 8000,
-      ...config.runtime,
-    },
-    funding: {
-      sourceToken: 'USDC',
-      autoTopUp: true,
-      threshold: 0.1,
-      split: { staking: 0.6, compute: 0.4 },
-      ...config.funding,
-    },
-    env: config.env,
-  };
+export type { MorpheusConfig } from '@morpheus-deploy/core';
+
+/**
+ * Load and validate morpheus.yaml, applying defaults and the overlay for
+ * `environment` if given. Throws ConfigValidationError listing every problem
+ * with its line and column. Any other failure, such as a missing file, is
+ * reported as a configuration error too.
+ */
+export function loadConfig(path: string, environment?: string): Promise<MorpheusConfig> {
+  return categorized('config', loadMorpheusConfig(path, environment));
 }
 
 export async function saveConfig(path: string, config: MorpheusConfig): Promise<void> {
@@ -158,7 +107,8 @@ resources:
 runtime:
   # image: "python:3.12" # Auto-detected or specify custom
   port: ${config.runtime!.port}
-  # framework: "nextjs" # Auto-detected: nextjs, express, node
+  # framework: "nextjs" # Auto-detected: nextjs, express, node, python, static
+  # registry: "ghcr.io/your-org" # Built images are pushed here for providers to pull
 
 # Environment and Secret Management
 env:
@@ -1,60 +1,87 @@
-import { readFile, writeFile, mkdir } from 'fs/promises';
+import { createHash } from 'crypto';
 import { existsSync } from 'fs';
+import { readFile, writeFile, mkdir, chmod, rm } from 'fs/promises';
 import { join } from 'path';
+
+import {
+  AkashClient,
+  AkashMessages,
+  GroupSpec,
+  MIN_DEPLOYMENT_DEPOSIT,
+  execAsGrantee,
+  getSecurityLogger,
+  type AkashSigner,
+  type BroadcastResult,
+  type EncodeObject,
+} from '@morpheus-deploy/contracts';
+import {
+  AKT,
+  Amount,
+  BidPriceGuard,
+  BidSelector,
+  BlockClock,
+  SealedSecrets,
+  buildGroupSpecs,
+  manifestJSON,
+  manifestVersion,
+  orderPrice,
+  stringifySDL,
+  withOrderPrice,
+} from '@morpheus-deploy/core';
+import type {
+  BidPriceReview,
+  BidSelection,
+  DeploymentCredentials,
+  ProviderBid,
+  SDL,
+  SDLConfig,
+  SDLOutput,
+} from '@morpheus-deploy/core';
+
 import type { MorpheusConfig } from './config.js';
+import { HealthChecker } from './health.js';
 import type { WalletManager } from './wallet.js';
 
 const DEPLOYMENTS_DIR = '.morpheus/deployments';
-
-export interface SDLManifest {
-  version: string;
-  services: Record<string, SDLService>;
-  profiles: {
-    compute: Record<string, SDLComputeProfile>;
-  };
-  deployment: Record<string, SDLDeployment>;
-  placement: {
-    akash: {
-      pricing: {
-        denom: string;
-        amount: number;
-      };
-    };
-  };
-  // Computed properties
-  estimatedCost: number;
-  gpu?: { model: string; units: number };
-}
-
-interface SDLService {
-  image: string;
-  expose: Array<{
-    port: number;
-    as: number;
-    to: Array<{ global?: boolean; service?: string }>;
-  }>;
-  env?: string[];
-  params?: {
-    storage?: Record<string, { mount: string }>;
-  };
-  resources: {
-    cpu: { units: number };
-    memory: { size: string };
-    gpu?: { units: number; attributes: { vendor: { nvidia: Array<{ model: string }> } } };
-    storage: Array<{ size: string; attributes?: { persistent: boolean } }>;
-  };
+/** Manifests sent to providers, kept for `morpheus rollback` */
+const MANIFESTS_DIR = join(DEPLOYMENTS_DIR, 'manifests');
+/** Oldest entries are dropped from the version history beyond this */
+const MAX_VERSIONS = 20;
+
+interface LocalState {
+  active?: Deployment;
+  lease?: Lease;
+  serviceUrl?: string;
+  credentials?: DeploymentCredentials;
+  /** Hash of the active deployment's group specs without their prices, as hex */
+  resources?: string;
+  /** Manifests deployed from this project, oldest first */
+  versions?: DeploymentVersion[];
+  /** Deployments closed with `morpheus close`, oldest first */
+  closed?: ClosedDeployment[];
+  updatedAt?: string;
 }
 
-interface SDLComputeProfile {
-  resources: {
-    cpu: { units: number };
-    memory: { size: string };
-  };
+export interface ClosedDeployment {
+  dseq: string;
+  txHash: string;
+  /** Escrow returned to the owner, in AKT */
+  refund: string;
+  closedAt: string;
 }
 
-interface SDLDeployment {
-  profile: string;
-  count: number;
+export interface DeploymentVersion {
+  dseq: string;
+  /** Manifest version hash broadcast on chain, as hex */
+  version: string;
+  image: string;
+  /** Registry digest, or the local image ID when the image wasn't pushed */
+  digest?: string;
+  deployedAt: string;
+  /** Version that was running when this one was restored with `morpheus rollback` */
+  rolledBackFrom?: string;
+  /** Set when the version failed its health checks and was left on the lease */
+  unhealthy?: boolean;
 }
 
 export interface Deployment {
@@ -72,19 +99,14 @@ export interface Lease {
   price: number;
 }
 
-export interface Bid {
-  id: string;
-  provider: string;
-  price: number;
-  attributes: Record<string, string>;
-}
+export type Bid = ProviderBid;
 
 export interface DeploymentStatus {
   dseq: string;
   state: 'active' | 'closed' | 'pending';
   provider: string;
   url?: string;
-  escrowBalance: number;
+  escrowBalance: Amount;
   estimatedTimeRemaining: string;
   createdAt: Date;
   resources: {
@@ -92,43 +114,92 @@ export interface DeploymentStatus {
     memory: string;
     gpu?: { model: string; units: number };
   };
+  /** Latest manifest deployed from this project, when known locally */
+  version?: DeploymentVersion;
 }
 
 export class DeploymentManager {
   private wallet: WalletManager;
-
-  constructor(_config: MorpheusConfig, wallet: WalletManager) {
+  private akash: AkashClient;
+  private signer: Promise<AkashSigner> | null = null;
+  /** Settles once the signing client has connected, on the first broadcast */
+  private connected: Promise<void> | null = null;
+  private secrets: SealedSecrets;
+  private selector: BidSelector;
+  private priceGuard: BidPriceGuard;
+  private clock: BlockClock;
+  private health?: HealthChecker;
+  private statePath: string;
+  /** Manifest version and group spec hashes broadcast by this instance, as hex */
+  private manifests = new Map<string, { version: string; resources: string }>();
+  /** Manifests sent to providers by this instance, by DSEQ */
+  private sent = new Map<string, SDL>();
+
+  /**
+   * @param environment Environment selected with `--env`. Each environment
+   *   keeps its own local state, so staging and production never share a lease.
+   */
+  constructor(config: MorpheusConfig, wallet: WalletManager, environment?: string) {
     this.wallet = wallet;
+    this.akash = new AkashClient({ network: config.network ?? 'mainnet' });
+    this.secrets = new SealedSecrets();
+    this.selector = BidSelector.fromConfig(config.placement, config.resources?.gpu?.model);
+    this.priceGuard = new BidPriceGuard(config.placement);
+    this.clock = new BlockClock(config.funding?.blockTime);
+    if (config.runtime?.healthCheck) {
+      this.health = new HealthChecker(config.runtime.healthCheck);
+    }
+    this.statePath = join(
+      DEPLOYMENTS_DIR,
+      environment ? `state.${environment}.json` : 'state.json'
+    );
   }
 
-  async create(sdl: SDLManifest): Promise<Deployment> {
-    // Create deployment on Akash network
-    // This would use @akashnetwork/akashjs
+  async create(sdl: SDL): Promise<Deployment> {
+    const dseq = this.generateDSEQ();
+    const version = manifestVersion(sdl);
 
-    // 1. Serialize SDL to protobuf
-    const sdlBytes = this.serializeSDL(sdl);
+    const msg = AkashMessages.createDeployment({
+      owner: await this.getOwnerAddress(),
+      dseq,
+      groups: buildGroupSpecs(sdl),
+      version,
+      deposit: { denom: 'uakt', amount: MIN_DEPLOYMENT_DEPOSIT },
+    });
 
-    // 2. Create MsgCreateDeployment transaction
-    const msg = {
-      typeUrl: '/akash.deployment.v1beta3.MsgCreateDeployment',
-      value: {
-        id: {
-          owner: await this.getOwnerAddress(),
-          dseq: this.generateDSEQ(),
-        },
-        groups: this.parseGroups(sdl),
-        version: sdlBytes,
-        deposit: { denom: 'uakt', amount: '5000000' }, // 5 AKT minimum
-      },
-    };
+    const { txHash } = await this.broadcastTransaction(msg, 'Morpheus Deployment');
+    this.manifests.set(dseq, { version: toHex(version), resources: resourcesHash(sdl) });
 
-    // 3. Sign and broadcast
-    const txHash = await this.broadcastTransaction(msg);
+    return this.waitForDeployment(txHash, dseq);
+  }
 
-    // 4. Wait for confirmation
-    const deployment = await this.waitForDeployment(txHash);
+  /**
+   * Broadcast a new manifest version for an existing deployment. Akash fixes
+   * group specs at creation, so only manifest changes such as the image, env
+   * or commands can be applied in place. Returns the new version as hex.
+   */
+  async update(dseq: string, sdl: SDL): Promise<string> {
+    const state = await this.loadLocalState();
+    const resources = resourcesHash(sdl);
+    if (state?.active?.dseq === dseq && state.resources && state.resources !== resources) {
+      throw new Error(
+        `Resources or placement changed since DSEQ ${dseq} was created. ` +
+          'Deploy without --update to create a new deployment.'
+      );
+    }
 
-    return deployment;
+    const version = manifestVersion(sdl);
+    await this.broadcastTransaction(
+      AkashMessages.updateDeployment({
+        owner: await this.getOwnerAddress(),
+        dseq,
+        version,
+      }),
+      'Morpheus Update Deployment'
+    );
+    this.manifests.set(dseq, { version: toHex(version), resources });
+
+    return toHex(version);
   }
 
   async waitForBids(dseq: string, timeout = 60000): Promise<Bid[]> {
@@ -154,35 +225,139 @@ export class DeploymentManager {
     return bids;
   }
 
-  async selectBestBid(bids: Bid[]): Promise<Bid> {
-    // Sort by price and select cheapest from verified providers
-    const sortedBids = bids
-      .filter(bid => this.isVerifiedProvider(bid.provider))
-      .sort((a, b) => a.price - b.price);
+  /**
+   * Pick a bid using the strategies configured under `placement`. Throws,
+   * listing each rejection, when no bid is acceptable.
+   */
+  async selectBestBid(bids: Bid[]): Promise<BidSelection<Bid> & { selected: Bid }> {
+    const selection = this.selector.select(bids);
+
+    for (const { bid, strategy, reason } of selection.rejected) {
+      if (strategy === 'max-price') {
+        await getSecurityLogger().warn('BID_PRICE_REJECTED', {
+          bid: bid.id,
+          price: bid.price,
+          reason,
+        });
+      }
+    }
+
+    if (!selection.selected) {
+      const reasons = selection.rejected.map(
+        ({ bid, strategy, reason }) => `  - ${bid.provider}: ${reason} (${strategy})`
+      );
+      throw new Error(
+        `No acceptable bids. Check the placement section of morpheus.yaml.\n${reasons.join('\n')}`
+      );
+    }
 
-    if (sortedBids.length === 0) {
-      // Fall back to unverified if no verified providers
-      return bids.sort((a, b) => a.price - b.price)[0]!;
+    return { ...selection, selected: selection.selected };
+  }
+
+  /**
+   * Check the selected bid against the SDL's estimate and ceiling. Warnings
+   * and the decision to re-post go to the security log.
+   */
+  async reviewBidPrice(sdl: SDLOutput, bid: Bid, bids: Bid[]): Promise<BidPriceReview> {
+    const review = this.priceGuard.review(sdl, bid, bids);
+
+    if (review.warnings.length > 0) {
+      await getSecurityLogger().warn('BID_PRICE_WARNING', {
+        bid: bid.id,
+        price: review.price,
+        expected: Math.round(review.expected),
+        ceiling: review.ceiling,
+        warnings: review.warnings,
+        action: review.action,
+      });
     }
 
-    return sortedBids[0]!;
+    return review;
   }
 
-  async createLease(dseq: string, bid: Bid): Promise<Lease> {
-    const msg = {
-      typeUrl: '/akash.market.v1beta4.MsgCreateLease',
-      value: {
-        bidId: {
-          owner: await this.getOwnerAddress(),
+  /**
+   * Close an order and post the same SDL again with a new ceiling. Returns the
+   * new deployment and the repriced SDL to lease and send the manifest with.
+   */
+  async repost(
+    dseq: string,
+    sdl: SDLOutput,
+    ceiling: number
+  ): Promise<{ deployment: Deployment; sdl: SDLOutput }> {
+    const repriced = withOrderPrice(sdl, ceiling);
+    const output = { ...repriced, raw: stringifySDL(repriced) };
+
+    await this.close(dseq);
+    const deployment = await this.create(output);
+
+    await getSecurityLogger().warn('ORDER_REPOSTED', {
+      dseq,
+      newDseq: deployment.dseq,
+      previousCeiling: orderPrice(sdl),
+      ceiling: orderPrice(output),
+    });
+
+    return { deployment, sdl: output };
+  }
+
+  /**
+   * Close a deployment, returning what the chain refunded to the owner: the
+   * AKT the close transaction transferred to the owner from the escrow
+   */
+  async close(dseq: string): Promise<{ txHash: string; refund: Amount }> {
+    const owner = await this.getOwnerAddress();
+    const { txHash, events } = await this.broadcastTransaction(
+      AkashMessages.closeDeployment({ owner, dseq }),
+      'Morpheus Close Deployment'
+    );
+    this.manifests.delete(dseq);
+
+    return { txHash, refund: Amount.fromUnits(transferredTo(owner, events), AKT) };
+  }
+
+  /**
+   * Record a closed deployment in the local state. If it was the active
+   * deployment, its lease is forgotten; credentials and the version history
+   * are kept for the next deploy.
+   */
+  async archive(dseq: string, closed: { txHash: string; refund: Amount }): Promise<void> {
+    const existing = await this.loadLocalState();
+    const active = existing?.active?.dseq === dseq;
+
+    await this.writeLocalState({
+      ...existing,
+      active: active ? undefined : existing?.active,
+      lease: active ? undefined : existing?.lease,
+      serviceUrl: active ? undefined : existing?.serviceUrl,
+      resources: active ? undefined : existing?.resources,
+      closed: [
+        ...(existing?.closed ?? []),
+        {
           dseq,
-          gseq: 1,
-          oseq: 1,
-          provider: bid.provider,
+          txHash: closed.txHash,
+          refund: closed.refund.toDecimal(),
+          closedAt: new Date().toISOString(),
         },
-      },
-    };
+      ],
+      updatedAt: new Date().toISOString(),
+    });
+  }
 
-    await this.broadcastTransaction(msg);
+  async createLease(dseq: string, bid: Bid): Promise<Lease> {
+    const msg = AkashMessages.createLease({
+      owner: await this.getOwnerAddress(),
+      dseq,
+      gseq: 1,
+      oseq: 1,
+      provider: bid.provider,
+    });
+
+    await this.broadcastTransaction(msg, 'Morpheus Lease');
+    await getSecurityLogger().info('BID_ACCEPTED', {
+      dseq,
+      provider: bid.provider,
+      price: bid.price,
+    });
 
     return {
       id: `${dseq}-1-1-${bid.provider}`,
@@ -193,38 +368,77 @@ export class DeploymentManager {
     };
   }
 
-  async sendManifest(lease: Lease, sdl: SDLManifest): Promise<void> {
+  /**
+   * Seal pending secrets to the selected provider's public key
+   */
+  async sealSecrets(sdl: SDLOutput, provider: string): Promise<SDLOutput> {
+    if (!sdl.pendingSecrets?.length) {
+      return sdl;
+    }
+
+    const providerUrl = await this.getProviderUrl(provider);
+    const publicKey = await this.secrets.fetchProviderPublicKey(provider, providerUrl);
+    return this.secrets.seal(sdl, publicKey);
+  }
+
+  async sendManifest(
+    lease: Lease,
+    sdl: SDL & Partial<Pick<SDLOutput, 'pendingSecrets'>>
+  ): Promise<void> {
+    if (sdl.pendingSecrets?.length) {
+      throw new Error('Secrets must be sealed for the provider before sending the manifest');
+    }
+
     // Send manifest to provider's REST API
     const providerUrl = await this.getProviderUrl(lease.provider);
 
+    // Sealing secrets changes the manifest, so the on-chain version must follow
+    const broadcast = this.manifests.get(lease.dseq);
+    if (broadcast && broadcast.version !== toHex(manifestVersion(sdl))) {
+      await this.update(lease.dseq, sdl);
+    }
+
+    // Keep only the SDL itself; computed fields may hold plaintext credentials
+    const manifest = toManifest(sdl);
+
     const response = await fetch(`${providerUrl}/deployment/${lease.dseq}/manifest`, {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(sdl),
+      // The exact bytes hashed into the on-chain version
+      body: manifestJSON(manifest),
     });
 
     if (!response.ok) {
       throw new Error(`Failed to send manifest: ${response.statusText}`);
     }
+
+    this.sent.set(lease.dseq, manifest);
   }
 
+  /**
+   * Wait for the lease to report a URI, then for `runtime.healthCheck` to
+   * pass when one is configured. Throws HealthCheckError if it never does.
+   */
   async waitForService(lease: Lease, timeout = 120000): Promise<string> {
     const startTime = Date.now();
 
     while (Date.now() - startTime < timeout) {
+      let uri: string | undefined;
       try {
         const status = await this.getLeaseStatus(lease);
         const service = status.services?.[0];
-        const uri = service?.uris?.[0];
-        if (uri) {
-          return uri;
-        }
+        uri = service?.uris?.[0];
       } catch {
         // Service not ready yet
       }
 
+      if (uri) {
+        await this.health?.waitUntilHealthy(uri);
+        return uri;
+      }
+
       await this.sleep(3000);
     }
 
@@ -245,6 +459,37 @@ export class DeploymentManager {
     return active || null;
   }
 
+  /**
+   * Lease of the active deployment, as saved by the last successful deploy
+   */
+  async getActiveLease(): Promise<Lease | null> {
+    const localState = await this.loadLocalState();
+    return localState?.lease || null;
+  }
+
+  /**
+   * Manifests deployed from this project, oldest first
+   */
+  async getVersions(): Promise<DeploymentVersion[]> {
+    const localState = await this.loadLocalState();
+    return localState?.versions || [];
+  }
+
+  /**
+   * Manifest sent for a version in the history. Secrets in it are sealed to
+   * the provider it was sent to, so it can only be restored on the same lease.
+   */
+  async loadManifest(entry: DeploymentVersion): Promise<SDL> {
+    const path = manifestPath(entry);
+    if (!existsSync(path)) {
+      throw new Error(
+        `The manifest for version ${entry.version.slice(0, 12)} was not saved, so it can't be restored`
+      );
+    }
+
+    return JSON.parse(await readFile(path, 'utf-8'));
+  }
+
   async listDeployments(): Promise<Deployment[]> {
     // Get owner address for querying (needed when implemented)
     await this.getOwnerAddress();
@@ -255,6 +500,14 @@ export class DeploymentManager {
     return [];
   }
 
+  /**
+   * DSEQs of every deployment the owner has open on chain, from any project
+   */
+  async listOpenDeployments(): Promise<string[]> {
+    const deployments = await this.akash.listDeployments(await this.getOwnerAddress(), 'active');
+    return deployments.map(deployment => deployment.dseq);
+  }
+
   async getStatus(dseq: string): Promise<DeploymentStatus | null> {
     // Query deployment status from chain
     const deployment = await this.queryDeployment(dseq);
@@ -262,6 +515,7 @@ export class DeploymentManager {
 
     const lease = await this.getLease(dseq);
     const escrow = await this.queryEscrow(dseq);
+    const versions = await this.getVersions();
 
     return {
       dseq,
@@ -272,6 +526,7 @@ export class DeploymentManager {
       estimatedTimeRemaining: this.calculateTimeRemaining(escrow),
       createdAt: new Date(deployment.createdAt),
       resources: deployment.resources,
+      version: versions.filter(v => v.dseq === dseq).pop(),
     };
   }
 
@@ -285,83 +540,171 @@ export class DeploymentManager {
     return `wss://${new URL(providerUrl).host}/deployment/${lease.dseq}/logs`;
   }
 
-  async depositToEscrow(dseq: string, amount: number): Promise<void> {
-    const msg = {
-      typeUrl: '/akash.deployment.v1beta3.MsgDepositDeployment',
-      value: {
-        id: {
-          owner: await this.getOwnerAddress(),
-          dseq,
-        },
-        amount: {
-          denom: 'uakt',
-          amount: Math.floor(amount * 1000000).toString(),
-        },
-      },
-    };
+  async depositToEscrow(dseq: string, amount: Amount): Promise<void> {
+    if (amount.currency.denom !== AKT.denom) {
+      throw new Error(`Escrow deposits must be in AKT, not ${amount.currency.symbol}`);
+    }
 
-    await this.broadcastTransaction(msg);
+    const msg = AkashMessages.deposit({
+      owner: await this.getOwnerAddress(),
+      dseq,
+      amount: amount.toCoin(),
+    });
+
+    await this.broadcastTransaction(msg, 'Morpheus Deposit');
   }
 
-  async saveState(deployment: Deployment, lease: Lease, serviceUrl: string): Promise<void> {
-    if (!existsSync(DEPLOYMENTS_DIR)) {
-      await mkdir(DEPLOYMENTS_DIR, { recursive: true });
+  /**
+   * Record a successful deploy, appending the manifest version and image that
+   * are now running to the version history and keeping the manifest sent
+   *
+   * @param rolledBackFrom Version replaced, when this deploy was a rollback
+   */
+  async saveState(
+    deployment: Deployment,
+    lease: Lease,
+    serviceUrl: string,
+    image: SDLConfig['image'],
+    details: Pick<DeploymentVersion, 'rolledBackFrom' | 'unhealthy'> = {}
+  ): Promise<void> {
+    const existing = await this.loadLocalState();
+    const manifest = this.manifests.get(deployment.dseq);
+    const versions = existing?.versions ?? [];
+
+    if (manifest) {
+      const entry: DeploymentVersion = {
+        dseq: deployment.dseq,
+        version: manifest.version,
+        image: image.tag,
+        digest: image.digest,
+        deployedAt: new Date().toISOString(),
+        ...details,
+      };
+      versions.push(entry);
+
+      const sent = this.sent.get(deployment.dseq);
+      if (sent) {
+        await this.saveManifest(entry, sent);
+      }
     }
 
-    const state = {
+    const kept = versions.slice(-MAX_VERSIONS);
+    await this.writeLocalState({
+      ...existing,
       active: deployment,
       lease,
       serviceUrl,
+      resources: manifest?.resources ?? existing?.resources,
+      versions: kept,
       updatedAt: new Date().toISOString(),
-    };
+    });
 
-    await writeFile(
-      join(DEPLOYMENTS_DIR, 'state.json'),
-      JSON.stringify(state, null, 2)
-    );
+    // A rollback entry shares its manifest with the version it restored
+    const keptPaths = new Set(kept.map(manifestPath));
+    for (const dropped of versions.slice(0, -MAX_VERSIONS)) {
+      if (!keptPaths.has(manifestPath(dropped))) {
+        await rm(manifestPath(dropped), { force: true });
+      }
+    }
+  }
+
+  /**
+   * Load sidecar credentials from a previous deployment of this project
+   */
+  async loadCredentials(): Promise<DeploymentCredentials | null> {
+    const state = await this.loadLocalState();
+    return state?.credentials || null;
+  }
+
+  /**
+   * Persist sidecar credentials so redeploys keep access to the same data volume.
+   * Saved before broadcasting so a failed deploy doesn't orphan them.
+   */
+  async saveCredentials(credentials: DeploymentCredentials): Promise<void> {
+    const existing = await this.loadLocalState();
+
+    await this.writeLocalState({
+      ...existing,
+      credentials,
+      updatedAt: new Date().toISOString(),
+    });
   }
 
   // Private helper methods
 
-  private async loadLocalState(): Promise<{ active: Deployment; lease: Lease; serviceUrl: string } | null> {
-    const statePath = join(DEPLOYMENTS_DIR, 'state.json');
-    if (!existsSync(statePath)) {
+  private async writeLocalState(state: LocalState): Promise<void> {
+    if (!existsSync(DEPLOYMENTS_DIR)) {
+      await mkdir(DEPLOYMENTS_DIR, { recursive: true });
+    }
+
+    await writeFile(this.statePath, JSON.stringify(state, null, 2), { mode: 0o600 });
+    // writeFile only applies mode on create; tighten files written by older versions
+    await chmod(this.statePath, 0o600);
+  }
+
+  /** Readable by the owner only, like the state file */
+  private async saveManifest(entry: DeploymentVersion, manifest: SDL): Promise<void> {
+    if (!existsSync(MANIFESTS_DIR)) {
+      await mkdir(MANIFESTS_DIR, { recursive: true });
+    }
+
+    const path = manifestPath(entry);
+    await writeFile(path, JSON.stringify(manifest, null, 2), { mode: 0o600 });
+    await chmod(path, 0o600);
+  }
+
+  private async loadLocalState(): Promise<LocalState | null> {
+    if (!existsSync(this.statePath)) {
       return null;
     }
 
-    const content = await readFile(statePath, 'utf-8');
+    const content = await readFile(this.statePath, 'utf-8');
     return JSON.parse(content);
   }
 
-  private async getOwnerAddress(): Promise<string> {
-    const wallet = await this.wallet.load();
-    return wallet.address;
+  private getSigner(): Promise<AkashSigner> {
+    this.signer ??= this.wallet.getAkashSigner();
+    return this.signer;
   }
 
-  private generateDSEQ(): string {
-    return Math.floor(Date.now() / 1000).toString();
+  /** Akash address of the wallet's signer */
+  private async getSignerAddress(): Promise<string> {
+    const [account] = await (await this.getSigner()).getAccounts();
+    if (!account) {
+      throw new Error('Wallet has no Akash account');
+    }
+    return account.address;
   }
 
-  private serializeSDL(_sdl: SDLManifest): Uint8Array {
-    // Serialize SDL to bytes for on-chain storage
-    return new Uint8Array();
+  /**
+   * Akash address that owns the deployments: the signer's own, or for a CI
+   * signer the wallet that granted it
+   */
+  async getOwnerAddress(): Promise<string> {
+    return this.wallet.getAkashGranter() ?? (await this.getSignerAddress());
   }
 
-  private parseGroups(_sdl: SDLManifest): unknown[] {
-    // Parse SDL into deployment groups
-    return [];
+  private generateDSEQ(): string {
+    return Math.floor(Date.now() / 1000).toString();
   }
 
-  private async broadcastTransaction(_msg: unknown): Promise<string> {
-    // Sign and broadcast transaction using ephemeral key
-    return '0x' + Math.random().toString(16).slice(2);
+  /**
+   * Sign with the wallet's Akash key and wait for the tx to be included. A
+   * CI signer sends the message in a MsgExec, under the owner's grant.
+   */
+  private async broadcastTransaction(msg: EncodeObject, memo: string): Promise<BroadcastResult> {
+    const sender = await this.getSignerAddress();
+    this.connected ??= this.getSigner().then(signer => this.akash.connectWithSigner(signer));
+    await this.connected;
+
+    const granter = this.wallet.getAkashGranter();
+    return this.akash.broadcast(sender, [granter ? execAsGrantee(sender, [msg]) : msg], memo);
   }
 
-  private async waitForDeployment(txHash: string): Promise<Deployment> {
+  private async waitForDeployment(_txHash: string, dseq: string): Promise<Deployment> {
     // Wait for transaction confirmation and return deployment
-    console.log(`Waiting for tx: ${txHash}`);
     return {
-      dseq: this.generateDSEQ(),
+      dseq,
       owner: await this.getOwnerAddress(),
       state: 'pending',
       createdAt: new Date(),
@@ -373,11 +716,6 @@ export class DeploymentManager {
     return [];
   }
 
-  private isVerifiedProvider(_provider: string): boolean {
-    // Check if provider is verified/audited
-    return true;
-  }
-
   private async getProviderUrl(provider: string): Promise<string> {
     // Query provider's API URL
     return `https://${provider}.akash.pub`;
@@ -396,17 +734,18 @@ export class DeploymentManager {
     return null;
   }
 
-  private async queryEscrow(_dseq: string): Promise<{ balance: number; burnRate: number }> {
-    return { balance: 0, burnRate: 0 };
+  /** Escrow balance, and the lease price in uakt per block */
+  private async queryEscrow(_dseq: string): Promise<{ balance: Amount; burnRate: Amount }> {
+    return { balance: Amount.zero(AKT), burnRate: Amount.zero(AKT) };
   }
 
   private async getServiceUrl(_lease: Lease): Promise<string | undefined> {
     return undefined;
   }
 
-  private calculateTimeRemaining(escrow: { balance: number; burnRate: number }): string {
-    if (escrow.burnRate === 0) return 'N/A';
-    const hours = escrow.balance / escrow.burnRate;
+  private calculateTimeRemaining(escrow: { balance: Amount; burnRate: Amount }): string {
+    if (escrow.burnRate.isZero()) return 'N/A';
+    const hours = this.clock.hours(escrow.balance.count(escrow.burnRate));
     if (hours < 24) return `${Math.floor(hours)} hours`;
     return `${Math.floor(hours / 24)} days`;
   }
@@ -415,3 +754,61 @@ export class DeploymentManager {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 }
+
+/** The part of an SDL the provider manifest is built from, saved for rollback */
+function toManifest(sdl: SDL): SDL {
+  return {
+    version: sdl.version,
+    services: sdl.services,
+    profiles: sdl.profiles,
+    deployment: sdl.deployment,
+  };
+}
+
+function manifestPath(entry: DeploymentVersion): string {
+  return join(MANIFESTS_DIR, `${entry.dseq}-${entry.version}.json`);
+}
+
+/**
+ * uakt a transaction's transfer events moved to an address from elsewhere.
+ * Amounts list one coin per denom, e.g. "2500000uakt,10ibc/...".
+ */
+function transferredTo(address: string, events: BroadcastResult['events']): bigint {
+  let total = 0n;
+  for (const { type, attributes } of events) {
+    const attribute = (key: string) => attributes.find(entry => entry.key === key)?.value;
+    if (
+      type !== 'transfer' ||
+      attribute('recipient') !== address ||
+      attribute('sender') === address
+    ) {
+      continue;
+    }
+
+    for (const coin of attribute('amount')?.split(',') ?? []) {
+      const [, units, denom] = coin.match(/^(\d+)(.+)$/) ?? [];
+      if (units && denom === AKT.denom) {
+        total += BigInt(units);
+      }
+    }
+  }
+  return total;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex');
+}
+
+/**
+ * Group specs can't change after creation, so updates compare this hash. Prices
+ * are left out: they follow the market each time the SDL is synthesized, and
+ * the lease keeps the price it was created with.
+ */
+function resourcesHash(sdl: SDL): string {
+  const hash = createHash('sha256');
+  for (const group of buildGroupSpecs(sdl)) {
+    const resources = group.resources.map(unit => ({ ...unit, price: undefined }));
+    hash.update(GroupSpec.encode({ ...group, resources }).finish());
+  }
+  return hash.digest('hex');
+}
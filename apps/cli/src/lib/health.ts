@@ -0,0 +1,110 @@
+import type { HealthCheckConfig } from '@morpheus-deploy/core';
+
+const DEFAULTS: Required<HealthCheckConfig> = {
+  path: '/',
+  status: 200,
+  timeout: 5,
+  retries: 10,
+  interval: 5,
+};
+
+/** Responses kept for the failure report */
+const REPORTED_RESPONSES = 3;
+/** Characters of a response body kept in the report */
+const BODY_PREVIEW = 200;
+
+/** One health check: the response, or why there wasn't one */
+export interface HealthCheckResponse {
+  attempt: number;
+  status?: number;
+  body?: string;
+  error?: string;
+}
+
+export class HealthCheckError extends Error {
+  readonly url: string;
+  /** The last few checks, oldest first */
+  readonly responses: HealthCheckResponse[];
+
+  constructor(url: string, expected: number, attempts: number, responses: HealthCheckResponse[]) {
+    const lines = responses.map(
+      response => `  attempt ${response.attempt}: ${summarize(response)}`
+    );
+    super(
+      `Health check failed: GET ${url} did not return ${expected} after ${attempts} attempts\n` +
+        lines.join('\n')
+    );
+    this.name = 'HealthCheckError';
+    this.url = url;
+    this.responses = responses;
+  }
+}
+
+/**
+ * Polls a service over HTTP until it answers with the expected status, as
+ * configured under `runtime.healthCheck`
+ */
+export class HealthChecker {
+  private config: Required<HealthCheckConfig>;
+
+  constructor(config: HealthCheckConfig) {
+    this.config = { ...DEFAULTS, ...config };
+  }
+
+  /**
+   * Resolve once `serviceUrl` passes, or throw HealthCheckError with the
+   * last responses once every retry has failed. Lease URIs have no scheme,
+   * so plain HTTP is assumed for those.
+   */
+  async waitUntilHealthy(serviceUrl: string): Promise<void> {
+    const base = /^https?:\/\//.test(serviceUrl) ? serviceUrl : `http://${serviceUrl}`;
+    const url = new URL(this.config.path, base).toString();
+    const attempts = this.config.retries + 1;
+    const responses: HealthCheckResponse[] = [];
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      const response = await this.check(url, attempt);
+      if (response.status === this.config.status) {
+        return;
+      }
+
+      responses.push(response);
+      if (attempt < attempts) {
+        await this.sleep(this.config.interval * 1000);
+      }
+    }
+
+    throw new HealthCheckError(
+      url,
+      this.config.status,
+      attempts,
+      responses.slice(-REPORTED_RESPONSES)
+    );
+  }
+
+  private async check(url: string, attempt: number): Promise<HealthCheckResponse> {
+    try {
+      const response = await fetch(url, {
+        signal: AbortSignal.timeout(this.config.timeout * 1000),
+      });
+      const body = (await response.text()).slice(0, BODY_PREVIEW);
+      return { attempt, status: response.status, body };
+    } catch (error) {
+      const cause = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+      return { attempt, error: cause instanceof Error ? cause.message : String(cause) };
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+function summarize(response: HealthCheckResponse): string {
+  if (response.error) {
+    return response.error;
+  }
+  return response.body
+    ? `${response.status} ${JSON.stringify(response.body)}`
+    : `${response.status}`;
+}
@@ -0,0 +1,337 @@
+import { stripVTControlCharacters } from 'util';
+
+import {
+  ConfigValidationError,
+  SpendLimitError,
+  SwapBroadcastError,
+  SwapProtectionError,
+  type Amount,
+} from '@morpheus-deploy/core';
+import chalk from 'chalk';
+import ora from 'ora';
+import { stringify } from 'yaml';
+
+export type OutputFormat = 'text' | 'json' | 'yaml';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'yaml'];
+
+export type ErrorCategory = 'general' | 'config' | 'build' | 'network' | 'deployment' | 'funding';
+
+/** Process exit code for each error category, as documented in docs/CLI.md */
+export const EXIT_CODES: Record<ErrorCategory, number> = {
+  general: 1,
+  config: 2,
+  build: 3,
+  network: 4,
+  deployment: 5,
+  funding: 6,
+};
+
+/** Node error codes for a request that never got an answer */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ETIMEDOUT',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+/**
+ * An error with a known category, and so a known exit code
+ */
+export class CliError extends Error {
+  readonly category: ErrorCategory;
+  /** What to do about it, printed under the error in text output */
+  readonly hint?: string;
+
+  constructor(
+    message: string,
+    category: ErrorCategory,
+    options?: { cause?: unknown; hint?: string }
+  ) {
+    super(message, { cause: options?.cause });
+    this.name = 'CliError';
+    this.category = category;
+    this.hint = options?.hint;
+  }
+
+  get exitCode(): number {
+    return EXIT_CODES[this.category];
+  }
+}
+
+/**
+ * Category of a thrown error. Anything not recognised is a general error.
+ */
+export function categorize(error: unknown): ErrorCategory {
+  if (error instanceof CliError) {
+    return error.category;
+  }
+  if (error instanceof ConfigValidationError) {
+    return 'config';
+  }
+  if (
+    error instanceof SpendLimitError ||
+    error instanceof SwapProtectionError ||
+    error instanceof SwapBroadcastError
+  ) {
+    return 'funding';
+  }
+  if (isNetworkError(error)) {
+    return 'network';
+  }
+  return 'general';
+}
+
+/**
+ * Await `work`, filing any general error it throws under `category`.
+ * Errors that already have a category, such as network failures, keep it.
+ */
+export async function categorized<T>(category: ErrorCategory, work: Promise<T>): Promise<T> {
+  try {
+    return await work;
+  } catch (error) {
+    if (categorize(error) !== 'general') {
+      throw error;
+    }
+    throw new CliError(error instanceof Error ? error.message : String(error), category, {
+      cause: error,
+    });
+  }
+}
+
+function isNetworkError(error: unknown): boolean {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    const code = (current as NodeJS.ErrnoException).code;
+    if (code && NETWORK_ERROR_CODES.has(code)) {
+      return true;
+    }
+    // undici rejects with a bare TypeError and puts the reason in `cause`
+    if (current instanceof TypeError && current.message === 'fetch failed') {
+      return true;
+    }
+  }
+  return false;
+}
+
+/** An amount in a result: an exact decimal string and its token */
+export interface MoneyResult {
+  amount: string;
+  currency: string;
+}
+
+export function money(amount: Amount): MoneyResult {
+  return { amount: amount.toDecimal(), currency: amount.currency.symbol };
+}
+
+/** The ora methods commands use, so a progress stream can stand in for it */
+export interface Spinner {
+  text: string;
+  start(text?: string): Spinner;
+  stop(): Spinner;
+  succeed(text?: string): Spinner;
+  fail(text?: string): Spinner;
+  info(text?: string): Spinner;
+  warn(text?: string): Spinner;
+}
+
+export type ProgressStatus = 'start' | 'update' | 'succeed' | 'fail' | 'info' | 'warn';
+
+/** One NDJSON line on stderr */
+export interface ProgressEvent {
+  event: 'progress';
+  status: ProgressStatus;
+  message: string;
+  time: string;
+}
+
+/** The document written to stdout when a command finishes */
+export type CommandOutput<T> =
+  | { command: string; status: 'success'; result: T }
+  | {
+      command: string;
+      status: 'error';
+      error: { category: ErrorCategory; exitCode: number; message: string };
+    };
+
+/**
+ * Writes what a command reports in the format chosen with --output.
+ *
+ * Text goes to the terminal through ora and console.log as before. With json
+ * or yaml, stdout holds only the final result document (or streamed records
+ * for `logs` and `watch`), progress streams to stderr as NDJSON and
+ * decorative text is dropped, so the output can be piped straight into jq.
+ */
+export class Output {
+  readonly format: OutputFormat;
+  readonly spinner: Spinner;
+  private readonly command: string;
+
+  constructor(command: string, format: OutputFormat = 'text') {
+    if (!OUTPUT_FORMATS.includes(format)) {
+      throw new CliError(
+        `Unknown output format "${format}". Use one of: ${OUTPUT_FORMATS.join(', ')}`,
+        'general'
+      );
+    }
+    this.command = command;
+    this.format = format;
+    this.spinner = this.machine ? new ProgressSpinner(event => this.emit(event)) : ora();
+  }
+
+  /** True for json and yaml */
+  get machine(): boolean {
+    return this.format !== 'text';
+  }
+
+  /** Human-readable text; dropped from machine output */
+  log(...args: unknown[]): void {
+    if (!this.machine) {
+      console.log(...args);
+    }
+  }
+
+  /** A warning that doesn't stop the command; a progress event in machine output */
+  warn(message: string): void {
+    if (this.machine) {
+      this.spinner.warn(message);
+    } else {
+      console.log(chalk.yellow(`  ! ${message}`));
+    }
+  }
+
+  /**
+   * Fail before prompting when output is for a machine, which can't answer.
+   * `flag` is what to pass instead, e.g. "--yes".
+   */
+  assertInteractive(flag: string): void {
+    if (this.machine) {
+      throw new CliError(`Cannot prompt with --output ${this.format}; pass ${flag}`, 'general');
+    }
+  }
+
+  /** Write the command's result document. Text output has already been printed. */
+  result<T>(result: T): void {
+    this.document({ command: this.command, status: 'success', result });
+  }
+
+  /**
+   * Write one record of a streaming command such as `logs`: a line of JSON,
+   * or a YAML document
+   */
+  record(record: object): void {
+    if (this.format === 'json') {
+      process.stdout.write(JSON.stringify(record) + '\n');
+    } else if (this.format === 'yaml') {
+      process.stdout.write('---\n' + stringify(record));
+    }
+  }
+
+  /**
+   * Report `error` and exit with the code for its category
+   */
+  fail(error: unknown, message: string): never {
+    const category = categorize(error);
+    const exitCode = EXIT_CODES[category];
+    const detail = error instanceof Error ? error.message : String(error);
+
+    this.spinner.fail(message);
+    if (this.machine) {
+      this.document({
+        command: this.command,
+        status: 'error',
+        error: { category, exitCode, message: detail },
+      });
+    } else {
+      console.error(chalk.red('\nError:'), detail);
+      const hint = hintFor(error);
+      if (hint) {
+        console.error(chalk.dim(`  ${hint}\n`));
+      }
+    }
+    process.exit(exitCode);
+  }
+
+  private document<T>(output: CommandOutput<T>): void {
+    if (this.format === 'json') {
+      process.stdout.write(JSON.stringify(output, null, 2) + '\n');
+    } else if (this.format === 'yaml') {
+      process.stdout.write(stringify(output));
+    }
+  }
+
+  private emit(event: ProgressEvent): void {
+    process.stderr.write(JSON.stringify(event) + '\n');
+  }
+}
+
+function hintFor(error: unknown): string | undefined {
+  if (error instanceof CliError) {
+    return error.hint;
+  }
+  if (error instanceof SwapProtectionError) {
+    return `The rejected swap was not signed. Limits are set under ${chalk.cyan('funding.swap')} in morpheus.yaml.`;
+  }
+  if (error instanceof SwapBroadcastError) {
+    return 'Funds may already have moved. Check the transactions above before paying again.';
+  }
+  return undefined;
+}
+
+/**
+ * Stands in for ora with --output json|yaml, turning each spinner change
+ * into a progress event
+ */
+class ProgressSpinner implements Spinner {
+  private message = '';
+  private readonly emit: (event: ProgressEvent) => void;
+
+  constructor(emit: (event: ProgressEvent) => void) {
+    this.emit = emit;
+  }
+
+  get text(): string {
+    return this.message;
+  }
+
+  set text(text: string) {
+    this.message = text;
+    this.report('update', text);
+  }
+
+  start(text?: string): this {
+    this.message = text ?? this.message;
+    return this.report('start', this.message);
+  }
+
+  stop(): this {
+    return this;
+  }
+
+  succeed(text?: string): this {
+    return this.report('succeed', text ?? this.message);
+  }
+
+  fail(text?: string): this {
+    return this.report('fail', text ?? this.message);
+  }
+
+  info(text?: string): this {
+    return this.report('info', text ?? this.message);
+  }
+
+  warn(text?: string): this {
+    return this.report('warn', text ?? this.message);
+  }
+
+  private report(status: ProgressStatus, message: string): this {
+    this.emit({
+      event: 'progress',
+      status,
+      message: stripVTControlCharacters(message),
+      time: new Date().toISOString(),
+    });
+    return this;
+  }
+}
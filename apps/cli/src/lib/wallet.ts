@@ -4,6 +4,13 @@ import { homedir } from 'os';
 import { join } from 'path';
 import { randomBytes, createCipheriv, createDecipheriv, scryptSync } from 'crypto';
 
+import {
+  createAkashSigner,
+  type AkashSigner,
+  type EphemeralKeyManager,
+  type EvmTransactionRequest,
+} from '@morpheus-deploy/contracts';
+
 const WALLET_DIR = join(homedir(), '.morpheus');
 const WALLET_FILE = join(WALLET_DIR, 'wallet.json');
 
@@ -34,6 +41,15 @@ export interface EphemeralKey {
 export class WalletManager {
   private walletData: WalletData | null = null;
   private ephemeralKey: EphemeralKey | null = null;
+  private signer: EphemeralKeyManager | null;
+
+  /**
+   * With `signer`, a loaded ephemeral key stands in for the wallet in
+   * ~/.morpheus, so CI can deploy without ever holding the master key
+   */
+  constructor(signer?: EphemeralKeyManager) {
+    this.signer = signer ?? null;
+  }
 
   async exists(): Promise<boolean> {
     return existsSync(WALLET_FILE);
@@ -71,6 +87,11 @@ export class WalletManager {
   }
 
   async load(): Promise<{ address: string; publicKey: string }> {
+    if (this.signer) {
+      const { address, publicKey } = this.signer.getAccount();
+      return { address, publicKey };
+    }
+
     if (!existsSync(WALLET_FILE)) {
       throw new Error('Wallet not found. Run `morpheus init` to create one.');
     }
@@ -85,20 +106,23 @@ export class WalletManager {
   }
 
   async getBalance(): Promise<WalletBalance> {
-    if (!this.walletData) {
-      await this.load();
-    }
+    const { address } = this.walletData ?? (await this.load());
 
     // Query balances from Base network and cross-chain
     // This would use viem/ethers to query actual balances
     // For now, return placeholder implementation
 
-    const balances = await this.queryBalances(this.walletData!.address);
+    const balances = await this.queryBalances(address);
 
     return balances;
   }
 
   async signTransaction(tx: unknown): Promise<string> {
+    if (this.signer) {
+      // Swap routes are EVM transactions on Base
+      return this.signer.signTransaction(tx as EvmTransactionRequest);
+    }
+
     if (!this.walletData) {
       await this.load();
     }
@@ -121,6 +145,43 @@ export class WalletManager {
     return signature;
   }
 
+  /**
+   * Signer for Akash transactions: the CI signer when there is one, otherwise
+   * the wallet's own key
+   */
+  async getAkashSigner(): Promise<AkashSigner> {
+    if (this.signer) {
+      return this.signer.getAkashSigner();
+    }
+
+    if (!this.walletData) {
+      await this.load();
+    }
+
+    const password = await this.getOrCreatePassword();
+    const privateKey = this.decryptPrivateKey(
+      this.walletData!.encryptedPrivateKey,
+      this.walletData!.salt,
+      this.walletData!.iv,
+      password
+    );
+
+    try {
+      return await createAkashSigner(privateKey);
+    } finally {
+      // The signer holds its own copy
+      privateKey.fill(0);
+    }
+  }
+
+  /**
+   * Akash address the CI signer deploys for under its AuthZ grant, or null
+   * when the signer owns its deployments itself
+   */
+  getAkashGranter(): string | null {
+    return this.signer?.getGranter() ?? null;
+  }
+
   async createEphemeralKey(permissions: string[]): Promise<EphemeralKey> {
     // Generate ephemeral key for deployment operations
     const privateKey = randomBytes(32);
@@ -232,11 +293,9 @@ export class WalletManager {
     return `${hostname()}-${platform()}-${arch()}`;
   }
 
-  private async queryBalances(address: string): Promise<WalletBalance> {
+  private async queryBalances(_address: string): Promise<WalletBalance> {
     // Would query actual blockchain balances using viem/ethers
     // Placeholder implementation
-    console.log(`Querying balances for ${address}`);
-
     return {
       usdc: 0,
       eth: 0,
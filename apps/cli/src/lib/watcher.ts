@@ -0,0 +1,324 @@
+import { randomUUID } from 'crypto';
+import { existsSync } from 'fs';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
+import type { AkashLease, Coin, EscrowAccount } from '@morpheus-deploy/contracts';
+import { getSecurityLogger } from '@morpheus-deploy/contracts';
+import { AKT, Amount, SpendLimitError, SwapBroadcastError } from '@morpheus-deploy/core';
+import type { EconomicEngine } from '@morpheus-deploy/core';
+
+export const WATCH_STATE_PATH = '.morpheus/watch/state.json';
+
+/** How long a top-up may take to reach the escrow before it is reported as stuck */
+const DEFAULT_SETTLE_TIMEOUT = 30 * 60 * 1000;
+
+export type WatchStatus = 'ok' | 'low' | 'topping-up' | 'limited' | 'stuck' | 'closed' | 'error';
+
+/**
+ * A top-up that was started but not yet seen in the escrow. It is written
+ * before the swap, so after a crash the watcher waits for it to land instead
+ * of paying again.
+ */
+export interface PendingTopUp {
+  id: string;
+  startedAt: string;
+  /** Escrow balance when the top-up started, in uakt */
+  balanceBefore: string;
+  /** Swap transaction, once it has been submitted */
+  txHash?: string;
+}
+
+export interface WatchedDeployment {
+  dseq: string;
+  status: WatchStatus;
+  checkedAt?: string;
+  /** Escrow balance, in uakt */
+  balance?: string;
+  /** Lease price, in uakt per block */
+  burnRate?: string;
+  hoursRemaining?: number;
+  pendingTopUp?: PendingTopUp;
+  lastTopUp?: { id: string; txHash?: string; completedAt: string };
+  error?: string;
+}
+
+export interface WatchState {
+  deployments: Record<string, WatchedDeployment>;
+}
+
+export interface EscrowWatcherOptions {
+  /** Akash chain queries, usually an AkashClient */
+  chain: {
+    getEscrow(owner: string, dseq: string): Promise<EscrowAccount | null>;
+    listLeases(owner: string, dseq: string): Promise<AkashLease[]>;
+  };
+  engine: Pick<EconomicEngine, 'checkEscrowHealth' | 'autoTopUp'>;
+  owner: string;
+  dseqs: string[];
+  statePath?: string;
+  /** Time between checks, in ms (default: 5 minutes) */
+  interval?: number;
+  /** Time after which an unconfirmed top-up is reported as stuck, in ms */
+  settleTimeout?: number;
+}
+
+/**
+ * Watches the escrow of one or more deployments and tops them up through
+ * `EconomicEngine.autoTopUp` when they run low. State is saved after every
+ * check so a restarted watcher picks up where the last one stopped.
+ */
+export class EscrowWatcher {
+  private chain: EscrowWatcherOptions['chain'];
+  private engine: EscrowWatcherOptions['engine'];
+  private owner: string;
+  private dseqs: string[];
+  private statePath: string;
+  private interval: number;
+  private settleTimeout: number;
+  private state: WatchState = { deployments: {} };
+  private timer?: NodeJS.Timeout;
+  private startedAt?: string;
+  private lastRunAt?: string;
+
+  constructor(options: EscrowWatcherOptions) {
+    this.chain = options.chain;
+    this.engine = options.engine;
+    this.owner = options.owner;
+    this.dseqs = options.dseqs;
+    this.statePath = options.statePath ?? WATCH_STATE_PATH;
+    this.interval = options.interval ?? 5 * 60 * 1000;
+    this.settleTimeout = options.settleTimeout ?? DEFAULT_SETTLE_TIMEOUT;
+  }
+
+  /**
+   * Load saved state, then check every deployment now and after each interval
+   */
+  async start(onCheck?: (deployments: WatchedDeployment[]) => void): Promise<void> {
+    await this.load();
+    this.startedAt = new Date().toISOString();
+
+    const run = async () => {
+      onCheck?.(await this.checkAll());
+      this.timer = setTimeout(run, this.interval);
+    };
+    await run();
+  }
+
+  stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  async load(): Promise<void> {
+    if (existsSync(this.statePath)) {
+      this.state = JSON.parse(await readFile(this.statePath, 'utf-8'));
+    }
+  }
+
+  /**
+   * Forget unconfirmed top-ups so they can be retried. Only for use once the
+   * swap is known to have failed.
+   */
+  async clearPending(dseqs: string[] = this.dseqs): Promise<void> {
+    for (const dseq of dseqs) {
+      delete this.state.deployments[dseq]?.pendingTopUp;
+    }
+    await this.save();
+  }
+
+  async checkAll(): Promise<WatchedDeployment[]> {
+    const results: WatchedDeployment[] = [];
+    for (const dseq of this.dseqs) {
+      results.push(await this.check(dseq));
+    }
+    this.lastRunAt = new Date().toISOString();
+    return results;
+  }
+
+  /**
+   * Check one deployment, starting or confirming a top-up as needed
+   */
+  async check(dseq: string): Promise<WatchedDeployment> {
+    const previous = this.state.deployments[dseq];
+    const entry: WatchedDeployment = {
+      dseq,
+      status: 'ok',
+      checkedAt: new Date().toISOString(),
+      pendingTopUp: previous?.pendingTopUp,
+      lastTopUp: previous?.lastTopUp,
+    };
+    this.state.deployments[dseq] = entry;
+
+    try {
+      await this.inspect(entry);
+    } catch (error) {
+      entry.status = 'error';
+      entry.error = error instanceof Error ? error.message : String(error);
+    }
+
+    await this.save();
+    return entry;
+  }
+
+  /**
+   * Readiness for the health endpoint. Unhealthy when a deployment could not
+   * be checked, a top-up is stuck, or checks have stopped running.
+   */
+  health(): {
+    healthy: boolean;
+    startedAt?: string;
+    lastRunAt?: string;
+    deployments: WatchedDeployment[];
+  } {
+    const deployments = this.dseqs.map(
+      dseq => this.state.deployments[dseq] ?? { dseq, status: 'ok' as const }
+    );
+    const stale = !this.lastRunAt || Date.now() - Date.parse(this.lastRunAt) > this.interval * 3;
+
+    return {
+      healthy: !stale && deployments.every(d => d.status !== 'error' && d.status !== 'stuck'),
+      startedAt: this.startedAt,
+      lastRunAt: this.lastRunAt,
+      deployments,
+    };
+  }
+
+  private async inspect(entry: WatchedDeployment): Promise<void> {
+    const escrow = await this.chain.getEscrow(this.owner, entry.dseq);
+    if (!escrow || escrow.state === 'closed') {
+      entry.status = 'closed';
+      return;
+    }
+
+    const leases = await this.chain.listLeases(this.owner, entry.dseq);
+    const balance = toUakt(escrow.balance, 'down');
+    const burnRate = leases.reduce(
+      (total, lease) => total.plus(toUakt(lease.price, 'up')),
+      Amount.zero(AKT)
+    );
+
+    entry.balance = balance.units.toString();
+    entry.burnRate = burnRate.units.toString();
+
+    const pending = entry.pendingTopUp;
+    if (pending) {
+      await this.settle(entry, pending, balance);
+      return;
+    }
+
+    const health = await this.engine.checkEscrowHealth(balance, burnRate);
+    entry.hoursRemaining = health.hoursRemaining;
+    if (!health.needsTopUp) {
+      return;
+    }
+
+    // Record the intent before paying, so a crash during the swap can't lead
+    // to a second one
+    const topUp: PendingTopUp = {
+      id: randomUUID(),
+      startedAt: new Date().toISOString(),
+      balanceBefore: entry.balance,
+    };
+    entry.pendingTopUp = topUp;
+    entry.status = 'topping-up';
+    await this.save();
+
+    await getSecurityLogger().info('ESCROW_TOPUP_STARTED', {
+      dseq: entry.dseq,
+      topUp: topUp.id,
+      balance: entry.balance,
+      recommended: health.recommendedTopUp.units.toString(),
+    });
+
+    let result;
+    try {
+      result = await this.engine.autoTopUp(entry.dseq, balance, burnRate);
+    } catch (error) {
+      if (error instanceof SwapBroadcastError) {
+        // Funds may be on their way, so wait for them rather than paying again
+        topUp.txHash = error.txHashes[0];
+        throw error;
+      }
+      // Failed before anything was paid, so it can be tried again next check
+      delete entry.pendingTopUp;
+      if (!(error instanceof SpendLimitError)) {
+        throw error;
+      }
+      entry.status = 'limited';
+      entry.error = error.message;
+      return;
+    }
+
+    if (!result) {
+      // Auto top-up is disabled, so nothing was paid
+      delete entry.pendingTopUp;
+      entry.status = 'low';
+      return;
+    }
+
+    topUp.txHash = result.txHash;
+  }
+
+  /**
+   * Confirm a pending top-up once the escrow has grown. Until then no other
+   * top-up is started, and one that takes too long is reported as stuck.
+   */
+  private async settle(
+    entry: WatchedDeployment,
+    pending: PendingTopUp,
+    balance: Amount
+  ): Promise<void> {
+    if (balance.units > BigInt(pending.balanceBefore)) {
+      entry.lastTopUp = {
+        id: pending.id,
+        txHash: pending.txHash,
+        completedAt: new Date().toISOString(),
+      };
+      delete entry.pendingTopUp;
+      await getSecurityLogger().info('ESCROW_TOPUP_CONFIRMED', {
+        dseq: entry.dseq,
+        topUp: pending.id,
+        txHash: pending.txHash,
+        balance: entry.balance,
+      });
+      return;
+    }
+
+    if (Date.now() - Date.parse(pending.startedAt) < this.settleTimeout) {
+      entry.status = 'topping-up';
+      return;
+    }
+
+    entry.status = 'stuck';
+    await getSecurityLogger().warn('ESCROW_TOPUP_STUCK', {
+      dseq: entry.dseq,
+      topUp: pending.id,
+      txHash: pending.txHash,
+      startedAt: pending.startedAt,
+    });
+  }
+
+  /** Write to a temporary file first so a crash never leaves half a state file */
+  private async save(): Promise<void> {
+    await mkdir(dirname(this.statePath), { recursive: true });
+    const temp = `${this.statePath}.tmp`;
+    await writeFile(temp, JSON.stringify(this.state, null, 2), { mode: 0o600 });
+    await rename(temp, this.statePath);
+  }
+}
+
+/**
+ * Akash reports escrow balances and lease prices as decimal coins, e.g.
+ * "1000.5" uakt. Balances are rounded down and prices up, so the watcher
+ * never overestimates how long an escrow lasts.
+ */
+function toUakt(coin: Coin, rounding: 'up' | 'down'): Amount {
+  if (coin.denom !== AKT.denom) {
+    throw new Error(`Expected ${AKT.denom}, got ${coin.denom}`);
+  }
+
+  const [whole = '0', fraction = ''] = coin.amount.split('.');
+  const units = BigInt(whole);
+  return Amount.fromUnits(rounding === 'up' && /[1-9]/.test(fraction) ? units + 1n : units, AKT);
+}
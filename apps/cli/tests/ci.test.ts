@@ -0,0 +1,264 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { EphemeralKeyManager } from '@morpheus-deploy/contracts';
+import { AKT, Amount, EconomicEngine, USDC } from '@morpheus-deploy/core';
+import inquirer from 'inquirer';
+import { parseTransaction, recoverTransactionAddress } from 'viem';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { loadCiSettings, missingSecrets, reportToGitHub } from '../src/lib/ci';
+import { DeploymentManager } from '../src/lib/deployment';
+import { CliError } from '../src/lib/output';
+
+const PRIVATE_KEY = `0x${'11'.repeat(32)}`;
+const ADDRESS = '0x19E7E376E7C213B7E7e7e46cc70A5dD086DAff2A';
+
+const mocks = vi.hoisted(() => ({
+  loadConfig: vi.fn(),
+  executeSwap: vi.fn(),
+  create: vi.fn(),
+}));
+
+vi.mock('@morpheus-deploy/core', async importOriginal => {
+  const actual = await importOriginal<typeof import('@morpheus-deploy/core')>();
+  return {
+    ...actual,
+    EconomicEngine: vi.fn().mockImplementation(() => ({ executeSwap: mocks.executeSwap })),
+    // Quote from the fallback table instead of the live market
+    PricingService: vi.fn().mockImplementation(() => new actual.PricingService()),
+  };
+});
+
+vi.mock('../src/lib/config.js', () => ({
+  loadConfig: mocks.loadConfig,
+}));
+
+vi.mock('../src/lib/deployment.js', () => {
+  const bid = { id: '700-1-1-akash1provider', provider: 'akash1provider', price: 90 };
+  const lease = { id: '700-1-1-akash1provider', dseq: '700', provider: 'akash1provider' };
+
+  return {
+    DeploymentManager: vi.fn().mockImplementation(() => ({
+      loadCredentials: vi.fn().mockResolvedValue(null),
+      saveCredentials: vi.fn(),
+      create: mocks.create,
+      waitForBids: vi.fn().mockResolvedValue([bid]),
+      selectBestBid: vi.fn().mockResolvedValue({ selected: bid, accepted: [bid], rejected: [] }),
+      reviewBidPrice: vi.fn().mockResolvedValue({ warnings: [], action: 'accept' }),
+      createLease: vi.fn().mockResolvedValue(lease),
+      sealSecrets: vi.fn().mockImplementation(async sdl => sdl),
+      sendManifest: vi.fn(),
+      waitForService: vi.fn().mockResolvedValue('https://ci.example'),
+      saveState: vi.fn(),
+    })),
+  };
+});
+
+vi.mock('fs', async importOriginal => ({
+  ...(await importOriginal<typeof import('fs')>()),
+  existsSync: vi.fn().mockReturnValue(true),
+}));
+
+vi.mock('inquirer', () => ({
+  default: { prompt: vi.fn() },
+}));
+
+vi.mock('ora', () => ({
+  default: vi.fn().mockReturnValue({
+    start: vi.fn().mockReturnThis(),
+    stop: vi.fn().mockReturnThis(),
+    succeed: vi.fn().mockReturnThis(),
+    info: vi.fn().mockReturnThis(),
+    warn: vi.fn().mockReturnThis(),
+    fail: vi.fn().mockReturnThis(),
+    text: '',
+  }),
+}));
+
+function exportedKey(expiresAt = new Date(Date.now() + 3_600_000)): string {
+  return Buffer.from(
+    JSON.stringify({
+      privateKey: PRIVATE_KEY,
+      createdAt: new Date().toISOString(),
+      expiresAt: expiresAt.toISOString(),
+      permissions: ['/akash.deployment.v1beta3.MsgCreateDeployment'],
+    })
+  ).toString('base64');
+}
+
+describe('CI mode', () => {
+  let dir: string;
+  let errors: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    dir = await mkdtemp(join(tmpdir(), 'morpheus-ci-'));
+    errors = '';
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation((...args: unknown[]) => {
+      errors += args.join(' ') + '\n';
+    });
+    vi.spyOn(process, 'exit').mockImplementation(code => {
+      throw new Error(`process.exit(${code})`);
+    });
+
+    mocks.loadConfig.mockResolvedValue({
+      project: 'ci',
+      template: 'ai-agent',
+      provider: 'akash',
+      resources: { cpu: 2, memory: '4Gi', storage: '10Gi' },
+      runtime: { port: 8000, image: 'ghcr.io/acme/ci:v1' },
+      env: { secrets: ['OPENAI_API_KEY'] },
+    });
+    mocks.executeSwap.mockResolvedValue({
+      sourceAmount: Amount.parse('10', USDC),
+      destinationAmount: Amount.parse('4', AKT),
+      txHash: '0xswap',
+    });
+    mocks.create.mockResolvedValue({ dseq: '700', owner: 'akash1owner', state: 'active' });
+    vi.stubEnv('MORPHEUS_EPHEMERAL_KEY', exportedKey());
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    vi.stubEnv('GITHUB_OUTPUT', join(dir, 'output'));
+    vi.stubEnv('GITHUB_STEP_SUMMARY', join(dir, 'summary.md'));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should sign swap transactions with the exported ephemeral key', async () => {
+    // Base RPC: the key's pending nonce and the current fees
+    const rpc: Record<string, unknown> = {
+      eth_getTransactionCount: '0x7',
+      eth_getBlockByNumber: { number: '0x10', baseFeePerGas: '0x3b9aca00' },
+      eth_maxPriorityFeePerGas: '0x5f5e100',
+    };
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (_url: string, init: RequestInit) => {
+        const { id, method } = JSON.parse(String(init.body));
+        return new Response(JSON.stringify({ jsonrpc: '2.0', id, result: rpc[method] }));
+      })
+    );
+    const to = '0x3333333333333333333333333333333333333333';
+    const { wallet } = await loadCiSettings();
+
+    expect(await wallet.load()).toMatchObject({ address: ADDRESS });
+    const signed = (await wallet.signTransaction({
+      chainId: '8453',
+      to,
+      data: '0x1234',
+      value: '5',
+      gasLimit: '500000',
+    })) as `0x${string}`;
+
+    expect(await recoverTransactionAddress({ serializedTransaction: signed })).toBe(ADDRESS);
+    expect(parseTransaction(signed)).toMatchObject({
+      chainId: 8453,
+      nonce: 7,
+      to,
+      data: '0x1234',
+      value: 5n,
+      gas: 500000n,
+    });
+  });
+
+  it('should refuse to sign for a chain other than Base', async () => {
+    const { wallet } = await loadCiSettings();
+
+    await expect(
+      wallet.signTransaction({ chainId: '1', to: ADDRESS, data: '0x', value: '0', gasLimit: '1' })
+    ).rejects.toThrow('Cannot sign transactions for chain 1');
+  });
+
+  it('should read the granting wallet from the exported key', async () => {
+    const granted = JSON.parse(Buffer.from(exportedKey(), 'base64').toString());
+    vi.stubEnv(
+      'MORPHEUS_EPHEMERAL_KEY',
+      Buffer.from(JSON.stringify({ ...granted, granter: 'akash1granter' })).toString('base64')
+    );
+
+    expect((await loadCiSettings()).wallet.getAkashGranter()).toBe('akash1granter');
+  });
+
+  it('should report every missing or invalid setting at once', async () => {
+    const settings = loadCiSettings({ MORPHEUS_NETWORK: 'devnet' });
+
+    await expect(settings).rejects.toBeInstanceOf(CliError);
+    await expect(settings).rejects.toMatchObject({ category: 'config' });
+    await expect(settings).rejects.toThrow(/MORPHEUS_NETWORK must be mainnet or testnet/);
+    await expect(settings).rejects.toThrow(/MORPHEUS_EPHEMERAL_KEY is not set/);
+  });
+
+  it('should refuse an expired key', async () => {
+    await expect(
+      loadCiSettings({ MORPHEUS_EPHEMERAL_KEY: exportedKey(new Date(Date.now() - 1000)) })
+    ).rejects.toThrow(/expired/);
+  });
+
+  it('should keep an exported key out of storage', async () => {
+    const keys = new EphemeralKeyManager({ storageDir: dir });
+    await keys.loadExported(exportedKey());
+    await keys.recordGrant('0xgrant');
+
+    await expect(readFile(join(dir, 'ephemeral-key.json'))).rejects.toThrow(/ENOENT/);
+  });
+
+  it('should list secrets declared for the project and its services', () => {
+    expect(
+      missingSecrets(
+        {
+          project: 'ci',
+          template: 'custom',
+          env: { secrets: ['OPENAI_API_KEY'] },
+          services: { db: { env: { secrets: ['DB_PASSWORD', 'OPENAI_API_KEY'] } } },
+        } as never,
+        { OPENAI_API_KEY: 'sk-test' }
+      )
+    ).toEqual(['DB_PASSWORD']);
+  });
+
+  it('should write step outputs and a job summary', async () => {
+    await reportToGitHub('Morpheus deployment: ci', { dseq: '700', url: 'https://ci.example' });
+
+    expect(await readFile(join(dir, 'output'), 'utf-8')).toBe('dseq=700\nurl=https://ci.example\n');
+    expect(await readFile(join(dir, 'summary.md'), 'utf-8')).toContain('| dseq | `700` |');
+  });
+
+  it('should deploy without prompting and set the step outputs', async () => {
+    const { deployCommand } = await import('../src/commands/deploy');
+
+    await deployCommand({ ci: true, skipBuild: true });
+
+    expect(inquirer.prompt).not.toHaveBeenCalled();
+    expect(await readFile(join(dir, 'output'), 'utf-8')).toBe(
+      'dseq=700\nurl=https://ci.example\nprovider=akash1provider\nlease-id=700-1-1-akash1provider\n'
+    );
+  });
+
+  it('should apply MORPHEUS_NETWORK to everything built from the config', async () => {
+    vi.stubEnv('MORPHEUS_NETWORK', 'testnet');
+    const { deployCommand } = await import('../src/commands/deploy');
+
+    await deployCommand({ ci: true, skipBuild: true });
+
+    const network = expect.objectContaining({ network: 'testnet' });
+    expect(EconomicEngine).toHaveBeenCalledWith(network, expect.anything());
+    expect(DeploymentManager).toHaveBeenCalledWith(network, expect.anything(), undefined);
+  });
+
+  it('should fail before deploying when a secret is not set', async () => {
+    vi.stubEnv('OPENAI_API_KEY', '');
+    const { deployCommand } = await import('../src/commands/deploy');
+
+    await expect(deployCommand({ ci: true, skipBuild: true })).rejects.toThrow('process.exit(2)');
+
+    expect(errors).toContain('Secrets missing from the environment: OPENAI_API_KEY');
+    expect(mocks.executeSwap).not.toHaveBeenCalled();
+    expect(mocks.create).not.toHaveBeenCalled();
+  });
+});
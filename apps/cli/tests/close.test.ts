@@ -0,0 +1,154 @@
+import { AKT, Amount, USDC } from '@morpheus-deploy/core';
+import inquirer from 'inquirer';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  close: vi.fn(),
+  archive: vi.fn(),
+  getActiveDeployment: vi.fn(),
+  listOpenDeployments: vi.fn(),
+  swapToUsdc: vi.fn(),
+  getPrice: vi.fn(),
+}));
+
+vi.mock('@morpheus-deploy/core', async importOriginal => ({
+  ...(await importOriginal<typeof import('@morpheus-deploy/core')>()),
+  EconomicEngine: vi.fn().mockImplementation(() => ({ swapToUsdc: mocks.swapToUsdc })),
+  PriceOracle: vi.fn().mockImplementation(() => ({ getPrice: mocks.getPrice })),
+}));
+
+vi.mock('../src/lib/config.js', () => ({
+  loadConfig: vi.fn().mockResolvedValue({ project: 'closing', template: 'ai-agent' }),
+}));
+
+vi.mock('../src/lib/wallet.js', () => ({
+  WalletManager: vi.fn().mockImplementation(() => ({})),
+}));
+
+vi.mock('../src/lib/deployment.js', () => ({
+  DeploymentManager: vi.fn().mockImplementation(() => ({
+    close: mocks.close,
+    archive: mocks.archive,
+    getActiveDeployment: mocks.getActiveDeployment,
+    listOpenDeployments: mocks.listOpenDeployments,
+  })),
+}));
+
+vi.mock('inquirer', () => ({
+  default: { prompt: vi.fn() },
+}));
+
+vi.mock('ora', () => ({
+  default: vi.fn().mockReturnValue({
+    start: vi.fn().mockReturnThis(),
+    stop: vi.fn().mockReturnThis(),
+    succeed: vi.fn().mockReturnThis(),
+    fail: vi.fn().mockReturnThis(),
+    text: '',
+  }),
+}));
+
+function deployment(dseq: string) {
+  return { dseq, owner: 'akash1owner', state: 'active', createdAt: new Date() };
+}
+
+describe('close', () => {
+  let output: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    output = '';
+    vi.spyOn(console, 'log').mockImplementation((...args: unknown[]) => {
+      output += args.join(' ') + '\n';
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(process, 'exit').mockImplementation(code => {
+      throw new Error(`process.exit(${code})`);
+    });
+
+    vi.mocked(inquirer.prompt).mockResolvedValue({ confirm: true });
+    mocks.getActiveDeployment.mockResolvedValue(deployment('100'));
+    mocks.listOpenDeployments.mockResolvedValue([]);
+    mocks.close.mockImplementation(async (dseq: string) => ({
+      txHash: `0xclose${dseq}`,
+      refund: Amount.parse('12.5', AKT),
+    }));
+    mocks.getPrice.mockResolvedValue(2.5);
+  });
+
+  it('should close the active deployment and report the refund', async () => {
+    const { closeCommand } = await import('../src/commands/close');
+
+    await closeCommand({});
+
+    expect(mocks.close).toHaveBeenCalledWith('100');
+    expect(mocks.archive).toHaveBeenCalledWith('100', {
+      txHash: '0xclose100',
+      refund: Amount.parse('12.5', AKT),
+    });
+    expect(output).toContain('12.5000 AKT (~$31.25 USDC)');
+    expect(mocks.swapToUsdc).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing when the prompt is declined', async () => {
+    vi.mocked(inquirer.prompt).mockResolvedValue({ confirm: false });
+    const { closeCommand } = await import('../src/commands/close');
+
+    await closeCommand({ deployment: '200' });
+
+    expect(mocks.close).not.toHaveBeenCalled();
+    expect(mocks.archive).not.toHaveBeenCalled();
+  });
+
+  it('should close every open deployment with --all', async () => {
+    mocks.listOpenDeployments.mockResolvedValue(['100', '101']);
+    const { closeCommand } = await import('../src/commands/close');
+
+    await closeCommand({ all: true, yes: true });
+
+    expect(inquirer.prompt).not.toHaveBeenCalled();
+    expect(mocks.close.mock.calls.map(([dseq]) => dseq)).toEqual(['100', '101']);
+    expect(output).toContain('25.0000 AKT (~$62.50 USDC)');
+  });
+
+  it('should still report the refund without a price', async () => {
+    mocks.getPrice.mockRejectedValue(new Error('Failed to fetch price for AKT/USDC'));
+    const { closeCommand } = await import('../src/commands/close');
+
+    await closeCommand({ yes: true });
+
+    expect(output).toContain('12.5000 AKT (AKT price unavailable)');
+  });
+
+  it('should sweep the refund back to USDC with --sweep', async () => {
+    mocks.swapToUsdc.mockResolvedValue({
+      sourceAmount: Amount.parse('12.5', AKT),
+      destinationAmount: Amount.parse('31.25', USDC),
+      txHash: '0xsweep',
+    });
+    const { closeCommand } = await import('../src/commands/close');
+
+    await closeCommand({ yes: true, sweep: true });
+
+    expect(mocks.swapToUsdc).toHaveBeenCalledWith(Amount.parse('12.5', AKT));
+    expect(output).toContain('0xsweep');
+  });
+
+  it('should keep the close when the sweep fails', async () => {
+    mocks.swapToUsdc.mockRejectedValue(new Error('Transaction timeout'));
+    const { closeCommand } = await import('../src/commands/close');
+
+    // A funding error, though the deployments stay closed
+    await expect(closeCommand({ yes: true, sweep: true })).rejects.toThrow('process.exit(6)');
+
+    expect(mocks.archive).toHaveBeenCalledWith('100', expect.anything());
+  });
+
+  it('should fail without a deployment to close', async () => {
+    mocks.getActiveDeployment.mockResolvedValue(null);
+    const { closeCommand } = await import('../src/commands/close');
+
+    await expect(closeCommand({ yes: true })).rejects.toThrow('process.exit(1)');
+    expect(mocks.close).not.toHaveBeenCalled();
+  });
+});
@@ -1,7 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 
 // Mock dependencies before importing commands
-vi.mock('@morpheus-deploy/core', () => ({
+vi.mock('@morpheus-deploy/core', async importOriginal => ({
+  // Keep Amount and the currencies, which commands use as plain values
+  ...(await importOriginal<typeof import('@morpheus-deploy/core')>()),
   SDLSynthesizer: vi.fn().mockImplementation(() => ({
     synthesize: vi.fn().mockResolvedValue({
       version: '2.0',
@@ -80,6 +80,14 @@ runtime:
 
     await expect(loadConfig('/nonexistent/morpheus.yaml')).rejects.toThrow();
   });
+
+  it('should reject unknown keys with their location', async () => {
+    vi.mocked(fs.readFile).mockResolvedValue('project: test-project\nresoures:\n  cpu: 2\n');
+
+    await expect(loadConfig('/path/to/morpheus.yaml')).rejects.toThrow(
+      'morpheus.yaml:2:1 resoures: Unknown key "resoures"'
+    );
+  });
 });
 
 describe('saveConfig', () => {
@@ -0,0 +1,337 @@
+import { AKT, Amount, USDC } from '@morpheus-deploy/core';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { loadConfig } from '../src/lib/config.js';
+import { DeploymentManager } from '../src/lib/deployment.js';
+import { HealthCheckError } from '../src/lib/health.js';
+
+const mocks = vi.hoisted(() => ({
+  build: vi.fn(),
+  executeSwap: vi.fn(),
+  create: vi.fn(),
+  loadWallet: vi.fn(),
+  saveCredentials: vi.fn(),
+  writeFile: vi.fn(),
+  getActiveDeployment: vi.fn(),
+  getActiveLease: vi.fn(),
+  update: vi.fn(),
+  sendManifest: vi.fn(),
+  saveState: vi.fn(),
+  waitForBids: vi.fn(),
+  selectBestBid: vi.fn(),
+  reviewBidPrice: vi.fn(),
+  repost: vi.fn(),
+  createLease: vi.fn(),
+  waitForService: vi.fn().mockResolvedValue('https://agent.example'),
+  getVersions: vi.fn(),
+  loadManifest: vi.fn(),
+}));
+
+vi.mock('@morpheus-deploy/core', async importOriginal => {
+  const actual = await importOriginal<typeof import('@morpheus-deploy/core')>();
+  return {
+    ...actual,
+    BuildEngine: vi.fn().mockImplementation(() => ({
+      build: mocks.build.mockResolvedValue({ tag: 'dry:v1', framework: 'node' }),
+    })),
+    EconomicEngine: vi.fn().mockImplementation(() => ({ executeSwap: mocks.executeSwap })),
+    // Quote from the fallback table instead of the live market
+    PricingService: vi.fn().mockImplementation(() => new actual.PricingService()),
+  };
+});
+
+vi.mock('../src/lib/config.js', () => ({
+  loadConfig: vi.fn().mockResolvedValue({
+    project: 'dry',
+    template: 'ai-agent',
+    provider: 'akash',
+    resources: { cpu: 2, memory: '4Gi', storage: '10Gi' },
+    runtime: { port: 8000, image: 'ghcr.io/acme/dry:v0' },
+    funding: {
+      sourceToken: 'USDC',
+      autoTopUp: true,
+      threshold: 0.1,
+      split: { staking: 0.6, compute: 0.4 },
+    },
+  }),
+}));
+
+vi.mock('../src/lib/wallet.js', () => ({
+  WalletManager: vi.fn().mockImplementation(() => ({
+    load: mocks.loadWallet,
+    getBalance: vi.fn().mockResolvedValue({ usdc: 100 }),
+  })),
+}));
+
+vi.mock('../src/lib/deployment.js', () => ({
+  DeploymentManager: vi.fn().mockImplementation(() => ({
+    loadCredentials: vi.fn().mockResolvedValue(null),
+    saveCredentials: mocks.saveCredentials,
+    create: mocks.create,
+    getActiveDeployment: mocks.getActiveDeployment,
+    getActiveLease: mocks.getActiveLease,
+    update: mocks.update,
+    sealSecrets: vi.fn().mockImplementation(async sdl => sdl),
+    sendManifest: mocks.sendManifest,
+    waitForService: mocks.waitForService,
+    getVersions: mocks.getVersions,
+    loadManifest: mocks.loadManifest,
+    saveState: mocks.saveState,
+    waitForBids: mocks.waitForBids,
+    selectBestBid: mocks.selectBestBid,
+    reviewBidPrice: mocks.reviewBidPrice,
+    repost: mocks.repost,
+    createLease: mocks.createLease,
+  })),
+}));
+
+vi.mock('fs', async importOriginal => ({
+  ...(await importOriginal<typeof import('fs')>()),
+  existsSync: vi.fn().mockReturnValue(true),
+}));
+
+vi.mock('fs/promises', async importOriginal => ({
+  ...(await importOriginal<typeof import('fs/promises')>()),
+  mkdir: vi.fn().mockResolvedValue(undefined),
+  writeFile: mocks.writeFile,
+}));
+
+vi.mock('ora', () => ({
+  default: vi.fn().mockReturnValue({
+    start: vi.fn().mockReturnThis(),
+    succeed: vi.fn().mockReturnThis(),
+    info: vi.fn().mockReturnThis(),
+    fail: vi.fn().mockReturnThis(),
+    text: '',
+  }),
+}));
+
+describe('deploy --dry-run', () => {
+  let output: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    output = '';
+    vi.spyOn(console, 'log').mockImplementation((...args: unknown[]) => {
+      output += args.join(' ') + '\n';
+    });
+    vi.spyOn(process, 'exit').mockImplementation(code => {
+      throw new Error(`process.exit(${code})`);
+    });
+  });
+
+  it('should write the SDL and cost breakdown without touching wallet or chain', async () => {
+    const { deployCommand } = await import('../src/commands/deploy');
+
+    await deployCommand({ dryRun: true, duration: '30d' });
+
+    expect(mocks.build).toHaveBeenCalled();
+    expect(mocks.writeFile).toHaveBeenCalledWith(
+      '.morpheus/deploy.yaml',
+      expect.stringContaining('version: "2.0"'),
+      'utf-8'
+    );
+    expect(output).toContain('Cost Breakdown');
+    expect(output).toMatch(/agent: 2 CPU, 4Gi RAM x1/);
+    expect(output).toMatch(/Compute \(AKT\): ~\$[\d.]+ USDC/);
+    expect(output).toMatch(/Staking \(MOR\): ~\$[\d.]+ USDC/);
+
+    expect(mocks.loadWallet).not.toHaveBeenCalled();
+    expect(mocks.executeSwap).not.toHaveBeenCalled();
+    expect(mocks.create).not.toHaveBeenCalled();
+    expect(mocks.saveCredentials).not.toHaveBeenCalled();
+  });
+
+  it('should use runtime.image instead of building with --skip-build', async () => {
+    const { deployCommand } = await import('../src/commands/deploy');
+
+    await deployCommand({ dryRun: true, skipBuild: true });
+
+    expect(mocks.build).not.toHaveBeenCalled();
+    expect(mocks.writeFile).toHaveBeenCalledWith(
+      '.morpheus/deploy.yaml',
+      expect.stringContaining('image: ghcr.io/acme/dry:v0'),
+      'utf-8'
+    );
+  });
+
+  it('should load the --env overlay and keep its state separate', async () => {
+    const { deployCommand } = await import('../src/commands/deploy');
+
+    await deployCommand({ dryRun: true, skipBuild: true, env: 'staging' });
+
+    expect(loadConfig).toHaveBeenCalledWith('morpheus.yaml', 'staging');
+    expect(DeploymentManager).toHaveBeenCalledWith(expect.anything(), expect.anything(), 'staging');
+  });
+});
+
+describe('deploy --update', () => {
+  const deployment = { dseq: '123', owner: 'akash1owner', state: 'active', createdAt: new Date() };
+  const lease = { id: '123-1-1-akash1provider', dseq: '123', provider: 'akash1provider' };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(process, 'exit').mockImplementation(code => {
+      throw new Error(`process.exit(${code})`);
+    });
+    mocks.loadWallet.mockResolvedValue({ address: 'akash1owner' });
+    mocks.update.mockResolvedValue('ab'.repeat(32));
+  });
+
+  it('should push a new manifest to the active lease and record the image', async () => {
+    mocks.getActiveDeployment.mockResolvedValue(deployment);
+    mocks.getActiveLease.mockResolvedValue(lease);
+    const { deployCommand } = await import('../src/commands/deploy');
+
+    await deployCommand({ update: true, skipBuild: true, yes: true });
+
+    expect(mocks.update).toHaveBeenCalledWith('123', expect.objectContaining({ version: '2.0' }));
+    expect(mocks.sendManifest).toHaveBeenCalledWith(lease, expect.anything());
+    expect(mocks.saveState).toHaveBeenCalledWith(deployment, lease, 'https://agent.example', {
+      tag: 'ghcr.io/acme/dry:v0',
+    });
+    expect(mocks.executeSwap).not.toHaveBeenCalled();
+    expect(mocks.create).not.toHaveBeenCalled();
+  });
+
+  it('should restore the last healthy manifest when the update fails its health checks', async () => {
+    const previous = { dseq: '123', version: 'cd'.repeat(32), image: 'ghcr.io/acme/dry:v-1' };
+    const unhealthy = { dseq: '123', version: 'ef'.repeat(32), image: 'dry:v-2', unhealthy: true };
+    const manifest = { version: '2.0', services: {} };
+    mocks.getActiveDeployment.mockResolvedValue(deployment);
+    mocks.getActiveLease.mockResolvedValue(lease);
+    mocks.getVersions.mockResolvedValue([previous, unhealthy]);
+    mocks.loadManifest.mockResolvedValue(manifest);
+    mocks.waitForService.mockRejectedValueOnce(
+      new HealthCheckError('https://agent.example/health', 200, 3, [
+        { attempt: 3, status: 503, body: 'starting' },
+      ])
+    );
+    const { deployCommand } = await import('../src/commands/deploy');
+
+    await expect(deployCommand({ update: true, skipBuild: true, yes: true })).rejects.toThrow(
+      'process.exit(5)'
+    );
+
+    expect(mocks.loadManifest).toHaveBeenCalledWith(previous);
+    expect(mocks.update).toHaveBeenLastCalledWith('123', manifest);
+    expect(mocks.sendManifest).toHaveBeenLastCalledWith(lease, manifest);
+    expect(mocks.waitForService).toHaveBeenCalledTimes(2);
+    expect(mocks.saveState).toHaveBeenCalledOnce();
+    expect(mocks.saveState).toHaveBeenCalledWith(
+      deployment,
+      lease,
+      'https://agent.example',
+      { tag: 'ghcr.io/acme/dry:v-1' },
+      { rolledBackFrom: 'ab'.repeat(32) }
+    );
+    const reported = vi.mocked(console.error).mock.calls.flat().join('\n');
+    expect(reported).toContain('attempt 3: 503 "starting"');
+    expect(reported).toContain('Restored version cdcdcdcdcdcd (ghcr.io/acme/dry:v-1)');
+  });
+
+  it('should fail before building when there is no lease to update', async () => {
+    mocks.getActiveDeployment.mockResolvedValue(deployment);
+    mocks.getActiveLease.mockResolvedValue(null);
+    const { deployCommand } = await import('../src/commands/deploy');
+
+    await expect(deployCommand({ update: true, yes: true })).rejects.toThrow('process.exit(5)');
+
+    expect(mocks.build).not.toHaveBeenCalled();
+    expect(mocks.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('deploy bid price checks', () => {
+  const deployment = { dseq: '123', owner: 'akash1owner', state: 'active', createdAt: new Date() };
+  const reposted = { ...deployment, dseq: '124' };
+  const pricey = { id: '123-1-1-akash1pricey', provider: 'akash1pricey', price: 500 };
+  const fair = { id: '124-1-1-akash1fair', provider: 'akash1fair', price: 90 };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(process, 'exit').mockImplementation(code => {
+      throw new Error(`process.exit(${code})`);
+    });
+    mocks.loadWallet.mockResolvedValue({ address: 'akash1owner' });
+    mocks.executeSwap.mockResolvedValue({
+      sourceAmount: Amount.parse('10', USDC),
+      destinationAmount: Amount.parse('4', AKT),
+    });
+    mocks.create.mockResolvedValue(deployment);
+  });
+
+  it('should re-post the order once when the best bid is over the warning margin', async () => {
+    mocks.waitForBids.mockResolvedValueOnce([pricey]).mockResolvedValueOnce([fair]);
+    mocks.selectBestBid
+      .mockResolvedValueOnce({ selected: pricey, accepted: [pricey], rejected: [] })
+      .mockResolvedValueOnce({ selected: fair, accepted: [fair], rejected: [] });
+    mocks.reviewBidPrice
+      .mockResolvedValueOnce({ warnings: ['too pricey'], action: 'repost', repostCeiling: 100 })
+      .mockResolvedValueOnce({ warnings: [], action: 'accept' });
+    mocks.repost.mockImplementation(async (_dseq, sdl) => ({ deployment: reposted, sdl }));
+    mocks.createLease.mockResolvedValue({
+      id: '124-1-1-akash1fair',
+      dseq: '124',
+      provider: 'akash1fair',
+    });
+    const { deployCommand } = await import('../src/commands/deploy');
+
+    await deployCommand({ skipBuild: true, yes: true });
+
+    expect(mocks.repost).toHaveBeenCalledWith('123', expect.anything(), 100);
+    expect(mocks.reviewBidPrice).toHaveBeenCalledTimes(2);
+    expect(mocks.createLease).toHaveBeenCalledWith('124', fair);
+  });
+});
+
+describe('deploy health checks', () => {
+  const deployment = { dseq: '123', owner: 'akash1owner', state: 'active', createdAt: new Date() };
+  const bid = { id: '123-1-1-akash1provider', provider: 'akash1provider', price: 90 };
+  const lease = { id: '123-1-1-akash1provider', dseq: '123', provider: 'akash1provider' };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(process, 'exit').mockImplementation(code => {
+      throw new Error(`process.exit(${code})`);
+    });
+    mocks.loadWallet.mockResolvedValue({ address: 'akash1owner' });
+    mocks.executeSwap.mockResolvedValue({
+      sourceAmount: Amount.parse('10', USDC),
+      destinationAmount: Amount.parse('4', AKT),
+    });
+    mocks.create.mockResolvedValue(deployment);
+    mocks.waitForBids.mockResolvedValue([bid]);
+    mocks.selectBestBid.mockResolvedValue({ selected: bid, accepted: [bid], rejected: [] });
+    mocks.reviewBidPrice.mockResolvedValue({ warnings: [], action: 'accept' });
+    mocks.createLease.mockResolvedValue(lease);
+  });
+
+  it('should keep a new deployment that fails its health checks and report its DSEQ', async () => {
+    mocks.waitForService.mockRejectedValueOnce(
+      new HealthCheckError('http://agent.example/health', 200, 3, [
+        { attempt: 3, status: 503, body: 'starting' },
+      ])
+    );
+    const { deployCommand } = await import('../src/commands/deploy');
+
+    await expect(deployCommand({ skipBuild: true, yes: true })).rejects.toThrow('process.exit(5)');
+
+    expect(mocks.saveState).toHaveBeenCalledWith(
+      deployment,
+      lease,
+      'agent.example',
+      { tag: 'ghcr.io/acme/dry:v0' },
+      { unhealthy: true }
+    );
+    const reported = vi.mocked(console.error).mock.calls.flat().join('\n');
+    expect(reported).toContain('attempt 3: 503 "starting"');
+    expect(reported).toContain('Deployment DSEQ 123 is still running on akash1provider');
+    expect(reported).toContain('morpheus close -d 123');
+  });
+});
@@ -0,0 +1,216 @@
+import { AkashClient, MsgCreateDeployment, createAkashSigner } from '@morpheus-deploy/contracts';
+import { SDLBuilder, type SDL } from '@morpheus-deploy/core';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { DeploymentManager, type Lease } from '../src/lib/deployment';
+
+// State lives in an in-memory tree instead of .morpheus/
+const files = vi.hoisted(() => new Map<string, string>());
+
+vi.mock('fs', async importOriginal => ({
+  ...(await importOriginal<typeof import('fs')>()),
+  existsSync: vi.fn((path: string) => path.endsWith('deployments') || files.has(path)),
+}));
+
+vi.mock('fs/promises', async importOriginal => ({
+  ...(await importOriginal<typeof import('fs/promises')>()),
+  mkdir: vi.fn(),
+  chmod: vi.fn(),
+  readFile: vi.fn(async (path: string) => files.get(path)),
+  writeFile: vi.fn(async (path: string, data: string) => void files.set(path, data)),
+  rm: vi.fn(async (path: string) => void files.delete(path)),
+}));
+
+function build({ tag = 'v1', price = 1000, memory = '1Gi' } = {}): SDL {
+  return new SDLBuilder()
+    .addService(
+      'app',
+      { image: `ghcr.io/acme/app:${tag}`, expose: [{ port: 8000, to: [{ global: true }] }] },
+      { cpu: { units: 1 }, memory: { size: memory }, storage: [{ size: '1Gi' }] },
+      { pricing: { denom: 'uakt', amount: price } }
+    )
+    .build();
+}
+
+const sdl = build();
+
+describe('DeploymentManager transactions', () => {
+  let manager: DeploymentManager;
+  let owner: string;
+  let granter: string | null;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    files.clear();
+    granter = null;
+    const signer = await createAkashSigner(new Uint8Array(32).fill(1));
+    [{ address: owner }] = (await signer.getAccounts()) as [{ address: string }];
+    manager = new DeploymentManager(
+      { project: 'app', network: 'testnet' } as never,
+      { getAkashSigner: async () => signer, getAkashGranter: () => granter } as never
+    );
+    vi.spyOn(AkashClient.prototype, 'connectWithSigner').mockResolvedValue();
+    vi.spyOn(AkashClient.prototype, 'broadcast').mockResolvedValue({ txHash: 'TX', events: [] });
+  });
+
+  it('should sign deployments with the wallet key and own them by its address', async () => {
+    const deployment = await manager.create(sdl);
+
+    expect(owner).toMatch(/^akash1/);
+    expect(deployment.owner).toBe(owner);
+    expect(AkashClient.prototype.connectWithSigner).toHaveBeenCalledTimes(1);
+    const [signer, [message]] = vi.mocked(AkashClient.prototype.broadcast).mock.calls[0]!;
+    expect(signer).toBe(owner);
+    expect(message).toMatchObject({
+      typeUrl: '/akash.deployment.v1beta3.MsgCreateDeployment',
+      value: { id: { owner, dseq: BigInt(deployment.dseq) } },
+    });
+  });
+
+  it('should deploy for the granting wallet through AuthZ with a CI key', async () => {
+    granter = 'akash1granter';
+
+    const deployment = await manager.create(sdl);
+
+    expect(deployment.owner).toBe(granter);
+    const [signer, [exec]] = vi.mocked(AkashClient.prototype.broadcast).mock.calls[0]!;
+    expect(signer).toBe(owner);
+    expect(exec).toMatchObject({
+      typeUrl: '/cosmos.authz.v1beta1.MsgExec',
+      value: { grantee: owner },
+    });
+    const [inner] = exec!.value.msgs;
+    expect(inner.typeUrl).toBe('/akash.deployment.v1beta3.MsgCreateDeployment');
+    expect(MsgCreateDeployment.decode(inner.value).id).toEqual({
+      owner: granter,
+      dseq: BigInt(deployment.dseq),
+    });
+  });
+
+  it('should connect once for every transaction of a deploy', async () => {
+    const deployment = await manager.create(sdl);
+    await manager.update(deployment.dseq, sdl);
+
+    expect(AkashClient.prototype.connectWithSigner).toHaveBeenCalledTimes(1);
+    expect(AkashClient.prototype.broadcast).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail when the chain rejects the transaction', async () => {
+    vi.mocked(AkashClient.prototype.broadcast).mockRejectedValueOnce(
+      new Error('Transaction failed: insufficient funds')
+    );
+
+    await expect(manager.create(sdl)).rejects.toThrow('insufficient funds');
+  });
+
+  describe('close', () => {
+    const ESCROW = 'akash1escrow';
+
+    function transfer(sender: string, recipient: string, amount: string) {
+      return {
+        type: 'transfer',
+        attributes: [
+          { key: 'recipient', value: recipient },
+          { key: 'sender', value: sender },
+          { key: 'amount', value: amount },
+        ],
+      };
+    }
+
+    it('should report the escrow transferred back to the owner as the refund', async () => {
+      vi.mocked(AkashClient.prototype.broadcast).mockResolvedValueOnce({
+        txHash: 'CLOSE',
+        events: [
+          transfer(owner, 'akash1feecollector', '5000uakt'),
+          transfer(ESCROW, 'akash1provider', '120000uakt'),
+          transfer(ESCROW, owner, '2500000uakt'),
+        ],
+      });
+
+      const closed = await manager.close('700');
+
+      expect(closed.txHash).toBe('CLOSE');
+      expect(closed.refund.toDecimal()).toBe('2.5');
+    });
+
+    it('should refund the granter when closing with a CI key', async () => {
+      granter = 'akash1granter';
+      vi.mocked(AkashClient.prototype.broadcast).mockResolvedValueOnce({
+        txHash: 'CLOSE',
+        events: [transfer(ESCROW, owner, '7uakt'), transfer(ESCROW, granter, '1000000uakt')],
+      });
+
+      expect((await manager.close('700')).refund.toDecimal()).toBe('1');
+    });
+
+    it('should report no refund when nothing was left in escrow', async () => {
+      vi.mocked(AkashClient.prototype.broadcast).mockResolvedValueOnce({
+        txHash: 'CLOSE',
+        events: [transfer(owner, 'akash1feecollector', '5000uakt')],
+      });
+
+      expect((await manager.close('700')).refund.isZero()).toBe(true);
+    });
+  });
+
+  describe('listOpenDeployments', () => {
+    function onChain(...dseqs: string[]): void {
+      vi.spyOn(AkashClient.prototype, 'listDeployments').mockResolvedValue(
+        dseqs.map(dseq => ({
+          dseq,
+          owner,
+          state: 'active' as const,
+          version: new Uint8Array(32),
+          createdHeight: 1n,
+        }))
+      );
+    }
+
+    it("should list the owner's open deployments on chain", async () => {
+      onChain('700', '701');
+
+      expect(await manager.listOpenDeployments()).toEqual(['700', '701']);
+      expect(AkashClient.prototype.listDeployments).toHaveBeenCalledWith(owner, 'active');
+    });
+
+    it('should list the granter deployments with a CI key', async () => {
+      granter = 'akash1granter';
+      onChain();
+
+      await manager.listOpenDeployments();
+
+      expect(AkashClient.prototype.listDeployments).toHaveBeenCalledWith('akash1granter', 'active');
+    });
+  });
+
+  describe('update', () => {
+    async function deployed(): Promise<string> {
+      const deployment = await manager.create(sdl);
+      const lease: Lease = {
+        id: `${deployment.dseq}-1-1-akash1provider`,
+        dseq: deployment.dseq,
+        provider: 'akash1provider',
+        state: 'active',
+        price: 1000,
+      };
+      await manager.saveState(deployment, lease, 'https://app.example', { tag: 'app:v1' });
+      return deployment.dseq;
+    }
+
+    it('should apply a new manifest priced at a different market rate', async () => {
+      const dseq = await deployed();
+
+      await expect(manager.update(dseq, build({ tag: 'v2', price: 1300 }))).resolves.toMatch(
+        /^[0-9a-f]{64}$/
+      );
+    });
+
+    it('should refuse resources that differ from the deployment', async () => {
+      const dseq = await deployed();
+
+      await expect(manager.update(dseq, build({ memory: '2Gi' }))).rejects.toThrow(
+        `Resources or placement changed since DSEQ ${dseq} was created`
+      );
+    });
+  });
+});
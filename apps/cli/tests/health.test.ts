@@ -0,0 +1,74 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { HealthCheckError, HealthChecker } from '../src/lib/health';
+
+describe('HealthChecker', () => {
+  let server: Server;
+  let statuses: number[];
+  let paths: string[];
+  let host: string;
+
+  beforeEach(async () => {
+    statuses = [];
+    paths = [];
+    server = createServer((request, response) => {
+      paths.push(request.url ?? '');
+      response.statusCode = statuses.shift() ?? 200;
+      response.end(response.statusCode === 200 ? 'ok' : 'starting');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    host = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should retry until the service returns the expected status', async () => {
+    statuses = [503, 503];
+    const checker = new HealthChecker({ path: '/health', interval: 0.01 });
+
+    await checker.waitUntilHealthy(host);
+
+    expect(paths).toEqual(['/health', '/health', '/health']);
+  });
+
+  it('should report the last responses once the retries run out', async () => {
+    statuses = [502, 503, 503, 503, 503];
+    const checker = new HealthChecker({ retries: 4, interval: 0.01 });
+
+    const error = await checker.waitUntilHealthy(`http://${host}`).catch(error => error);
+
+    expect(error).toBeInstanceOf(HealthCheckError);
+    expect(error.url).toBe(`http://${host}/`);
+    expect(error.responses).toEqual([
+      { attempt: 3, status: 503, body: 'starting' },
+      { attempt: 4, status: 503, body: 'starting' },
+      { attempt: 5, status: 503, body: 'starting' },
+    ]);
+    expect(error.message).toContain(`GET http://${host}/ did not return 200 after 5 attempts`);
+  });
+
+  it('should accept the configured status', async () => {
+    statuses = [204];
+
+    await new HealthChecker({ status: 204 }).waitUntilHealthy(host);
+
+    expect(paths).toHaveLength(1);
+  });
+
+  it('should record connection failures', async () => {
+    await new Promise(resolve => server.close(resolve));
+    server = createServer();
+    const checker = new HealthChecker({ retries: 0 });
+
+    const error = await checker.waitUntilHealthy(host).catch(error => error);
+
+    expect(error.responses).toEqual([
+      { attempt: 1, error: expect.stringContaining('ECONNREFUSED') },
+    ]);
+  });
+});
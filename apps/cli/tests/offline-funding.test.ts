@@ -0,0 +1,193 @@
+import { AKT, Amount, PriceOracle, SkipGoMockServer } from '@morpheus-deploy/core';
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+
+// Everything below the CLI runs for real except the wallet, the chain, the
+// price oracle and the Skip Go API, which is served by SkipGoMockServer
+const mocks = vi.hoisted(() => ({
+  signTransaction: vi.fn(),
+  create: vi.fn(),
+  createLease: vi.fn(),
+  depositToEscrow: vi.fn(),
+  saveState: vi.fn(),
+  skipGo: { baseUrl: '' },
+}));
+
+vi.mock('@morpheus-deploy/core', async importOriginal => {
+  const actual = await importOriginal<typeof import('@morpheus-deploy/core')>();
+  return {
+    ...actual,
+    // Quote from the fallback table instead of the live market
+    PricingService: vi.fn().mockImplementation(() => new actual.PricingService()),
+    // Swap through the local server
+    EconomicEngine: vi
+      .fn()
+      .mockImplementation(
+        (config, wallet) => new actual.EconomicEngine(config, wallet, undefined, mocks.skipGo)
+      ),
+  };
+});
+
+vi.mock('../src/lib/config.js', () => ({
+  loadConfig: vi.fn().mockResolvedValue({
+    project: 'offline',
+    template: 'ai-agent',
+    provider: 'akash',
+    resources: { cpu: 2, memory: '4Gi', storage: '10Gi' },
+    runtime: { port: 8000, image: 'ghcr.io/acme/offline:v1' },
+    funding: {
+      sourceToken: 'USDC',
+      autoTopUp: true,
+      threshold: 0.1,
+      split: { staking: 0.6, compute: 0.4 },
+    },
+  }),
+}));
+
+vi.mock('../src/lib/wallet.js', () => ({
+  WalletManager: vi.fn().mockImplementation(() => ({
+    load: vi.fn().mockResolvedValue({ address: '0xwallet' }),
+    getBalance: vi.fn().mockResolvedValue({ usdc: 1000 }),
+    signTransaction: mocks.signTransaction.mockResolvedValue('0xsigned'),
+  })),
+}));
+
+vi.mock('../src/lib/deployment.js', () => {
+  const deployment = { dseq: '500', owner: 'akash1owner', state: 'active', createdAt: new Date() };
+  const bid = { id: '500-1-1-akash1provider', provider: 'akash1provider', price: 90 };
+  const lease = { id: '500-1-1-akash1provider', dseq: '500', provider: 'akash1provider' };
+
+  return {
+    DeploymentManager: vi.fn().mockImplementation(() => ({
+      loadCredentials: vi.fn().mockResolvedValue(null),
+      saveCredentials: vi.fn(),
+      create: mocks.create.mockResolvedValue(deployment),
+      waitForBids: vi.fn().mockResolvedValue([bid]),
+      selectBestBid: vi.fn().mockResolvedValue({ selected: bid, accepted: [bid], rejected: [] }),
+      reviewBidPrice: vi.fn().mockResolvedValue({ warnings: [], action: 'accept' }),
+      createLease: mocks.createLease.mockResolvedValue(lease),
+      sealSecrets: vi.fn().mockImplementation(async sdl => sdl),
+      sendManifest: vi.fn(),
+      waitForService: vi.fn().mockResolvedValue('https://offline.example'),
+      saveState: mocks.saveState,
+      getActiveDeployment: vi.fn().mockResolvedValue(deployment),
+      getStatus: vi.fn().mockResolvedValue({
+        escrowBalance: Amount.parse('12', AKT),
+        estimatedTimeRemaining: '2 days',
+      }),
+      depositToEscrow: mocks.depositToEscrow,
+    })),
+  };
+});
+
+vi.mock('fs', async importOriginal => ({
+  ...(await importOriginal<typeof import('fs')>()),
+  existsSync: vi.fn().mockReturnValue(true),
+}));
+
+vi.mock('inquirer', () => ({
+  default: { prompt: vi.fn().mockResolvedValue({ confirm: true }) },
+}));
+
+vi.mock('ora', () => ({
+  default: vi.fn().mockReturnValue({
+    start: vi.fn().mockReturnThis(),
+    stop: vi.fn().mockReturnThis(),
+    succeed: vi.fn().mockReturnThis(),
+    info: vi.fn().mockReturnThis(),
+    warn: vi.fn().mockReturnThis(),
+    fail: vi.fn().mockReturnThis(),
+    text: '',
+  }),
+}));
+
+describe('deploy and fund against the Skip Go mock', () => {
+  const server = new SkipGoMockServer();
+  let errors: string;
+
+  beforeAll(async () => {
+    mocks.skipGo.baseUrl = await server.listen();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    server.setScenario('success');
+    server.requests.length = 0;
+    // The mock's own rates
+    vi.spyOn(PriceOracle.prototype, 'getPrice').mockImplementation(async base =>
+      base === 'AKT' ? 2.5 : 5
+    );
+    errors = '';
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation((...args: unknown[]) => {
+      errors += args.join(' ') + '\n';
+    });
+    vi.spyOn(process, 'exit').mockImplementation(code => {
+      throw new Error(`process.exit(${code})`);
+    });
+  });
+
+  it('should swap, deploy and lease without leaving the machine', async () => {
+    const { deployCommand } = await import('../src/commands/deploy');
+
+    await deployCommand({ skipBuild: true, yes: true });
+
+    const routes = server.requests.filter(request => request.path === '/v2/fungible/route');
+    expect(routes.map(request => request.body?.dest_asset_denom)).toEqual(['uakt', 'umor']);
+    expect(mocks.signTransaction).toHaveBeenCalledTimes(2);
+    expect(mocks.create).toHaveBeenCalled();
+    expect(mocks.saveState).toHaveBeenCalledWith(
+      expect.objectContaining({ dseq: '500' }),
+      expect.objectContaining({ provider: 'akash1provider' }),
+      'https://offline.example',
+      { tag: 'ghcr.io/acme/offline:v1' }
+    );
+  });
+
+  it('should deposit the quoted AKT into escrow', async () => {
+    const { fundCommand } = await import('../src/commands/fund');
+
+    await fundCommand({ deployment: '500', amount: '25' });
+
+    // 40% of $25 goes to compute at 0.4 AKT per USDC
+    expect(mocks.depositToEscrow).toHaveBeenCalledWith('500', Amount.parse('4', AKT));
+  });
+
+  it('should stop before depositing when the swap slips', async () => {
+    server.setScenario('slippage');
+    const { fundCommand } = await import('../src/commands/fund');
+
+    await expect(fundCommand({ deployment: '500', amount: '25', yes: true })).rejects.toThrow(
+      'process.exit(6)'
+    );
+
+    expect(errors).toMatch(/slippage tolerance exceeded/);
+    expect(mocks.depositToEscrow).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a quote below the oracle price before signing', async () => {
+    vi.mocked(PriceOracle.prototype.getPrice).mockResolvedValue(2);
+    const { fundCommand } = await import('../src/commands/fund');
+
+    await expect(fundCommand({ deployment: '500', amount: '25', yes: true })).rejects.toThrow(
+      'process.exit(6)'
+    );
+
+    expect(errors).toMatch(/20.00% below the oracle price/);
+    expect(errors).toContain('funding.swap');
+    expect(mocks.signTransaction).not.toHaveBeenCalled();
+  });
+
+  it('should not lease after a partial completion', async () => {
+    server.setScenario('partial');
+    const { deployCommand } = await import('../src/commands/deploy');
+
+    await expect(deployCommand({ skipBuild: true, yes: true })).rejects.toThrow('process.exit(6)');
+
+    expect(errors).toMatch(/only completed 1 of 3 steps/);
+    expect(mocks.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,171 @@
+import { AKT, Amount, ConfigValidationError, SwapProtectionError } from '@morpheus-deploy/core';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { CliError, Output, categorize, categorized } from '../src/lib/output';
+
+const mocks = vi.hoisted(() => ({
+  getActiveDeployment: vi.fn(),
+  getStatus: vi.fn(),
+}));
+
+vi.mock('../src/lib/config.js', () => ({
+  loadConfig: vi.fn().mockResolvedValue({ project: 'scripted', template: 'ai-agent' }),
+}));
+
+vi.mock('../src/lib/wallet.js', () => ({
+  WalletManager: vi.fn().mockImplementation(() => ({})),
+}));
+
+vi.mock('../src/lib/deployment.js', () => ({
+  DeploymentManager: vi.fn().mockImplementation(() => ({
+    getActiveDeployment: mocks.getActiveDeployment,
+    getStatus: mocks.getStatus,
+  })),
+}));
+
+function lines(spy: { mock: { calls: unknown[][] } }): string[] {
+  return spy.mock.calls
+    .map(([chunk]) => String(chunk))
+    .join('')
+    .split('\n')
+    .filter(Boolean);
+}
+
+describe('Output', () => {
+  let stdout: ReturnType<typeof vi.spyOn>;
+  let stderr: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(process, 'exit').mockImplementation(code => {
+      throw new Error(`process.exit(${code})`);
+    });
+  });
+
+  it('should stream progress as NDJSON on stderr and keep stdout for the result', () => {
+    const out = new Output('deploy', 'json');
+
+    out.log('decoration');
+    out.spinner.start('Creating lease...');
+    out.spinner.succeed('\u001b[36mLease created\u001b[39m');
+    out.result({ dseq: '100' });
+
+    const events = lines(stderr).map(line => JSON.parse(line));
+    expect(events.map(({ status, message }) => ({ status, message }))).toEqual([
+      { status: 'start', message: 'Creating lease...' },
+      { status: 'succeed', message: 'Lease created' },
+    ]);
+    expect(events[0]).toMatchObject({ event: 'progress', time: expect.any(String) });
+    expect(JSON.parse(lines(stdout).join('\n'))).toEqual({
+      command: 'deploy',
+      status: 'success',
+      result: { dseq: '100' },
+    });
+    expect(console.log).not.toHaveBeenCalled();
+  });
+
+  it('should write YAML results', () => {
+    new Output('status', 'yaml').result({ dseq: '100', state: 'active' });
+
+    expect(lines(stdout)).toEqual([
+      'command: status',
+      'status: success',
+      'result:',
+      '  dseq: "100"',
+      '  state: active',
+    ]);
+  });
+
+  it('should report an error document and exit with its category', () => {
+    const out = new Output('fund', 'json');
+
+    expect(() =>
+      out.fail(new SwapProtectionError('price-impact', 3, 4.2), 'Funding failed')
+    ).toThrow('process.exit(6)');
+
+    expect(JSON.parse(lines(stdout).join('\n'))).toMatchObject({
+      command: 'fund',
+      status: 'error',
+      error: { category: 'funding', exitCode: 6 },
+    });
+  });
+
+  it('should refuse to prompt in machine output', () => {
+    expect(() => new Output('fund', 'json').assertInteractive('--yes')).toThrow(
+      'Cannot prompt with --output json; pass --yes'
+    );
+    expect(() => new Output('fund', 'text').assertInteractive('--yes')).not.toThrow();
+  });
+
+  it('should categorize errors by type', () => {
+    const refused = new TypeError('fetch failed', {
+      cause: Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }),
+    });
+
+    expect(categorize(new ConfigValidationError('morpheus.yaml', []))).toBe('config');
+    expect(categorize(new SwapProtectionError('quote-expired', 30, 45))).toBe('funding');
+    expect(categorize(refused)).toBe('network');
+    expect(categorize(new CliError('Docker build failed', 'build'))).toBe('build');
+    expect(categorize(new Error('Something else'))).toBe('general');
+  });
+
+  it('should file general errors under a phase but keep known categories', async () => {
+    const refused = Object.assign(new Error('connect ETIMEDOUT'), { code: 'ETIMEDOUT' });
+
+    await expect(
+      categorized('deployment', Promise.reject(new Error('No bids')))
+    ).rejects.toMatchObject({ category: 'deployment', message: 'No bids' });
+    await expect(categorized('deployment', Promise.reject(refused))).rejects.toBe(refused);
+  });
+
+  it('should print status as a result document', async () => {
+    mocks.getActiveDeployment.mockResolvedValue({ dseq: '100' });
+    mocks.getStatus.mockResolvedValue({
+      dseq: '100',
+      state: 'active',
+      provider: 'akash1provider',
+      url: 'https://scripted.example',
+      escrowBalance: Amount.parse('4.5', AKT),
+      estimatedTimeRemaining: '~2 days',
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+      resources: { cpu: 2, memory: '4Gi' },
+    });
+    const { statusCommand } = await import('../src/commands/status');
+
+    await statusCommand({ output: 'json' });
+
+    expect(JSON.parse(lines(stdout).join('\n')).result).toEqual({
+      dseq: '100',
+      state: 'active',
+      provider: 'akash1provider',
+      url: 'https://scripted.example',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      resources: { cpu: 2, memory: '4Gi' },
+      escrow: {
+        balance: { amount: '4.5', currency: 'AKT' },
+        estimatedTimeRemaining: '~2 days',
+        low: true,
+      },
+    });
+    expect(console.log).not.toHaveBeenCalled();
+  });
+
+  it('should exit with a config error when morpheus.yaml is invalid', async () => {
+    const { loadConfig } = await import('../src/lib/config.js');
+    vi.mocked(loadConfig).mockRejectedValueOnce(
+      new ConfigValidationError('morpheus.yaml', [{ path: 'project', message: 'Required' }])
+    );
+    const { statusCommand } = await import('../src/commands/status');
+
+    await expect(statusCommand({ output: 'json' })).rejects.toThrow('process.exit(2)');
+
+    expect(JSON.parse(lines(stdout).join('\n')).error).toMatchObject({
+      category: 'config',
+      exitCode: 2,
+      message: expect.stringContaining('project: Required'),
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { AkashClient, createAkashSigner } from '@morpheus-deploy/contracts';
+import { SDLBuilder, manifestJSON, type SDL } from '@morpheus-deploy/core';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { DeploymentManager, type Lease } from '../src/lib/deployment';
+
+// State and manifests live in an in-memory tree instead of .morpheus/
+const files = vi.hoisted(() => new Map<string, string>());
+
+vi.mock('fs', async importOriginal => ({
+  ...(await importOriginal<typeof import('fs')>()),
+  existsSync: vi.fn((path: string) => path.endsWith('deployments') || files.has(path)),
+}));
+
+vi.mock('fs/promises', async importOriginal => ({
+  ...(await importOriginal<typeof import('fs/promises')>()),
+  mkdir: vi.fn(),
+  chmod: vi.fn(),
+  readFile: vi.fn(async (path: string) => files.get(path)),
+  writeFile: vi.fn(async (path: string, data: string) => void files.set(path, data)),
+  rm: vi.fn(async (path: string) => void files.delete(path)),
+}));
+
+vi.mock('../src/lib/config.js', () => ({
+  loadConfig: vi.fn().mockResolvedValue({ project: 'rolling', template: 'ai-agent' }),
+}));
+
+vi.mock('../src/lib/wallet.js', () => ({
+  WalletManager: vi.fn().mockImplementation(() => ({
+    load: vi.fn().mockResolvedValue({ address: 'akash1owner' }),
+    getAkashSigner: () => createAkashSigner(new Uint8Array(32).fill(1)),
+    getAkashGranter: () => null,
+  })),
+}));
+
+vi.mock('inquirer', () => ({
+  default: { prompt: vi.fn() },
+}));
+
+function sdl(tag: string): SDL {
+  return new SDLBuilder()
+    .addService(
+      'app',
+      { image: `ghcr.io/acme/app:${tag}`, expose: [{ port: 8000, to: [{ global: true }] }] },
+      { cpu: { units: 1 }, memory: { size: '1Gi' }, storage: [{ size: '1Gi' }] },
+      { pricing: { denom: 'uakt', amount: 1000 } }
+    )
+    .build();
+}
+
+function lines(spy: { mock: { calls: unknown[][] } }): string {
+  return spy.mock.calls.map(([chunk]) => String(chunk)).join('');
+}
+
+/** Deploy each tag in turn to one lease, as `deploy` then `deploy --update` would */
+async function deployTags(...tags: string[]): Promise<Lease> {
+  const manager = new DeploymentManager(
+    { project: 'rolling' } as never,
+    {
+      load: async () => ({ address: 'akash1owner' }),
+      getAkashSigner: () => createAkashSigner(new Uint8Array(32).fill(1)),
+      getAkashGranter: () => null,
+    } as never
+  );
+  const [first, ...rest] = tags;
+  const deployment = await manager.create(sdl(first!));
+  const lease: Lease = {
+    id: `${deployment.dseq}-1-1-akash1provider`,
+    dseq: deployment.dseq,
+    provider: 'akash1provider',
+    state: 'active',
+    price: 1000,
+  };
+
+  await manager.sendManifest(lease, sdl(first!));
+  await manager.saveState(deployment, lease, 'https://app.example', { tag: `app:${first}` });
+  for (const tag of rest) {
+    await manager.update(deployment.dseq, sdl(tag));
+    await manager.sendManifest(lease, sdl(tag));
+    await manager.saveState(deployment, lease, 'https://app.example', { tag: `app:${tag}` });
+  }
+  return lease;
+}
+
+function state() {
+  return JSON.parse(files.get('.morpheus/deployments/state.json')!);
+}
+
+describe('rollback', () => {
+  let stdout: ReturnType<typeof vi.spyOn>;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    files.clear();
+    fetchMock = vi.fn().mockResolvedValue({ ok: true });
+    vi.stubGlobal('fetch', fetchMock);
+    stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(AkashClient.prototype, 'connectWithSigner').mockResolvedValue();
+    vi.spyOn(AkashClient.prototype, 'broadcast').mockResolvedValue({ txHash: 'TX', events: [] });
+    vi.spyOn(DeploymentManager.prototype, 'waitForService').mockResolvedValue(
+      'https://app.example'
+    );
+    vi.spyOn(process, 'exit').mockImplementation(code => {
+      throw new Error(`process.exit(${code})`);
+    });
+  });
+
+  it('should keep the manifest sent for each version', async () => {
+    const lease = await deployTags('v1', 'v2');
+
+    const { versions } = state();
+    expect(versions.map((entry: { image: string }) => entry.image)).toEqual(['app:v1', 'app:v2']);
+    expect(
+      JSON.parse(
+        files.get(`.morpheus/deployments/manifests/${lease.dseq}-${versions[0].version}.json`)!
+      )
+    ).toEqual(sdl('v1'));
+  });
+
+  it('should re-send the previous manifest to the lease and record the rollback', async () => {
+    const lease = await deployTags('v1', 'v2');
+    const [v1, v2] = state().versions;
+    const { rollbackCommand } = await import('../src/commands/rollback');
+
+    await rollbackCommand({ yes: true, output: 'json' });
+
+    const [url, request] = fetchMock.mock.calls.at(-1)!;
+    expect(url).toBe(`https://akash1provider.akash.pub/deployment/${lease.dseq}/manifest`);
+    expect(request.body).toBe(manifestJSON(sdl('v1')));
+    expect(DeploymentManager.prototype.waitForService).toHaveBeenCalledWith(lease);
+    expect(state().versions.at(-1)).toMatchObject({
+      version: v1.version,
+      image: 'app:v1',
+      rolledBackFrom: v2.version,
+    });
+    expect(JSON.parse(lines(stdout)).result).toMatchObject({
+      dseq: lease.dseq,
+      from: { number: 2, image: 'app:v2' },
+      to: { number: 1, image: 'app:v1' },
+      url: 'https://app.example',
+    });
+  });
+
+  it('should restore the version named with --to', async () => {
+    await deployTags('v1', 'v2', 'v3');
+    const [, v2] = state().versions;
+    const { rollbackCommand } = await import('../src/commands/rollback');
+
+    await rollbackCommand({ to: v2.version.slice(0, 8), yes: true, output: 'json' });
+
+    expect(fetchMock.mock.calls.at(-1)![1].body).toBe(manifestJSON(sdl('v2')));
+  });
+
+  it('should skip versions that failed their health checks', async () => {
+    await deployTags('v1', 'v2', 'v3');
+    const saved = state();
+    saved.versions[1].unhealthy = true;
+    files.set('.morpheus/deployments/state.json', JSON.stringify(saved));
+    const { rollbackCommand } = await import('../src/commands/rollback');
+
+    await rollbackCommand({ yes: true, output: 'json' });
+
+    expect(fetchMock.mock.calls.at(-1)![1].body).toBe(manifestJSON(sdl('v1')));
+  });
+
+  it('should list the versions of the deployment', async () => {
+    await deployTags('v1', 'v2');
+    const { rollbackCommand } = await import('../src/commands/rollback');
+
+    await rollbackCommand({ list: true, output: 'json' });
+
+    const { versions } = JSON.parse(lines(stdout)).result;
+    expect(
+      versions.map(({ number, image }: { number: number; image: string }) => [number, image])
+    ).toEqual([
+      [1, 'app:v1'],
+      [2, 'app:v2'],
+    ]);
+  });
+
+  it('should refuse a version whose manifest was not kept', async () => {
+    const lease = await deployTags('v1', 'v2');
+    files.delete(
+      `.morpheus/deployments/manifests/${lease.dseq}-${state().versions[0].version}.json`
+    );
+    const sent = fetchMock.mock.calls.length;
+    const { rollbackCommand } = await import('../src/commands/rollback');
+
+    await expect(rollbackCommand({ to: '1', yes: true, output: 'json' })).rejects.toThrow(
+      'process.exit(1)'
+    );
+
+    expect(JSON.parse(lines(stdout)).error.message).toMatch(/was not saved/);
+    expect(fetchMock).toHaveBeenCalledTimes(sent);
+  });
+
+  it('should fail with a deployment error when there is no lease', async () => {
+    const { rollbackCommand } = await import('../src/commands/rollback');
+
+    await expect(rollbackCommand({ yes: true, output: 'json' })).rejects.toThrow('process.exit(5)');
+  });
+
+  it('should drop manifests that fall out of the history', async () => {
+    const tags = Array.from({ length: 21 }, (_, index) => `v${index + 1}`);
+    const lease = await deployTags(...tags);
+
+    const manifests = [...files.keys()].filter(path => path.includes('/manifests/'));
+    const { versions } = state();
+    expect(versions).toHaveLength(20);
+    expect(versions[0].image).toBe('app:v2');
+    expect(manifests.sort()).toEqual(
+      versions
+        .map(
+          ({ version }: { version: string }) =>
+            `.morpheus/deployments/manifests/${lease.dseq}-${version}.json`
+        )
+        .sort()
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import { AkashClient, createAkashSigner } from '@morpheus-deploy/contracts';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const wallet = vi.hoisted(() => ({ granter: null as string | null }));
+
+vi.mock('fs', async importOriginal => ({
+  ...(await importOriginal<typeof import('fs')>()),
+  existsSync: vi.fn().mockReturnValue(false),
+}));
+
+vi.mock('fs/promises', async importOriginal => ({
+  ...(await importOriginal<typeof import('fs/promises')>()),
+  mkdir: vi.fn(),
+  writeFile: vi.fn(),
+  rename: vi.fn(),
+}));
+
+vi.mock('../src/lib/config.js', () => ({
+  loadConfig: vi.fn().mockResolvedValue({
+    project: 'watched',
+    template: 'ai-agent',
+    funding: { autoTopUp: true, threshold: 0.1 },
+  }),
+}));
+
+vi.mock('../src/lib/wallet.js', () => ({
+  WalletManager: vi.fn().mockImplementation(() => ({
+    load: vi.fn().mockResolvedValue({ address: '0xbase' }),
+    getAkashSigner: () => createAkashSigner(new Uint8Array(32).fill(1)),
+    getAkashGranter: () => wallet.granter,
+  })),
+}));
+
+describe('watch', () => {
+  let signer: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    wallet.granter = null;
+    const [account] = await (await createAkashSigner(new Uint8Array(32).fill(1))).getAccounts();
+    signer = account!.address;
+    vi.spyOn(AkashClient.prototype, 'getEscrow').mockResolvedValue({
+      state: 'open',
+      balance: { denom: 'uakt', amount: '500000000000.000000000000000000' },
+    } as never);
+    vi.spyOn(AkashClient.prototype, 'listLeases').mockResolvedValue([
+      { price: { denom: 'uakt', amount: '1000.000000000000000000' } },
+    ] as never);
+    vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  it("should check escrow under the signer's Akash address", async () => {
+    const { watchCommand } = await import('../src/commands/watch');
+
+    await watchCommand({ deployment: ['123'], once: true, output: 'json' });
+
+    expect(AkashClient.prototype.getEscrow).toHaveBeenCalledWith(signer, '123');
+    expect(AkashClient.prototype.listLeases).toHaveBeenCalledWith(signer, '123');
+  });
+
+  it('should check escrow under the granter for a CI signer', async () => {
+    wallet.granter = 'akash1granter';
+    const { watchCommand } = await import('../src/commands/watch');
+
+    await watchCommand({ deployment: ['123'], once: true, output: 'json' });
+
+    expect(AkashClient.prototype.getEscrow).toHaveBeenCalledWith('akash1granter', '123');
+  });
+});
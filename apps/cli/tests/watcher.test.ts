@@ -0,0 +1,187 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { AKT, Amount, SpendLimitError, SwapBroadcastError, USDC } from '@morpheus-deploy/core';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { EscrowWatcher, type WatchState } from '../src/lib/watcher.js';
+
+const LOW = Amount.parse('10', AKT);
+
+function escrow(uakt: string, state: 'open' | 'closed' = 'open') {
+  return { state, balance: { denom: 'uakt', amount: `${uakt}.000000000000000000` } } as any;
+}
+
+describe('EscrowWatcher', () => {
+  let dir: string;
+  let statePath: string;
+  const chain = { getEscrow: vi.fn(), listLeases: vi.fn() };
+  const engine = { checkEscrowHealth: vi.fn(), autoTopUp: vi.fn() };
+
+  function watcher(settleTimeout?: number) {
+    return new EscrowWatcher({
+      chain,
+      engine,
+      owner: 'akash1owner',
+      dseqs: ['100'],
+      statePath,
+      settleTimeout,
+    });
+  }
+
+  async function savedState(): Promise<WatchState> {
+    return JSON.parse(await readFile(statePath, 'utf-8'));
+  }
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    dir = await mkdtemp(join(tmpdir(), 'morpheus-watch-'));
+    statePath = join(dir, 'state.json');
+
+    chain.listLeases.mockResolvedValue([
+      { price: { denom: 'uakt', amount: '999.250000000000000000' } },
+    ]);
+    engine.checkEscrowHealth.mockImplementation(async (balance: Amount) => ({
+      needsTopUp: balance.lt(LOW),
+      hoursRemaining: 12,
+      recommendedTopUp: Amount.parse('50', AKT),
+    }));
+    engine.autoTopUp.mockResolvedValue({ txHash: '0xswap' });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should leave a healthy escrow alone', async () => {
+    chain.getEscrow.mockResolvedValue(escrow('50000000'));
+
+    const [result] = await watcher().checkAll();
+
+    expect(result).toMatchObject({ status: 'ok', balance: '50000000', burnRate: '1000' });
+    expect(engine.autoTopUp).not.toHaveBeenCalled();
+    expect((await savedState()).deployments['100']?.status).toBe('ok');
+  });
+
+  it('should record the top-up before paying for it', async () => {
+    chain.getEscrow.mockResolvedValue(escrow('1000000'));
+    engine.autoTopUp.mockImplementation(async () => {
+      const { deployments } = await savedState();
+      expect(deployments['100']?.pendingTopUp).toMatchObject({ balanceBefore: '1000000' });
+      return { txHash: '0xswap' };
+    });
+
+    const [result] = await watcher().checkAll();
+
+    expect(engine.autoTopUp).toHaveBeenCalledWith(
+      '100',
+      Amount.fromUnits(1_000_000, AKT),
+      Amount.fromUnits(1000, AKT)
+    );
+    expect(result?.status).toBe('topping-up');
+    expect((await savedState()).deployments['100']?.pendingTopUp?.txHash).toBe('0xswap');
+  });
+
+  it('should not pay again after a restart while a top-up is pending', async () => {
+    chain.getEscrow.mockResolvedValue(escrow('1000000'));
+    await watcher().checkAll();
+
+    const restarted = watcher();
+    await restarted.load();
+    const [waiting] = await restarted.checkAll();
+
+    expect(waiting?.status).toBe('topping-up');
+    expect(engine.autoTopUp).toHaveBeenCalledTimes(1);
+
+    chain.getEscrow.mockResolvedValue(escrow('51000000'));
+    const [confirmed] = await restarted.checkAll();
+
+    expect(confirmed?.status).toBe('ok');
+    expect(confirmed?.pendingTopUp).toBeUndefined();
+    expect(confirmed?.lastTopUp?.txHash).toBe('0xswap');
+  });
+
+  it('should keep a top-up that failed after broadcast pending rather than retrying it', async () => {
+    chain.getEscrow.mockResolvedValue(escrow('1000000'));
+    engine.autoTopUp.mockRejectedValueOnce(
+      new SwapBroadcastError(new Error('bridge timeout'), ['0xswap'])
+    );
+    const instance = watcher();
+
+    const [failed] = await instance.checkAll();
+    expect(failed).toMatchObject({
+      status: 'error',
+      error: 'Swap failed after broadcasting 0xswap: bridge timeout',
+      pendingTopUp: { txHash: '0xswap' },
+    });
+
+    await instance.checkAll();
+    expect(engine.autoTopUp).toHaveBeenCalledTimes(1);
+
+    await instance.clearPending();
+    await instance.checkAll();
+    expect(engine.autoTopUp).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry a top-up that failed before anything was paid', async () => {
+    chain.getEscrow.mockResolvedValue(escrow('1000000'));
+    engine.autoTopUp.mockRejectedValueOnce(new Error('Insufficient balance for auto top-up'));
+    const instance = watcher();
+
+    const [failed] = await instance.checkAll();
+    expect(failed).toMatchObject({
+      status: 'error',
+      error: 'Insufficient balance for auto top-up',
+    });
+    expect(failed?.pendingTopUp).toBeUndefined();
+
+    await instance.checkAll();
+    expect(engine.autoTopUp).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report a top-up that never lands as stuck', async () => {
+    chain.getEscrow.mockResolvedValue(escrow('1000000'));
+    const instance = watcher(0);
+
+    await instance.checkAll();
+    const [stuck] = await instance.checkAll();
+
+    expect(stuck?.status).toBe('stuck');
+    expect(instance.health().healthy).toBe(false);
+  });
+
+  it('should retry a top-up blocked by a spend limit on the next check', async () => {
+    chain.getEscrow.mockResolvedValue(escrow('1000000'));
+    engine.autoTopUp.mockRejectedValueOnce(new SpendLimitError(Amount.parse('50', USDC), []));
+    const instance = watcher();
+
+    const [limited] = await instance.checkAll();
+    expect(limited?.status).toBe('limited');
+    expect(limited?.pendingTopUp).toBeUndefined();
+
+    await instance.checkAll();
+    expect(engine.autoTopUp).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only monitor when auto top-up is disabled', async () => {
+    chain.getEscrow.mockResolvedValue(escrow('1000000'));
+    engine.autoTopUp.mockResolvedValue(null);
+
+    const [result] = await watcher().checkAll();
+
+    expect(result?.status).toBe('low');
+    expect(result?.pendingTopUp).toBeUndefined();
+  });
+
+  it('should skip closed deployments', async () => {
+    chain.getEscrow.mockResolvedValue(escrow('0', 'closed'));
+    const instance = watcher();
+
+    const [result] = await instance.checkAll();
+
+    expect(result?.status).toBe('closed');
+    expect(chain.listLeases).not.toHaveBeenCalled();
+    expect(instance.health().healthy).toBe(true);
+  });
+});
@@ -0,0 +1,123 @@
+#!/usr/bin/env tsx
+/**
+ * Regenerate the golden Akash fixtures in packages/contracts/tests/fixtures/akash
+ *
+ * The bytes come from the chain's own codecs in @akashnetwork/akash-api, the
+ * ones @akashnetwork/akashjs registers for signing, so the tests check our
+ * encoder against them rather than against itself. (The older copies under
+ * akashjs/build/protobuf pad DecCoin amounts to 23 digits and don't match
+ * the chain.) Run after changing inputs.ts:
+ *
+ *   pnpm --filter @morpheus-deploy/contracts fixtures:akash
+ */
+import { writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+import {
+  MsgCloseDeployment,
+  MsgCreateDeployment,
+  MsgDepositDeployment,
+  MsgUpdateDeployment,
+} from '@akashnetwork/akash-api/akash/deployment/v1beta3';
+import { MsgCreateLease } from '@akashnetwork/akash-api/akash/market/v1beta4';
+import {
+  DirectSecp256k1HdWallet,
+  Registry,
+  type EncodeObject,
+  type GeneratedType,
+} from '@cosmjs/proto-signing';
+import { SigningStargateClient, defaultRegistryTypes } from '@cosmjs/stargate';
+import { TxRaw } from 'cosmjs-types/cosmos/tx/v1beta1/tx.js';
+
+import {
+  CREATE_VERSION,
+  DEPOSIT,
+  DSEQ,
+  FEE,
+  MEMO,
+  MNEMONIC,
+  OWNER,
+  PRICE,
+  PROVIDER,
+  SIGNER_DATA,
+  TOP_UP,
+  UPDATE_VERSION,
+  groups,
+} from '../tests/fixtures/akash/inputs.js';
+
+const FIXTURES = join(dirname(fileURLToPath(import.meta.url)), '../tests/fixtures/akash');
+
+// akash-api's codecs take dseq as a Long, which accepts a decimal string
+const id = { owner: OWNER, dseq: DSEQ };
+
+// and scale DecCoin amounts by 10^18 themselves
+const unscaledGroups = groups.map(group => ({
+  ...group,
+  resources: group.resources.map(unit => ({ ...unit, price: { ...PRICE } })),
+}));
+
+const messages: Record<string, EncodeObject> = {
+  'msg-create-deployment': {
+    typeUrl: typeUrl(MsgCreateDeployment),
+    value: {
+      id,
+      groups: unscaledGroups,
+      version: CREATE_VERSION,
+      deposit: DEPOSIT,
+      depositor: OWNER,
+    },
+  },
+  'msg-update-deployment': {
+    typeUrl: typeUrl(MsgUpdateDeployment),
+    value: { id, version: UPDATE_VERSION },
+  },
+  'msg-deposit-deployment': {
+    typeUrl: typeUrl(MsgDepositDeployment),
+    value: { id, amount: TOP_UP, depositor: OWNER },
+  },
+  'msg-close-deployment': {
+    typeUrl: typeUrl(MsgCloseDeployment),
+    value: { id },
+  },
+  'msg-create-lease': {
+    typeUrl: typeUrl(MsgCreateLease),
+    value: { bidId: { ...id, gseq: 1, oseq: 1, provider: PROVIDER } },
+  },
+};
+
+function typeUrl(type: { $type: string }): string {
+  return `/${type.$type}`;
+}
+
+function write(name: string, bytes: Uint8Array): void {
+  writeFileSync(join(FIXTURES, `${name}.hex`), `${Buffer.from(bytes).toString('hex')}\n`);
+  console.log(`Wrote ${name}.hex`);
+}
+
+async function main() {
+  const registry = new Registry([
+    ...defaultRegistryTypes,
+    ...[
+      MsgCreateDeployment,
+      MsgUpdateDeployment,
+      MsgDepositDeployment,
+      MsgCloseDeployment,
+      MsgCreateLease,
+    ].map(type => [typeUrl(type), type] as [string, GeneratedType]),
+  ]);
+
+  for (const [name, message] of Object.entries(messages)) {
+    write(name, registry.encode(message));
+  }
+
+  const wallet = await DirectSecp256k1HdWallet.fromMnemonic(MNEMONIC, { prefix: 'akash' });
+  const client = await SigningStargateClient.offline(wallet, { registry });
+  const tx = await client.sign(OWNER, [messages['msg-create-deployment']!], FEE, MEMO, SIGNER_DATA);
+  write('tx-create-deployment', TxRaw.encode(tx).finish());
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,4 +1,4 @@
-import type { AkashDeployment, AkashLease, Bid, Provider } from '../../types.js';
+import type { AkashDeployment, AkashLease, Bid, DeploymentState, Provider } from '../../types.js';
 import type { CreateDeploymentParams, DeploymentConfig } from '../client.js';
 
 /**
@@ -127,10 +127,11 @@ export class AkashClient {
   /**
    * List all deployments for an owner (mocked)
    */
-  async listDeployments(owner: string): Promise<AkashDeployment[]> {
+  async listDeployments(owner: string, state?: DeploymentState): Promise<AkashDeployment[]> {
     return Array.from(this.mockDeployments.entries())
       .filter(([key]) => key.startsWith(`${owner}:`))
-      .map(([, deployment]) => deployment);
+      .map(([, deployment]) => deployment)
+      .filter(deployment => !state || deployment.state === state);
   }
 
   /**
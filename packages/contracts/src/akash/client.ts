@@ -1,8 +1,36 @@
-import { SigningStargateClient, StargateClient } from '@cosmjs/stargate';
-import { DirectSecp256k1HdWallet } from '@cosmjs/proto-signing';
-import { AkashMessages } from './messages.js';
+import {
+  DirectSecp256k1HdWallet,
+  DirectSecp256k1Wallet,
+  Registry,
+  type EncodeObject,
+  type OfflineDirectSigner,
+  type OfflineSigner,
+} from '@cosmjs/proto-signing';
+import {
+  SigningStargateClient,
+  StargateClient,
+  defaultRegistryTypes,
+  type Event,
+  type StdFee,
+} from '@cosmjs/stargate';
+import { TxRaw } from 'cosmjs-types/cosmos/tx/v1beta1/tx.js';
+
+import { AuthZMessages } from '../authz/messages.js';
 import { AKASH_CONFIG } from '../constants.js';
-import type { AkashDeployment, AkashLease, Bid, EscrowAccount, Provider } from '../types.js';
+import type {
+  AkashDeployment,
+  AkashLease,
+  Bid,
+  Coin,
+  DeploymentState,
+  EscrowAccount,
+  MarketBid,
+  MarketResources,
+  Provider,
+} from '../types.js';
+
+import { AkashMessages } from './messages.js';
+import { akashRegistryTypes, type GroupSpec } from './proto.js';
 
 export interface DeploymentConfig {
   network: 'mainnet' | 'testnet';
@@ -11,10 +39,78 @@ export interface DeploymentConfig {
 
 export interface CreateDeploymentParams {
   owner: string;
-  sdl: Uint8Array;
+  /** Group specs derived from the SDL */
+  groups: GroupSpec[];
+  /** Manifest version hash */
+  version: Uint8Array;
   deposit: { denom: string; amount: string };
 }
 
+/** Resource values as returned by the REST API, e.g. `{ val: "1000" }` */
+interface RestResources {
+  cpu?: { units?: { val?: string } };
+  memory?: { quantity?: { val?: string } };
+  storage?: Array<{ quantity?: { val?: string } }>;
+  gpu?: { units?: { val?: string }; attributes?: Array<{ key: string; value: string }> };
+}
+
+interface RestDeployment {
+  deployment_id: { owner: string; dseq: string };
+  state: DeploymentState;
+  /** Manifest version, base64-encoded */
+  version: string;
+  created_at: string;
+}
+
+interface RestBid {
+  bid_id: { provider: string };
+  price: { denom: string; amount: string };
+  resources_offer?: Array<{ resources: RestResources; count: number }>;
+}
+
+export interface OfflineSignerData {
+  chainId: string;
+  accountNumber: number;
+  sequence: number;
+}
+
+/** A transaction included in a block, with the events it emitted */
+export interface BroadcastResult {
+  txHash: string;
+  events: readonly Event[];
+}
+
+/** Signs Akash transactions; see `createAkashSigner` */
+export type AkashSigner = OfflineDirectSigner;
+
+/**
+ * Registry that can encode the standard Cosmos messages plus Akash deployment
+ * and market messages
+ */
+export function createAkashRegistry(): Registry {
+  return new Registry([...defaultRegistryTypes, ...akashRegistryTypes]);
+}
+
+/**
+ * Signer for a raw secp256k1 private key, such as a wallet or ephemeral key
+ * that was not derived from a mnemonic. The key is copied.
+ */
+export function createAkashSigner(privateKey: Uint8Array): Promise<AkashSigner> {
+  return DirectSecp256k1Wallet.fromKey(Uint8Array.from(privateKey), 'akash');
+}
+
+/**
+ * Wrap messages in a MsgExec so `grantee` can send them for the owner they
+ * name, under that owner's AuthZ grant
+ */
+export function execAsGrantee(grantee: string, messages: EncodeObject[]): EncodeObject {
+  const registry = createAkashRegistry();
+  return AuthZMessages.createExecMsg({
+    grantee,
+    msgs: messages.map(message => registry.encodeAsAny(message)),
+  });
+}
+
 export class AkashClient {
   private rpcUrl: string;
   private restUrl: string;
@@ -34,19 +130,76 @@ export class AkashClient {
   }
 
   /**
-   * Connect with signing capabilities
+   * Connect with signing capabilities, from a mnemonic or an existing signer
    */
-  async connectWithSigner(mnemonic: string): Promise<void> {
-    const wallet = await DirectSecp256k1HdWallet.fromMnemonic(mnemonic, {
-      prefix: 'akash',
-    });
+  async connectWithSigner(mnemonic: string | OfflineSigner): Promise<void> {
+    const wallet =
+      typeof mnemonic === 'string'
+        ? await DirectSecp256k1HdWallet.fromMnemonic(mnemonic, { prefix: 'akash' })
+        : mnemonic;
 
     this.signingClient = await SigningStargateClient.connectWithSigner(
       this.rpcUrl,
-      wallet
+      wallet,
+      { registry: createAkashRegistry() }
     );
   }
 
+  /**
+   * Sign messages without connecting to a node. Account number and sequence
+   * must be supplied since they can't be queried. Returns TxRaw bytes that any
+   * node accepts via broadcast_tx.
+   */
+  static async signOffline(
+    mnemonic: string,
+    messages: EncodeObject[],
+    fee: StdFee,
+    signerData: OfflineSignerData,
+    memo = ''
+  ): Promise<Uint8Array> {
+    const wallet = await DirectSecp256k1HdWallet.fromMnemonic(mnemonic, {
+      prefix: 'akash',
+    });
+    const [account] = await wallet.getAccounts();
+    if (!account) {
+      throw new Error('Wallet has no accounts');
+    }
+
+    const client = await SigningStargateClient.offline(wallet, {
+      registry: createAkashRegistry(),
+    });
+    const txRaw = await client.sign(account.address, messages, fee, memo, signerData);
+
+    return TxRaw.encode(txRaw).finish();
+  }
+
+  /**
+   * Sign messages as `signer`, broadcast them and wait for the transaction to
+   * be included in a block. Returns the transaction hash; throws if the chain
+   * rejects it.
+   */
+  async signAndBroadcast(signer: string, messages: EncodeObject[], memo = ''): Promise<string> {
+    return (await this.broadcast(signer, messages, memo)).txHash;
+  }
+
+  /**
+   * Like `signAndBroadcast`, also returning the events the transaction
+   * emitted, such as the coins it transferred
+   */
+  async broadcast(signer: string, messages: EncodeObject[], memo = ''): Promise<BroadcastResult> {
+    if (!this.signingClient) {
+      throw new Error('Signing client not connected');
+    }
+
+    const result = await this.signingClient.signAndBroadcast(signer, messages, 'auto', memo);
+
+    if (result.code !== 0) {
+      throw new Error(`Transaction failed: ${result.rawLog}`);
+    }
+
+    return { txHash: result.transactionHash, events: result.events };
+  }
+
   /**
    * Create a new deployment
    */
@@ -63,8 +216,8 @@ export class AkashClient {
     const msg = AkashMessages.createDeployment({
       owner: params.owner,
       dseq,
-      version: params.sdl,
-      groups: [], // Parsed from SDL
+      version: params.version,
+      groups: params.groups,
       deposit: params.deposit,
     });
 
@@ -103,19 +256,26 @@ export class AkashClient {
   }
 
   /**
-   * List all deployments for an owner
+   * List all deployments for an owner, or only those in one state
    */
-  async listDeployments(owner: string): Promise<AkashDeployment[]> {
+  async listDeployments(owner: string, state?: DeploymentState): Promise<AkashDeployment[]> {
+    const filter = state ? `&filters.state=${state}` : '';
     const response = await fetch(
-      `${this.restUrl}/akash/deployment/v1beta3/deployments/list?filters.owner=${owner}`
+      `${this.restUrl}/akash/deployment/v1beta3/deployments/list?filters.owner=${owner}${filter}`
     );
 
     if (!response.ok) {
       throw new Error(`Failed to list deployments: ${response.statusText}`);
     }
 
-    const data = await response.json() as { deployments: Array<{ deployment: AkashDeployment }> };
-    return data.deployments.map(d => d.deployment);
+    const data = (await response.json()) as { deployments: Array<{ deployment: RestDeployment }> };
+    return data.deployments.map(({ deployment }) => ({
+      dseq: deployment.deployment_id.dseq,
+      owner: deployment.deployment_id.owner,
+      state: deployment.state,
+      version: new Uint8Array(Buffer.from(deployment.version, 'base64')),
+      createdHeight: BigInt(deployment.created_at),
+    }));
   }
 
   /**
@@ -149,6 +309,33 @@ export class AkashClient {
     return bids;
   }
 
+  /**
+   * Most recent open bids across the market, with the resources each one
+   * offers. Bids priced in anything other than uakt are skipped.
+   */
+  async listRecentBids(limit = 100): Promise<MarketBid[]> {
+    const response = await fetch(
+      `${this.restUrl}/akash/market/v1beta4/bids/list?filters.state=open&pagination.limit=${limit}&pagination.reverse=true`
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to list bids: ${response.statusText}`);
+    }
+
+    const data = await response.json() as { bids: Array<{ bid: RestBid }> };
+
+    return data.bids
+      .map(({ bid }) => bid)
+      .filter(bid => bid.price.denom === 'uakt')
+      .map(bid => ({
+        provider: bid.bid_id.provider,
+        price: parseFloat(bid.price.amount),
+        resources: (bid.resources_offer ?? []).map(({ resources, count }) =>
+          toMarketResources(resources, count)
+        ),
+      }));
+  }
+
   /**
    * Create a lease from a bid
    */
@@ -211,6 +398,23 @@ export class AkashClient {
     return data.lease;
   }
 
+  /**
+   * Active leases of a deployment. The deployment's escrow is billed the sum
+   * of their prices every block.
+   */
+  async listLeases(owner: string, dseq: string): Promise<AkashLease[]> {
+    const response = await fetch(
+      `${this.restUrl}/akash/market/v1beta4/leases/list?filters.owner=${owner}&filters.dseq=${dseq}&filters.state=active`
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to list leases: ${response.statusText}`);
+    }
+
+    const data = await response.json() as { leases: Array<{ lease: AkashLease }> };
+    return data.leases.map(({ lease }) => lease);
+  }
+
   /**
    * Send manifest to provider
    */
@@ -275,6 +479,22 @@ export class AkashClient {
     return data.account;
   }
 
+  /**
+   * Query an account's balance of one denom
+   */
+  async getBalance(address: string, denom = 'uakt'): Promise<Coin> {
+    const response = await fetch(
+      `${this.restUrl}/cosmos/bank/v1beta1/balances/${address}/by_denom?denom=${denom}`
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to query balance: ${response.statusText}`);
+    }
+
+    const data = await response.json() as { balance?: Coin };
+    return data.balance ?? { denom, amount: '0' };
+  }
+
   /**
    * Deposit to deployment escrow
    */
@@ -307,6 +527,35 @@ export class AkashClient {
     return result.transactionHash;
   }
 
+  /**
+   * Point an existing deployment at a new manifest version. Providers only
+   * accept a re-sent manifest whose hash matches the on-chain version.
+   */
+  async updateDeployment(owner: string, dseq: string, version: Uint8Array): Promise<string> {
+    if (!this.signingClient) {
+      throw new Error('Signing client not connected');
+    }
+
+    const msg = AkashMessages.updateDeployment({
+      owner,
+      dseq,
+      version,
+    });
+
+    const result = await this.signingClient.signAndBroadcast(
+      owner,
+      [msg],
+      'auto',
+      'Morpheus Update Deployment'
+    );
+
+    if (result.code !== 0) {
+      throw new Error(`Update deployment failed: ${result.rawLog}`);
+    }
+
+    return result.transactionHash;
+  }
+
   /**
    * Close a deployment
    */
@@ -379,3 +628,18 @@ export class AkashClient {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 }
+
+function toMarketResources(resources: RestResources, count: number): MarketResources {
+  const value = (quantity?: { val?: string }) => Number(quantity?.val ?? 0);
+
+  return {
+    cpu: value(resources.cpu?.units),
+    memory: value(resources.memory?.quantity),
+    storage: (resources.storage ?? []).reduce((total, { quantity }) => total + value(quantity), 0),
+    gpu: value(resources.gpu?.units),
+    gpuModels: (resources.gpu?.attributes ?? [])
+      .map(({ key }) => key.match(/^vendor\/[^/]+\/model\/([^/]+)/)?.[1])
+      .filter((model): model is string => Boolean(model)),
+    count,
+  };
+}
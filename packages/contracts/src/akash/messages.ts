@@ -1,4 +1,14 @@
 import type { EncodeObject } from '@cosmjs/proto-signing';
+import type { Coin } from 'cosmjs-types/cosmos/base/v1beta1/coin.js';
+
+import {
+  MsgCloseDeployment,
+  MsgCreateDeployment,
+  MsgCreateLease,
+  MsgDepositDeployment,
+  MsgUpdateDeployment,
+  type GroupSpec,
+} from './proto.js';
 
 export class AkashMessages {
   /**
@@ -7,44 +17,44 @@ export class AkashMessages {
   static createDeployment(params: {
     owner: string;
     dseq: string;
+    /** Manifest version hash */
     version: Uint8Array;
-    groups: unknown[];
-    deposit: { denom: string; amount: string };
+    groups: GroupSpec[];
+    deposit: Coin;
   }): EncodeObject {
     return {
-      typeUrl: '/akash.deployment.v1beta3.MsgCreateDeployment',
-      value: {
+      typeUrl: MsgCreateDeployment.typeUrl,
+      value: MsgCreateDeployment.fromPartial({
         id: {
           owner: params.owner,
-          dseq: params.dseq,
+          dseq: BigInt(params.dseq),
         },
         groups: params.groups,
         version: params.version,
         deposit: params.deposit,
         depositor: params.owner,
-      },
+      }),
     };
   }
 
   /**
-   * Update deployment message
+   * Update deployment message. Only the manifest version can change; group
+   * specs are fixed when the deployment is created.
    */
   static updateDeployment(params: {
     owner: string;
     dseq: string;
     version: Uint8Array;
-    groups: unknown[];
   }): EncodeObject {
     return {
-      typeUrl: '/akash.deployment.v1beta3.MsgUpdateDeployment',
-      value: {
+      typeUrl: MsgUpdateDeployment.typeUrl,
+      value: MsgUpdateDeployment.fromPartial({
         id: {
           owner: params.owner,
-          dseq: params.dseq,
+          dseq: BigInt(params.dseq),
         },
-        groups: params.groups,
         version: params.version,
-      },
+      }),
     };
   }
 
@@ -56,13 +66,13 @@ export class AkashMessages {
     dseq: string;
   }): EncodeObject {
     return {
-      typeUrl: '/akash.deployment.v1beta3.MsgCloseDeployment',
-      value: {
+      typeUrl: MsgCloseDeployment.typeUrl,
+      value: MsgCloseDeployment.fromPartial({
         id: {
           owner: params.owner,
-          dseq: params.dseq,
+          dseq: BigInt(params.dseq),
         },
-      },
+      }),
     };
   }
 
@@ -72,18 +82,18 @@ export class AkashMessages {
   static deposit(params: {
     owner: string;
     dseq: string;
-    amount: { denom: string; amount: string };
+    amount: Coin;
   }): EncodeObject {
     return {
-      typeUrl: '/akash.deployment.v1beta3.MsgDepositDeployment',
-      value: {
+      typeUrl: MsgDepositDeployment.typeUrl,
+      value: MsgDepositDeployment.fromPartial({
         id: {
           owner: params.owner,
-          dseq: params.dseq,
+          dseq: BigInt(params.dseq),
         },
         amount: params.amount,
         depositor: params.owner,
-      },
+      }),
     };
   }
 
@@ -98,16 +108,16 @@ export class AkashMessages {
     provider: string;
   }): EncodeObject {
     return {
-      typeUrl: '/akash.market.v1beta4.MsgCreateLease',
-      value: {
+      typeUrl: MsgCreateLease.typeUrl,
+      value: MsgCreateLease.fromPartial({
         bidId: {
           owner: params.owner,
-          dseq: params.dseq,
+          dseq: BigInt(params.dseq),
           gseq: params.gseq,
           oseq: params.oseq,
           provider: params.provider,
         },
-      },
+      }),
     };
   }
 
@@ -0,0 +1,451 @@
+import type { GeneratedType } from '@cosmjs/proto-signing';
+import { BinaryReader, BinaryWriter } from 'cosmjs-types/binary.js';
+import { Coin, DecCoin } from 'cosmjs-types/cosmos/base/v1beta1/coin.js';
+
+/**
+ * Protobuf types for the Akash messages Morpheus broadcasts, mirroring
+ * akash.base.v1beta3, akash.deployment.v1beta3 and akash.market.v1beta4 from
+ * github.com/akash-network/akash-api. Each type has the same encode/decode/
+ * fromPartial shape as generated cosmjs-types, so it can be registered in a
+ * cosmjs Registry.
+ */
+export interface ProtoType<T> {
+  readonly typeUrl: string;
+  encode(message: T, writer?: BinaryWriter): BinaryWriter;
+  decode(input: BinaryReader | Uint8Array, length?: number): T;
+  fromPartial(object: DeepPartial<T>): T;
+}
+
+export type DeepPartial<T> = T extends Uint8Array | bigint | string | number | boolean
+  ? T
+  : T extends Array<infer U>
+    ? Array<DeepPartial<U>>
+    : T extends object
+      ? { [K in keyof T]?: DeepPartial<T[K]> }
+      : T;
+
+type ScalarType = 'string' | 'bytes' | 'uint32' | 'uint64';
+
+interface Field<T> {
+  no: number;
+  name: keyof T & string;
+  type: ScalarType | ProtoType<unknown>;
+  repeated?: boolean;
+}
+
+const WIRE_VARINT = 0;
+const WIRE_LENGTH_DELIMITED = 2;
+
+function defaultValue(field: Field<never>): unknown {
+  if (field.repeated) {
+    return [];
+  }
+  switch (field.type) {
+    case 'string':
+      return '';
+    case 'bytes':
+      return new Uint8Array();
+    case 'uint32':
+      return 0;
+    case 'uint64':
+      return BigInt(0);
+    default:
+      return undefined;
+  }
+}
+
+/** Proto3 omits fields holding their default value */
+function isDefault(field: Field<never>, value: unknown): boolean {
+  if (value === undefined || value === null) {
+    return true;
+  }
+  switch (field.type) {
+    case 'string':
+      return value === '';
+    case 'bytes':
+      return (value as Uint8Array).length === 0;
+    case 'uint32':
+      return value === 0;
+    case 'uint64':
+      return BigInt(value as bigint) === BigInt(0);
+    default:
+      return false;
+  }
+}
+
+function writeValue(writer: BinaryWriter, field: Field<never>, value: unknown): void {
+  switch (field.type) {
+    case 'string':
+      writer.uint32((field.no << 3) | WIRE_LENGTH_DELIMITED).string(value as string);
+      break;
+    case 'bytes':
+      writer.uint32((field.no << 3) | WIRE_LENGTH_DELIMITED).bytes(value as Uint8Array);
+      break;
+    case 'uint32':
+      writer.uint32((field.no << 3) | WIRE_VARINT).uint32(value as number);
+      break;
+    case 'uint64':
+      writer.uint32((field.no << 3) | WIRE_VARINT).uint64(value as bigint);
+      break;
+    default:
+      field.type.encode(value, writer.uint32((field.no << 3) | WIRE_LENGTH_DELIMITED).fork());
+      writer.ldelim();
+  }
+}
+
+function readValue(reader: BinaryReader, field: Field<never>): unknown {
+  switch (field.type) {
+    case 'string':
+      return reader.string();
+    case 'bytes':
+      return reader.bytes();
+    case 'uint32':
+      return reader.uint32();
+    case 'uint64':
+      return reader.uint64();
+    default:
+      return field.type.decode(reader, reader.uint32());
+  }
+}
+
+function fromPartialValue(field: Field<never>, value: unknown): unknown {
+  if (typeof field.type !== 'string') {
+    return field.type.fromPartial(value as never);
+  }
+  if (field.type === 'uint64') {
+    return BigInt((value as bigint | number | string).toString());
+  }
+  return value;
+}
+
+function protoType<T extends object>(typeUrl: string, fields: Array<Field<T>>): ProtoType<T> {
+  const specs = fields as unknown as Array<Field<never>>;
+
+  const create = (): T => {
+    const message: Record<string, unknown> = {};
+    for (const field of specs) {
+      message[field.name] = defaultValue(field);
+    }
+    return message as T;
+  };
+
+  return {
+    typeUrl,
+
+    encode(message, writer = BinaryWriter.create()) {
+      const values = message as Record<string, unknown>;
+      for (const field of specs) {
+        const value = values[field.name];
+        if (field.repeated) {
+          for (const item of (value as unknown[] | undefined) ?? []) {
+            writeValue(writer, field, item);
+          }
+        } else if (!isDefault(field, value)) {
+          writeValue(writer, field, value);
+        }
+      }
+      return writer;
+    },
+
+    decode(input, length) {
+      const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+      const end = length === undefined ? reader.len : reader.pos + length;
+      const message = create() as Record<string, unknown>;
+
+      while (reader.pos < end) {
+        const tag = reader.uint32();
+        const field = specs.find(spec => spec.no === tag >>> 3);
+        if (!field) {
+          reader.skipType(tag & 7);
+          continue;
+        }
+        const value = readValue(reader, field);
+        if (field.repeated) {
+          (message[field.name] as unknown[]).push(value);
+        } else {
+          message[field.name] = value;
+        }
+      }
+
+      return message as T;
+    },
+
+    fromPartial(object) {
+      const values = object as Record<string, unknown>;
+      const message = create() as Record<string, unknown>;
+
+      for (const field of specs) {
+        const value = values[field.name];
+        if (value === undefined || value === null) {
+          continue;
+        }
+        message[field.name] = field.repeated
+          ? (value as unknown[]).map(item => fromPartialValue(field, item))
+          : fromPartialValue(field, value);
+      }
+
+      return message as T;
+    },
+  };
+}
+
+// akash.base.v1beta3
+
+export interface Attribute {
+  key: string;
+  value: string;
+}
+
+export const Attribute = protoType<Attribute>('/akash.base.v1beta3.Attribute', [
+  { no: 1, name: 'key', type: 'string' },
+  { no: 2, name: 'value', type: 'string' },
+]);
+
+export interface SignedBy {
+  /** All of these auditors must have signed the provider's attributes */
+  allOf: string[];
+  /** At least one of these auditors must have signed the provider's attributes */
+  anyOf: string[];
+}
+
+export const SignedBy = protoType<SignedBy>('/akash.base.v1beta3.SignedBy', [
+  { no: 1, name: 'allOf', type: 'string', repeated: true },
+  { no: 2, name: 'anyOf', type: 'string', repeated: true },
+]);
+
+export interface PlacementRequirements {
+  signedBy?: SignedBy;
+  attributes: Attribute[];
+}
+
+export const PlacementRequirements = protoType<PlacementRequirements>(
+  '/akash.base.v1beta3.PlacementRequirements',
+  [
+    { no: 1, name: 'signedBy', type: SignedBy },
+    { no: 2, name: 'attributes', type: Attribute, repeated: true },
+  ]
+);
+
+export interface ResourceValue {
+  /** Decimal integer as UTF-8 bytes (an sdk.Int on chain) */
+  val: Uint8Array;
+}
+
+export const ResourceValue = protoType<ResourceValue>('/akash.base.v1beta3.ResourceValue', [
+  { no: 1, name: 'val', type: 'bytes' },
+]);
+
+export interface CPU {
+  /** Millicores */
+  units?: ResourceValue;
+  attributes: Attribute[];
+}
+
+export const CPU = protoType<CPU>('/akash.base.v1beta3.CPU', [
+  { no: 1, name: 'units', type: ResourceValue },
+  { no: 2, name: 'attributes', type: Attribute, repeated: true },
+]);
+
+export interface Memory {
+  /** Bytes */
+  quantity?: ResourceValue;
+  attributes: Attribute[];
+}
+
+export const Memory = protoType<Memory>('/akash.base.v1beta3.Memory', [
+  { no: 1, name: 'quantity', type: ResourceValue },
+  { no: 2, name: 'attributes', type: Attribute, repeated: true },
+]);
+
+export interface Storage {
+  name: string;
+  /** Bytes */
+  quantity?: ResourceValue;
+  attributes: Attribute[];
+}
+
+export const Storage = protoType<Storage>('/akash.base.v1beta3.Storage', [
+  { no: 1, name: 'name', type: 'string' },
+  { no: 2, name: 'quantity', type: ResourceValue },
+  { no: 3, name: 'attributes', type: Attribute, repeated: true },
+]);
+
+export interface GPU {
+  units?: ResourceValue;
+  /** e.g. `vendor/nvidia/model/rtx4090` = `true` */
+  attributes: Attribute[];
+}
+
+export const GPU = protoType<GPU>('/akash.base.v1beta3.GPU', [
+  { no: 1, name: 'units', type: ResourceValue },
+  { no: 2, name: 'attributes', type: Attribute, repeated: true },
+]);
+
+export enum Endpoint_Kind {
+  /** Served through the provider's HTTP ingress */
+  SHARED_HTTP = 0,
+  /** Mapped to a random external port */
+  RANDOM_PORT = 1,
+  LEASED_IP = 2,
+}
+
+export interface Endpoint {
+  kind: Endpoint_Kind;
+  sequenceNumber: number;
+}
+
+export const Endpoint = protoType<Endpoint>('/akash.base.v1beta3.Endpoint', [
+  { no: 1, name: 'kind', type: 'uint32' },
+  { no: 2, name: 'sequenceNumber', type: 'uint32' },
+]);
+
+export interface Resources {
+  id: number;
+  cpu?: CPU;
+  memory?: Memory;
+  storage: Storage[];
+  gpu?: GPU;
+  endpoints: Endpoint[];
+}
+
+export const Resources = protoType<Resources>('/akash.base.v1beta3.Resources', [
+  { no: 1, name: 'id', type: 'uint32' },
+  { no: 2, name: 'cpu', type: CPU },
+  { no: 3, name: 'memory', type: Memory },
+  { no: 4, name: 'storage', type: Storage, repeated: true },
+  { no: 5, name: 'gpu', type: GPU },
+  { no: 6, name: 'endpoints', type: Endpoint, repeated: true },
+]);
+
+// akash.deployment.v1beta3
+
+export interface ResourceUnit {
+  resource?: Resources;
+  count: number;
+  /** Maximum price per block, with the amount scaled by 10^18 (an sdk.Dec on chain) */
+  price?: DecCoin;
+}
+
+export const ResourceUnit = protoType<ResourceUnit>('/akash.deployment.v1beta3.ResourceUnit', [
+  { no: 1, name: 'resource', type: Resources },
+  { no: 2, name: 'count', type: 'uint32' },
+  { no: 3, name: 'price', type: DecCoin as ProtoType<unknown> },
+]);
+
+export interface GroupSpec {
+  name: string;
+  requirements?: PlacementRequirements;
+  resources: ResourceUnit[];
+}
+
+export const GroupSpec = protoType<GroupSpec>('/akash.deployment.v1beta3.GroupSpec', [
+  { no: 1, name: 'name', type: 'string' },
+  { no: 2, name: 'requirements', type: PlacementRequirements },
+  { no: 3, name: 'resources', type: ResourceUnit, repeated: true },
+]);
+
+export interface DeploymentID {
+  owner: string;
+  dseq: bigint;
+}
+
+export const DeploymentID = protoType<DeploymentID>('/akash.deployment.v1beta3.DeploymentID', [
+  { no: 1, name: 'owner', type: 'string' },
+  { no: 2, name: 'dseq', type: 'uint64' },
+]);
+
+export interface MsgCreateDeployment {
+  id?: DeploymentID;
+  groups: GroupSpec[];
+  /** SHA-256 of the manifest sent to the provider */
+  version: Uint8Array;
+  deposit?: Coin;
+  depositor: string;
+}
+
+export const MsgCreateDeployment = protoType<MsgCreateDeployment>(
+  '/akash.deployment.v1beta3.MsgCreateDeployment',
+  [
+    { no: 1, name: 'id', type: DeploymentID },
+    { no: 2, name: 'groups', type: GroupSpec, repeated: true },
+    { no: 3, name: 'version', type: 'bytes' },
+    { no: 4, name: 'deposit', type: Coin as ProtoType<unknown> },
+    { no: 5, name: 'depositor', type: 'string' },
+  ]
+);
+
+export interface MsgUpdateDeployment {
+  id?: DeploymentID;
+  version: Uint8Array;
+}
+
+// Field 2 (groups) was removed in v1beta3; group specs can't change after creation
+export const MsgUpdateDeployment = protoType<MsgUpdateDeployment>(
+  '/akash.deployment.v1beta3.MsgUpdateDeployment',
+  [
+    { no: 1, name: 'id', type: DeploymentID },
+    { no: 3, name: 'version', type: 'bytes' },
+  ]
+);
+
+export interface MsgDepositDeployment {
+  id?: DeploymentID;
+  amount?: Coin;
+  depositor: string;
+}
+
+export const MsgDepositDeployment = protoType<MsgDepositDeployment>(
+  '/akash.deployment.v1beta3.MsgDepositDeployment',
+  [
+    { no: 1, name: 'id', type: DeploymentID },
+    { no: 2, name: 'amount', type: Coin as ProtoType<unknown> },
+    { no: 3, name: 'depositor', type: 'string' },
+  ]
+);
+
+export interface MsgCloseDeployment {
+  id?: DeploymentID;
+}
+
+export const MsgCloseDeployment = protoType<MsgCloseDeployment>(
+  '/akash.deployment.v1beta3.MsgCloseDeployment',
+  [{ no: 1, name: 'id', type: DeploymentID }]
+);
+
+// akash.market.v1beta4
+
+export interface BidID {
+  owner: string;
+  dseq: bigint;
+  gseq: number;
+  oseq: number;
+  provider: string;
+}
+
+export const BidID = protoType<BidID>('/akash.market.v1beta4.BidID', [
+  { no: 1, name: 'owner', type: 'string' },
+  { no: 2, name: 'dseq', type: 'uint64' },
+  { no: 3, name: 'gseq', type: 'uint32' },
+  { no: 4, name: 'oseq', type: 'uint32' },
+  { no: 5, name: 'provider', type: 'string' },
+]);
+
+export interface MsgCreateLease {
+  bidId?: BidID;
+}
+
+export const MsgCreateLease = protoType<MsgCreateLease>('/akash.market.v1beta4.MsgCreateLease', [
+  { no: 1, name: 'bidId', type: BidID },
+]);
+
+/**
+ * Message types to register in a cosmjs Registry, like `defaultRegistryTypes`
+ * from @cosmjs/stargate
+ */
+export const akashRegistryTypes: ReadonlyArray<[string, GeneratedType]> = [
+  MsgCreateDeployment,
+  MsgUpdateDeployment,
+  MsgDepositDeployment,
+  MsgCloseDeployment,
+  MsgCreateLease,
+].map(type => [type.typeUrl, type as GeneratedType]);
@@ -1,5 +1,6 @@
 import { SigningStargateClient } from '@cosmjs/stargate';
-import { DirectSecp256k1HdWallet } from '@cosmjs/proto-signing';
+import { DirectSecp256k1HdWallet, type OfflineSigner } from '@cosmjs/proto-signing';
+import type { Any } from 'cosmjs-types/google/protobuf/any.js';
 import { AuthZMessages } from './messages.js';
 
 export interface AuthZPermission {
@@ -43,7 +44,7 @@ export class AuthZManager {
     msgType: '/cosmos.bank.v1beta1.MsgSend',
     spendLimit: {
       denom: 'uakt',
-      amount: '100000000', // 100 AKT max per top-up
+      amount: '100000000', // 100 AKT in total; the chain lowers the limit as it is spent
     },
   };
 
@@ -52,12 +53,13 @@ export class AuthZManager {
   }
 
   /**
-   * Connect to Akash network with a wallet
+   * Connect to Akash network with a wallet, from a mnemonic or an existing
+   * signer
    */
-  async connect(mnemonic: string): Promise<void> {
-    const wallet = await DirectSecp256k1HdWallet.fromMnemonic(mnemonic, {
-      prefix: 'akash',
-    });
+  async connect(mnemonic: string | OfflineSigner): Promise<void> {
+    const wallet = typeof mnemonic === 'string'
+      ? await DirectSecp256k1HdWallet.fromMnemonic(mnemonic, { prefix: 'akash' })
+      : mnemonic;
 
     this.client = await SigningStargateClient.connectWithSigner(
       this.rpcEndpoint,
@@ -220,12 +222,13 @@ export class AuthZManager {
   }
 
   /**
-   * Execute a message using an AuthZ grant
+   * Execute messages, each encoded with `Registry.encodeAsAny`, using an
+   * AuthZ grant
    */
   async executeWithGrant(
     grantee: string,
     granter: string,
-    messages: unknown[]
+    messages: Any[]
   ): Promise<string> {
     if (!this.client) {
       throw new Error('Client not connected. Call connect() first.');
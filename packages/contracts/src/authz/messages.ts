@@ -1,4 +1,9 @@
 import type { EncodeObject } from '@cosmjs/proto-signing';
+import { GenericAuthorization } from 'cosmjs-types/cosmos/authz/v1beta1/authz.js';
+import { SendAuthorization } from 'cosmjs-types/cosmos/bank/v1beta1/authz.js';
+import type { Any } from 'cosmjs-types/google/protobuf/any.js';
+
+const SEND_MSG_TYPE = '/cosmos.bank.v1beta1.MsgSend';
 
 export interface GrantMsgParams {
   granter: string;
@@ -19,37 +24,37 @@ export interface RevokeMsgParams {
 
 export interface ExecMsgParams {
   grantee: string;
-  msgs: unknown[];
+  /** Messages to run, each encoded with `Registry.encodeAsAny` */
+  msgs: Any[];
 }
 
 export class AuthZMessages {
   /**
-   * Create a MsgGrant for generic authorization
+   * Create a MsgGrant. A spend limit makes it a SendAuthorization, which the
+   * chain enforces; anything else gets a generic authorization.
    */
   static createGrantMsg(params: GrantMsgParams): EncodeObject {
     const expirationTimestamp = Math.floor(params.expiration.getTime() / 1000);
 
-    // Determine authorization type based on msg type
-    let authorization: {
-      typeUrl: string;
-      value: object;
-    };
-
+    let authorization: Any;
     if (params.spendLimit) {
-      // Send authorization with spend limit
+      if (params.msgType !== SEND_MSG_TYPE) {
+        throw new Error(
+          `Spend limits can only be granted for ${SEND_MSG_TYPE}, not ${params.msgType}`
+        );
+      }
       authorization = {
-        typeUrl: '/cosmos.authz.v1beta1.GenericAuthorization',
-        value: {
-          msg: params.msgType,
-        },
+        typeUrl: SendAuthorization.typeUrl,
+        value: SendAuthorization.encode(
+          SendAuthorization.fromPartial({ spendLimit: [params.spendLimit] })
+        ).finish(),
       };
     } else {
-      // Generic authorization
       authorization = {
-        typeUrl: '/cosmos.authz.v1beta1.GenericAuthorization',
-        value: {
-          msg: params.msgType,
-        },
+        typeUrl: GenericAuthorization.typeUrl,
+        value: GenericAuthorization.encode(
+          GenericAuthorization.fromPartial({ msg: params.msgType })
+        ).finish(),
       };
     }
 
@@ -61,7 +66,7 @@ export class AuthZMessages {
         grant: {
           authorization,
           expiration: {
-            seconds: expirationTimestamp,
+            seconds: BigInt(expirationTimestamp),
             nanos: 0,
           },
         },
@@ -1,6 +1,10 @@
 // Wallet Management
 export { SmartWalletManager, type SmartWalletConfig } from './wallet/smart-wallet.js';
-export { EphemeralKeyManager, type EphemeralKeyConfig } from './wallet/ephemeral-key.js';
+export {
+  EphemeralKeyManager,
+  type EphemeralKeyConfig,
+  type EvmTransactionRequest,
+} from './wallet/ephemeral-key.js';
 
 // AuthZ (Authorization)
 export { AuthZManager, type AuthZGrant, type AuthZPermission } from './authz/manager.js';
@@ -11,8 +15,52 @@ export { MorpheusStaking, type StakeConfig, type StakePosition } from './staking
 export { STAKING_ABI, STAKING_ADDRESS } from './staking/abi.js';
 
 // Akash Integration
-export { AkashClient, type DeploymentConfig } from './akash/client.js';
+export {
+  AkashClient,
+  createAkashRegistry,
+  createAkashSigner,
+  execAsGrantee,
+  type AkashSigner,
+  type BroadcastResult,
+  type DeploymentConfig,
+  type CreateDeploymentParams,
+  type OfflineSignerData,
+} from './akash/client.js';
 export { AkashMessages } from './akash/messages.js';
+export type { EncodeObject } from '@cosmjs/proto-signing';
+export {
+  Attribute,
+  SignedBy,
+  PlacementRequirements,
+  ResourceValue,
+  CPU,
+  Memory,
+  Storage,
+  GPU,
+  Endpoint,
+  Endpoint_Kind,
+  Resources,
+  ResourceUnit,
+  GroupSpec,
+  DeploymentID,
+  MsgCreateDeployment,
+  MsgUpdateDeployment,
+  MsgDepositDeployment,
+  MsgCloseDeployment,
+  BidID,
+  MsgCreateLease,
+  akashRegistryTypes,
+  type ProtoType,
+} from './akash/proto.js';
+
+// Security
+export {
+  getSecurityLogger,
+  resetSecurityLogger,
+  type SecurityEvent,
+  type SecurityEventType,
+  type SecurityLoggerConfig,
+} from './security/index.js';
 
 // Constants and Types
 export * from './constants.js';
@@ -12,6 +12,7 @@ export type SecurityEventType =
   | 'EPHEMERAL_KEY_GENERATED'
   | 'EPHEMERAL_KEY_LOADED'
   | 'EPHEMERAL_KEY_REVOKED'
+  | 'EPHEMERAL_KEY_EXPORTED'
   | 'ERC20_APPROVAL'
   | 'ERC20_APPROVAL_RESET'
   | 'STAKE_DEPOSIT'
@@ -25,7 +26,17 @@ export type SecurityEventType =
   | 'SUBNET_VALIDATION_FAILED'
   | 'RPC_FALLBACK'
   | 'GAS_PRICE_CAP_EXCEEDED'
-  | 'SPEND_LIMIT_WARNING';
+  | 'SPEND_LIMIT_WARNING'
+  | 'SPEND_LIMIT_EXCEEDED'
+  | 'SWAP_REJECTED'
+  | 'SWAP_REQUOTED'
+  | 'BID_ACCEPTED'
+  | 'BID_PRICE_REJECTED'
+  | 'BID_PRICE_WARNING'
+  | 'ORDER_REPOSTED'
+  | 'ESCROW_TOPUP_STARTED'
+  | 'ESCROW_TOPUP_CONFIRMED'
+  | 'ESCROW_TOPUP_STUCK';
 
 export interface SecurityEvent {
   type: SecurityEventType;
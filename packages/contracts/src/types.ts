@@ -86,6 +86,28 @@ export type BidState =
   | 'lost'
   | 'closed';
 
+/** A recent bid on any deployment, used to gauge market prices */
+export interface MarketBid {
+  provider: string;
+  /** Bid price in uakt per block for the whole order */
+  price: number;
+  resources: MarketResources[];
+}
+
+export interface MarketResources {
+  /** CPU in millicores */
+  cpu: number;
+  /** Memory in bytes */
+  memory: number;
+  /** Storage across all volumes in bytes */
+  storage: number;
+  gpu: number;
+  /** Models from the GPU's `vendor/<vendor>/model/<model>` attributes */
+  gpuModels: string[];
+  /** Replicas of this resource unit */
+  count: number;
+}
+
 // Escrow Types
 export interface EscrowAccount {
   id: EscrowAccountId;
@@ -1,9 +1,13 @@
+import { createPublicClient, http, type Address, type Hex } from 'viem';
 import { generatePrivateKey, privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
+import { base, baseSepolia } from 'viem/chains';
 import { readFile, writeFile, mkdir, chmod } from 'fs/promises';
 import { existsSync } from 'fs';
 import { join } from 'path';
 import { homedir, platform } from 'os';
 import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { createAkashSigner, type AkashSigner } from '../akash/client.js';
+import { CHAIN_CONFIG } from '../constants.js';
 import { getKeychainManager, type KeychainManager } from '../security/keychain.js';
 import { getSecurityLogger } from '../security/logger.js';
 
@@ -22,6 +26,30 @@ export interface EphemeralKeyData {
   expiresAt: string;
   permissions: string[];
   grantTxHash?: string;
+  /** Akash address that granted the permissions, and owns what the key deploys */
+  granter?: string;
+}
+
+/** EVM transaction to sign, as built for a swap route */
+export interface EvmTransactionRequest {
+  chainId: string | number;
+  to: string;
+  data: string;
+  value: string;
+  gasLimit: string;
+}
+
+/**
+ * An ephemeral key with its private key in the clear, as held in a CI
+ * secret. Created by `exportKey()`, read back by `loadExported()`.
+ */
+interface ExportedEphemeralKey {
+  privateKey: `0x${string}`;
+  createdAt: string;
+  expiresAt: string;
+  permissions: string[];
+  grantTxHash?: string;
+  granter?: string;
 }
 
 export class EphemeralKeyManager {
@@ -29,7 +57,11 @@ export class EphemeralKeyManager {
   private expirationMs: number;
   private keyData: EphemeralKeyData | null = null;
   private account: PrivateKeyAccount | null = null;
+  /** Kept in memory only, to sign Akash transactions with the same key */
+  private privateKey: `0x${string}` | null = null;
   private keychainManager: KeychainManager;
+  /** Loaded from an exported key: kept in memory and never written to disk */
+  private exported = false;
 
   constructor(config: EphemeralKeyConfig = {}) {
     this.storageDir = config.storageDir || join(homedir(), '.morpheus');
@@ -67,6 +99,7 @@ export class EphemeralKeyManager {
     };
 
     this.account = account;
+    this.privateKey = privateKey;
 
     // Save to storage
     await this.save();
@@ -116,6 +149,7 @@ export class EphemeralKeyManager {
       );
 
       this.account = privateKeyToAccount(privateKey as `0x${string}`);
+      this.privateKey = privateKey as `0x${string}`;
 
       // Log security event (addresses L-3)
       await logger.info('EPHEMERAL_KEY_LOADED', {
@@ -134,6 +168,86 @@ export class EphemeralKeyManager {
     }
   }
 
+  /**
+   * Export the loaded key as a single string for a CI secret, so CI can sign
+   * with it without the keychain or the master wallet
+   */
+  async exportKey(): Promise<string> {
+    if (!this.keyData) {
+      throw new Error('No ephemeral key loaded');
+    }
+
+    const { password } = await this.keychainManager.getOrCreatePassword();
+    const exported: ExportedEphemeralKey = {
+      privateKey: this.decryptKey(
+        this.keyData.encryptedPrivateKey,
+        this.keyData.salt,
+        this.keyData.iv,
+        password
+      ) as `0x${string}`,
+      createdAt: this.keyData.createdAt,
+      expiresAt: this.keyData.expiresAt,
+      permissions: this.keyData.permissions,
+      grantTxHash: this.keyData.grantTxHash,
+      granter: this.keyData.granter,
+    };
+
+    await getSecurityLogger().info('EPHEMERAL_KEY_EXPORTED', {
+      address: this.keyData.address,
+      expiresAt: this.keyData.expiresAt,
+    });
+
+    return Buffer.from(JSON.stringify(exported)).toString('base64');
+  }
+
+  /**
+   * Load a key from `exportKey()` output. Nothing is read from or written to
+   * storage or the keychain. Throws if the value is malformed or expired.
+   */
+  async loadExported(value: string): Promise<EphemeralKeyData> {
+    let exported: ExportedEphemeralKey;
+    try {
+      exported = JSON.parse(Buffer.from(value.trim(), 'base64').toString('utf-8'));
+    } catch {
+      throw new Error('Exported ephemeral key is not valid');
+    }
+    if (!/^0x[0-9a-fA-F]{64}$/.test(exported.privateKey ?? '')) {
+      throw new Error('Exported ephemeral key is not valid');
+    }
+
+    const account = privateKeyToAccount(exported.privateKey);
+    this.keyData = {
+      address: account.address,
+      publicKey: account.publicKey,
+      // The private key only lives in the account
+      encryptedPrivateKey: '',
+      salt: '',
+      iv: '',
+      createdAt: exported.createdAt,
+      expiresAt: exported.expiresAt,
+      permissions: exported.permissions,
+      grantTxHash: exported.grantTxHash,
+      granter: exported.granter,
+    };
+    this.exported = true;
+
+    if (this.isExpired()) {
+      this.keyData = null;
+      throw new Error(`Exported ephemeral key ${account.address} expired at ${exported.expiresAt}`);
+    }
+    this.account = account;
+    this.privateKey = exported.privateKey;
+
+    await getSecurityLogger().info('EPHEMERAL_KEY_LOADED', {
+      address: account.address,
+      expiresAt: exported.expiresAt,
+      permissions: exported.permissions,
+      source: 'exported',
+    });
+
+    return this.keyData;
+  }
+
   /**
    * Get the account for signing
    */
@@ -144,6 +258,59 @@ export class EphemeralKeyManager {
     return this.account;
   }
 
+  /**
+   * Signer for Akash transactions. The same secp256k1 key has a separate
+   * akash1… address, which is the one AuthZ grants name.
+   */
+  async getAkashSigner(): Promise<AkashSigner> {
+    if (!this.privateKey) {
+      throw new Error('Ephemeral key not loaded. Call load() or generate() first.');
+    }
+    return createAkashSigner(Buffer.from(this.privateKey.slice(2), 'hex'));
+  }
+
+  /**
+   * Akash address whose AuthZ grant the key acts under, if one was recorded
+   */
+  getGranter(): string | null {
+    return this.keyData?.granter ?? null;
+  }
+
+  /**
+   * Sign an EVM transaction on Base. The nonce and fees are read from the
+   * chain, so the result can be broadcast as is.
+   */
+  async signTransaction(tx: EvmTransactionRequest): Promise<Hex> {
+    const account = this.getAccount();
+    const network = (['mainnet', 'testnet'] as const).find(
+      name => CHAIN_CONFIG[name].chainId === Number(tx.chainId)
+    );
+    if (!network) {
+      throw new Error(`Cannot sign transactions for chain ${tx.chainId}`);
+    }
+
+    const client = createPublicClient({
+      chain: network === 'mainnet' ? base : baseSepolia,
+      transport: http(CHAIN_CONFIG[network].rpcUrl),
+    });
+    const [nonce, fees] = await Promise.all([
+      client.getTransactionCount({ address: account.address, blockTag: 'pending' }),
+      client.estimateFeesPerGas(),
+    ]);
+
+    return account.signTransaction({
+      type: 'eip1559',
+      chainId: CHAIN_CONFIG[network].chainId,
+      nonce,
+      to: tx.to as Address,
+      data: tx.data as Hex,
+      value: BigInt(tx.value),
+      gas: BigInt(tx.gasLimit),
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+    });
+  }
+
   /**
    * Check if key is expired
    */
@@ -162,14 +329,15 @@ export class EphemeralKeyManager {
   }
 
   /**
-   * Record the AuthZ grant transaction
+   * Record the AuthZ grant transaction and the address that sent it
    */
-  async recordGrant(txHash: string): Promise<void> {
+  async recordGrant(txHash: string, granter?: string): Promise<void> {
     if (!this.keyData) {
       throw new Error('No ephemeral key loaded');
     }
 
     this.keyData.grantTxHash = txHash;
+    this.keyData.granter = granter ?? this.keyData.granter;
     await this.save();
   }
 
@@ -184,16 +352,21 @@ export class EphemeralKeyManager {
     const keyPath = join(this.storageDir, 'ephemeral-key.json');
     const revokedAddress = this.keyData?.address;
 
-    if (existsSync(keyPath)) {
-      const { unlink } = await import('fs/promises');
-      await unlink(keyPath);
-    }
+    // An exported key was never stored, and revoking it leaves the stored one alone
+    if (!this.exported) {
+      if (existsSync(keyPath)) {
+        const { unlink } = await import('fs/promises');
+        await unlink(keyPath);
+      }
 
-    // Clean up keychain password (fixes C-1)
-    await this.keychainManager.deletePassword();
+      // Clean up keychain password (fixes C-1)
+      await this.keychainManager.deletePassword();
+    }
 
     this.keyData = null;
     this.account = null;
+    this.privateKey = null;
+    this.exported = false;
 
     // Log security event (addresses L-3)
     if (revokedAddress) {
@@ -228,7 +401,7 @@ export class EphemeralKeyManager {
   }
 
   private async save(): Promise<void> {
-    if (!this.keyData) return;
+    if (!this.keyData || this.exported) return;
 
     if (!existsSync(this.storageDir)) {
       await mkdir(this.storageDir, { recursive: true, mode: 0o700 });
@@ -1,3 +1,4 @@
+import { SigningStargateClient } from '@cosmjs/stargate';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 
 import { AkashClient } from '../src/akash/client';
@@ -17,9 +18,11 @@ vi.mock('@cosmjs/stargate', () => ({
   StargateClient: {
     connect: vi.fn().mockResolvedValue({}),
   },
+  defaultRegistryTypes: [],
 }));
 
 vi.mock('@cosmjs/proto-signing', () => ({
+  Registry: vi.fn(),
   DirectSecp256k1HdWallet: {
     fromMnemonic: vi.fn().mockResolvedValue({
       getAccounts: vi.fn().mockResolvedValue([{
@@ -44,6 +47,10 @@ vi.mock('../src/akash/messages.js', () => ({
       typeUrl: '/akash.deployment.v1beta3.MsgDepositDeployment',
       value: {},
     }),
+    updateDeployment: vi.fn().mockReturnValue({
+      typeUrl: '/akash.deployment.v1beta3.MsgUpdateDeployment',
+      value: {},
+    }),
     closeDeployment: vi.fn().mockReturnValue({
       typeUrl: '/akash.deployment.v1beta3.MsgCloseDeployment',
       value: {},
@@ -83,7 +90,14 @@ global.fetch = vi.fn().mockImplementation((url: string) => {
       ok: true,
       json: () => Promise.resolve({
         deployments: [
-          { deployment: { deployment_id: { owner: 'akash1owner123', dseq: '12345' }, state: 'active' } },
+          {
+            deployment: {
+              deployment_id: { owner: 'akash1owner123', dseq: '12345' },
+              state: 'active',
+              version: 'q6ur',
+              created_at: '1500000',
+            },
+          },
         ],
       }),
     });
@@ -203,11 +217,60 @@ describe('AkashClient', () => {
     });
   });
 
+  describe('signAndBroadcast', () => {
+    const message = { typeUrl: '/akash.deployment.v1beta3.MsgCloseDeployment', value: {} };
+
+    it('should throw when not connected', async () => {
+      await expect(akashClient.signAndBroadcast('akash1owner123', [message])).rejects.toThrow(
+        'Signing client not connected'
+      );
+    });
+
+    it('should connect with an existing signer and return the tx hash', async () => {
+      const signer = { getAccounts: vi.fn(), signDirect: vi.fn() };
+      await akashClient.connectWithSigner(signer);
+
+      const txHash = await akashClient.signAndBroadcast('akash1owner123', [message], 'memo');
+
+      expect(SigningStargateClient.connectWithSigner).toHaveBeenCalledWith(
+        expect.any(String),
+        signer,
+        expect.anything()
+      );
+      expect(txHash).toBe('DEPLOY123');
+    });
+
+    it('should return the events of the transaction from broadcast', async () => {
+      await akashClient.connectWithSigner('test mnemonic');
+      const client = await vi.mocked(SigningStargateClient.connectWithSigner).mock.results[0]!
+        .value;
+      const events = [{ type: 'transfer', attributes: [{ key: 'amount', value: '5uakt' }] }];
+      client.signAndBroadcast.mockResolvedValueOnce({ code: 0, transactionHash: 'CLOSE', events });
+
+      await expect(akashClient.broadcast('akash1owner123', [message])).resolves.toEqual({
+        txHash: 'CLOSE',
+        events,
+      });
+    });
+
+    it('should throw when the chain rejects the transaction', async () => {
+      await akashClient.connectWithSigner('test mnemonic');
+      const client = await vi.mocked(SigningStargateClient.connectWithSigner).mock.results[0]!
+        .value;
+      client.signAndBroadcast.mockResolvedValueOnce({ code: 5, rawLog: 'insufficient funds' });
+
+      await expect(akashClient.signAndBroadcast('akash1owner123', [message])).rejects.toThrow(
+        'Transaction failed: insufficient funds'
+      );
+    });
+  });
+
   describe('createDeployment', () => {
     it('should throw when not connected', async () => {
       await expect(akashClient.createDeployment({
         owner: 'akash1owner123',
-        sdl: new Uint8Array([1, 2, 3]),
+        groups: [],
+        version: new Uint8Array([1, 2, 3]),
         deposit: { denom: 'uakt', amount: '5000000' },
       })).rejects.toThrow('Signing client not connected');
     });
@@ -217,7 +280,8 @@ describe('AkashClient', () => {
 
       const result = await akashClient.createDeployment({
         owner: 'akash1owner123',
-        sdl: new Uint8Array([1, 2, 3]),
+        groups: [],
+        version: new Uint8Array([1, 2, 3]),
         deposit: { denom: 'uakt', amount: '5000000' },
       });
 
@@ -252,7 +316,23 @@ describe('AkashClient', () => {
     it('should return list of deployments', async () => {
       const deployments = await akashClient.listDeployments('akash1owner123');
 
-      expect(Array.isArray(deployments)).toBe(true);
+      expect(deployments).toEqual([
+        {
+          dseq: '12345',
+          owner: 'akash1owner123',
+          state: 'active',
+          version: new Uint8Array([0xab, 0xab, 0xab]),
+          createdHeight: 1500000n,
+        },
+      ]);
+    });
+
+    it('should filter by state', async () => {
+      await akashClient.listDeployments('akash1owner123', 'active');
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.testnet.akash.network/akash/deployment/v1beta3/deployments/list?filters.owner=akash1owner123&filters.state=active'
+      );
     });
   });
 
@@ -273,6 +353,68 @@ describe('AkashClient', () => {
     });
   });
 
+  describe('listRecentBids', () => {
+    it('should convert bid offers to market resources', async () => {
+      vi.mocked(global.fetch).mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve({
+            bids: [
+              {
+                bid: {
+                  bid_id: { provider: 'akash1provider1' },
+                  price: { denom: 'uakt', amount: '12.500000000000000000' },
+                  resources_offer: [
+                    {
+                      resources: {
+                        cpu: { units: { val: '2000' } },
+                        memory: { quantity: { val: '4294967296' } },
+                        storage: [{ quantity: { val: '1073741824' } }, { quantity: { val: '1024' } }],
+                        gpu: {
+                          units: { val: '1' },
+                          attributes: [{ key: 'vendor/nvidia/model/a100/ram/80Gi', value: 'true' }],
+                        },
+                      },
+                      count: 2,
+                    },
+                  ],
+                },
+              },
+              {
+                bid: {
+                  bid_id: { provider: 'akash1provider2' },
+                  price: { denom: 'ibc/usdc', amount: '1.0' },
+                },
+              },
+            ],
+          }),
+        } as Response)
+      );
+
+      const bids = await akashClient.listRecentBids(10);
+
+      expect(bids).toEqual([
+        {
+          provider: 'akash1provider1',
+          price: 12.5,
+          resources: [
+            {
+              cpu: 2000,
+              memory: 4294967296,
+              storage: 1073742848,
+              gpu: 1,
+              gpuModels: ['a100'],
+              count: 2,
+            },
+          ],
+        },
+      ]);
+      expect(global.fetch).toHaveBeenLastCalledWith(
+        expect.stringContaining('filters.state=open&pagination.limit=10')
+      );
+    });
+  });
+
   describe('createLease', () => {
     it('should throw when not connected', async () => {
       await expect(akashClient.createLease(
@@ -325,6 +467,35 @@ describe('AkashClient', () => {
     });
   });
 
+  describe('listLeases', () => {
+    it('should return the active leases of a deployment', async () => {
+      vi.mocked(global.fetch).mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve({
+            leases: [
+              {
+                lease: {
+                  id: { owner: 'akash1owner123', dseq: '12345', provider: 'akash1provider1' },
+                  state: 'active',
+                  price: { denom: 'uakt', amount: '1000.500000000000000000' },
+                },
+              },
+            ],
+          }),
+        } as Response)
+      );
+
+      const leases = await akashClient.listLeases('akash1owner123', '12345');
+
+      expect(leases).toHaveLength(1);
+      expect(leases[0]?.price.amount).toBe('1000.500000000000000000');
+      expect(global.fetch).toHaveBeenLastCalledWith(
+        expect.stringContaining('filters.owner=akash1owner123&filters.dseq=12345&filters.state=active')
+      );
+    });
+  });
+
   describe('sendManifest', () => {
     it('should send manifest to provider', async () => {
       await expect(akashClient.sendManifest(
@@ -366,6 +537,24 @@ describe('AkashClient', () => {
     });
   });
 
+  describe('getBalance', () => {
+    it('should return the balance of the denom', async () => {
+      vi.mocked(global.fetch).mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve({ balance: { denom: 'uakt', amount: '2500000' } }),
+        } as Response)
+      );
+
+      const balance = await akashClient.getBalance('akash1owner123');
+
+      expect(balance).toEqual({ denom: 'uakt', amount: '2500000' });
+      expect(global.fetch).toHaveBeenLastCalledWith(
+        expect.stringContaining('/cosmos/bank/v1beta1/balances/akash1owner123/by_denom?denom=uakt')
+      );
+    });
+  });
+
   describe('deposit', () => {
     it('should throw when not connected', async () => {
       await expect(akashClient.deposit(
@@ -389,6 +578,29 @@ describe('AkashClient', () => {
     });
   });
 
+  describe('updateDeployment', () => {
+    it('should throw when not connected', async () => {
+      await expect(akashClient.updateDeployment(
+        'akash1owner123',
+        '12345',
+        new Uint8Array(32)
+      )).rejects.toThrow('Signing client not connected');
+    });
+
+    it('should update deployment when connected', async () => {
+      await akashClient.connectWithSigner('test mnemonic');
+
+      const txHash = await akashClient.updateDeployment(
+        'akash1owner123',
+        '12345',
+        new Uint8Array(32)
+      );
+
+      expect(txHash).toBeDefined();
+      expect(typeof txHash).toBe('string');
+    });
+  });
+
   describe('closeDeployment', () => {
     it('should throw when not connected', async () => {
       await expect(akashClient.closeDeployment(
@@ -0,0 +1,62 @@
+import { GenericAuthorization } from 'cosmjs-types/cosmos/authz/v1beta1/authz';
+import { SendAuthorization } from 'cosmjs-types/cosmos/bank/v1beta1/authz';
+import type { Any } from 'cosmjs-types/google/protobuf/any';
+import { describe, it, expect } from 'vitest';
+
+import { AuthZManager } from '../src/authz/manager';
+import { AuthZMessages } from '../src/authz/messages';
+
+const expiration = new Date('2026-01-01T00:00:00Z');
+
+function authorizationOf(msg: ReturnType<typeof AuthZMessages.createGrantMsg>): Any {
+  return msg.value.grant.authorization;
+}
+
+describe('AuthZMessages.createGrantMsg', () => {
+  it('should limit the gas station grant to its spend limit', () => {
+    const { msgType, spendLimit } = AuthZManager.GAS_STATION_SPEND_LIMIT;
+
+    const authorization = authorizationOf(
+      AuthZMessages.createGrantMsg({
+        granter: 'akash1granter',
+        grantee: 'akash1grantee',
+        msgType,
+        spendLimit,
+        expiration,
+      })
+    );
+
+    expect(authorization.typeUrl).toBe('/cosmos.bank.v1beta1.SendAuthorization');
+    expect(SendAuthorization.decode(authorization.value).spendLimit).toEqual([
+      { denom: 'uakt', amount: '100000000' },
+    ]);
+  });
+
+  it('should grant other messages generically', () => {
+    const authorization = authorizationOf(
+      AuthZMessages.createGrantMsg({
+        granter: 'akash1granter',
+        grantee: 'akash1grantee',
+        msgType: '/akash.deployment.v1beta3.MsgCreateDeployment',
+        expiration,
+      })
+    );
+
+    expect(authorization.typeUrl).toBe('/cosmos.authz.v1beta1.GenericAuthorization');
+    expect(GenericAuthorization.decode(authorization.value).msg).toBe(
+      '/akash.deployment.v1beta3.MsgCreateDeployment'
+    );
+  });
+
+  it('should refuse a spend limit on a message that cannot enforce one', () => {
+    expect(() =>
+      AuthZMessages.createGrantMsg({
+        granter: 'akash1granter',
+        grantee: 'akash1grantee',
+        msgType: '/akash.deployment.v1beta3.MsgDepositDeployment',
+        spendLimit: { denom: 'uakt', amount: '1' },
+        expiration,
+      })
+    ).toThrow('Spend limits can only be granted for /cosmos.bank.v1beta1.MsgSend');
+  });
+});
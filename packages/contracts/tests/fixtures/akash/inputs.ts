@@ -0,0 +1,57 @@
+/**
+ * Values encoded into the golden fixtures. Shared by akash-messages.test.ts,
+ * which encodes them with our codecs, and scripts/generate-akash-fixtures.ts,
+ * which encodes them with the chain's codecs from @akashnetwork/akashjs.
+ */
+
+export const OWNER = 'akash1lsagfzrm4gz28he4wunt63sts5xzmczw26m70t';
+export const PROVIDER = 'akash18ga02jzaq8cw52anyhzkwta5wygufgu6zsz6xc';
+// Public cosmjs test mnemonic for OWNER; never holds funds
+export const MNEMONIC =
+  'surround miss nominee dream gap cross assault thank captain prosper drop duty group candy wealth weather scale put';
+export const DSEQ = '19283746';
+
+export const CREATE_VERSION = new Uint8Array(32).fill(0xab);
+export const UPDATE_VERSION = new Uint8Array(32).fill(0xcd);
+export const DEPOSIT = { denom: 'uakt', amount: '5000000' };
+export const TOP_UP = { denom: 'uakt', amount: '2500000' };
+
+export const FEE = { amount: [{ denom: 'uakt', amount: '5000' }], gas: '200000' };
+export const SIGNER_DATA = { chainId: 'akashnet-2', accountNumber: 42, sequence: 7 };
+export const MEMO = 'Morpheus Deployment';
+
+/** Price per block in uakt, as akashjs takes it */
+export const PRICE = { denom: 'uakt', amount: '1000' };
+
+const ascii = (value: string) => ({ val: new TextEncoder().encode(value) });
+
+/**
+ * Group specs as our codecs take them: the price is an sdk.Dec scaled by
+ * 10^18, and endpoint kind 0 is SHARED_HTTP
+ */
+export const groups = [
+  {
+    name: 'akash',
+    requirements: {
+      signedBy: { allOf: [], anyOf: ['akash1365yvmc4s7awdyj3n2sav7xfx76adc6dnmlx63'] },
+      attributes: [{ key: 'region', value: 'us-west' }],
+    },
+    resources: [
+      {
+        resource: {
+          id: 1,
+          cpu: { units: ascii('2000'), attributes: [] },
+          memory: { quantity: ascii('4294967296'), attributes: [] },
+          storage: [{ name: 'default', quantity: ascii('10737418240'), attributes: [] }],
+          gpu: {
+            units: ascii('1'),
+            attributes: [{ key: 'vendor/nvidia/model/rtx4090', value: 'true' }],
+          },
+          endpoints: [{ kind: 0, sequenceNumber: 0 }],
+        },
+        count: 1,
+        price: { denom: PRICE.denom, amount: `${PRICE.amount}${'0'.repeat(18)}` },
+      },
+    ],
+  },
+];
@@ -0,0 +1,37 @@
+#!/usr/bin/env tsx
+/**
+ * Regenerate the golden manifest fixtures in packages/core/tests/fixtures/manifest
+ *
+ * The manifest JSON and its version come from @akashnetwork/akashjs, whose
+ * output providers accept, so the tests check our manifest against it rather
+ * than against itself. Run after changing inputs.ts:
+ *
+ *   pnpm --filter @morpheus-deploy/core fixtures:manifest
+ */
+import { writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+import { SDL } from '@akashnetwork/akashjs/build/sdl/SDL/SDL.js';
+
+import { sdl } from '../tests/fixtures/manifest/inputs.js';
+
+const FIXTURES = join(dirname(fileURLToPath(import.meta.url)), '../tests/fixtures/manifest');
+
+function write(name: string, contents: string): void {
+  writeFileSync(join(FIXTURES, name), `${contents}\n`);
+  console.log(`Wrote ${name}`);
+}
+
+async function main() {
+  // akashjs takes the parsed YAML, which our SDL model mirrors
+  const akash = new SDL(sdl as unknown as ConstructorParameters<typeof SDL>[0], 'beta3');
+
+  write('manifest.json', akash.manifestSortedJSON());
+  write('version.hex', Buffer.from(await akash.manifestVersion()).toString('hex'));
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,80 @@
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+
+import type { Framework } from '../sdl/types.js';
+
+export interface PackageManifest {
+  name?: string;
+  main?: string;
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+const NEXT_CONFIG_FILES = ['next.config.js', 'next.config.mjs', 'next.config.ts'];
+const PYTHON_MANIFESTS = ['requirements.txt', 'pyproject.toml', 'Pipfile'];
+
+export class FrameworkDetector {
+  /**
+   * Detect the application framework from the project tree.
+   *
+   * Detection order:
+   * 1. Next.js (next dependency or next.config.*)
+   * 2. Express (express dependency)
+   * 3. Plain Node.js (any other package.json)
+   * 4. Python (requirements.txt, pyproject.toml or Pipfile)
+   * 5. Static site (index.html at the root or in public/)
+   *
+   * Falls back to "node" when nothing conclusive is found.
+   */
+  async detect(projectPath: string): Promise<Framework> {
+    const manifest = await this.readPackageManifest(projectPath);
+
+    if (manifest) {
+      const deps = { ...manifest.dependencies, ...manifest.devDependencies };
+
+      if (deps['next'] || NEXT_CONFIG_FILES.some(f => existsSync(join(projectPath, f)))) {
+        return 'nextjs';
+      }
+
+      if (deps['express']) {
+        return 'express';
+      }
+
+      return 'node';
+    }
+
+    if (PYTHON_MANIFESTS.some(f => existsSync(join(projectPath, f)))) {
+      return 'python';
+    }
+
+    if (
+      existsSync(join(projectPath, 'index.html')) ||
+      existsSync(join(projectPath, 'public', 'index.html'))
+    ) {
+      return 'static';
+    }
+
+    return 'node';
+  }
+
+  /**
+   * Read and parse package.json. Returns null if there is no package.json and
+   * an empty manifest if it cannot be parsed, so the project still counts as Node.
+   */
+  async readPackageManifest(projectPath: string): Promise<PackageManifest | null> {
+    const manifestPath = join(projectPath, 'package.json');
+    if (!existsSync(manifestPath)) {
+      return null;
+    }
+
+    try {
+      const content = await readFile(manifestPath, 'utf-8');
+      const parsed = JSON.parse(content) as unknown;
+      return parsed && typeof parsed === 'object' ? (parsed as PackageManifest) : {};
+    } catch {
+      return {};
+    }
+  }
+}
@@ -0,0 +1,218 @@
+import { readFile } from 'fs/promises';
+
+import type { Framework } from '../sdl/types.js';
+
+export interface DockerfileOptions {
+  framework: Framework;
+  port?: number;
+  /** Command the container runs, e.g. ["node", "server.js"] */
+  startCommand?: string[];
+  nodeVersion?: string;
+  pythonVersion?: string;
+  /** Directory holding the site for static builds (relative to the build context) */
+  staticDir?: string;
+}
+
+const DEFAULT_PORT = 8000;
+const DEFAULT_NODE_VERSION = '20';
+const DEFAULT_PYTHON_VERSION = '3.12';
+
+const NEXTJS_TEMPLATE = `# Generated by Morpheus Build Engine (Next.js)
+FROM node:{{NODE_VERSION}}-alpine AS deps
+WORKDIR /app
+COPY package.json yarn.lock* package-lock.json* pnpm-lock.yaml* ./
+RUN \\
+    if [ -f yarn.lock ]; then yarn --frozen-lockfile; \\
+    elif [ -f package-lock.json ]; then npm ci; \\
+    elif [ -f pnpm-lock.yaml ]; then corepack enable pnpm && pnpm i --frozen-lockfile; \\
+    else npm install; \\
+    fi
+
+FROM node:{{NODE_VERSION}}-alpine AS builder
+WORKDIR /app
+COPY --from=deps /app/node_modules ./node_modules
+COPY . .
+ENV NEXT_TELEMETRY_DISABLED=1
+RUN npm run build
+
+FROM node:{{NODE_VERSION}}-alpine AS runner
+WORKDIR /app
+ENV NODE_ENV=production
+ENV NEXT_TELEMETRY_DISABLED=1
+RUN addgroup --system --gid 1001 morpheus && \\
+    adduser --system --uid 1001 morpheus
+COPY --from=builder --chown=morpheus:morpheus /app ./
+USER morpheus
+ENV PORT={{PORT}}
+EXPOSE {{PORT}}
+CMD {{START_COMMAND}}
+`;
+
+const PYTHON_TEMPLATE = `# Generated by Morpheus Build Engine (Python)
+FROM python:{{PYTHON_VERSION}}-slim
+WORKDIR /app
+ENV PYTHONDONTWRITEBYTECODE=1
+ENV PYTHONUNBUFFERED=1
+COPY . .
+RUN \\
+    if [ -f requirements.txt ]; then pip install --no-cache-dir -r requirements.txt; \\
+    elif [ -f pyproject.toml ]; then pip install --no-cache-dir .; \\
+    elif [ -f Pipfile ]; then pip install --no-cache-dir pipenv && pipenv install --system --deploy; \\
+    fi
+RUN useradd --system --uid 1001 morpheus && \\
+    mkdir -p /app/data && chown -R morpheus /app
+USER morpheus
+ENV PORT={{PORT}}
+EXPOSE {{PORT}}
+CMD {{START_COMMAND}}
+`;
+
+// Kept in sync with docker/build-engine/Dockerfile.template, which the tests compare it to
+const NODE_TEMPLATE = `# Morpheus Build Engine - Application Container Template
+# This template is used to generate application-specific Dockerfiles
+# for Node.js and Express projects. Double-brace placeholders are rendered by
+# DockerfileGenerator in @morpheus-deploy/core from the project's runtime config.
+
+# ==============================================================================
+# Stage 1: Dependencies
+# ==============================================================================
+FROM node:{{NODE_VERSION}}-alpine AS deps
+WORKDIR /app
+
+# Install dependencies
+COPY package.json yarn.lock* package-lock.json* pnpm-lock.yaml* ./
+
+RUN \\
+    if [ -f yarn.lock ]; then yarn --frozen-lockfile; \\
+    elif [ -f package-lock.json ]; then npm ci; \\
+    elif [ -f pnpm-lock.yaml ]; then corepack enable pnpm && pnpm i --frozen-lockfile; \\
+    else npm install; \\
+    fi
+
+# ==============================================================================
+# Stage 2: Builder
+# ==============================================================================
+FROM node:{{NODE_VERSION}}-alpine AS builder
+WORKDIR /app
+
+# Copy dependencies
+COPY --from=deps /app/node_modules ./node_modules
+COPY . .
+
+# Build arguments
+ARG NODE_ENV=production
+ENV NODE_ENV=\${NODE_ENV}
+
+# Build application
+RUN npm run build || yarn build || pnpm build || echo "No build script found"
+
+# ==============================================================================
+# Stage 3: Runner
+# ==============================================================================
+FROM node:{{NODE_VERSION}}-alpine AS runner
+WORKDIR /app
+
+ENV NODE_ENV=production
+
+# Create non-root user
+RUN addgroup --system --gid 1001 morpheus && \\
+    adduser --system --uid 1001 morpheus
+
+# Copy built application (includes dist/ when the project has a build step)
+COPY --from=builder --chown=morpheus:morpheus /app ./
+
+# Create data directory
+RUN mkdir -p /app/data && chown morpheus:morpheus /app/data
+
+USER morpheus
+
+# Expose application port
+ENV PORT={{PORT}}
+EXPOSE {{PORT}}
+
+# Health check
+HEALTHCHECK --interval=30s --timeout=5s --start-period=30s --retries=3 \\
+    CMD wget --no-verbose --tries=1 --spider http://localhost:{{PORT}}/health || exit 1
+
+# Default command
+CMD {{START_COMMAND}}
+`;
+
+const STATIC_TEMPLATE = `# Generated by Morpheus Build Engine (static site)
+FROM nginx:alpine
+COPY {{STATIC_DIR}} /usr/share/nginx/html
+RUN sed -i 's/listen\\s*80;/listen {{PORT}};/' /etc/nginx/conf.d/default.conf
+EXPOSE {{PORT}}
+CMD ["nginx", "-g", "daemon off;"]
+`;
+
+export class DockerfileGenerator {
+  private templatePath?: string;
+
+  /**
+   * @param templatePath Override for the Node.js template. Defaults to the
+   *   built-in copy of docker/build-engine/Dockerfile.template.
+   */
+  constructor(templatePath?: string) {
+    this.templatePath = templatePath;
+  }
+
+  /**
+   * Render a Dockerfile for the given framework
+   */
+  async generate(options: DockerfileOptions): Promise<string> {
+    const variables: Record<string, string> = {
+      PORT: String(options.port || DEFAULT_PORT),
+      NODE_VERSION: options.nodeVersion || DEFAULT_NODE_VERSION,
+      PYTHON_VERSION: options.pythonVersion || DEFAULT_PYTHON_VERSION,
+      STATIC_DIR: options.staticDir || '.',
+      START_COMMAND: JSON.stringify(
+        options.startCommand || this.getDefaultStartCommand(options.framework, options.port)
+      ),
+    };
+
+    const template = await this.loadTemplate(options.framework);
+    return this.render(template, variables);
+  }
+
+  /**
+   * Replace {{NAME}} placeholders, failing on any the template uses but we don't know
+   */
+  render(template: string, variables: Record<string, string>): string {
+    return template.replace(/\{\{([A-Z_]+)\}\}/g, (_match, name: string) => {
+      const value = variables[name];
+      if (value === undefined) {
+        throw new Error(`Unknown Dockerfile template variable: ${name}`);
+      }
+      return value;
+    });
+  }
+
+  private async loadTemplate(framework: Framework): Promise<string> {
+    switch (framework) {
+      case 'nextjs':
+        return NEXTJS_TEMPLATE;
+      case 'python':
+        return PYTHON_TEMPLATE;
+      case 'static':
+        return STATIC_TEMPLATE;
+      case 'express':
+      case 'node':
+        return this.templatePath ? readFile(this.templatePath, 'utf-8') : NODE_TEMPLATE;
+    }
+  }
+
+  private getDefaultStartCommand(framework: Framework, port?: number): string[] {
+    switch (framework) {
+      case 'nextjs':
+        return ['npx', 'next', 'start', '-p', String(port || DEFAULT_PORT)];
+      case 'python':
+        return ['python', 'main.py'];
+      case 'static':
+        return ['nginx', '-g', 'daemon off;'];
+      case 'express':
+      case 'node':
+        return ['node', 'dist/index.js'];
+    }
+  }
+}
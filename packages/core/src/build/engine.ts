@@ -0,0 +1,281 @@
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join, relative } from 'path';
+
+import Docker from 'dockerode';
+import { create as createTar } from 'tar';
+
+import type { Framework, MorpheusConfig } from '../sdl/types.js';
+
+import { FrameworkDetector, type PackageManifest } from './detector.js';
+import { DockerfileGenerator } from './dockerfile.js';
+
+export interface BuildConfig {
+  /** Build context directory */
+  context: string;
+  /** Dockerfile path relative to the context. Generated when omitted and none exists. */
+  dockerfile?: string;
+  /** Skip detection and generate a Dockerfile for this framework */
+  framework?: Framework;
+  /** Image tag. Defaults to <project>:<unix timestamp> */
+  tag?: string;
+  /** Registry to push to. Defaults to runtime.registry from morpheus.yaml */
+  registry?: string;
+  /** Push after building. Defaults to true when a registry is configured. */
+  push?: boolean;
+  buildArgs?: Record<string, string>;
+  onProgress?: (message: string) => void;
+}
+
+export interface BuildResult {
+  /** Fully qualified tag, including the registry when pushed */
+  tag: string;
+  /** Registry manifest digest when pushed, otherwise the local image ID */
+  digest: string;
+  imageId: string;
+  /** Set when the image was pushed and can be pulled by providers */
+  registry?: string;
+  framework: Framework;
+  /** Image size in bytes */
+  size: number;
+  layers: number;
+  /** Build duration in milliseconds */
+  buildTime: number;
+}
+
+interface ProgressEvent {
+  stream?: string;
+  status?: string;
+  error?: string;
+  aux?: { Digest?: string };
+}
+
+const GENERATED_DOCKERFILE = '.morpheus/Dockerfile';
+const ALWAYS_IGNORED = ['node_modules', '.git', '.morpheus/deployments'];
+
+export class BuildEngine {
+  private config: MorpheusConfig;
+  private docker: Docker;
+  private detector: FrameworkDetector;
+  private generator: DockerfileGenerator;
+
+  constructor(config: MorpheusConfig, docker?: Docker) {
+    this.config = config;
+    this.docker = docker || new Docker();
+    this.detector = new FrameworkDetector();
+    this.generator = new DockerfileGenerator();
+  }
+
+  /**
+   * Build the project image and optionally push it to a registry
+   */
+  async build(options: BuildConfig): Promise<BuildResult> {
+    const startTime = Date.now();
+    const registry = options.registry || this.config.runtime?.registry;
+    const shouldPush = options.push ?? Boolean(registry);
+
+    if (shouldPush && !registry) {
+      throw new Error('Cannot push image: no registry configured (set runtime.registry)');
+    }
+
+    const framework =
+      options.framework ||
+      this.config.runtime?.framework ||
+      (await this.detector.detect(options.context));
+    const dockerfile = await this.resolveDockerfile(options, framework);
+
+    const localTag = options.tag || `${this.config.project}:${Math.floor(startTime / 1000)}`;
+    options.onProgress?.(`Building ${localTag} (${framework})`);
+
+    const tarStream = createTar(
+      {
+        cwd: options.context,
+        portable: true,
+        filter: await this.createIgnoreFilter(options.context),
+      },
+      ['.']
+    );
+
+    const buildStream = await this.docker.buildImage(
+      tarStream as unknown as NodeJS.ReadableStream,
+      {
+        t: localTag,
+        dockerfile,
+        buildargs: options.buildArgs,
+      }
+    );
+    await this.followProgress(buildStream, 'build', options.onProgress);
+
+    const image = this.docker.getImage(localTag);
+    const info = await image.inspect();
+
+    let tag = localTag;
+    let digest = info.Id;
+
+    if (shouldPush && registry) {
+      tag = `${registry.replace(/\/$/, '')}/${localTag}`;
+      digest = await this.push(image, tag, options.onProgress);
+    }
+
+    return {
+      tag,
+      digest,
+      imageId: info.Id,
+      registry: shouldPush ? registry : undefined,
+      framework,
+      size: info.Size,
+      layers: info.RootFS?.Layers?.length || 0,
+      buildTime: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Use the project's Dockerfile when present, otherwise generate one under .morpheus/
+   */
+  private async resolveDockerfile(options: BuildConfig, framework: Framework): Promise<string> {
+    if (options.dockerfile) {
+      return options.dockerfile;
+    }
+
+    if (existsSync(join(options.context, 'Dockerfile'))) {
+      return 'Dockerfile';
+    }
+
+    const manifest = await this.detector.readPackageManifest(options.context);
+    const content = await this.generator.generate({
+      framework,
+      port: this.config.runtime?.port,
+      startCommand: this.getStartCommand(framework, options.context, manifest),
+      staticDir:
+        framework === 'static' && existsSync(join(options.context, 'public', 'index.html'))
+          ? 'public'
+          : undefined,
+    });
+
+    const outputPath = join(options.context, GENERATED_DOCKERFILE);
+    await mkdir(join(options.context, '.morpheus'), { recursive: true });
+    await writeFile(outputPath, content, 'utf-8');
+
+    return relative(options.context, outputPath);
+  }
+
+  private getStartCommand(
+    framework: Framework,
+    context: string,
+    manifest: PackageManifest | null
+  ): string[] | undefined {
+    if (framework === 'node' || framework === 'express') {
+      if (manifest?.scripts?.start) {
+        return ['npm', 'start'];
+      }
+      if (manifest?.main) {
+        return ['node', manifest.main];
+      }
+    }
+
+    if (framework === 'python' && !existsSync(join(context, 'main.py'))) {
+      if (existsSync(join(context, 'app.py'))) {
+        return ['python', 'app.py'];
+      }
+    }
+
+    // Fall back to the generator's framework default
+    return undefined;
+  }
+
+  /**
+   * Build a tar filter from .dockerignore. The Docker API expects the client to
+   * apply ignore rules, so entries are matched as path prefixes or simple globs.
+   */
+  private async createIgnoreFilter(context: string): Promise<(path: string) => boolean> {
+    const patterns = [...ALWAYS_IGNORED];
+    const ignorePath = join(context, '.dockerignore');
+
+    if (existsSync(ignorePath)) {
+      const content = await readFile(ignorePath, 'utf-8');
+      for (const line of content.split('\n')) {
+        const pattern = line.trim().replace(/^\.\//, '').replace(/\/$/, '');
+        if (pattern && !pattern.startsWith('#') && !pattern.startsWith('!')) {
+          patterns.push(pattern);
+        }
+      }
+    }
+
+    const matchers = patterns.map(
+      pattern =>
+        new RegExp(
+          '^' +
+            pattern
+              .replace(/[.*?+^${}()|[\]\\]/g, '\\$&')
+              .replace(/\\\*\\\*\//g, '(?:.*/)?')
+              .replace(/\\\*\\\*/g, '.*')
+              .replace(/\\\*/g, '[^/]*')
+              .replace(/\\\?/g, '[^/]') +
+            '(/|$)'
+        )
+    );
+
+    return (path: string) => {
+      const normalized = path.replace(/^\.\//, '');
+      return !matchers.some(matcher => matcher.test(normalized));
+    };
+  }
+
+  private async push(
+    image: Docker.Image,
+    fullTag: string,
+    onProgress?: (message: string) => void
+  ): Promise<string> {
+    const separator = fullTag.lastIndexOf(':');
+    const repo = fullTag.slice(0, separator);
+    const tag = fullTag.slice(separator + 1);
+
+    await image.tag({ repo, tag });
+
+    const pushStream = await this.docker.getImage(fullTag).push({});
+    const events = await this.followProgress(pushStream, 'push', onProgress);
+
+    const digest = events.map(event => event.aux?.Digest).find(Boolean);
+    if (digest) {
+      return digest;
+    }
+
+    // Older daemons don't report the digest in the push stream
+    const pushed = await this.docker.getImage(fullTag).inspect();
+    const repoDigest = pushed.RepoDigests?.find(d => d.startsWith(`${repo}@`));
+    if (!repoDigest) {
+      throw new Error(`Pushed ${fullTag} but the registry did not return a digest`);
+    }
+    return repoDigest.slice(repoDigest.indexOf('@') + 1);
+  }
+
+  private followProgress(
+    stream: NodeJS.ReadableStream,
+    action: 'build' | 'push',
+    onProgress?: (message: string) => void
+  ): Promise<ProgressEvent[]> {
+    return new Promise((resolve, reject) => {
+      this.docker.modem.followProgress(
+        stream,
+        (error: Error | null, events: ProgressEvent[]) => {
+          if (error) {
+            reject(error);
+            return;
+          }
+          const failed = events.find(event => event.error);
+          if (failed) {
+            reject(new Error(`Docker ${action} failed: ${failed.error}`));
+            return;
+          }
+          resolve(events);
+        },
+        (event: ProgressEvent) => {
+          const message = (event.stream || event.status || '').trim();
+          if (message) {
+            onProgress?.(message);
+          }
+        }
+      );
+    });
+  }
+}
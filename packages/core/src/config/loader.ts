@@ -0,0 +1,112 @@
+import { readFile } from 'fs/promises';
+import { basename } from 'path';
+
+import type { MorpheusConfig } from '../sdl/types.js';
+
+import { parseMorpheusConfig, type MorpheusConfigInput } from './schema.js';
+
+/**
+ * Values used for anything morpheus.yaml leaves out
+ */
+export const DEFAULT_CONFIG = {
+  project: 'unnamed',
+  template: 'ai-agent',
+  provider: 'akash',
+  network: 'mainnet',
+  resources: {
+    tier: 'medium',
+    cpu: 2,
+    memory: '4Gi',
+    storage: '10Gi',
+  },
+  runtime: {
+    port: 8000,
+  },
+  funding: {
+    sourceToken: 'USDC',
+    autoTopUp: true,
+    threshold: 0.1,
+    duration: '1y',
+    split: { staking: 0.6, compute: 0.4 },
+  },
+} as const satisfies MorpheusConfig;
+
+/**
+ * Fill in defaults for a validated morpheus.yaml. Nested sections are merged
+ * key by key, so setting `resources.cpu` keeps the default memory and storage.
+ */
+export function applyConfigDefaults(config: MorpheusConfigInput): MorpheusConfig {
+  return {
+    project: config.project || DEFAULT_CONFIG.project,
+    template: config.template || DEFAULT_CONFIG.template,
+    provider: config.provider || DEFAULT_CONFIG.provider,
+    network: config.network || DEFAULT_CONFIG.network,
+    resources: { ...DEFAULT_CONFIG.resources, ...config.resources },
+    runtime: { ...DEFAULT_CONFIG.runtime, ...config.runtime },
+    funding: {
+      ...DEFAULT_CONFIG.funding,
+      split: { ...DEFAULT_CONFIG.funding.split },
+      ...config.funding,
+    },
+    env: config.env,
+    placement: config.placement,
+    services: config.services,
+    environments: config.environments,
+  };
+}
+
+/**
+ * Deep-merge the named entry of `environments` over the base config. Mappings
+ * are merged key by key; lists and scalars in the overlay replace the base.
+ * The result no longer lists `environments`.
+ */
+export function resolveEnvironment(
+  config: MorpheusConfigInput,
+  environment?: string
+): MorpheusConfigInput {
+  const { environments, ...base } = config;
+  if (!environment) {
+    return base;
+  }
+
+  const overlay = environments?.[environment];
+  if (!overlay) {
+    const available = Object.keys(environments ?? {}).join(', ') || 'none';
+    throw new Error(`Unknown environment "${environment}" (available: ${available})`);
+  }
+
+  return deepMerge(base, overlay) as MorpheusConfigInput;
+}
+
+/**
+ * Read, validate and apply defaults to a morpheus.yaml file, selecting an
+ * environment overlay when given. Throws ConfigValidationError listing every
+ * problem with its line and column.
+ */
+export async function loadMorpheusConfig(
+  path: string,
+  environment?: string
+): Promise<MorpheusConfig> {
+  const content = await readFile(path, 'utf-8');
+  const config = parseMorpheusConfig(content, basename(path));
+  return applyConfigDefaults(resolveEnvironment(config, environment));
+}
+
+function deepMerge(
+  base: Record<string, unknown>,
+  overlay: Record<string, unknown>
+): Record<string, unknown> {
+  const merged = { ...base };
+
+  for (const [key, value] of Object.entries(overlay)) {
+    const current = merged[key];
+    merged[key] =
+      isPlainObject(current) && isPlainObject(value) ? deepMerge(current, value) : value;
+  }
+
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,311 @@
+import { LineCounter, isMap, isScalar, parseDocument, type Document, type Node } from 'yaml';
+import { z } from 'zod';
+
+import { DURATION_REGEX } from '../utils/duration.js';
+
+/** Akash-style sizes understood by the SDL synthesizer, e.g. "512Mi" or "4Gi" */
+export const SIZE_REGEX = /^\d+(\.\d+)?(Mi|Gi|M|G)$/;
+
+export const SizeSchema = z
+  .string()
+  .regex(SIZE_REGEX, 'Invalid size: use Mi or Gi units, e.g. "512Mi" or "4Gi"');
+
+export const DurationSchema = z
+  .string()
+  .refine(
+    value => DURATION_REGEX.test(value.toLowerCase()),
+    'Invalid duration: use a number followed by y, m, w or d, e.g. "1y" or "30d"'
+  );
+
+export const TemplateSchema = z.enum(['ai-agent', 'mcp-server', 'website', 'custom']);
+
+export const ResourceConfigSchema = z
+  .object({
+    tier: z.enum(['small', 'medium', 'large', 'custom']).optional(),
+    cpu: z.number().positive().optional(),
+    memory: SizeSchema.optional(),
+    storage: SizeSchema.optional(),
+    gpu: z
+      .object({
+        units: z.number().int().min(1),
+        model: z.string().min(1),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export const FundingSplitSchema = z
+  .object({
+    staking: z.number().min(0).max(1),
+    compute: z.number().min(0).max(1),
+  })
+  .strict()
+  .refine(split => Math.abs(split.staking + split.compute - 1) < 1e-9, {
+    message: 'split.staking and split.compute must sum to 1',
+  });
+
+export const SpendCapsSchema = z
+  .object({
+    daily: z.number().positive().optional(),
+    weekly: z.number().positive().optional(),
+    monthly: z.number().positive().optional(),
+  })
+  .strict();
+
+export const SpendLimitsSchema = z
+  .object({
+    deployment: SpendCapsSchema.optional(),
+    wallet: SpendCapsSchema.optional(),
+    warnAt: z.number().gt(0).max(1).optional(),
+  })
+  .strict();
+
+export const SwapProtectionSchema = z
+  .object({
+    maxSlippage: z.number().gt(0).max(100).optional(),
+    maxPriceImpact: z.number().min(0).max(100).optional(),
+    maxOracleDeviation: z.number().min(0).max(100).optional(),
+    quoteTtl: z.number().positive().optional(),
+  })
+  .strict();
+
+export const FundingConfigSchema = z
+  .object({
+    wallet: z.string().optional(),
+    sourceToken: z.string().min(1).optional(),
+    autoTopUp: z.boolean().optional(),
+    threshold: z.number().min(0).optional(),
+    duration: DurationSchema.optional(),
+    blockTime: z.number().positive().optional(),
+    limits: SpendLimitsSchema.optional(),
+    swap: SwapProtectionSchema.optional(),
+    split: FundingSplitSchema.optional(),
+  })
+  .strict();
+
+export const HealthCheckSchema = z
+  .object({
+    path: z.string().startsWith('/').optional(),
+    status: z.number().int().min(100).max(599).optional(),
+    timeout: z.number().positive().optional(),
+    retries: z.number().int().min(0).optional(),
+    interval: z.number().positive().optional(),
+  })
+  .strict();
+
+export const RuntimeConfigSchema = z
+  .object({
+    image: z.string().min(1).optional(),
+    port: z.number().int().min(1).max(65535).optional(),
+    framework: z.enum(['nextjs', 'express', 'node', 'python', 'static']).optional(),
+    registry: z.string().min(1).optional(),
+    healthCheck: HealthCheckSchema.optional(),
+  })
+  .strict();
+
+export const EnvironmentConfigSchema = z
+  .object({
+    // Unquoted YAML scalars such as `PORT: 3000` are passed through as strings
+    variables: z
+      .record(z.union([z.string(), z.number(), z.boolean()]).transform(String))
+      .optional(),
+    secrets: z.array(z.string().min(1)).optional(),
+  })
+  .strict();
+
+export const ServiceConfigSchema = z
+  .object({
+    image: z.string().min(1).optional(),
+    command: z.array(z.string()).optional(),
+    port: z.number().int().min(1).max(65535).optional(),
+    ports: z
+      .array(
+        z
+          .object({
+            port: z.number().int().min(1).max(65535),
+            as: z.number().int().min(1).max(65535).optional(),
+            global: z.boolean().optional(),
+            to: z.array(z.string()).optional(),
+          })
+          .strict()
+      )
+      .optional(),
+    dependsOn: z.array(z.string()).optional(),
+    resources: ResourceConfigSchema.optional(),
+    env: EnvironmentConfigSchema.optional(),
+    count: z.number().int().min(1).optional(),
+    mount: z.string().startsWith('/').optional(),
+  })
+  .strict();
+
+/** Bech32 account address on Akash, e.g. a provider or auditor */
+export const AKASH_ADDRESS_REGEX = /^akash1[02-9ac-hj-np-z]{38}$/;
+
+export const AkashAddressSchema = z
+  .string()
+  .regex(AKASH_ADDRESS_REGEX, 'Invalid Akash address: expected "akash1" and 38 characters');
+
+export const PlacementConfigSchema = z
+  .object({
+    strategy: z.enum(['cheapest', 'uptime-weighted']).optional(),
+    verifiedOnly: z.boolean().optional(),
+    auditors: z.array(AkashAddressSchema).min(1).optional(),
+    allow: z.array(AkashAddressSchema).optional(),
+    deny: z.array(AkashAddressSchema).optional(),
+    region: z.string().min(1).optional(),
+    attributes: z
+      .record(z.union([z.string().min(1), z.number(), z.boolean()]).transform(String))
+      .optional(),
+    signedBy: z
+      .object({
+        anyOf: z.array(AkashAddressSchema).optional(),
+        allOf: z.array(AkashAddressSchema).optional(),
+      })
+      .strict()
+      .optional(),
+    gpuModel: z.string().min(1).optional(),
+    maxPricePerBlock: z.number().positive().optional(),
+    priceWarnMargin: z.number().min(0).optional(),
+    repost: z.boolean().optional(),
+  })
+  .strict();
+
+/** Environment names end up in state file names, so keep them simple */
+export const EnvironmentNameSchema = z
+  .string()
+  .regex(
+    /^[a-z0-9][a-z0-9_-]*$/,
+    'Invalid environment name: use lowercase letters, digits, "-" and "_"'
+  );
+
+/**
+ * Overrides for one entry of `environments`. Deep-merged over the base config,
+ * so it only needs the keys that differ.
+ */
+export const EnvironmentOverlaySchema = z
+  .object({
+    template: TemplateSchema.optional(),
+    provider: z.enum(['akash', 'render', 'filecoin']).optional(),
+    network: z.enum(['mainnet', 'testnet']).optional(),
+    funding: FundingConfigSchema.optional(),
+    resources: ResourceConfigSchema.optional(),
+    runtime: RuntimeConfigSchema.optional(),
+    env: EnvironmentConfigSchema.optional(),
+    placement: PlacementConfigSchema.optional(),
+    services: z.record(ServiceConfigSchema).optional(),
+  })
+  .strict();
+
+/**
+ * Schema for morpheus.yaml as written by users. Every section is optional;
+ * defaults are applied after validation.
+ */
+export const MorpheusConfigSchema = EnvironmentOverlaySchema.extend({
+  project: z.string().min(1).optional(),
+  environments: z.record(EnvironmentNameSchema, EnvironmentOverlaySchema).optional(),
+}).strict();
+
+export type EnvironmentOverlay = z.infer<typeof EnvironmentOverlaySchema>;
+export type MorpheusConfigInput = z.infer<typeof MorpheusConfigSchema>;
+
+export interface ConfigIssue {
+  /** Dotted path of the offending key, e.g. "funding.split" */
+  path: string;
+  message: string;
+  /** 1-based position in the YAML source, when known */
+  line?: number;
+  column?: number;
+}
+
+export class ConfigValidationError extends Error {
+  readonly file: string;
+  readonly issues: ConfigIssue[];
+
+  constructor(file: string, issues: ConfigIssue[]) {
+    const details = issues.map(issue => {
+      const location = issue.line ? `${file}:${issue.line}:${issue.column} ` : '';
+      return `  ${location}${issue.path ? `${issue.path}: ` : ''}${issue.message}`;
+    });
+    super(`Invalid ${file}:\n${details.join('\n')}`);
+    this.name = 'ConfigValidationError';
+    this.file = file;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Parse and validate morpheus.yaml, reporting every problem with its YAML
+ * line and column. Throws ConfigValidationError.
+ */
+export function parseMorpheusConfig(source: string, file = 'morpheus.yaml'): MorpheusConfigInput {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(source, { lineCounter });
+
+  if (document.errors.length > 0) {
+    throw new ConfigValidationError(
+      file,
+      document.errors.map(error => ({
+        path: '',
+        message: (error.message.split('\n', 1)[0] ?? '').replace(/ at line \d+, column \d+:?$/, ''),
+        line: error.linePos?.[0].line,
+        column: error.linePos?.[0].col,
+      }))
+    );
+  }
+
+  const result = MorpheusConfigSchema.safeParse(document.toJS() ?? {});
+  if (result.success) {
+    return result.data;
+  }
+
+  const issues: ConfigIssue[] = [];
+  for (const issue of result.error.issues) {
+    // Report each unknown key separately, at the key itself
+    const keys = issue.code === 'unrecognized_keys' ? issue.keys : [undefined];
+    for (const key of keys) {
+      const path = key === undefined ? issue.path : [...issue.path, key];
+      const offset = findOffset(document, issue.path, key);
+      const position = offset === undefined ? undefined : lineCounter.linePos(offset);
+
+      issues.push({
+        path: path.join('.'),
+        message: key === undefined ? issue.message : `Unknown key "${key}"`,
+        line: position?.line,
+        column: position?.col,
+      });
+    }
+  }
+
+  issues.sort((a, b) => (a.line ?? 0) - (b.line ?? 0) || (a.column ?? 0) - (b.column ?? 0));
+  throw new ConfigValidationError(file, issues);
+}
+
+/**
+ * Source offset of the node at `path` (or of `key` within it), falling back to
+ * the closest ancestor that exists, e.g. for missing keys
+ */
+function findOffset(
+  document: Document,
+  path: Array<string | number>,
+  key?: string
+): number | undefined {
+  for (let depth = path.length; depth >= 0; depth--) {
+    const node = (depth === 0 ? document.contents : document.getIn(path.slice(0, depth), true)) as
+      Node | null | undefined;
+
+    if (key !== undefined && depth === path.length && isMap(node)) {
+      const pair = node.items.find(item => isScalar(item.key) && item.key.value === key);
+      const keyNode = pair?.key as Node | undefined;
+      if (keyNode?.range) {
+        return keyNode.range[0];
+      }
+    }
+
+    if (node?.range) {
+      return node.range[0];
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,168 @@
+import type { SpendCaps, SpendLimitsConfig } from '../sdl/types.js';
+
+import { Amount, USDC } from './money.js';
+
+/** Fraction of a cap at which spending is warned about */
+export const DEFAULT_SPEND_WARN_AT = 0.8;
+
+export type SpendPeriod = keyof SpendCaps;
+export type SpendScope = 'deployment' | 'wallet';
+
+/** Each period is a rolling window ending now */
+const PERIOD_MS: Record<SpendPeriod, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+  monthly: 30 * 24 * 60 * 60 * 1000,
+};
+
+export interface SpendRecord {
+  dseq: string;
+  wallet: string;
+  /** USDC spent, in base units */
+  amount: string;
+  txHash?: string;
+  at: string;
+}
+
+/**
+ * Where spend records are kept between runs
+ */
+export interface SpendStore {
+  load(): Promise<SpendRecord[]>;
+  save(records: SpendRecord[]): Promise<void>;
+}
+
+export interface SpendUsage {
+  scope: SpendScope;
+  period: SpendPeriod;
+  limit: Amount;
+  spent: Amount;
+}
+
+export interface SpendCheck {
+  allowed: boolean;
+  /** Caps the spend would take past the warning threshold */
+  warnings: SpendUsage[];
+  /** Caps the spend would exceed */
+  exceeded: SpendUsage[];
+}
+
+/**
+ * Thrown when a top-up would take spending over a cap under
+ * `funding.limits`. Nothing has been paid when it is thrown.
+ */
+export class SpendLimitError extends Error {
+  readonly exceeded: SpendUsage[];
+
+  constructor(amount: Amount, exceeded: SpendUsage[]) {
+    const [first] = exceeded;
+    super(
+      `Top-up of $${amount.toFixed(2)} USDC would exceed the ${first?.period} ${first?.scope} ` +
+        `limit of $${first?.limit.toFixed(2)} ($${first?.spent.toFixed(2)} already spent)`
+    );
+    this.name = 'SpendLimitError';
+    this.exceeded = exceeded;
+  }
+}
+
+/** Keeps records in memory only, so limits apply to a single process */
+export class MemorySpendStore implements SpendStore {
+  private records: SpendRecord[] = [];
+
+  async load(): Promise<SpendRecord[]> {
+    return this.records;
+  }
+
+  async save(records: SpendRecord[]): Promise<void> {
+    this.records = records;
+  }
+}
+
+/**
+ * Tracks USDC spent on automatic top-ups against the daily, weekly and
+ * monthly caps in `funding.limits`, per deployment and per wallet
+ */
+export class SpendTracker {
+  private limits: SpendLimitsConfig;
+  private warnAt: number;
+  private store: SpendStore;
+
+  constructor(limits: SpendLimitsConfig = {}, store: SpendStore = new MemorySpendStore()) {
+    this.limits = limits;
+    this.warnAt = limits.warnAt ?? DEFAULT_SPEND_WARN_AT;
+    this.store = store;
+  }
+
+  /**
+   * Spending in every capped period, for a deployment and the wallet paying for it
+   */
+  async usage(dseq: string, wallet: string, now = Date.now()): Promise<SpendUsage[]> {
+    const records = await this.store.load();
+    const usage: SpendUsage[] = [];
+
+    for (const scope of ['deployment', 'wallet'] as const) {
+      const caps = this.limits[scope] ?? {};
+      const scoped = records.filter(record =>
+        scope === 'deployment'
+          ? record.dseq === dseq && record.wallet === wallet
+          : record.wallet === wallet
+      );
+
+      for (const period of Object.keys(PERIOD_MS) as SpendPeriod[]) {
+        const cap = caps[period];
+        if (cap === undefined) {
+          continue;
+        }
+
+        const since = now - PERIOD_MS[period];
+        const spent = scoped
+          .filter(record => Date.parse(record.at) > since)
+          .reduce(
+            (total, record) => total.plus(Amount.fromUnits(record.amount, USDC)),
+            Amount.zero(USDC)
+          );
+
+        usage.push({ scope, period, limit: Amount.from(cap, USDC), spent });
+      }
+    }
+
+    return usage;
+  }
+
+  /**
+   * Whether spending `amount` now stays within every cap
+   */
+  async check(dseq: string, wallet: string, amount: Amount): Promise<SpendCheck> {
+    const warnings: SpendUsage[] = [];
+    const exceeded: SpendUsage[] = [];
+
+    for (const usage of await this.usage(dseq, wallet)) {
+      const after = usage.spent.plus(amount);
+      if (after.gt(usage.limit)) {
+        exceeded.push(usage);
+      } else if (!after.lt(usage.limit.times(this.warnAt))) {
+        warnings.push(usage);
+      }
+    }
+
+    return { allowed: exceeded.length === 0, warnings, exceeded };
+  }
+
+  /**
+   * Record USDC spent on a top-up, as each of its transactions is broadcast.
+   * Records older than the longest period are dropped.
+   */
+  async record(dseq: string, wallet: string, amount: Amount, txHash?: string): Promise<void> {
+    const cutoff = Date.now() - PERIOD_MS.monthly;
+    const records = (await this.store.load()).filter(record => Date.parse(record.at) > cutoff);
+
+    records.push({
+      dseq,
+      wallet,
+      amount: amount.units.toString(),
+      txHash,
+      at: new Date().toISOString(),
+    });
+    await this.store.save(records);
+  }
+}
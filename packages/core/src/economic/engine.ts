@@ -1,30 +1,97 @@
-import { SkipGoClient, type RouteResponse } from './skip-go.js';
-import { PriceOracle } from './oracle.js';
+import { STAKING_ADDRESS, getSecurityLogger } from '@morpheus-deploy/contracts';
+
 import type { MorpheusConfig } from '../sdl/types.js';
-import { STAKING_ADDRESS } from '@morpheus-deploy/contracts';
+
+import { SpendLimitError, SpendTracker, type SpendUsage } from './budget.js';
+import { AKT, Amount, BlockClock, MOR, USDC, type Currency } from './money.js';
+import { PriceOracle } from './oracle.js';
+import {
+  SkipGoClient,
+  type RouteRequest,
+  type RouteResponse,
+  type SkipGoClientOptions,
+} from './skip-go.js';
+import { SwapGuard, SwapProtectionError } from './swap-guard.js';
 
 export interface SwapConfig {
   sourceToken: string;
-  amount: number;
+  /** Amount of the source token, in USDC */
+  amount: Amount;
   destination: 'akash' | 'morpheus';
   dseq?: string;
 }
 
 export interface SwapResult {
-  sourceAmount: number;
-  destinationAmount: number;
+  sourceAmount: Amount;
+  /** AKT sent to Akash, or USDC sent to Base by `swapToUsdc` */
+  destinationAmount: Amount;
   txHash: string;
   route: string[];
-  fees: number;
+  fees: Amount;
+}
+
+export interface EscrowHealth {
+  needsTopUp: boolean;
+  /** Blocks until the escrow runs out; undefined when nothing is being billed */
+  blocksRemaining?: bigint;
+  hoursRemaining: number;
+  recommendedTopUp: Amount;
 }
 
 export interface SwapQuote {
-  sourceAmount: number;
-  destinationAmount: number;
-  estimatedFee: number;
+  sourceAmount: Amount;
+  /** AKT for Akash, MOR for Morpheus */
+  destinationAmount: Amount;
+  estimatedFee: Amount;
   route: string[];
   priceImpact: number;
   estimatedTime: number; // seconds
+  /** After this the route is fetched again before it is signed */
+  expiresAt: Date;
+}
+
+/** A route and the quote it passed the swap guard as */
+interface QuotedRoute {
+  request: RouteRequest;
+  route: RouteResponse;
+  destination: Currency;
+  quote: SwapQuote;
+}
+
+/** Times a route is re-quoted because signing outlasted the quote */
+const MAX_REQUOTES = 2;
+
+/** Called as each route of a swap is broadcast, with the USDC it spends */
+type OnBroadcast = (amount: Amount, txHash: string) => Promise<void>;
+
+/** The transactions of a swap as they are put on chain */
+interface SwapProgress {
+  /** Set before a transaction is submitted, since a failed submission may still land */
+  submitted: boolean;
+  txHashes: string[];
+  onBroadcast?: OnBroadcast;
+}
+
+/**
+ * Thrown when a swap fails once one of its transactions has been submitted,
+ * so funds may have left the wallet. Any other error from a swap was thrown
+ * before anything was paid.
+ */
+export class SwapBroadcastError extends Error {
+  /** Transactions broadcast before the failure, in order */
+  readonly txHashes: string[];
+
+  constructor(cause: unknown, txHashes: string[]) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(
+      txHashes.length > 0
+        ? `Swap failed after broadcasting ${txHashes.join(', ')}: ${reason}`
+        : `Swap failed while broadcasting: ${reason}`,
+      { cause }
+    );
+    this.name = 'SwapBroadcastError';
+    this.txHashes = txHashes;
+  }
 }
 
 interface WalletManager {
@@ -38,166 +105,358 @@ export class EconomicEngine {
   private wallet: WalletManager;
   private skipGo: SkipGoClient;
   private oracle: PriceOracle;
+  private clock: BlockClock;
+  private budget: SpendTracker;
+  private guard: SwapGuard;
 
-  constructor(config: MorpheusConfig, wallet: WalletManager) {
+  /**
+   * @param budget Spend accounting for `funding.limits`. Kept in memory unless
+   *   a tracker with a persistent store is passed.
+   * @param skipGo Options for the Skip Go client, such as the `baseUrl` of a
+   *   `SkipGoMockServer`. The network always follows `config.network`.
+   */
+  constructor(
+    config: MorpheusConfig,
+    wallet: WalletManager,
+    budget = new SpendTracker(config.funding?.limits),
+    skipGo: SkipGoClientOptions = {}
+  ) {
     this.config = config;
     this.wallet = wallet;
-    this.skipGo = new SkipGoClient({ network: config.network || 'mainnet' });
+    this.skipGo = new SkipGoClient({ ...skipGo, network: config.network || 'mainnet' });
     this.oracle = new PriceOracle();
+    this.clock = new BlockClock(config.funding?.blockTime);
+    this.budget = budget;
+    this.guard = new SwapGuard(config.funding?.swap);
   }
 
   /**
    * Get a swap quote without executing
    */
   async getSwapQuote(options: SwapConfig): Promise<SwapQuote> {
-    const route = await this.skipGo.getRoute({
-      sourceChain: 'base',
-      sourceToken: options.sourceToken,
-      destChain: options.destination === 'akash' ? 'akash' : 'base',
-      destToken: options.destination === 'akash' ? 'AKT' : 'MOR',
-      amount: this.toBaseUnits(options.amount, 6),
-    });
+    const destination = options.destination === 'akash' ? AKT : MOR;
+    const { quote } = await this.quoteRoute(
+      {
+        sourceChain: 'base',
+        sourceToken: options.sourceToken,
+        destChain: options.destination === 'akash' ? 'akash' : 'base',
+        destToken: destination.symbol,
+        amount: options.amount.units.toString(),
+      },
+      options.amount,
+      destination
+    );
 
-    return {
-      sourceAmount: options.amount,
-      destinationAmount: this.fromBaseUnits(route.estimatedOutput, 6),
-      estimatedFee: this.fromBaseUnits(route.estimatedFee, 6),
-      route: route.route.map(hop => `${hop.from} -> ${hop.to}`),
-      priceImpact: route.priceImpact,
-      estimatedTime: route.estimatedTime,
-    };
+    return quote;
   }
 
   /**
    * Execute a cross-chain swap using Skip Go
    */
   async executeSwap(options: SwapConfig): Promise<SwapResult> {
+    return this.swap(options);
+  }
+
+  /**
+   * Swap and report each route through `onBroadcast` as it is broadcast.
+   * Failures after the first submission are thrown as SwapBroadcastError.
+   */
+  private async swap(options: SwapConfig, onBroadcast?: OnBroadcast): Promise<SwapResult> {
+    const progress: SwapProgress = { submitted: false, txHashes: [], onBroadcast };
+    try {
+      return await this.swapRoutes(options, progress);
+    } catch (error) {
+      if (progress.submitted) {
+        throw new SwapBroadcastError(error, progress.txHashes);
+      }
+      throw error;
+    }
+  }
+
+  private async swapRoutes(options: SwapConfig, progress: SwapProgress): Promise<SwapResult> {
     // Apply funding split if configured
     let computeAmount = options.amount;
-    let stakingAmount = 0;
+    let stakingAmount = Amount.zero(USDC);
 
     if (this.config.funding?.split && options.destination === 'akash') {
-      const split = this.config.funding.split;
-      computeAmount = options.amount * split.compute;
-      stakingAmount = options.amount * split.staking;
+      // Staking gets the remainder so rounding never loses a base unit
+      computeAmount = options.amount.times(this.config.funding.split.compute);
+      stakingAmount = options.amount.minus(computeAmount);
     }
 
     // Get route for compute funds (USDC -> AKT)
-    const computeRoute = await this.skipGo.getRoute({
-      sourceChain: 'base',
-      sourceToken: options.sourceToken,
-      destChain: 'akash',
-      destToken: 'AKT',
-      amount: this.toBaseUnits(computeAmount, 6),
-      smartRelay: true,
-      postRouteAction: options.dseq ? {
-        type: 'MsgDeposit',
-        dseq: options.dseq,
-      } : undefined,
-    });
+    const compute = await this.quoteRoute(
+      {
+        sourceChain: 'base',
+        sourceToken: options.sourceToken,
+        destChain: 'akash',
+        destToken: 'AKT',
+        amount: computeAmount.units.toString(),
+        smartRelay: true,
+        postRouteAction: options.dseq
+          ? {
+              type: 'MsgDeposit',
+              dseq: options.dseq,
+            }
+          : undefined,
+      },
+      computeAmount,
+      AKT
+    );
 
     // Execute the compute swap
-    const computeTx = await this.executeRoute(computeRoute);
+    const { hash, route: computeRoute } = await this.executeRoute(compute, progress);
 
     // If there's a staking portion, execute that too
-    if (stakingAmount > 0) {
-      await this.executeStakingSwap(stakingAmount, options.sourceToken);
+    if (!stakingAmount.isZero()) {
+      await this.executeStakingSwap(stakingAmount, options.sourceToken, progress);
     }
 
     return {
       sourceAmount: options.amount,
-      destinationAmount: this.fromBaseUnits(computeRoute.estimatedOutput, 6),
-      txHash: computeTx.hash,
+      destinationAmount: Amount.fromUnits(computeRoute.estimatedOutput, AKT),
+      txHash: hash,
       route: computeRoute.route.map(hop => hop.to),
-      fees: this.fromBaseUnits(computeRoute.estimatedFee, 6),
+      fees: Amount.fromUnits(computeRoute.estimatedFee, USDC),
+    };
+  }
+
+  /**
+   * Swap AKT on Akash back to USDC on Base, e.g. the escrow refunded when a
+   * deployment is closed
+   */
+  async swapToUsdc(amount: Amount): Promise<SwapResult> {
+    const quoted = await this.quoteRoute(
+      {
+        sourceChain: 'akash',
+        sourceToken: 'AKT',
+        destChain: 'base',
+        destToken: 'USDC',
+        amount: amount.units.toString(),
+        smartRelay: true,
+      },
+      amount,
+      USDC
+    );
+
+    const { hash, route } = await this.executeRoute(quoted);
+
+    return {
+      sourceAmount: amount,
+      destinationAmount: Amount.fromUnits(route.estimatedOutput, USDC),
+      txHash: hash,
+      route: route.route.map(hop => hop.to),
+      fees: Amount.fromUnits(route.estimatedFee, USDC),
     };
   }
 
   /**
    * Execute staking swap (USDC -> MOR -> Stake)
    */
-  private async executeStakingSwap(amount: number, sourceToken: string): Promise<void> {
+  private async executeStakingSwap(
+    amount: Amount,
+    sourceToken: string,
+    progress: SwapProgress
+  ): Promise<void> {
     // Get route for staking (USDC -> MOR)
-    const stakingRoute = await this.skipGo.getRoute({
-      sourceChain: 'base',
-      sourceToken,
-      destChain: 'base', // MOR is on Base
-      destToken: 'MOR',
-      amount: this.toBaseUnits(amount, 6),
-      smartRelay: true,
-      postRouteAction: {
-        type: 'Stake',
-        contract: this.getMorpheusStakingContract(),
+    const staking = await this.quoteRoute(
+      {
+        sourceChain: 'base',
+        sourceToken,
+        destChain: 'base', // MOR is on Base
+        destToken: 'MOR',
+        amount: amount.units.toString(),
+        smartRelay: true,
+        postRouteAction: {
+          type: 'Stake',
+          contract: this.getMorpheusStakingContract(),
+        },
       },
-    });
+      amount,
+      MOR
+    );
 
-    await this.executeRoute(stakingRoute);
+    await this.executeRoute(staking, progress);
   }
 
   /**
-   * Execute a route transaction
+   * Fetch a route and check its quote against `funding.swap`
    */
-  private async executeRoute(route: RouteResponse): Promise<{ hash: string }> {
-    // Build the transaction
-    const tx = await this.skipGo.buildTransaction(route);
+  private async quoteRoute(
+    request: RouteRequest,
+    amount: Amount,
+    destination: Currency
+  ): Promise<QuotedRoute> {
+    const route = await this.skipGo.getRoute(request);
+    const quote: SwapQuote = {
+      sourceAmount: amount,
+      destinationAmount: Amount.fromUnits(route.estimatedOutput, destination),
+      estimatedFee: Amount.fromUnits(route.estimatedFee, USDC),
+      route: route.route.map(hop => `${hop.from} -> ${hop.to}`),
+      priceImpact: route.priceImpact,
+      estimatedTime: route.estimatedTime,
+      expiresAt: this.guard.expiresAt(),
+    };
 
-    // Sign with wallet
-    const signature = await this.wallet.signTransaction(tx);
+    const price = await this.priceOf(destination, amount.currency);
+    try {
+      this.guard.check(quote, price);
+    } catch (error) {
+      throw await this.rejected(error, quote);
+    }
+
+    return { request, route, destination, quote };
+  }
+
+  /**
+   * Oracle price of one `token` in `quote`, one of which must be USDC
+   */
+  private async priceOf(token: Currency, quote: Currency): Promise<number> {
+    if (quote.symbol === USDC.symbol) {
+      return this.oracle.getPrice(token.symbol, 'USDC');
+    }
+    return 1 / (await this.oracle.getPrice(quote.symbol, 'USDC'));
+  }
+
+  /**
+   * Fetch a stale route again, aborting if the new quote is worse by more
+   * than the slippage tolerance
+   */
+  private async requote(previous: QuotedRoute): Promise<QuotedRoute> {
+    const fresh = await this.quoteRoute(
+      previous.request,
+      previous.quote.sourceAmount,
+      previous.destination
+    );
+    try {
+      this.guard.checkRequote(previous.quote, fresh.quote);
+    } catch (error) {
+      throw await this.rejected(error, fresh.quote);
+    }
+
+    await getSecurityLogger().info('SWAP_REQUOTED', {
+      amount: fresh.quote.sourceAmount.toDecimal(),
+      previous: previous.quote.destinationAmount.toDecimal(),
+      quoted: fresh.quote.destinationAmount.toDecimal(),
+    });
+    return fresh;
+  }
 
-    // Broadcast
-    const result = await this.skipGo.broadcastTransaction(signature, route.sourceChain);
+  /**
+   * Execute a route transaction, re-quoting first if the quote has expired.
+   * The transaction is added to `progress` once it is submitted, before
+   * waiting for it to complete.
+   */
+  private async executeRoute(
+    quoted: QuotedRoute,
+    progress?: SwapProgress
+  ): Promise<{ hash: string; route: RouteResponse }> {
+    let current = quoted;
+
+    // Signing can outlast the quote, in which case it is re-quoted and signed again
+    for (let attempt = 0; attempt <= MAX_REQUOTES; attempt++) {
+      if (this.guard.isExpired(current.quote)) {
+        current = await this.requote(current);
+      }
+
+      // Build the transaction
+      const tx = await this.skipGo.buildTransaction(current.route, this.guard.maxSlippage);
+
+      // Sign with wallet
+      const signature = await this.wallet.signTransaction(tx);
+      if (this.guard.isExpired(current.quote)) {
+        continue;
+      }
+
+      // Broadcast
+      if (progress) {
+        progress.submitted = true;
+      }
+      const result = await this.skipGo.broadcastTransaction(signature, current.route.sourceChain);
+      progress?.txHashes.push(result.txHash);
+      await progress?.onBroadcast?.(current.quote.sourceAmount, result.txHash);
+
+      // Wait for completion across all chains
+      await this.skipGo.waitForCompletion(result.txHash, current.route);
+
+      return { hash: result.txHash, route: current.route };
+    }
 
-    // Wait for completion across all chains
-    await this.skipGo.waitForCompletion(result.txHash, route);
+    const age = (Date.now() - current.quote.expiresAt.getTime()) / 1000 + this.guard.quoteTtl;
+    throw await this.rejected(
+      new SwapProtectionError('quote-expired', this.guard.quoteTtl, age),
+      current.quote
+    );
+  }
 
-    return { hash: result.txHash };
+  /**
+   * Log a swap stopped by `funding.swap`, and return the error to throw
+   */
+  private async rejected(error: unknown, quote: SwapQuote): Promise<unknown> {
+    if (error instanceof SwapProtectionError) {
+      await getSecurityLogger().error('SWAP_REJECTED', {
+        reason: error.reason,
+        limit: error.limit,
+        actual: error.actual,
+        amount: quote.sourceAmount.toDecimal(),
+        quoted: quote.destinationAmount.toString(),
+      });
+    }
+    return error;
   }
 
   /**
-   * Calculate required AKT for a deployment duration
+   * AKT needed to keep a lease running for a duration, and its price in USDC
+   *
+   * @param pricePerBlock - Lease price, in uakt per block
    */
   async calculateRequiredFunding(
-    hourlyRate: number,
+    pricePerBlock: Amount,
     durationHours: number,
     buffer = 0.2
-  ): Promise<{ akt: number; usdc: number }> {
-    const totalAkt = hourlyRate * durationHours * (1 + buffer);
+  ): Promise<{ blocks: bigint; akt: Amount; usdc: Amount }> {
+    const blocks = this.clock.blocks(durationHours);
+    const akt = pricePerBlock.times(blocks).times(1 + buffer);
     const aktPrice = await this.oracle.getPrice('AKT', 'USDC');
 
     return {
-      akt: totalAkt,
-      usdc: totalAkt * aktPrice,
+      blocks,
+      akt,
+      usdc: akt.convert(USDC, aktPrice),
     };
   }
 
   /**
    * Check if escrow needs top-up based on threshold
+   *
+   * @param burnRate - Lease price, in uakt per block
    */
-  async checkEscrowHealth(
-    currentBalance: number,
-    burnRate: number
-  ): Promise<{ needsTopUp: boolean; hoursRemaining: number; recommendedTopUp: number }> {
+  async checkEscrowHealth(currentBalance: Amount, burnRate: Amount): Promise<EscrowHealth> {
     const threshold = this.config.funding?.threshold || 0.1;
-    const hoursRemaining = burnRate > 0 ? currentBalance / burnRate : Infinity;
+    const blocksRemaining = burnRate.isZero() ? undefined : currentBalance.count(burnRate);
 
     // Calculate what 10% of a week's worth would be
-    const weeklyBurn = burnRate * 24 * 7;
-    const thresholdBalance = weeklyBurn * threshold;
+    const weeklyBurn = burnRate.times(this.clock.blocks(24 * 7));
+    const thresholdBalance = weeklyBurn.times(threshold);
 
-    const needsTopUp = currentBalance < thresholdBalance;
-    const recommendedTopUp = needsTopUp ? weeklyBurn - currentBalance : 0;
+    const needsTopUp = currentBalance.lt(thresholdBalance);
 
     return {
       needsTopUp,
-      hoursRemaining,
-      recommendedTopUp,
+      blocksRemaining,
+      hoursRemaining: blocksRemaining === undefined ? Infinity : this.clock.hours(blocksRemaining),
+      recommendedTopUp: needsTopUp ? weeklyBurn.minus(currentBalance) : Amount.zero(AKT),
     };
   }
 
   /**
    * Auto top-up deployment escrow (Gas Station functionality)
    */
-  async autoTopUp(dseq: string, escrowBalance: number, burnRate: number): Promise<SwapResult | null> {
+  async autoTopUp(
+    dseq: string,
+    escrowBalance: Amount,
+    burnRate: Amount
+  ): Promise<SwapResult | null> {
     const health = await this.checkEscrowHealth(escrowBalance, burnRate);
 
     if (!health.needsTopUp || !this.config.funding?.autoTopUp) {
@@ -206,33 +465,65 @@ export class EconomicEngine {
 
     // Calculate USDC needed
     const aktPrice = await this.oracle.getPrice('AKT', 'USDC');
-    const usdcNeeded = health.recommendedTopUp * aktPrice;
+    const usdcNeeded = health.recommendedTopUp.convert(USDC, aktPrice);
+
+    // Check spending caps before anything is paid
+    const { address } = await this.wallet.load();
+    await this.checkSpendLimits(dseq, address, usdcNeeded);
 
     // Check wallet balance
     const balance = await this.wallet.getBalance();
-    if (balance.usdc < usdcNeeded) {
+    if (Amount.from(balance.usdc, USDC).lt(usdcNeeded)) {
       throw new Error(`Insufficient balance for auto top-up. Need $${usdcNeeded.toFixed(2)} USDC`);
     }
 
-    // Execute swap with dseq for automatic escrow deposit
-    return this.executeSwap({
-      sourceToken: this.config.funding.sourceToken,
-      amount: usdcNeeded,
-      destination: 'akash',
-      dseq,
+    // Execute swap with dseq for automatic escrow deposit. Each route counts
+    // against the caps as soon as it is broadcast, so a swap that fails
+    // afterwards is still accounted for.
+    return this.swap(
+      {
+        sourceToken: this.config.funding.sourceToken,
+        amount: usdcNeeded,
+        destination: 'akash',
+        dseq,
+      },
+      (amount, txHash) => this.budget.record(dseq, address, amount, txHash)
+    );
+  }
+
+  /**
+   * Warn about caps a top-up brings close, and throw `SpendLimitError` if it
+   * would exceed any
+   */
+  private async checkSpendLimits(dseq: string, wallet: string, amount: Amount): Promise<void> {
+    const check = await this.budget.check(dseq, wallet, amount);
+    const toLog = ({ scope, period, limit, spent }: SpendUsage) => ({
+      scope,
+      period,
+      limit: limit.toDecimal(),
+      spent: spent.toDecimal(),
     });
+
+    for (const usage of check.warnings) {
+      await getSecurityLogger().warn('SPEND_LIMIT_WARNING', {
+        dseq,
+        amount: amount.toDecimal(),
+        ...toLog(usage),
+      });
+    }
+
+    if (!check.allowed) {
+      await getSecurityLogger().error('SPEND_LIMIT_EXCEEDED', {
+        dseq,
+        amount: amount.toDecimal(),
+        exceeded: check.exceeded.map(toLog),
+      });
+      throw new SpendLimitError(amount, check.exceeded);
+    }
   }
 
   private getMorpheusStakingContract(): string {
     const network = this.config.network || 'mainnet';
     return STAKING_ADDRESS[network];
   }
-
-  private toBaseUnits(amount: number, decimals: number): string {
-    return Math.floor(amount * Math.pow(10, decimals)).toString();
-  }
-
-  private fromBaseUnits(amount: string, decimals: number): number {
-    return parseInt(amount, 10) / Math.pow(10, decimals);
-  }
 }
@@ -0,0 +1,227 @@
+/**
+ * A token and how many decimal places its base unit has
+ */
+export interface Currency {
+  symbol: string;
+  /** Name of the base unit, e.g. "uakt" */
+  denom: string;
+  decimals: number;
+}
+
+export const AKT: Currency = { symbol: 'AKT', denom: 'uakt', decimals: 6 };
+export const USDC: Currency = { symbol: 'USDC', denom: 'uusdc', decimals: 6 };
+export const MOR: Currency = { symbol: 'MOR', denom: 'wei', decimals: 18 };
+
+/** Akash's average block time, in seconds */
+export const DEFAULT_BLOCK_TIME = 6;
+
+/** Decimal places kept when a float rate or price is applied to an amount */
+const RATE_DECIMALS = 12;
+
+/**
+ * An exact amount of a token, held in base units. Arithmetic rounds down to
+ * the base unit; amounts of different currencies can't be mixed.
+ */
+export class Amount {
+  readonly currency: Currency;
+  /** Amount in base units, e.g. uakt */
+  readonly units: bigint;
+
+  private constructor(units: bigint, currency: Currency) {
+    this.units = units;
+    this.currency = currency;
+  }
+
+  /**
+   * Parse a decimal string such as "12.5". Throws when it has more decimal
+   * places than the currency.
+   */
+  static parse(value: string, currency: Currency): Amount {
+    return new Amount(parseDecimal(value, currency.decimals, currency.symbol), currency);
+  }
+
+  /**
+   * Convert a float, rounded to the currency's precision. Use `parse` for user
+   * input so nothing is rounded silently.
+   */
+  static from(value: number, currency: Currency): Amount {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Invalid ${currency.symbol} amount: ${value}`);
+    }
+    return Amount.parse(value.toFixed(currency.decimals), currency);
+  }
+
+  static fromUnits(units: bigint | string | number, currency: Currency): Amount {
+    return new Amount(BigInt(units), currency);
+  }
+
+  static zero(currency: Currency): Amount {
+    return new Amount(0n, currency);
+  }
+
+  plus(other: Amount): Amount {
+    this.assertSameCurrency(other);
+    return new Amount(this.units + other.units, this.currency);
+  }
+
+  minus(other: Amount): Amount {
+    this.assertSameCurrency(other);
+    return new Amount(this.units - other.units, this.currency);
+  }
+
+  /**
+   * Multiply by a block count or a ratio such as a funding split
+   */
+  times(factor: bigint | number): Amount {
+    if (typeof factor === 'bigint') {
+      return new Amount(this.units * factor, this.currency);
+    }
+    return new Amount(applyRate(this.units, factor), this.currency);
+  }
+
+  /**
+   * Whole number of times `other` fits into this amount, e.g. the blocks an
+   * escrow balance lasts at a price per block
+   */
+  count(other: Amount): bigint {
+    this.assertSameCurrency(other);
+    if (other.units === 0n) {
+      throw new Error('Cannot divide by a zero amount');
+    }
+    return this.units / other.units;
+  }
+
+  /**
+   * Value in another currency, given the price of one whole unit of this one
+   */
+  convert(currency: Currency, price: number): Amount {
+    const scaled = applyRate(this.units * 10n ** BigInt(currency.decimals), price);
+    return new Amount(scaled / 10n ** BigInt(this.currency.decimals), currency);
+  }
+
+  compare(other: Amount): -1 | 0 | 1 {
+    this.assertSameCurrency(other);
+    return this.units < other.units ? -1 : this.units > other.units ? 1 : 0;
+  }
+
+  lt(other: Amount): boolean {
+    return this.compare(other) < 0;
+  }
+
+  gt(other: Amount): boolean {
+    return this.compare(other) > 0;
+  }
+
+  isZero(): boolean {
+    return this.units === 0n;
+  }
+
+  /**
+   * Exact decimal string in whole tokens, without trailing zeros
+   */
+  toDecimal(): string {
+    const { decimals } = this.currency;
+    const sign = this.units < 0n ? '-' : '';
+    const digits = (this.units < 0n ? -this.units : this.units)
+      .toString()
+      .padStart(decimals + 1, '0');
+    const whole = digits.slice(0, digits.length - decimals);
+    const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+
+    return `${sign}${whole}${fraction ? `.${fraction}` : ''}`;
+  }
+
+  /**
+   * Whole tokens rounded half up to `decimals` places, for display
+   */
+  toFixed(decimals: number): string {
+    const step = 10n ** BigInt(Math.max(0, this.currency.decimals - decimals));
+    const half = (this.units < 0n ? -step : step) / 2n;
+    const rounded = new Amount(((this.units + half) / step) * step, this.currency);
+    const [whole, fraction = ''] = rounded.toDecimal().split('.');
+
+    return decimals > 0 ? `${whole}.${fraction.padEnd(decimals, '0')}` : whole!;
+  }
+
+  /**
+   * Whole tokens as a float, for display or APIs that take numbers. Loses
+   * precision beyond 2^53 base units.
+   */
+  toNumber(): number {
+    return Number(this.toDecimal());
+  }
+
+  /** Cosmos SDK coin, e.g. `{ denom: 'uakt', amount: '1500000' }` */
+  toCoin(): { denom: string; amount: string } {
+    return { denom: this.currency.denom, amount: this.units.toString() };
+  }
+
+  /** bigint can't be serialized, so JSON holds the coin */
+  toJSON(): { denom: string; amount: string } {
+    return this.toCoin();
+  }
+
+  toString(): string {
+    return `${this.toDecimal()} ${this.currency.symbol}`;
+  }
+
+  private assertSameCurrency(other: Amount): void {
+    if (other.currency.denom !== this.currency.denom) {
+      throw new Error(`Cannot combine ${this.currency.symbol} with ${other.currency.symbol}`);
+    }
+  }
+}
+
+/**
+ * Converts between block heights and wall-clock time. Akash bills per block,
+ * so durations are turned into block counts before any money math.
+ */
+export class BlockClock {
+  /** Average seconds per block */
+  readonly blockTime: number;
+
+  constructor(blockTime: number = DEFAULT_BLOCK_TIME) {
+    if (!(blockTime > 0)) {
+      throw new Error(`Invalid block time: ${blockTime}`);
+    }
+    this.blockTime = blockTime;
+  }
+
+  get blocksPerHour(): number {
+    return 3600 / this.blockTime;
+  }
+
+  /**
+   * Blocks produced in `hours`, rounded up so funding never falls short
+   */
+  blocks(hours: number): bigint {
+    return BigInt(Math.ceil((hours * 3600) / this.blockTime));
+  }
+
+  hours(blocks: bigint): number {
+    return (Number(blocks) * this.blockTime) / 3600;
+  }
+}
+
+function parseDecimal(value: string, decimals: number, symbol: string): bigint {
+  const match = value.trim().match(/^(-?)(\d+)(?:\.(\d+))?$/);
+  if (!match) {
+    throw new Error(`Invalid ${symbol} amount: ${value}`);
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  if (fraction.length > decimals) {
+    throw new Error(`${symbol} amounts have at most ${decimals} decimal places: ${value}`);
+  }
+
+  const units = BigInt(`${whole}${fraction.padEnd(decimals, '0')}`);
+  return sign ? -units : units;
+}
+
+function applyRate(units: bigint, rate: number): bigint {
+  if (!Number.isFinite(rate) || rate < 0) {
+    throw new Error(`Invalid rate: ${rate}`);
+  }
+  const scaled = parseDecimal(rate.toFixed(RATE_DECIMALS), RATE_DECIMALS, 'rate');
+  return (units * scaled) / 10n ** BigInt(RATE_DECIMALS);
+}
@@ -0,0 +1,311 @@
+import type { MarketBid, MarketResources } from '@morpheus-deploy/contracts';
+
+import type { SDL, SDLResources } from '../sdl/model.js';
+import { BYTES_PER_GIB, parseSize } from '../utils/size.js';
+
+import { DEFAULT_BLOCK_TIME } from './money.js';
+import type { PriceOracle } from './oracle.js';
+
+/** Blocks per hour at the default block time, used to read market bids */
+export const BLOCKS_PER_HOUR = 3600 / DEFAULT_BLOCK_TIME;
+
+/**
+ * Hourly rates in uakt for one unit of each resource
+ */
+export interface ResourceRates {
+  /** Per CPU unit */
+  cpu: number;
+  /** Per GiB of memory */
+  memory: number;
+  /** Per GiB of storage */
+  storage: number;
+  /** Per GPU by model, e.g. "a100" */
+  gpu: Record<string, number>;
+  /** Per GPU of a model missing from `gpu` */
+  defaultGpu: number;
+}
+
+/**
+ * Rates used offline, or when too few recent bids can be matched to resources
+ */
+export const FALLBACK_RATES: ResourceRates = {
+  cpu: 10_000,
+  memory: 5_000,
+  storage: 1_000,
+  gpu: {
+    a100: 2_500_000,
+    h100: 4_000_000,
+    rtx4090: 1_200_000,
+    a10: 800_000,
+  },
+  defaultGpu: 1_000_000,
+};
+
+/** Order-of-magnitude AKT price for quotes made without a reachable oracle */
+export const FALLBACK_AKT_USD = 1;
+
+/** Bids needed before market prices replace a fallback rate */
+const MIN_SAMPLES = 5;
+
+export interface CostBreakdown {
+  cpu: number;
+  memory: number;
+  storage: number;
+  gpu: number;
+  total: number;
+}
+
+export interface ServiceCost {
+  count: number;
+  /** uakt per hour for every replica, by resource */
+  uakt: CostBreakdown;
+  /** USD per hour for every replica, by resource */
+  usd: CostBreakdown;
+}
+
+export interface CostEstimate {
+  services: Record<string, ServiceCost>;
+  /** uakt per hour */
+  totalUakt: number;
+  /** USD per hour */
+  totalUsd: number;
+  /** AKT price the USD amounts were converted at */
+  aktUsd: number;
+  /** Whether rates and the AKT price came from live data or the fallbacks */
+  source: { rates: 'market' | 'fallback'; aktUsd: 'oracle' | 'fallback' };
+  /** Reasons not to trust the USD amounts, to show next to them */
+  warnings: string[];
+}
+
+export interface PricingServiceOptions {
+  /** Source of recent bids, usually an AkashClient */
+  market?: { listRecentBids(limit?: number): Promise<MarketBid[]> };
+  /** Converts AKT to USD; the fallback price is used without one */
+  oracle?: Pick<PriceOracle, 'getPrice'>;
+  /** How long market rates are reused, in ms (default: 10 minutes) */
+  cacheTTL?: number;
+}
+
+/**
+ * Prices for a set of rates and AKT price, fixed at the time of the quote
+ */
+export class PriceQuote {
+  readonly rates: ResourceRates;
+  readonly aktUsd: number;
+  readonly source: CostEstimate['source'];
+  readonly warnings: string[];
+
+  constructor(rates: ResourceRates, aktUsd: number, source: CostEstimate['source']) {
+    this.rates = rates;
+    this.aktUsd = aktUsd;
+    this.source = source;
+    this.warnings =
+      source.aktUsd === 'fallback'
+        ? [
+            `AKT price unavailable: USD amounts assume $${aktUsd} per AKT and may be far off. ` +
+              'Check the amounts against the market before paying.',
+          ]
+        : [];
+  }
+
+  /**
+   * Hourly cost of `count` replicas of a service
+   */
+  service(resources: SDLResources, count = 1): ServiceCost {
+    const memoryGib = parseSize(resources.memory.size) / BYTES_PER_GIB;
+    const storageGib =
+      resources.storage.reduce((total, { size }) => total + parseSize(size), 0) / BYTES_PER_GIB;
+
+    // A GPU that allows several models is priced at the most expensive one
+    const gpuRates = (resources.gpu?.attributes.vendor.nvidia ?? []).map(
+      ({ model }) => this.rates.gpu[model] ?? this.rates.defaultGpu
+    );
+    const gpuRate = gpuRates.length > 0 ? Math.max(...gpuRates) : this.rates.defaultGpu;
+
+    const uakt = breakdown({
+      cpu: resources.cpu.units * this.rates.cpu * count,
+      memory: memoryGib * this.rates.memory * count,
+      storage: storageGib * this.rates.storage * count,
+      gpu: (resources.gpu?.units ?? 0) * gpuRate * count,
+    });
+
+    return { count, uakt, usd: this.toUsd(uakt) };
+  }
+
+  /**
+   * Hourly cost of every service deployed by an SDL
+   */
+  estimate(sdl: SDL): CostEstimate {
+    const services: Record<string, ServiceCost> = {};
+    let totalUakt = 0;
+
+    for (const [name, placements] of Object.entries(sdl.deployment)) {
+      for (const { profile, count } of Object.values(placements)) {
+        const compute = sdl.profiles.compute[profile];
+        if (!compute) {
+          throw new Error(`Service "${name}" uses unknown compute profile "${profile}"`);
+        }
+
+        const cost = this.service(compute.resources, count);
+        services[name] = cost;
+        totalUakt += cost.uakt.total;
+      }
+    }
+
+    return {
+      services,
+      totalUakt,
+      totalUsd: (totalUakt / 1_000_000) * this.aktUsd,
+      aktUsd: this.aktUsd,
+      source: this.source,
+      warnings: this.warnings,
+    };
+  }
+
+  private toUsd(uakt: CostBreakdown): CostBreakdown {
+    const usd = (amount: number) => (amount / 1_000_000) * this.aktUsd;
+    return breakdown({
+      cpu: usd(uakt.cpu),
+      memory: usd(uakt.memory),
+      storage: usd(uakt.storage),
+      gpu: usd(uakt.gpu),
+    });
+  }
+}
+
+/**
+ * Quotes deployment costs from recent Akash bids, falling back to a static
+ * rate table when the market can't be reached. Shared by the SDL synthesizer
+ * and the API's deploy preview, so both quote the same price.
+ */
+export class PricingService {
+  private market?: PricingServiceOptions['market'];
+  private oracle?: PricingServiceOptions['oracle'];
+  private cacheTTL: number;
+  private cache?: { rates: ResourceRates; source: 'market' | 'fallback'; expiry: number };
+
+  constructor(options: PricingServiceOptions = {}) {
+    this.market = options.market;
+    this.oracle = options.oracle;
+    this.cacheTTL = options.cacheTTL ?? 10 * 60 * 1000;
+  }
+
+  async quote(): Promise<PriceQuote> {
+    const [{ rates, source }, aktUsd] = await Promise.all([this.getRates(), this.getAktPrice()]);
+
+    return new PriceQuote(rates, aktUsd.price, { rates: source, aktUsd: aktUsd.source });
+  }
+
+  /**
+   * Current rates, calibrated against recent bids when a market is configured
+   */
+  async getRates(): Promise<{ rates: ResourceRates; source: 'market' | 'fallback' }> {
+    if (this.cache && this.cache.expiry > Date.now()) {
+      return this.cache;
+    }
+
+    let rates: ResourceRates | null = null;
+    if (this.market) {
+      try {
+        rates = calibrateRates(await this.market.listRecentBids());
+      } catch {
+        // Quote from the fallback table rather than failing a deploy or preview
+      }
+    }
+
+    this.cache = {
+      rates: rates ?? FALLBACK_RATES,
+      source: rates ? 'market' : 'fallback',
+      expiry: Date.now() + this.cacheTTL,
+    };
+    return this.cache;
+  }
+
+  private async getAktPrice(): Promise<{ price: number; source: 'oracle' | 'fallback' }> {
+    if (this.oracle) {
+      try {
+        return { price: await this.oracle.getPrice('AKT', 'USDC'), source: 'oracle' };
+      } catch {
+        // Fall through to the fallback price
+      }
+    }
+    return { price: FALLBACK_AKT_USD, source: 'fallback' };
+  }
+}
+
+/**
+ * Scale the fallback table by how recent bids compare to it. CPU, memory and
+ * storage share one multiplier from bids without GPUs; each GPU model gets its
+ * own from bids for that model. Returns null when there are too few bids.
+ */
+function calibrateRates(bids: MarketBid[]): ResourceRates | null {
+  const baseRatios: number[] = [];
+  const gpuSamples: Array<{ model: string; hourly: number; base: number; units: number }> = [];
+
+  for (const bid of bids) {
+    const hourly = bid.price * BLOCKS_PER_HOUR;
+    const base = bid.resources.reduce((total, unit) => total + baseCost(unit), 0);
+    const gpus = bid.resources.filter(unit => unit.gpu > 0);
+
+    if (gpus.length === 0) {
+      if (base > 0) {
+        baseRatios.push(hourly / base);
+      }
+      continue;
+    }
+
+    // Only bids for a single GPU model can be attributed to that model
+    const models = new Set(gpus.flatMap(unit => unit.gpuModels));
+    const [model] = models;
+    if (models.size === 1 && model) {
+      const units = gpus.reduce((total, unit) => total + unit.gpu * unit.count, 0);
+      gpuSamples.push({ model, hourly, base, units });
+    }
+  }
+
+  if (baseRatios.length < MIN_SAMPLES) {
+    return null;
+  }
+
+  const multiplier = median(baseRatios);
+  const gpu = { ...FALLBACK_RATES.gpu };
+
+  for (const model of new Set(gpuSamples.map(sample => sample.model))) {
+    const perGpu = gpuSamples
+      .filter(sample => sample.model === model)
+      .map(({ hourly, base, units }) => (hourly - base * multiplier) / units)
+      .filter(rate => rate > 0);
+
+    if (perGpu.length >= MIN_SAMPLES) {
+      gpu[model] = median(perGpu);
+    }
+  }
+
+  return {
+    cpu: FALLBACK_RATES.cpu * multiplier,
+    memory: FALLBACK_RATES.memory * multiplier,
+    storage: FALLBACK_RATES.storage * multiplier,
+    gpu,
+    defaultGpu: FALLBACK_RATES.defaultGpu,
+  };
+}
+
+/** Fallback-table cost of the CPU, memory and storage in an offer, in uakt per hour */
+function baseCost(unit: MarketResources): number {
+  return (
+    ((unit.cpu / 1000) * FALLBACK_RATES.cpu +
+      (unit.memory / BYTES_PER_GIB) * FALLBACK_RATES.memory +
+      (unit.storage / BYTES_PER_GIB) * FALLBACK_RATES.storage) *
+    unit.count
+  );
+}
+
+function breakdown(costs: Omit<CostBreakdown, 'total'>): CostBreakdown {
+  return { ...costs, total: costs.cpu + costs.memory + costs.storage + costs.gpu };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle]! : (sorted[middle - 1]! + sorted[middle]!) / 2;
+}
@@ -0,0 +1,218 @@
+import { createHash } from 'crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+
+/**
+ * How transactions submitted to the mock settle:
+ * - `success`: every step completes
+ * - `slippage`: the swap fails on chain because the output fell below the minimum
+ * - `stuck`: the relay never gets past the first step
+ * - `partial`: the relay stops after the first step and releases funds there
+ */
+export type SkipGoScenario = 'success' | 'slippage' | 'stuck' | 'partial';
+
+export interface SkipGoMockRequest {
+  method: string;
+  path: string;
+  body?: Record<string, unknown>;
+}
+
+/** Price of each denom in thousandths of a USDC, and its decimals */
+const PRICES: Record<string, { price: bigint; decimals: bigint }> = {
+  uusdc: { price: 1000n, decimals: 6n },
+  uakt: { price: 2500n, decimals: 6n },
+  umor: { price: 5000n, decimals: 18n },
+};
+
+/** 0.01 USDC per route */
+const FEE = '10000';
+
+const CHAIN_NAMES: Record<string, string> = {
+  '8453': 'base',
+  '84532': 'base',
+  'akashnet-2': 'akash',
+  'sandbox-01': 'akash',
+  'osmosis-1': 'osmosis',
+  'osmo-test-5': 'osmosis',
+};
+
+const SYMBOLS: Record<string, string> = {
+  uusdc: 'USDC',
+  uakt: 'AKT',
+  umor: 'MOR',
+};
+
+/**
+ * A local stand-in for the Skip Go API, for end-to-end tests that can't reach
+ * the network. Quotes are deterministic and each submitted transaction settles
+ * according to the scenario set when it was submitted. Point a `SkipGoClient`
+ * at it with the `baseUrl` option.
+ */
+export class SkipGoMockServer {
+  /** Every request received, oldest first */
+  readonly requests: SkipGoMockRequest[] = [];
+  private scenario: SkipGoScenario;
+  private server?: Server;
+  private transactions = new Map<string, { scenario: SkipGoScenario; steps: number }>();
+  /** Steps in the most recently built route, used by the transaction submitted next */
+  private lastSteps = 1;
+
+  constructor(options: { scenario?: SkipGoScenario } = {}) {
+    this.scenario = options.scenario ?? 'success';
+  }
+
+  setScenario(scenario: SkipGoScenario): void {
+    this.scenario = scenario;
+  }
+
+  /**
+   * Start listening, on a free port unless one is given. Returns the base URL.
+   */
+  async listen(port = 0): Promise<string> {
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        send(res, 500, { message: error instanceof Error ? error.message : String(error) });
+      });
+    });
+    this.server = server;
+
+    await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve, reject) =>
+        server.close(error => (error ? reject(error) : resolve()))
+      );
+    }
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const method = req.method ?? 'GET';
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const body = method === 'POST' ? await readJson(req) : undefined;
+    this.requests.push({ method, path, body });
+
+    if (method === 'POST' && path === '/v2/fungible/route') {
+      return send(res, 200, this.route(body ?? {}));
+    }
+    if (method === 'POST' && path === '/v2/fungible/msgs') {
+      return send(res, 200, {
+        to: '0x000000000000000000000000000000000000dEaD',
+        data: `0x${digest(JSON.stringify(body)).slice(0, 64)}`,
+        value: '0',
+        gas_limit: '500000',
+      });
+    }
+    if (method === 'POST' && path === '/v2/tx/submit') {
+      const txHash = `0x${digest(`${this.transactions.size}:${String(body?.tx_bytes)}`)}`;
+      this.transactions.set(txHash, { scenario: this.scenario, steps: this.lastSteps });
+      return send(res, 200, { tx_hash: txHash, status: 'pending' });
+    }
+
+    const status = path.match(/^\/v2\/tx\/status\/[^/]+\/([^/]+)$/);
+    if (method === 'GET' && status) {
+      const tx = this.transactions.get(status[1] ?? '');
+      return tx
+        ? send(res, 200, settle(tx.scenario, tx.steps))
+        : send(res, 404, { message: 'Transaction not found' });
+    }
+
+    send(res, 404, { message: `No mock for ${method} ${path}` });
+  }
+
+  private route(body: Record<string, unknown>): Record<string, unknown> {
+    const sourceChain = String(body.source_asset_chain_id);
+    const destChain = String(body.dest_asset_chain_id);
+    const sourceDenom = String(body.source_asset_denom);
+    const destDenom = String(body.dest_asset_denom);
+    const source = PRICES[sourceDenom];
+    const dest = PRICES[destDenom];
+    if (!source || !dest) {
+      throw new Error(`No mock price for ${source ? destDenom : sourceDenom}`);
+    }
+
+    const amountOut = (
+      (BigInt(String(body.amount_in)) * source.price * 10n ** dest.decimals) /
+      (dest.price * 10n ** source.decimals)
+    ).toString();
+    const swap = {
+      swap: {
+        from: SYMBOLS[sourceDenom] ?? sourceDenom,
+        to: SYMBOLS[destDenom] ?? destDenom,
+        protocol: sourceChain === destChain ? 'uniswap' : 'osmosis-poolmanager',
+      },
+      estimated_output: amountOut,
+    };
+    const operations =
+      sourceChain === destChain
+        ? [swap]
+        : [
+            {
+              bridge: { from: name(sourceChain), to: 'osmosis', protocol: 'axelar' },
+              estimated_output: String(body.amount_in),
+            },
+            swap,
+            { transfer: { from: 'osmosis', to: name(destChain) }, estimated_output: amountOut },
+          ];
+    this.lastSteps = operations.length;
+
+    return {
+      operations,
+      estimated_amount_out: amountOut,
+      estimated_fees: [{ amount: FEE }],
+      price_impact_percent: '0.1',
+      estimated_route_duration_seconds: 30,
+      source_chain_id: sourceChain,
+      dest_chain_id: destChain,
+    };
+  }
+}
+
+function settle(scenario: SkipGoScenario, steps: number): Record<string, unknown> {
+  switch (scenario) {
+    case 'success':
+      return { status: 'success', current_step: steps, total_steps: steps };
+    case 'slippage':
+      return {
+        status: 'failed',
+        current_step: 1,
+        total_steps: steps,
+        error: 'Swap output below minimum amount out (slippage tolerance exceeded)',
+      };
+    case 'stuck':
+      return { status: 'pending', current_step: 1, total_steps: steps };
+    case 'partial':
+      return {
+        status: 'success',
+        current_step: 1,
+        total_steps: steps,
+        transfer_asset_release: { chain_id: 'osmosis-1', denom: 'uusdc', released: true },
+      };
+  }
+}
+
+function name(chainId: string): string {
+  return CHAIN_NAMES[chainId] ?? chainId;
+}
+
+function digest(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+async function readJson(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf-8');
+  return text ? JSON.parse(text) : {};
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
@@ -43,12 +43,22 @@ export interface TransactionRequest {
 
 export type NetworkMode = 'mainnet' | 'testnet';
 
+export interface SkipGoClientOptions {
+  apiKey?: string;
+  network?: NetworkMode;
+  /** API root, e.g. a local `SkipGoMockServer`. Defaults to the public API. */
+  baseUrl?: string;
+  /** Milliseconds between status checks while waiting for a transaction */
+  pollInterval?: number;
+}
+
 export class SkipGoClient {
-  private baseUrl: string = 'https://api.skip.money';
+  private baseUrl: string;
   private apiVersion: string = 'v2';
   private network: NetworkMode = 'mainnet';
+  private pollInterval: number;
 
-  constructor(options?: { apiKey?: string; network?: NetworkMode }) {
+  constructor(options?: SkipGoClientOptions) {
     // API key for authenticated requests (optional for public endpoints)
     if (options?.apiKey) {
       // Store for authenticated requests
@@ -56,6 +66,8 @@ export class SkipGoClient {
     if (options?.network) {
       this.network = options.network;
     }
+    this.baseUrl = (options?.baseUrl || 'https://api.skip.money').replace(/\/+$/, '');
+    this.pollInterval = options?.pollInterval ?? 3000;
   }
 
   /**
@@ -90,14 +102,15 @@ export class SkipGoClient {
   }
 
   /**
-   * Build transaction for route execution
+   * Build transaction for route execution. The swap reverts on chain if it
+   * would deliver more than `slippagePercent` below the route's estimate.
    */
-  async buildTransaction(route: RouteResponse): Promise<TransactionRequest> {
+  async buildTransaction(route: RouteResponse, slippagePercent: number = 1): Promise<TransactionRequest> {
     const response = await this.request('/fungible/msgs', {
       method: 'POST',
       body: {
         route: route,
-        slippage_tolerance_percent: '1.0',
+        slippage_tolerance_percent: String(slippagePercent),
       },
     }) as { to: string; data: string; value?: string; gas_limit?: string };
 
@@ -166,6 +179,12 @@ export class SkipGoClient {
       const status = await this.getTransactionStatus(txHash, route.sourceChain);
 
       if (status.status === 'success') {
+        // Funds can be released partway along the route if a later hop fails
+        if (status.currentStep < status.totalSteps) {
+          throw new Error(
+            `Transaction only completed ${status.currentStep} of ${status.totalSteps} steps; funds were released before reaching ${route.destChain}`
+          );
+        }
         return;
       }
 
@@ -174,7 +193,7 @@ export class SkipGoClient {
       }
 
       // Wait before next check
-      await this.sleep(3000);
+      await this.sleep(this.pollInterval);
     }
 
     throw new Error('Transaction timeout');
@@ -0,0 +1,127 @@
+import type { SwapProtectionConfig } from '../sdl/types.js';
+
+import { Amount } from './money.js';
+
+/** Percent the delivered amount may fall below the quote on chain */
+export const DEFAULT_MAX_SLIPPAGE = 1;
+/** Largest price impact accepted from a route, in percent */
+export const DEFAULT_MAX_PRICE_IMPACT = 3;
+/** Percent a quote may be worth less than the oracle price says it should */
+export const DEFAULT_MAX_ORACLE_DEVIATION = 5;
+/** Seconds a quote is good for before it is fetched again */
+export const DEFAULT_QUOTE_TTL = 30;
+
+export type SwapProtectionReason =
+  'price-impact' | 'oracle-deviation' | 'quote-moved' | 'quote-expired';
+
+/** What the guard needs to know about a quote */
+export interface GuardedQuote {
+  sourceAmount: Amount;
+  destinationAmount: Amount;
+  /** Percent */
+  priceImpact: number;
+  expiresAt: Date;
+}
+
+/**
+ * Thrown when a swap is stopped by a limit under `funding.swap`. Nothing has
+ * been signed or broadcast for the route when it is thrown.
+ */
+export class SwapProtectionError extends Error {
+  readonly reason: SwapProtectionReason;
+  /** The limit that was exceeded, in percent (seconds for `quote-expired`) */
+  readonly limit: number;
+  /** The value that exceeded it, in the same unit */
+  readonly actual: number;
+
+  constructor(reason: SwapProtectionReason, limit: number, actual: number) {
+    super(describe(reason, limit, actual));
+    this.name = 'SwapProtectionError';
+    this.reason = reason;
+    this.limit = limit;
+    this.actual = actual;
+  }
+}
+
+/**
+ * Checks Skip Go quotes against the limits under `funding.swap` before
+ * `EconomicEngine` signs anything
+ */
+export class SwapGuard {
+  /** Slippage tolerance sent with each route, in percent */
+  readonly maxSlippage: number;
+  /** Seconds a quote is good for */
+  readonly quoteTtl: number;
+  private maxPriceImpact: number;
+  private maxOracleDeviation: number;
+
+  constructor(config: SwapProtectionConfig = {}) {
+    this.maxSlippage = config.maxSlippage ?? DEFAULT_MAX_SLIPPAGE;
+    this.maxPriceImpact = config.maxPriceImpact ?? DEFAULT_MAX_PRICE_IMPACT;
+    this.maxOracleDeviation = config.maxOracleDeviation ?? DEFAULT_MAX_ORACLE_DEVIATION;
+    this.quoteTtl = config.quoteTtl ?? DEFAULT_QUOTE_TTL;
+  }
+
+  /** When a quote fetched now expires */
+  expiresAt(now = Date.now()): Date {
+    return new Date(now + this.quoteTtl * 1000);
+  }
+
+  isExpired(quote: GuardedQuote, now = Date.now()): boolean {
+    return now >= quote.expiresAt.getTime();
+  }
+
+  /**
+   * Throw unless the quote's price impact is within limits and its output is
+   * worth close enough to the input at the oracle price
+   *
+   * @param oraclePrice - Price of one destination token in the source token
+   */
+  check(quote: GuardedQuote, oraclePrice: number): void {
+    if (quote.priceImpact > this.maxPriceImpact) {
+      throw new SwapProtectionError('price-impact', this.maxPriceImpact, quote.priceImpact);
+    }
+
+    // Allow for the output having been rounded down to a base unit
+    const output = quote.destinationAmount.plus(
+      Amount.fromUnits(1, quote.destinationAmount.currency)
+    );
+    const value = output.convert(quote.sourceAmount.currency, oraclePrice);
+    const shortfall = percentBelow(value, quote.sourceAmount);
+    if (shortfall > this.maxOracleDeviation) {
+      throw new SwapProtectionError('oracle-deviation', this.maxOracleDeviation, shortfall);
+    }
+  }
+
+  /**
+   * Throw if a re-quote delivers less than the quote it replaces by more than
+   * the slippage tolerance
+   */
+  checkRequote(previous: GuardedQuote, fresh: GuardedQuote): void {
+    const moved = percentBelow(fresh.destinationAmount, previous.destinationAmount);
+    if (moved > this.maxSlippage) {
+      throw new SwapProtectionError('quote-moved', this.maxSlippage, moved);
+    }
+  }
+}
+
+/** How far `amount` is below `reference`, in percent; 0 when it isn't */
+function percentBelow(amount: Amount, reference: Amount): number {
+  if (reference.isZero() || !amount.lt(reference)) {
+    return 0;
+  }
+  return (reference.minus(amount).toNumber() / reference.toNumber()) * 100;
+}
+
+function describe(reason: SwapProtectionReason, limit: number, actual: number): string {
+  switch (reason) {
+    case 'price-impact':
+      return `Swap aborted: price impact of ${actual.toFixed(2)}% is over the ${limit}% limit`;
+    case 'oracle-deviation':
+      return `Swap aborted: quote is ${actual.toFixed(2)}% below the oracle price (limit ${limit}%)`;
+    case 'quote-moved':
+      return `Swap aborted: re-quoted output fell ${actual.toFixed(2)}% (limit ${limit}%)`;
+    case 'quote-expired':
+      return `Swap aborted: quote expired before it could be signed (valid for ${limit}s)`;
+  }
+}
@@ -1,17 +1,171 @@
 // SDL Synthesis
-export { SDLSynthesizer, type SDLConfig, type SDLOutput } from './sdl/synthesizer.js';
+export {
+  SDLSynthesizer,
+  type SDLConfig,
+  type SDLOutput,
+  type DeploymentCredentials,
+  type PendingSecret,
+} from './sdl/synthesizer.js';
+export {
+  SDLBuilder,
+  parseSDL,
+  stringifySDL,
+  type SDL,
+  type SDLService,
+  type SDLExpose,
+  type SDLProfiles,
+  type SDLComputeProfile,
+  type SDLResources,
+  type SDLStorage,
+  type SDLGpu,
+  type SDLPlacementProfile,
+  type SDLSignedBy,
+  type SDLPrice,
+  type SDLDeployment,
+  type SDLServiceOptions,
+} from './sdl/model.js';
+export { buildGroupSpecs } from './sdl/groups.js';
+export {
+  buildManifest,
+  manifestJSON,
+  manifestVersion,
+  type ManifestGroup,
+  type ManifestService,
+  type ManifestResources,
+  type ManifestExpose,
+} from './sdl/manifest.js';
 export { SDLValidator } from './sdl/validator.js';
 export { SealedSecrets } from './sdl/secrets.js';
 
+// Configuration
+export type {
+  MorpheusConfig,
+  FundingConfig,
+  ResourceConfig,
+  RuntimeConfig,
+  HealthCheckConfig,
+  EnvironmentConfig,
+  ServiceConfig,
+  ServicePortConfig,
+  PlacementConfig,
+  SpendCaps,
+  SpendLimitsConfig,
+  SwapProtectionConfig,
+  Framework,
+} from './sdl/types.js';
+export {
+  DEFAULT_CONFIG,
+  applyConfigDefaults,
+  resolveEnvironment,
+  loadMorpheusConfig,
+} from './config/loader.js';
+export {
+  MorpheusConfigSchema,
+  ResourceConfigSchema,
+  FundingConfigSchema,
+  FundingSplitSchema,
+  SpendCapsSchema,
+  SpendLimitsSchema,
+  SwapProtectionSchema,
+  RuntimeConfigSchema,
+  HealthCheckSchema,
+  EnvironmentConfigSchema,
+  ServiceConfigSchema,
+  PlacementConfigSchema,
+  AkashAddressSchema,
+  EnvironmentOverlaySchema,
+  EnvironmentNameSchema,
+  TemplateSchema,
+  SizeSchema,
+  DurationSchema,
+  ConfigValidationError,
+  parseMorpheusConfig,
+  type ConfigIssue,
+  type MorpheusConfigInput,
+  type EnvironmentOverlay,
+} from './config/schema.js';
+
+// Placement
+export { BidSelector, type BidSelection, type BidRejection } from './placement/selector.js';
+export {
+  BidStrategies,
+  DEFAULT_AUDITORS,
+  type BidStrategy,
+  type ProviderBid,
+} from './placement/strategies.js';
+export {
+  BidPriceGuard,
+  DEFAULT_PRICE_WARN_MARGIN,
+  orderPrice,
+  withOrderPrice,
+  type BidPriceReview,
+} from './placement/price-guard.js';
+
 // Build Engine
 export { BuildEngine, type BuildConfig, type BuildResult } from './build/engine.js';
-export { DockerfileGenerator } from './build/dockerfile.js';
+export { DockerfileGenerator, type DockerfileOptions } from './build/dockerfile.js';
 export { FrameworkDetector } from './build/detector.js';
 
 // Economic Engine
-export { EconomicEngine, type SwapConfig, type SwapResult } from './economic/engine.js';
-export { SkipGoClient } from './economic/skip-go.js';
+export {
+  EconomicEngine,
+  SwapBroadcastError,
+  type EscrowHealth,
+  type SwapConfig,
+  type SwapQuote,
+  type SwapResult,
+} from './economic/engine.js';
+export {
+  Amount,
+  BlockClock,
+  AKT,
+  USDC,
+  MOR,
+  DEFAULT_BLOCK_TIME,
+  type Currency,
+} from './economic/money.js';
+export {
+  SpendTracker,
+  MemorySpendStore,
+  SpendLimitError,
+  DEFAULT_SPEND_WARN_AT,
+  type SpendCheck,
+  type SpendPeriod,
+  type SpendRecord,
+  type SpendScope,
+  type SpendStore,
+  type SpendUsage,
+} from './economic/budget.js';
+export {
+  SwapGuard,
+  SwapProtectionError,
+  DEFAULT_MAX_SLIPPAGE,
+  DEFAULT_MAX_PRICE_IMPACT,
+  DEFAULT_MAX_ORACLE_DEVIATION,
+  DEFAULT_QUOTE_TTL,
+  type GuardedQuote,
+  type SwapProtectionReason,
+} from './economic/swap-guard.js';
+export { SkipGoClient, type SkipGoClientOptions } from './economic/skip-go.js';
+export {
+  SkipGoMockServer,
+  type SkipGoScenario,
+  type SkipGoMockRequest,
+} from './economic/skip-go-mock.js';
 export { PriceOracle } from './economic/oracle.js';
+export {
+  PricingService,
+  PriceQuote,
+  FALLBACK_RATES,
+  FALLBACK_AKT_USD,
+  BLOCKS_PER_HOUR,
+  type ResourceRates,
+  type CostBreakdown,
+  type ServiceCost,
+  type CostEstimate,
+  type PricingServiceOptions,
+} from './economic/pricing.js';
 
 // Utilities
 export { parseDuration, formatDuration } from './utils/duration.js';
+export { parseSize, BYTES_PER_GIB } from './utils/size.js';
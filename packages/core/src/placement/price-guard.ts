@@ -0,0 +1,134 @@
+import type { Amount } from '../economic/money.js';
+import type { SDL } from '../sdl/model.js';
+import type { PlacementConfig } from '../sdl/types.js';
+
+import type { ProviderBid } from './strategies.js';
+
+/** Fraction above the estimate a bid may be before `BidPriceGuard` warns */
+export const DEFAULT_PRICE_WARN_MARGIN = 0.25;
+
+export interface BidPriceReview {
+  /** Price of the best bid, in uakt per block */
+  price: number;
+  /** Estimated price of the deployment, in uakt per block */
+  expected: number;
+  /** Highest price the order was posted with, in uakt per block */
+  ceiling: number;
+  /** How far the best bid is above the estimate, as a fraction; negative when below */
+  overEstimate: number;
+  /** Every bid is at the ceiling, which suggests the estimate is below the market */
+  atCeiling: boolean;
+  warnings: string[];
+  /** Whether to lease the bid or close the order and post it again */
+  action: 'accept' | 'repost';
+  /** Ceiling for the new order, when re-posting */
+  repostCeiling?: number;
+}
+
+/**
+ * Compares the bid chosen by `BidSelector` with what the synthesizer expected
+ * to pay, using the price settings under `placement`. Bids above
+ * `maxPricePerBlock` never get this far; they're rejected by the selector.
+ */
+export class BidPriceGuard {
+  private margin: number;
+  private maxPricePerBlock?: number;
+  private repost: boolean;
+
+  constructor(placement: PlacementConfig = {}) {
+    this.margin = placement.priceWarnMargin ?? DEFAULT_PRICE_WARN_MARGIN;
+    this.maxPricePerBlock = placement.maxPricePerBlock;
+    this.repost = placement.repost ?? false;
+  }
+
+  review(
+    sdl: SDL & { costPerBlock: Amount },
+    best: ProviderBid,
+    bids: ProviderBid[]
+  ): BidPriceReview {
+    const expected = Number(sdl.costPerBlock.units);
+    const ceiling = orderPrice(sdl);
+    const overEstimate = expected > 0 ? best.price / expected - 1 : 0;
+    const atCeiling = bids.length > 0 && bids.every(bid => bid.price >= ceiling);
+    const warnings: string[] = [];
+
+    if (atCeiling) {
+      warnings.push(
+        `Every bid is at the order's ceiling of ${ceiling} uakt/block; ` +
+          'the market may be pricier than the estimate'
+      );
+    }
+
+    let repostCeiling: number | undefined;
+    if (overEstimate > this.margin) {
+      warnings.push(
+        `Best bid of ${best.price} uakt/block is ${Math.round(overEstimate * 100)}% above ` +
+          `the estimate of ${Math.round(expected)} uakt/block`
+      );
+
+      // Only worth re-posting if the new ceiling would exclude this bid
+      const limit = Math.floor(expected * (1 + this.margin));
+      const target = Math.min(limit, this.maxPricePerBlock ?? limit);
+      if (this.repost && target < best.price && target >= 1) {
+        repostCeiling = target;
+      }
+    }
+
+    return {
+      price: best.price,
+      expected,
+      ceiling,
+      overEstimate,
+      atCeiling,
+      warnings,
+      action: repostCeiling === undefined ? 'accept' : 'repost',
+      repostCeiling,
+    };
+  }
+}
+
+/**
+ * Highest price per block the deployment's order accepts: the placement price
+ * of every service times its replica count
+ */
+export function orderPrice(sdl: SDL): number {
+  let total = 0;
+
+  for (const placements of Object.values(sdl.deployment)) {
+    for (const [placementName, { profile, count }] of Object.entries(placements)) {
+      total += (sdl.profiles.placement[placementName]?.pricing[profile]?.amount ?? 0) * count;
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Scale every placement price so the whole order accepts at most `ceiling`
+ * uakt per block. Each price is rounded down, to no less than 1 uakt. The
+ * `raw` YAML of an SDLOutput is left as it was.
+ */
+export function withOrderPrice<T extends SDL>(sdl: T, ceiling: number): T {
+  const current = orderPrice(sdl);
+  if (current <= 0) {
+    return sdl;
+  }
+
+  const factor = ceiling / current;
+  const placement = Object.fromEntries(
+    Object.entries(sdl.profiles.placement).map(([name, profile]) => [
+      name,
+      {
+        ...profile,
+        pricing: Object.fromEntries(
+          Object.entries(profile.pricing).map(([service, price]) => [
+            service,
+            { ...price, amount: Math.max(1, Math.floor(price.amount * factor)) },
+          ])
+        ),
+      },
+    ])
+  );
+
+  return { ...sdl, profiles: { ...sdl.profiles, placement } };
+}
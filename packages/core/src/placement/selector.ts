@@ -0,0 +1,106 @@
+import type { PlacementConfig } from '../sdl/types.js';
+
+import { BidStrategies, type BidStrategy, type ProviderBid } from './strategies.js';
+
+export interface BidRejection<T extends ProviderBid = ProviderBid> {
+  bid: T;
+  /** Name of the strategy that rejected the bid */
+  strategy: string;
+  reason: string;
+}
+
+export interface BidSelection<T extends ProviderBid = ProviderBid> {
+  /** Best acceptable bid, if any */
+  selected?: T;
+  /** Acceptable bids, best first */
+  accepted: T[];
+  rejected: BidRejection<T>[];
+}
+
+/**
+ * Picks a provider bid by running each strategy in order. Every filter must
+ * accept a bid; rankers are applied in order, later ones breaking ties, with
+ * price as the final tie-break.
+ */
+export class BidSelector {
+  private strategies: BidStrategy[];
+
+  constructor(strategies: BidStrategy[] = [BidStrategies.cheapest()]) {
+    this.strategies = strategies;
+  }
+
+  /**
+   * Build the strategies configured in the `placement` section of
+   * morpheus.yaml. GPU deployments only accept providers with the requested
+   * model unless `placement.gpuModel` says otherwise.
+   */
+  static fromConfig(placement: PlacementConfig = {}, gpuModel?: string): BidSelector {
+    const strategies: BidStrategy[] = [];
+
+    if (placement.deny?.length) {
+      strategies.push(BidStrategies.denylist(placement.deny));
+    }
+    if (placement.allow?.length) {
+      strategies.push(BidStrategies.allowlist(placement.allow));
+    }
+    if (placement.maxPricePerBlock !== undefined) {
+      strategies.push(BidStrategies.maxPrice(placement.maxPricePerBlock));
+    }
+    if (placement.verifiedOnly) {
+      strategies.push(BidStrategies.verifiedOnly(placement.auditors));
+    }
+    const region = placement.region ?? placement.attributes?.region;
+    if (region) {
+      strategies.push(BidStrategies.region(region));
+    }
+
+    const model = placement.gpuModel ?? gpuModel;
+    if (model) {
+      strategies.push(BidStrategies.gpuModel(model));
+    }
+
+    strategies.push(
+      placement.strategy === 'uptime-weighted'
+        ? BidStrategies.uptimeWeighted()
+        : BidStrategies.cheapest()
+    );
+
+    return new BidSelector(strategies);
+  }
+
+  select<T extends ProviderBid>(bids: T[]): BidSelection<T> {
+    const accepted: T[] = [];
+    const rejected: BidRejection<T>[] = [];
+
+    for (const bid of bids) {
+      const rejection = this.reject(bid);
+      if (rejection) {
+        rejected.push(rejection);
+      } else {
+        accepted.push(bid);
+      }
+    }
+
+    accepted.sort((a, b) => {
+      for (const strategy of this.strategies) {
+        const order = strategy.compare?.(a, b) ?? 0;
+        if (order !== 0) {
+          return order;
+        }
+      }
+      return a.price - b.price;
+    });
+
+    return { selected: accepted[0], accepted, rejected };
+  }
+
+  private reject<T extends ProviderBid>(bid: T): BidRejection<T> | null {
+    for (const strategy of this.strategies) {
+      const reason = strategy.reject?.(bid);
+      if (reason) {
+        return { bid, strategy: strategy.name, reason };
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * A provider's bid on a deployment, with what is known about the provider
+ */
+export interface ProviderBid {
+  id: string;
+  provider: string;
+  /** Price in uakt per block */
+  price: number;
+  /** Provider attributes, e.g. `region` or `capabilities/gpu/vendor/nvidia/model/a100` */
+  attributes: Record<string, string>;
+  /** Auditors that signed the provider's attributes */
+  auditors?: string[];
+  /** Fraction of the last 30 days the provider was reachable, 0-1 */
+  uptime?: number;
+}
+
+/**
+ * One step of bid selection. Filters reject bids outright; rankers order the
+ * bids that are left. A strategy may do both.
+ */
+export interface BidStrategy {
+  readonly name: string;
+  /** Why the bid is unacceptable, or null to keep it */
+  reject?(bid: ProviderBid): string | null;
+  /** Negative when `a` is the better bid, as for Array.prototype.sort */
+  compare?(a: ProviderBid, b: ProviderBid): number;
+}
+
+/** Overclock Labs, the auditor behind Akash's "audited" provider badge */
+export const DEFAULT_AUDITORS = ['akash1365yvmc4s7awdyj3n2sav7xfx76adc6dnmlx63'];
+
+const GPU_MODEL_PREFIX = 'capabilities/gpu/vendor/';
+
+/**
+ * Built-in bid selection strategies
+ */
+export const BidStrategies = {
+  /**
+   * Prefer the lowest price
+   */
+  cheapest(): BidStrategy {
+    return {
+      name: 'cheapest',
+      compare: (a, b) => a.price - b.price,
+    };
+  },
+
+  /**
+   * Prefer the lowest price per unit of uptime. Providers without uptime data
+   * rank after all others.
+   */
+  uptimeWeighted(): BidStrategy {
+    const effectivePrice = (bid: ProviderBid) =>
+      bid.uptime ? bid.price / bid.uptime : Number.POSITIVE_INFINITY;
+
+    return {
+      name: 'uptime-weighted',
+      compare: (a, b) => effectivePrice(a) - effectivePrice(b) || a.price - b.price,
+    };
+  },
+
+  /**
+   * Only accept providers audited by one of `auditors`
+   */
+  verifiedOnly(auditors: string[] = DEFAULT_AUDITORS): BidStrategy {
+    return {
+      name: 'verified-only',
+      reject: bid =>
+        bid.auditors?.some(auditor => auditors.includes(auditor))
+          ? null
+          : 'provider is not audited by a trusted auditor',
+    };
+  },
+
+  /**
+   * Only accept the listed provider addresses
+   */
+  allowlist(providers: string[]): BidStrategy {
+    return {
+      name: 'allowlist',
+      reject: bid =>
+        providers.includes(bid.provider) ? null : 'provider is not in placement.allow',
+    };
+  },
+
+  /**
+   * Never accept the listed provider addresses
+   */
+  denylist(providers: string[]): BidStrategy {
+    return {
+      name: 'denylist',
+      reject: bid => (providers.includes(bid.provider) ? 'provider is in placement.deny' : null),
+    };
+  },
+
+  /**
+   * Never accept bids above `limit` uakt per block
+   */
+  maxPrice(limit: number): BidStrategy {
+    return {
+      name: 'max-price',
+      reject: bid =>
+        bid.price > limit ? `price is above placement.maxPricePerBlock (${limit})` : null,
+    };
+  },
+
+  /**
+   * Only accept providers whose `region` attribute matches
+   */
+  region(region: string): BidStrategy {
+    return {
+      name: 'region',
+      reject: bid => {
+        const actual = bid.attributes.region;
+        if (actual === region) {
+          return null;
+        }
+        return actual
+          ? `provider region is "${actual}", not "${region}"`
+          : 'provider has no region attribute';
+      },
+    };
+  },
+
+  /**
+   * Only accept providers advertising exactly this GPU model, e.g. "a100" or
+   * "nvidia-a100". A "a100" request doesn't match an "a100-80gb" provider.
+   */
+  gpuModel(model: string): BidStrategy {
+    const wanted = model.toLowerCase().replace(/^nvidia-/, '');
+
+    return {
+      name: 'gpu-model',
+      reject: bid => {
+        const models = Object.entries(bid.attributes)
+          .filter(([key, value]) => key.startsWith(GPU_MODEL_PREFIX) && value === 'true')
+          .map(([key]) => key.slice(GPU_MODEL_PREFIX.length).split('/')[2]?.toLowerCase());
+
+        if (models.includes(wanted)) {
+          return null;
+        }
+        return models.length > 0
+          ? `provider offers ${[...new Set(models)].join(', ')}, not ${wanted}`
+          : 'provider advertises no GPUs';
+      },
+    };
+  },
+};
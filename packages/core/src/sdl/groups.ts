@@ -0,0 +1,162 @@
+import {
+  Endpoint_Kind,
+  type Attribute,
+  type Endpoint,
+  type GroupSpec,
+  type ResourceUnit,
+  type Resources,
+} from '@morpheus-deploy/contracts';
+
+import { parseSize } from '../utils/size.js';
+
+import type { SDL, SDLDeployment, SDLExpose, SDLGpu, SDLResources, SDLStorage } from './model.js';
+
+/** sdk.Dec amounts are integers scaled by 10^18 */
+const DEC_PRECISION = 18;
+
+/**
+ * Build the on-chain group specs for an SDL: one group per placement profile,
+ * with a resource unit for each service deployed to it
+ */
+export function buildGroupSpecs(sdl: SDL): GroupSpec[] {
+  const placementNames = Object.keys(sdl.profiles.placement).sort();
+
+  return placementNames
+    .map(placementName => {
+      const placement = sdl.profiles.placement[placementName]!;
+      const resources: ResourceUnit[] = [];
+
+      for (const { service, id, target } of deployedServices(sdl, placementName)) {
+        const compute = sdl.profiles.compute[target.profile];
+        if (!compute) {
+          throw new Error(`Service "${service}" uses unknown compute profile "${target.profile}"`);
+        }
+
+        const price = placement.pricing[target.profile];
+        if (!price) {
+          throw new Error(
+            `Compute profile "${target.profile}" has no pricing in placement "${placementName}"`
+          );
+        }
+
+        resources.push({
+          resource: {
+            id,
+            ...toResources(compute.resources),
+            endpoints: toEndpoints(sdl.services[service]?.expose ?? []),
+          },
+          count: target.count,
+          price: { denom: price.denom, amount: toDecAmount(price.amount) },
+        });
+      }
+
+      return {
+        name: placementName,
+        requirements: {
+          signedBy: {
+            allOf: placement.signedBy?.allOf ?? [],
+            anyOf: placement.signedBy?.anyOf ?? [],
+          },
+          attributes: toAttributes(placement.attributes ?? {}),
+        },
+        resources,
+      };
+    })
+    .filter(group => group.resources.length > 0);
+}
+
+/**
+ * Services deployed to a placement, with the ID of their resource unit. Units
+ * follow service name order, which the manifest uses to match services to them.
+ */
+export function deployedServices(
+  sdl: SDL,
+  placementName: string
+): Array<{ service: string; id: number; target: SDLDeployment[string] }> {
+  return Object.entries(sdl.deployment)
+    .flatMap(([service, placements]) => {
+      const target = placements[placementName];
+      return target ? [{ service, target }] : [];
+    })
+    .sort((a, b) => a.service.localeCompare(b.service))
+    .map((entry, index) => ({ ...entry, id: index + 1 }));
+}
+
+function toResources(resources: SDLResources): Omit<Resources, 'id' | 'endpoints'> {
+  return {
+    cpu: {
+      units: resourceValue(Math.round(resources.cpu.units * 1000)),
+      attributes: [],
+    },
+    memory: {
+      quantity: resourceValue(parseSize(resources.memory.size)),
+      attributes: [],
+    },
+    storage: resources.storage.map(storage => ({
+      name: storage.name ?? 'default',
+      quantity: resourceValue(parseSize(storage.size)),
+      attributes: toStorageAttributes(storage.attributes ?? {}),
+    })),
+    // v1beta3 requires a GPU entry on every resource, with zero units when unused
+    gpu: {
+      units: resourceValue(resources.gpu?.units ?? 0),
+      attributes: toGpuAttributes(resources.gpu),
+    },
+  };
+}
+
+/**
+ * Globally exposed ports need an endpoint: port 80 goes through the provider's
+ * HTTP ingress, anything else gets a random external port
+ */
+export function toEndpoints(expose: SDLExpose[]): Endpoint[] {
+  return expose.flatMap(entry =>
+    (entry.to ?? [])
+      .filter(to => to.global)
+      .map(() => ({
+        kind:
+          entry.proto !== 'udp' && (entry.as ?? entry.port) === 80
+            ? Endpoint_Kind.SHARED_HTTP
+            : Endpoint_Kind.RANDOM_PORT,
+        sequenceNumber: 0,
+      }))
+  );
+}
+
+/** RAM-backed volumes are never persistent, so providers expect that spelled out */
+export function toStorageAttributes(
+  attributes: NonNullable<SDLStorage['attributes']>
+): Attribute[] {
+  return toAttributes(
+    attributes.class === 'ram' && attributes.persistent === undefined
+      ? { ...attributes, persistent: false }
+      : attributes
+  );
+}
+
+export function toGpuAttributes(gpu?: SDLGpu): Attribute[] {
+  return (gpu?.attributes.vendor.nvidia ?? []).map(({ model }) => ({
+    key: `vendor/nvidia/model/${model}`,
+    value: 'true',
+  }));
+}
+
+function toAttributes(attributes: Record<string, unknown>): Attribute[] {
+  return Object.entries(attributes)
+    .map(([key, value]) => ({ key, value: String(value) }))
+    .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+}
+
+function resourceValue(value: number): { val: Uint8Array } {
+  return { val: new TextEncoder().encode(String(value)) };
+}
+
+function toDecAmount(amount: number): string {
+  const match = String(amount).match(/^(\d+)(?:\.(\d{1,18}))?$/);
+  if (!match) {
+    throw new Error(`Invalid price amount ${amount}`);
+  }
+
+  const [, whole, fraction = ''] = match;
+  return `${whole}${fraction.padEnd(DEC_PRECISION, '0')}`.replace(/^0+(?=\d)/, '');
+}
@@ -0,0 +1,199 @@
+import { createHash } from 'crypto';
+
+import { Endpoint_Kind, type Attribute } from '@morpheus-deploy/contracts';
+
+import { parseSize } from '../utils/size.js';
+
+import { deployedServices, toEndpoints, toGpuAttributes, toStorageAttributes } from './groups.js';
+import type { SDL, SDLExpose, SDLResources, SDLService } from './model.js';
+
+/**
+ * Manifest the provider runs: one group per placement profile, matching the
+ * on-chain group of the same name
+ */
+export interface ManifestGroup {
+  name: string;
+  services: ManifestService[];
+}
+
+export interface ManifestService {
+  name: string;
+  image: string;
+  command: string[] | null;
+  args: string[] | null;
+  env: string[] | null;
+  resources: ManifestResources;
+  count: number;
+  expose: ManifestExpose[];
+  params: { storage: Array<{ name: string; mount: string; readOnly: boolean }> } | null;
+  credentials: null;
+}
+
+/** Resource values are decimal strings, as in the provider's JSON codec */
+export interface ManifestResources {
+  /** ID of the resource unit in the on-chain group */
+  id: number;
+  cpu: { units: { val: string } };
+  memory: { size: { val: string } };
+  storage: Array<{ name: string; size: { val: string }; attributes?: Attribute[] }>;
+  /** `kind` is omitted for SHARED_HTTP, its zero value */
+  endpoints: Array<{ kind?: Endpoint_Kind; sequence_number: number }>;
+  gpu: { units: { val: string }; attributes?: Attribute[] };
+}
+
+export interface ManifestExpose {
+  port: number;
+  externalPort: number;
+  proto: 'TCP' | 'UDP';
+  service: string;
+  global: boolean;
+  hosts: string[] | null;
+  httpOptions: typeof HTTP_OPTIONS;
+  ip: string;
+  endpointSequenceNumber: number;
+}
+
+/** Provider defaults, which the SDL model doesn't override */
+const HTTP_OPTIONS = {
+  maxBodySize: 1048576,
+  readTimeout: 60000,
+  sendTimeout: 60000,
+  nextTries: 3,
+  nextTimeout: 0,
+  nextCases: ['error', 'timeout'],
+};
+
+/**
+ * Build the manifest groups for an SDL, with services sorted by name as the
+ * provider expects
+ */
+export function buildManifest(sdl: SDL): ManifestGroup[] {
+  return Object.keys(sdl.profiles.placement)
+    .sort()
+    .map(placementName => ({
+      name: placementName,
+      services: deployedServices(sdl, placementName).map(({ service: name, id, target }) => {
+        const service = sdl.services[name];
+        if (!service) {
+          throw new Error(`Service "${name}" is deployed but not defined`);
+        }
+
+        const compute = sdl.profiles.compute[target.profile];
+        if (!compute) {
+          throw new Error(`Service "${name}" uses unknown compute profile "${target.profile}"`);
+        }
+
+        return {
+          name,
+          image: service.image,
+          command: service.command ?? null,
+          args: service.args ?? null,
+          env: service.env ?? null,
+          resources: toManifestResources(id, compute.resources, service),
+          count: target.count,
+          expose: toManifestExpose(service.expose ?? []),
+          params: toManifestParams(service.params),
+          credentials: null,
+        };
+      }),
+    }))
+    .filter(group => group.services.length > 0);
+}
+
+/**
+ * The manifest as providers hash it: JSON with sorted keys and HTML characters
+ * escaped, like Go's encoder. This is also the body `sendManifest` uploads.
+ */
+export function manifestJSON(sdl: SDL): string {
+  return canonicalJSON(buildManifest(sdl))
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026');
+}
+
+/**
+ * Manifest version stored on chain. Providers reject a manifest whose hash
+ * doesn't match, so this must hash exactly what `sendManifest` uploads.
+ */
+export function manifestVersion(sdl: SDL): Uint8Array {
+  return new Uint8Array(createHash('sha256').update(manifestJSON(sdl)).digest());
+}
+
+function toManifestResources(
+  id: number,
+  resources: SDLResources,
+  service: SDLService
+): ManifestResources {
+  return {
+    id,
+    cpu: { units: { val: String(Math.round(resources.cpu.units * 1000)) } },
+    memory: { size: { val: String(parseSize(resources.memory.size)) } },
+    storage: resources.storage.map(storage => ({
+      name: storage.name ?? 'default',
+      size: { val: String(parseSize(storage.size)) },
+      ...(storage.attributes && { attributes: toStorageAttributes(storage.attributes) }),
+    })),
+    endpoints: toEndpoints(service.expose ?? []).map(({ kind, sequenceNumber }) =>
+      kind === Endpoint_Kind.SHARED_HTTP
+        ? { sequence_number: sequenceNumber }
+        : { kind, sequence_number: sequenceNumber }
+    ),
+    gpu: {
+      units: { val: String(resources.gpu?.units ?? 0) },
+      ...(resources.gpu && { attributes: toGpuAttributes(resources.gpu) }),
+    },
+  };
+}
+
+/** One entry per destination, ordered the way the provider sorts them */
+function toManifestExpose(expose: SDLExpose[]): ManifestExpose[] {
+  return expose
+    .flatMap(entry =>
+      (entry.to ?? []).map(to => ({
+        port: entry.port,
+        externalPort: entry.as ?? 0,
+        proto: entry.proto === 'udp' ? ('UDP' as const) : ('TCP' as const),
+        service: to.service ?? '',
+        global: to.global ?? false,
+        hosts: entry.accept ?? null,
+        httpOptions: { ...HTTP_OPTIONS },
+        ip: '',
+        endpointSequenceNumber: 0,
+      }))
+    )
+    .sort(
+      (a, b) =>
+        a.service.localeCompare(b.service) ||
+        a.port - b.port ||
+        a.proto.localeCompare(b.proto) ||
+        Number(b.global) - Number(a.global)
+    );
+}
+
+function toManifestParams(params: SDLService['params']): ManifestService['params'] {
+  if (!params) {
+    return null;
+  }
+
+  return {
+    storage: Object.entries(params.storage ?? {}).map(([name, { mount, readOnly }]) => ({
+      name,
+      mount,
+      readOnly: readOnly ?? false,
+    })),
+  };
+}
+
+/** JSON with object keys sorted, so equal manifests always hash the same */
+function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJSON).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJSON(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,267 @@
+import { parse, stringify } from 'yaml';
+
+/**
+ * Canonical Akash SDL v2.0 model, shared by the synthesizer, templates and CLI.
+ * See https://akash.network/docs/getting-started/stack-definition-language/
+ */
+export interface SDL {
+  version: '2.0';
+  services: Record<string, SDLService>;
+  profiles: SDLProfiles;
+  /** Service name -> placement profile name -> compute profile and replica count */
+  deployment: Record<string, SDLDeployment>;
+}
+
+export interface SDLService {
+  image: string;
+  command?: string[];
+  args?: string[];
+  env?: string[];
+  expose?: SDLExpose[];
+  params?: {
+    storage?: Record<string, { mount: string; readOnly?: boolean }>;
+  };
+}
+
+export interface SDLExpose {
+  port: number;
+  as?: number;
+  proto?: 'tcp' | 'udp';
+  accept?: string[];
+  to?: Array<{ global?: boolean; service?: string }>;
+}
+
+export interface SDLProfiles {
+  compute: Record<string, SDLComputeProfile>;
+  placement: Record<string, SDLPlacementProfile>;
+}
+
+export interface SDLComputeProfile {
+  resources: SDLResources;
+}
+
+export interface SDLResources {
+  cpu: { units: number };
+  memory: { size: string };
+  storage: SDLStorage[];
+  gpu?: SDLGpu;
+}
+
+export interface SDLStorage {
+  /** Volume name referenced by `params.storage` in the service */
+  name?: string;
+  size: string;
+  attributes?: {
+    persistent?: boolean;
+    class?: string;
+  };
+}
+
+export interface SDLGpu {
+  units: number;
+  attributes: {
+    vendor: {
+      nvidia: Array<{ model: string }>;
+    };
+  };
+}
+
+export interface SDLPlacementProfile {
+  /** Attributes a provider must advertise, e.g. region or tier */
+  attributes?: Record<string, string>;
+  signedBy?: SDLSignedBy;
+  /** Maximum price per block for each service placed here */
+  pricing: Record<string, SDLPrice>;
+}
+
+/** Auditors that must have signed a provider's attributes */
+export interface SDLSignedBy {
+  /** At least one of these must have signed */
+  anyOf?: string[];
+  /** Every one of these must have signed */
+  allOf?: string[];
+}
+
+export interface SDLPrice {
+  denom: string;
+  amount: number;
+}
+
+export type SDLDeployment = Record<string, { profile: string; count: number }>;
+
+export interface SDLServiceOptions {
+  /** Replica count (default: 1) */
+  count?: number;
+  /** Bid price per block for one replica */
+  pricing?: SDLPrice;
+}
+
+const DEFAULT_PLACEMENT = 'akash';
+
+export class SDLBuilder {
+  private sdl: SDL;
+  private placement: string;
+
+  /**
+   * @param placement Placement profile every service is deployed to
+   */
+  constructor(placement = DEFAULT_PLACEMENT) {
+    this.placement = placement;
+    this.sdl = {
+      version: '2.0',
+      services: {},
+      profiles: {
+        compute: {},
+        placement: { [placement]: { pricing: {} } },
+      },
+      deployment: {},
+    };
+  }
+
+  /**
+   * Add a service with a compute profile of the same name
+   */
+  addService(
+    name: string,
+    service: SDLService,
+    resources: SDLResources,
+    options: SDLServiceOptions = {}
+  ): this {
+    if (this.sdl.services[name]) {
+      throw new Error(`SDL already defines service "${name}"`);
+    }
+
+    this.sdl.services[name] = service;
+    this.sdl.profiles.compute[name] = { resources };
+    this.sdl.deployment[name] = {
+      [this.placement]: { profile: name, count: options.count ?? 1 },
+    };
+
+    if (options.pricing) {
+      this.setPricing(name, options.pricing);
+    }
+
+    return this;
+  }
+
+  hasService(name: string): boolean {
+    return name in this.sdl.services;
+  }
+
+  setPricing(service: string, pricing: SDLPrice): this {
+    this.sdl.profiles.placement[this.placement]!.pricing[service] = pricing;
+    return this;
+  }
+
+  setPlacementAttributes(attributes: Record<string, string>): this {
+    this.sdl.profiles.placement[this.placement]!.attributes = attributes;
+    return this;
+  }
+
+  setSignedBy(signedBy: SDLSignedBy): this {
+    this.sdl.profiles.placement[this.placement]!.signedBy = signedBy;
+    return this;
+  }
+
+  /**
+   * Return the SDL, failing if any service has no price in its placement
+   */
+  build(): SDL {
+    const placement = this.sdl.profiles.placement[this.placement]!;
+    for (const name of Object.keys(this.sdl.services)) {
+      if (!placement.pricing[name]) {
+        throw new Error(`Service "${name}" has no pricing in placement "${this.placement}"`);
+      }
+    }
+
+    return structuredClone(this.sdl);
+  }
+}
+
+/**
+ * Serialize an SDL to YAML. Only the SDL sections are written, so computed
+ * fields on richer objects (costs, credentials) never leak into the output.
+ */
+export function stringifySDL(sdl: SDL): string {
+  const document: SDL = {
+    version: sdl.version,
+    services: sdl.services,
+    profiles: sdl.profiles,
+    deployment: sdl.deployment,
+  };
+
+  return stringify(document, { indent: 2, lineWidth: 0 });
+}
+
+/**
+ * Parse SDL YAML, checking the structure and the references between sections
+ */
+export function parseSDL(source: string): SDL {
+  let document: unknown;
+  try {
+    document = parse(source);
+  } catch (error) {
+    throw new Error(
+      `Invalid SDL: ${error instanceof Error ? error.message : 'could not parse YAML'}`
+    );
+  }
+
+  if (!isRecord(document)) {
+    throw new Error('Invalid SDL: expected a YAML mapping');
+  }
+
+  // `version: 2.0` without quotes parses as a number
+  if (String(document.version) !== '2.0' && document.version !== 2) {
+    throw new Error(`Invalid SDL: unsupported version "${String(document.version)}"`);
+  }
+
+  const { services, profiles, deployment } = document;
+  if (!isRecord(services) || Object.keys(services).length === 0) {
+    throw new Error('Invalid SDL: "services" must define at least one service');
+  }
+  if (!isRecord(profiles) || !isRecord(profiles.compute) || !isRecord(profiles.placement)) {
+    throw new Error('Invalid SDL: "profiles" must define "compute" and "placement"');
+  }
+  if (!isRecord(deployment)) {
+    throw new Error('Invalid SDL: "deployment" must be a mapping');
+  }
+
+  for (const [name, service] of Object.entries(services)) {
+    if (!isRecord(service) || typeof service.image !== 'string') {
+      throw new Error(`Invalid SDL: service "${name}" must specify an image`);
+    }
+  }
+
+  for (const [name, placements] of Object.entries(deployment)) {
+    if (!services[name]) {
+      throw new Error(`Invalid SDL: deployment "${name}" does not match a service`);
+    }
+    if (!isRecord(placements)) {
+      throw new Error(`Invalid SDL: deployment "${name}" must map placements to profiles`);
+    }
+    for (const [placement, target] of Object.entries(placements)) {
+      if (!profiles.placement[placement]) {
+        throw new Error(`Invalid SDL: deployment "${name}" uses unknown placement "${placement}"`);
+      }
+      if (!isRecord(target) || typeof target.profile !== 'string') {
+        throw new Error(`Invalid SDL: deployment "${name}.${placement}" must specify a profile`);
+      }
+      if (!profiles.compute[target.profile]) {
+        throw new Error(
+          `Invalid SDL: deployment "${name}" uses unknown compute profile "${target.profile}"`
+        );
+      }
+    }
+  }
+
+  return {
+    version: '2.0',
+    services: services as SDL['services'],
+    profiles: profiles as unknown as SDLProfiles,
+    deployment: deployment as SDL['deployment'],
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,38 +1,86 @@
-import { encrypt, decrypt as eciesDecrypt, PrivateKey } from 'eciesjs';
 import { randomBytes } from 'crypto';
 
+import { encrypt, decrypt as eciesDecrypt, PrivateKey } from 'eciesjs';
+
+import type { PendingSecret } from './synthesizer.js';
+
 export interface EncryptedSecret {
   ciphertext: string;
   ephemeralPublicKey: string;
   nonce: string;
 }
 
+interface SealableService {
+  env?: string[];
+}
+
+interface SealableSDL {
+  services: Record<string, SealableService>;
+  pendingSecrets?: PendingSecret[];
+}
+
 export class SealedSecrets {
   private providerPublicKeys: Map<string, string> = new Map();
 
   /**
-   * Fetch and cache a provider's public key
+   * Fetch and cache a provider's public key.
+   * Throws when the provider does not publish a valid key, since sealing to
+   * any other key would leave the secrets unreadable on the provider.
    */
-  async fetchProviderPublicKey(providerAddress: string): Promise<string> {
+  async fetchProviderPublicKey(
+    providerAddress: string,
+    providerUrl = `https://${providerAddress}.akash.pub`
+  ): Promise<string> {
     if (this.providerPublicKeys.has(providerAddress)) {
       return this.providerPublicKeys.get(providerAddress)!;
     }
 
-    // Query provider's public key from their API
-    // In production, this would be fetched from the provider's endpoint
+    const endpoint = `${providerUrl.replace(/\/$/, '')}/v1/public-key`;
+    let publicKey: string | undefined;
+
     try {
-      const response = await fetch(
-        `https://${providerAddress}.akash.pub/v1/public-key`
+      const response = await fetch(endpoint);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const data = (await response.json()) as { publicKey?: string };
+      publicKey = data.publicKey;
+    } catch (error) {
+      throw new Error(
+        `Failed to fetch public key for provider ${providerAddress} from ${endpoint}: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
-      const data = await response.json() as { publicKey: string };
-      this.providerPublicKeys.set(providerAddress, data.publicKey);
-      return data.publicKey;
-    } catch {
-      // For development, generate a deterministic key
-      const mockKey = this.generateDeterministicKey(providerAddress);
-      this.providerPublicKeys.set(providerAddress, mockKey);
-      return mockKey;
     }
+
+    if (!publicKey || !/^(02|03|04)[0-9a-fA-F]+$/.test(publicKey)) {
+      throw new Error(`Provider ${providerAddress} returned an invalid public key`);
+    }
+
+    this.providerPublicKeys.set(providerAddress, publicKey);
+    return publicKey;
+  }
+
+  /**
+   * Seal pending secrets for a provider, replacing each KEY=${KEY}
+   * placeholder with the encrypted value. Returns a copy without the
+   * plaintext pendingSecrets.
+   */
+  async seal<T extends SealableSDL>(sdl: T, providerPublicKey: string): Promise<T> {
+    const services: Record<string, SealableService> = {};
+    for (const [name, service] of Object.entries(sdl.services)) {
+      services[name] = { ...service, env: service.env ? [...service.env] : undefined };
+    }
+
+    for (const secret of sdl.pendingSecrets || []) {
+      const env = services[secret.service]?.env;
+      const index = env?.indexOf(`${secret.key}=\${${secret.key}}`) ?? -1;
+      if (!env || index === -1) {
+        throw new Error(`No placeholder for secret "${secret.key}" in service "${secret.service}"`);
+      }
+      env[index] =
+        `${secret.key}=${await this.encrypt(secret.key, secret.value, providerPublicKey)}`;
+    }
+
+    return { ...sdl, services, pendingSecrets: [] } as T;
   }
 
   /**
@@ -103,6 +151,13 @@ export class SealedSecrets {
     return value.startsWith('enc:');
   }
 
+  /**
+   * Generate a random URL-safe password for sidecar credentials
+   */
+  generatePassword(bytes = 24): string {
+    return randomBytes(bytes).toString('base64url');
+  }
+
   /**
    * Generate a new keypair for testing
    */
@@ -144,12 +199,6 @@ export class SealedSecrets {
   private getDefaultPublicKey(): string {
     // Default public key for development/testing
     // In production, this would be fetched from the provider
-    return '04' + randomBytes(64).toString('hex');
-  }
-
-  private generateDeterministicKey(seed: string): string {
-    // Generate a deterministic key from a seed (for testing)
-    const hash = Buffer.from(seed).toString('hex').padEnd(64, '0').slice(0, 64);
-    return '04' + hash + hash;
+    return new PrivateKey().publicKey.toHex();
   }
 }
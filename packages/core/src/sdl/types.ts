@@ -1,3 +1,5 @@
+import type { EnvironmentOverlay } from '../config/schema.js';
+
 export interface MorpheusConfig {
   project: string;
   template: 'ai-agent' | 'mcp-server' | 'website' | 'custom';
@@ -7,6 +9,71 @@ export interface MorpheusConfig {
   resources?: ResourceConfig;
   runtime?: RuntimeConfig;
   env?: EnvironmentConfig;
+  /** How a provider is chosen from the bids on a deployment */
+  placement?: PlacementConfig;
+  /**
+   * Named services for multi-service deployments (e.g. api, worker, redis).
+   * When set, replaces the single "agent" service built from `resources`/`runtime`.
+   */
+  services?: Record<string, ServiceConfig>;
+  /**
+   * Named overlays (e.g. staging, production) deep-merged over this config
+   * when selected with `--env`
+   */
+  environments?: Record<string, EnvironmentOverlay>;
+}
+
+export interface ServiceConfig {
+  /** Image to run. Omit to use the image built from this project. */
+  image?: string;
+  command?: string[];
+  /** Shorthand for a single port, exposed globally unless other services depend on it */
+  port?: number;
+  ports?: ServicePortConfig[];
+  /** Services this one connects to. Their ports are exposed to this service. */
+  dependsOn?: string[];
+  resources?: ResourceConfig;
+  env?: EnvironmentConfig;
+  /** Number of replicas (default: 1) */
+  count?: number;
+  /** Mount path for a persistent volume backed by `resources.storage` */
+  mount?: string;
+}
+
+export interface ServicePortConfig {
+  port: number;
+  /** External port (default: 80 for global ports, otherwise the same as `port`) */
+  as?: number;
+  global?: boolean;
+  /** Services allowed to reach this port */
+  to?: string[];
+}
+
+/** Caps in USDC; a period left unset is unlimited */
+export interface SpendCaps {
+  daily?: number;
+  weekly?: number;
+  monthly?: number;
+}
+
+export interface SpendLimitsConfig {
+  /** Caps on automatic top-ups of each deployment */
+  deployment?: SpendCaps;
+  /** Caps on automatic top-ups paid by the wallet, across every deployment */
+  wallet?: SpendCaps;
+  /** Fraction of a cap at which a warning is logged (default: 0.8) */
+  warnAt?: number;
+}
+
+export interface SwapProtectionConfig {
+  /** Most the delivered amount may fall below the quote, in percent (default: 1) */
+  maxSlippage?: number;
+  /** Largest price impact accepted from a route, in percent (default: 3) */
+  maxPriceImpact?: number;
+  /** Most a quote may be worth below the oracle price, in percent (default: 5) */
+  maxOracleDeviation?: number;
+  /** Seconds before a quote is stale and fetched again (default: 30) */
+  quoteTtl?: number;
 }
 
 export interface FundingConfig {
@@ -21,6 +88,12 @@ export interface FundingConfig {
    * Default: "1y" (1 year)
    */
   duration?: string;
+  /** Average Akash block time in seconds, used to turn durations into blocks (default: 6) */
+  blockTime?: number;
+  /** Spending caps for automatic top-ups */
+  limits?: SpendLimitsConfig;
+  /** Protection against bad prices on cross-chain swaps */
+  swap?: SwapProtectionConfig;
   split: {
     staking: number;
     compute: number;
@@ -38,10 +111,65 @@ export interface ResourceConfig {
   };
 }
 
+export type Framework = 'nextjs' | 'express' | 'node' | 'python' | 'static';
+
 export interface RuntimeConfig {
   image?: string;
   port?: number;
-  framework?: 'nextjs' | 'express' | 'node';
+  framework?: Framework;
+  /**
+   * Registry to push built images to (e.g. "ghcr.io/acme").
+   * Providers pull images from here, so it is required unless `image` is set.
+   */
+  registry?: string;
+  /** HTTP check a deploy must pass before it counts as successful */
+  healthCheck?: HealthCheckConfig;
+}
+
+export interface HealthCheckConfig {
+  /** Path requested from the service URL (default: "/") */
+  path?: string;
+  /** Response status that counts as healthy (default: 200) */
+  status?: number;
+  /** Seconds to wait for each response (default: 5) */
+  timeout?: number;
+  /** Failed checks to retry before giving up (default: 10) */
+  retries?: number;
+  /** Seconds between checks (default: 5) */
+  interval?: number;
+}
+
+export interface PlacementConfig {
+  /** How acceptable bids are ranked (default: "cheapest") */
+  strategy?: 'cheapest' | 'uptime-weighted';
+  /** Only accept providers audited by one of `auditors` */
+  verifiedOnly?: boolean;
+  /** Auditor addresses trusted by `verifiedOnly` (default: Overclock Labs) */
+  auditors?: string[];
+  /** Only accept bids from these provider addresses */
+  allow?: string[];
+  /** Never accept bids from these provider addresses */
+  deny?: string[];
+  /** Required value of the provider's `region` attribute */
+  region?: string;
+  /** Other provider attributes the SDL placement requires, e.g. tier or host */
+  attributes?: Record<string, string>;
+  /** Auditor signatures the SDL placement requires, on top of `verifiedOnly` */
+  signedBy?: {
+    anyOf?: string[];
+    allOf?: string[];
+  };
+  /** Required GPU model, e.g. "a100" (default: `resources.gpu.model`) */
+  gpuModel?: string;
+  /** Highest price in uakt per block accepted for the whole deployment */
+  maxPricePerBlock?: number;
+  /** Warn when the best bid is this fraction above the estimate (default: 0.25) */
+  priceWarnMargin?: number;
+  /**
+   * When the best bid is above the warning margin, close the order and post it
+   * again with its ceiling at the margin instead of accepting the bid
+   */
+  repost?: boolean;
 }
 
 export interface EnvironmentConfig {
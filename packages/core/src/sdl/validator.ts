@@ -1,4 +1,9 @@
-import type { SDLOutput } from './synthesizer.js';
+import { AKASH_ADDRESS_REGEX } from '../config/schema.js';
+
+import type { SDL, SDLPlacementProfile, SDLResources } from './model.js';
+
+/** Attribute keys as accepted by the Akash provider */
+const ATTRIBUTE_KEY_REGEX = /^[a-zA-Z][\w/.-]{1,126}$/;
 
 export interface ValidationResult {
   valid: boolean;
@@ -19,7 +24,7 @@ export interface ValidationWarning {
 }
 
 export class SDLValidator {
-  validate(sdl: SDLOutput): ValidationResult {
+  validate(sdl: SDL): ValidationResult {
     const errors: ValidationError[] = [];
     const warnings: ValidationWarning[] = [];
 
@@ -51,65 +56,6 @@ export class SDLValidator {
         });
       }
 
-      // Validate resources
-      if (!service.resources) {
-        errors.push({
-          code: 'MISSING_RESOURCES',
-          message: `Service "${name}" must specify resources`,
-          path: `services.${name}.resources`,
-        });
-      } else {
-        // CPU validation
-        if (!service.resources.cpu?.units || service.resources.cpu.units <= 0) {
-          errors.push({
-            code: 'INVALID_CPU',
-            message: `Service "${name}" must have positive CPU units`,
-            path: `services.${name}.resources.cpu`,
-          });
-        }
-
-        // Memory validation
-        if (!service.resources.memory?.size) {
-          errors.push({
-            code: 'INVALID_MEMORY',
-            message: `Service "${name}" must specify memory size`,
-            path: `services.${name}.resources.memory`,
-          });
-        }
-
-        // Storage validation
-        if (!service.resources.storage || service.resources.storage.length === 0) {
-          errors.push({
-            code: 'INVALID_STORAGE',
-            message: `Service "${name}" must specify at least one storage volume`,
-            path: `services.${name}.resources.storage`,
-          });
-        }
-
-        // GPU validation
-        if (service.resources.gpu) {
-          if (service.resources.gpu.units <= 0) {
-            errors.push({
-              code: 'INVALID_GPU_UNITS',
-              message: `Service "${name}" GPU units must be positive`,
-              path: `services.${name}.resources.gpu.units`,
-            });
-          }
-
-          const supportedGPUs = ['a100', 'h100', 'rtx4090', 'a10', 'rtx3090'];
-          const models = service.resources.gpu.attributes?.vendor?.nvidia || [];
-          for (const model of models) {
-            if (!supportedGPUs.includes(model.model.toLowerCase())) {
-              warnings.push({
-                code: 'UNKNOWN_GPU_MODEL',
-                message: `GPU model "${model.model}" may not be widely available`,
-                suggestion: `Consider using one of: ${supportedGPUs.join(', ')}`,
-              });
-            }
-          }
-        }
-      }
-
       // Check for exposed ports
       if (!service.expose || service.expose.length === 0) {
         warnings.push({
@@ -120,31 +66,48 @@ export class SDLValidator {
       }
     }
 
-    // Validate profiles match services
+    // Validate deployments reference compute profiles and placement pricing
+    let totalCPU = 0;
     for (const [name] of Object.entries(sdl.services)) {
-      if (!sdl.deployment[name]) {
+      const placements = Object.entries(sdl.deployment?.[name] || {});
+      if (placements.length === 0) {
         errors.push({
           code: 'MISSING_DEPLOYMENT',
           message: `Service "${name}" is not defined in deployment section`,
           path: `deployment.${name}`,
         });
       }
+
+      for (const [placement, { profile, count }] of placements) {
+        const resources = sdl.profiles?.compute?.[profile]?.resources;
+        const path = `profiles.compute.${profile}.resources`;
+        this.validateResources(name, path, resources, errors, warnings);
+        totalCPU += (resources?.cpu?.units || 0) * (count || 1);
+
+        if (!sdl.profiles?.placement?.[placement]?.pricing?.[name]) {
+          errors.push({
+            code: 'MISSING_PRICING',
+            message: `Service "${name}" has no pricing in placement "${placement}"`,
+            path: `profiles.placement.${placement}.pricing.${name}`,
+          });
+        }
+
+        // GPU capacity and prices vary widely between regions
+        if (resources?.gpu && !sdl.profiles?.placement?.[placement]?.attributes?.region) {
+          warnings.push({
+            code: 'GPU_WITHOUT_REGION',
+            message: `Service "${name}" requests a GPU without a region constraint`,
+            suggestion: 'Set placement.region in morpheus.yaml to pin GPU providers to a region',
+          });
+        }
+      }
     }
 
-    // Validate placement
-    if (!sdl.placement?.akash?.pricing) {
-      errors.push({
-        code: 'MISSING_PRICING',
-        message: 'SDL must specify placement pricing',
-        path: 'placement.akash.pricing',
-      });
+    for (const [name, placement] of Object.entries(sdl.profiles?.placement || {})) {
+      this.validatePlacement(`profiles.placement.${name}`, placement, errors);
     }
 
     // Resource warnings
-    const totalCPU = Object.values(sdl.services).reduce(
-      (sum, s) => sum + (s.resources?.cpu?.units || 0),
-      0
-    );
     if (totalCPU > 16) {
       warnings.push({
         code: 'HIGH_CPU_USAGE',
@@ -160,6 +123,101 @@ export class SDLValidator {
     };
   }
 
+  private validateResources(
+    name: string,
+    path: string,
+    resources: SDLResources | undefined,
+    errors: ValidationError[],
+    warnings: ValidationWarning[]
+  ): void {
+    if (!resources) {
+      errors.push({
+        code: 'MISSING_RESOURCES',
+        message: `Service "${name}" must specify resources`,
+        path,
+      });
+      return;
+    }
+
+    // CPU validation
+    if (!resources.cpu?.units || resources.cpu.units <= 0) {
+      errors.push({
+        code: 'INVALID_CPU',
+        message: `Service "${name}" must have positive CPU units`,
+        path: `${path}.cpu`,
+      });
+    }
+
+    // Memory validation
+    if (!resources.memory?.size) {
+      errors.push({
+        code: 'INVALID_MEMORY',
+        message: `Service "${name}" must specify memory size`,
+        path: `${path}.memory`,
+      });
+    }
+
+    // Storage validation
+    if (!resources.storage || resources.storage.length === 0) {
+      errors.push({
+        code: 'INVALID_STORAGE',
+        message: `Service "${name}" must specify at least one storage volume`,
+        path: `${path}.storage`,
+      });
+    }
+
+    // GPU validation
+    if (resources.gpu) {
+      if (resources.gpu.units <= 0) {
+        errors.push({
+          code: 'INVALID_GPU_UNITS',
+          message: `Service "${name}" GPU units must be positive`,
+          path: `${path}.gpu.units`,
+        });
+      }
+
+      const supportedGPUs = ['a100', 'h100', 'rtx4090', 'a10', 'rtx3090'];
+      const models = resources.gpu.attributes?.vendor?.nvidia || [];
+      for (const model of models) {
+        if (!supportedGPUs.includes(model.model.toLowerCase())) {
+          warnings.push({
+            code: 'UNKNOWN_GPU_MODEL',
+            message: `GPU model "${model.model}" may not be widely available`,
+            suggestion: `Consider using one of: ${supportedGPUs.join(', ')}`,
+          });
+        }
+      }
+    }
+  }
+
+  private validatePlacement(
+    path: string,
+    placement: SDLPlacementProfile,
+    errors: ValidationError[]
+  ): void {
+    for (const key of Object.keys(placement.attributes || {})) {
+      if (!ATTRIBUTE_KEY_REGEX.test(key)) {
+        errors.push({
+          code: 'INVALID_ATTRIBUTE',
+          message: `Placement attribute "${key}" is not a valid attribute key`,
+          path: `${path}.attributes.${key}`,
+        });
+      }
+    }
+
+    for (const list of ['anyOf', 'allOf'] as const) {
+      for (const auditor of placement.signedBy?.[list] || []) {
+        if (!AKASH_ADDRESS_REGEX.test(auditor)) {
+          errors.push({
+            code: 'INVALID_AUDITOR',
+            message: `Auditor "${auditor}" is not an Akash address`,
+            path: `${path}.signedBy.${list}`,
+          });
+        }
+      }
+    }
+  }
+
   validateEnvironment(env: string[]): ValidationResult {
     const errors: ValidationError[] = [];
     const warnings: ValidationWarning[] = [];
@@ -176,9 +234,11 @@ export class SDLValidator {
       const [key, value] = envVar.split('=');
       if (!key || !value) continue;
 
-      // Check for sensitive values that might not be encrypted
+      // Check for sensitive values that might not be encrypted. A ${KEY}
+      // placeholder is sealed for the provider after bid selection.
+      const pendingSeal = value === `\${${key}}`;
       for (const pattern of sensitivePatterns) {
-        if (pattern.test(key) && !value.startsWith('enc:')) {
+        if (pattern.test(key) && !value.startsWith('enc:') && !pendingSeal) {
           warnings.push({
             code: 'UNENCRYPTED_SECRET',
             message: `Environment variable "${key}" appears to be sensitive but is not encrypted`,
@@ -0,0 +1,32 @@
+/**
+ * Utilities for parsing Kubernetes-style sizes such as "512Mi" or "4Gi".
+ */
+
+const SIZE_UNITS: Record<string, number> = {
+  k: 1000,
+  Ki: 1024,
+  M: 1000 ** 2,
+  Mi: 1024 ** 2,
+  G: 1000 ** 3,
+  Gi: 1024 ** 3,
+  T: 1000 ** 4,
+  Ti: 1024 ** 4,
+};
+
+export const BYTES_PER_GIB = 1024 ** 3;
+
+/**
+ * Parses a size string into bytes. Plain numbers are bytes.
+ *
+ * @param size The size string to parse, e.g. "512Mi", "4Gi" or "1G"
+ * @returns The number of bytes
+ * @throws Error if the format is invalid
+ */
+export function parseSize(size: string): number {
+  const match = size.match(/^(\d+(?:\.\d+)?)(k|Ki|M|Mi|G|Gi|T|Ti)?$/);
+  if (!match) {
+    throw new Error(`Invalid size "${size}"`);
+  }
+
+  return Math.round(parseFloat(match[1]!) * (match[2] ? SIZE_UNITS[match[2]]! : 1));
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+
+import { BidSelector } from '../src/placement/selector';
+import { DEFAULT_AUDITORS, type ProviderBid } from '../src/placement/strategies';
+
+const PROVIDER_A = 'akash1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqa';
+const PROVIDER_B = 'akash1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqb';
+const PROVIDER_C = 'akash1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqc';
+
+function bid(provider: string, price: number, extra: Partial<ProviderBid> = {}): ProviderBid {
+  return { id: `1-1-1-${provider}`, provider, price, attributes: {}, ...extra };
+}
+
+describe('BidSelector', () => {
+  it('should pick the cheapest bid by default', () => {
+    const selection = new BidSelector().select([
+      bid(PROVIDER_A, 30),
+      bid(PROVIDER_B, 10),
+      bid(PROVIDER_C, 20),
+    ]);
+
+    expect(selection.selected?.provider).toBe(PROVIDER_B);
+    expect(selection.accepted.map(b => b.price)).toEqual([10, 20, 30]);
+    expect(selection.rejected).toEqual([]);
+  });
+
+  it('should report which strategy rejected each bid', () => {
+    const selection = BidSelector.fromConfig({ deny: [PROVIDER_B], region: 'us-west' }).select([
+      bid(PROVIDER_A, 30, { attributes: { region: 'us-west' } }),
+      bid(PROVIDER_B, 10, { attributes: { region: 'us-west' } }),
+      bid(PROVIDER_C, 20, { attributes: { region: 'eu-central' } }),
+    ]);
+
+    expect(selection.selected?.provider).toBe(PROVIDER_A);
+    expect(selection.rejected).toEqual([
+      expect.objectContaining({ strategy: 'denylist', reason: 'provider is in placement.deny' }),
+      expect.objectContaining({
+        strategy: 'region',
+        reason: 'provider region is "eu-central", not "us-west"',
+      }),
+    ]);
+  });
+
+  it('should only accept allowlisted providers', () => {
+    const selection = BidSelector.fromConfig({ allow: [PROVIDER_C] }).select([
+      bid(PROVIDER_A, 10),
+      bid(PROVIDER_C, 20),
+    ]);
+
+    expect(selection.accepted.map(b => b.provider)).toEqual([PROVIDER_C]);
+  });
+
+  it('should require a trusted auditor with verifiedOnly', () => {
+    const selection = BidSelector.fromConfig({ verifiedOnly: true }).select([
+      bid(PROVIDER_A, 10),
+      bid(PROVIDER_B, 20, { auditors: [PROVIDER_C] }),
+      bid(PROVIDER_C, 30, { auditors: DEFAULT_AUDITORS }),
+    ]);
+
+    expect(selection.selected?.provider).toBe(PROVIDER_C);
+    expect(selection.rejected).toHaveLength(2);
+  });
+
+  it('should reject bids above maxPricePerBlock', () => {
+    const selection = BidSelector.fromConfig({ maxPricePerBlock: 20 }).select([
+      bid(PROVIDER_A, 20),
+      bid(PROVIDER_B, 21),
+    ]);
+
+    expect(selection.accepted.map(b => b.provider)).toEqual([PROVIDER_A]);
+    expect(selection.rejected[0]).toMatchObject({
+      strategy: 'max-price',
+      reason: 'price is above placement.maxPricePerBlock (20)',
+    });
+  });
+
+  it('should rank by price per unit of uptime', () => {
+    const selection = BidSelector.fromConfig({ strategy: 'uptime-weighted' }).select([
+      bid(PROVIDER_A, 10, { uptime: 0.5 }),
+      bid(PROVIDER_B, 15, { uptime: 0.99 }),
+      bid(PROVIDER_C, 5),
+    ]);
+
+    expect(selection.accepted.map(b => b.provider)).toEqual([PROVIDER_B, PROVIDER_A, PROVIDER_C]);
+  });
+
+  it('should match the GPU model exactly', () => {
+    const gpu = (model: string) => ({
+      attributes: { [`capabilities/gpu/vendor/nvidia/model/${model}`]: 'true' },
+    });
+
+    const selection = BidSelector.fromConfig({}, 'nvidia-a100').select([
+      bid(PROVIDER_A, 10, gpu('a100-80gb')),
+      bid(PROVIDER_B, 20, gpu('a100')),
+      bid(PROVIDER_C, 5),
+    ]);
+
+    expect(selection.selected?.provider).toBe(PROVIDER_B);
+    expect(selection.rejected.map(r => r.reason)).toEqual([
+      'provider offers a100-80gb, not a100',
+      'provider advertises no GPUs',
+    ]);
+  });
+
+  it('should let placement.gpuModel override the resources GPU', () => {
+    const selection = BidSelector.fromConfig({ gpuModel: 'h100' }, 'a100').select([
+      bid(PROVIDER_A, 10, { attributes: { 'capabilities/gpu/vendor/nvidia/model/h100': 'true' } }),
+    ]);
+
+    expect(selection.selected?.provider).toBe(PROVIDER_A);
+  });
+
+  it('should run custom strategies in order', () => {
+    const selection = new BidSelector([
+      { name: 'even-only', reject: b => (b.price % 2 === 0 ? null : 'odd price') },
+      { name: 'most-expensive', compare: (a, b) => b.price - a.price },
+    ]).select([bid(PROVIDER_A, 10), bid(PROVIDER_B, 13), bid(PROVIDER_C, 20)]);
+
+    expect(selection.accepted.map(b => b.price)).toEqual([20, 10]);
+    expect(selection.rejected[0]).toMatchObject({ strategy: 'even-only', reason: 'odd price' });
+  });
+
+  it('should leave selected empty when every bid is rejected', () => {
+    const selection = BidSelector.fromConfig({ region: 'us-east' }).select([bid(PROVIDER_A, 10)]);
+
+    expect(selection.selected).toBeUndefined();
+    expect(selection.rejected[0]?.reason).toBe('provider has no region attribute');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { MemorySpendStore, SpendTracker } from '../src/economic/budget';
+import { Amount, USDC } from '../src/economic/money';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function usdc(value: string): Amount {
+  return Amount.parse(value, USDC);
+}
+
+describe('SpendTracker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should allow anything without limits', async () => {
+    const tracker = new SpendTracker();
+
+    expect(await tracker.check('1', '0xwallet', usdc('1000000'))).toEqual({
+      allowed: true,
+      warnings: [],
+      exceeded: [],
+    });
+    expect(await tracker.usage('1', '0xwallet')).toEqual([]);
+  });
+
+  it('should block spending over a deployment cap', async () => {
+    const tracker = new SpendTracker({ deployment: { daily: 10 } });
+    await tracker.record('1', '0xwallet', usdc('6'));
+
+    const check = await tracker.check('1', '0xwallet', usdc('5'));
+
+    expect(check.allowed).toBe(false);
+    expect(check.exceeded).toEqual([
+      { scope: 'deployment', period: 'daily', limit: usdc('10'), spent: usdc('6') },
+    ]);
+    // Other deployments have their own cap
+    expect((await tracker.check('2', '0xwallet', usdc('5'))).allowed).toBe(true);
+  });
+
+  it('should count every deployment towards the wallet cap', async () => {
+    const tracker = new SpendTracker({ wallet: { weekly: 20 } });
+    await tracker.record('1', '0xwallet', usdc('8'));
+    await tracker.record('2', '0xwallet', usdc('8'));
+    await tracker.record('3', '0xother', usdc('8'));
+
+    const check = await tracker.check('3', '0xwallet', usdc('5'));
+
+    expect(check.allowed).toBe(false);
+    expect(check.exceeded[0]?.spent).toEqual(usdc('16'));
+  });
+
+  it('should warn once spending reaches the threshold', async () => {
+    const tracker = new SpendTracker({ deployment: { daily: 10, monthly: 100 }, warnAt: 0.5 });
+    await tracker.record('1', '0xwallet', usdc('3'));
+
+    const check = await tracker.check('1', '0xwallet', usdc('2'));
+
+    expect(check.allowed).toBe(true);
+    expect(check.warnings.map(usage => usage.period)).toEqual(['daily']);
+  });
+
+  it('should only count spending inside each rolling window', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    const store = new MemorySpendStore();
+    const tracker = new SpendTracker({ deployment: { daily: 10, weekly: 30 } }, store);
+    await tracker.record('1', '0xwallet', usdc('9'));
+
+    vi.setSystemTime(Date.now() + 2 * DAY);
+    const usage = await tracker.usage('1', '0xwallet');
+
+    expect(usage.find(u => u.period === 'daily')?.spent).toEqual(usdc('0'));
+    expect(usage.find(u => u.period === 'weekly')?.spent).toEqual(usdc('9'));
+
+    // Records past the longest window are dropped on the next write
+    vi.setSystemTime(Date.now() + 31 * DAY);
+    await tracker.record('1', '0xwallet', usdc('1'));
+    expect(await store.load()).toHaveLength(1);
+  });
+});
@@ -1,3 +1,7 @@
+import { join } from 'path';
+
+import Docker from 'dockerode';
+import { create } from 'tar';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 
 import { BuildEngine, type BuildConfig } from '../src/build/engine';
@@ -18,7 +22,9 @@ vi.mock('fs', async () => {
 });
 
 vi.mock('fs/promises', () => ({
-  readFile: vi.fn().mockResolvedValue('FROM node:18'),
+  readFile: vi.fn(async (path: string) =>
+    path.endsWith('.dockerignore') ? 'config.*\n**/*.log\ntmp?/\n' : 'FROM node:18'
+  ),
   writeFile: vi.fn().mockResolvedValue(undefined),
   mkdir: vi.fn().mockResolvedValue(undefined),
 }));
@@ -109,6 +115,37 @@ describe('BuildEngine', () => {
       expect(typeof result.size).toBe('number');
       expect(typeof result.buildTime).toBe('number');
     });
+
+    it('should leave out files matched by .dockerignore', async () => {
+      await buildEngine.build({ context: '/tmp/test-project', dockerfile: 'Dockerfile' });
+
+      const { filter } = vi.mocked(create).mock.calls[0]![0] as {
+        filter: (path: string) => boolean;
+      };
+      expect(filter('./config.json')).toBe(false);
+      expect(filter('./config')).toBe(true);
+      expect(filter('./configXjson')).toBe(true);
+      expect(filter('./app.log')).toBe(false);
+      expect(filter('./logs/app.log')).toBe(false);
+      expect(filter('./tmp1/cache')).toBe(false);
+      expect(filter('./src/index.ts')).toBe(true);
+      expect(filter('./node_modules/x/index.js')).toBe(false);
+    });
+
+    it('should report push failures as such', async () => {
+      const { modem } = vi.mocked(Docker).mock.results.at(-1)!.value;
+      modem.followProgress
+        .mockImplementationOnce((_stream: unknown, onFinished: (...args: unknown[]) => void) =>
+          onFinished(null, [])
+        )
+        .mockImplementationOnce((_stream: unknown, onFinished: (...args: unknown[]) => void) =>
+          onFinished(null, [{ error: 'denied: requested access to the resource is denied' }])
+        );
+
+      await expect(
+        buildEngine.build({ context: '/tmp/test-project', registry: 'ghcr.io/acme', push: true })
+      ).rejects.toThrow('Docker push failed: denied');
+    });
   });
 });
 
@@ -139,6 +176,29 @@ describe('DockerfileGenerator', () => {
       expect(dockerfile).toContain('FROM node');
     });
 
+    it('should match docker/build-engine/Dockerfile.template for node', async () => {
+      const { readFile } = await vi.importActual<typeof import('fs/promises')>('fs/promises');
+      const template = await readFile(
+        join(__dirname, '../../../docker/build-engine/Dockerfile.template'),
+        'utf-8'
+      );
+
+      const dockerfile = await generator.generate({
+        framework: 'express',
+        port: 3000,
+        nodeVersion: '22',
+        startCommand: ['node', 'server.js'],
+      });
+
+      expect(dockerfile).toBe(
+        generator.render(template, {
+          PORT: '3000',
+          NODE_VERSION: '22',
+          START_COMMAND: '["node","server.js"]',
+        })
+      );
+    });
+
     it('should generate Dockerfile for python', async () => {
       const dockerfile = await generator.generate({
         framework: 'python',
@@ -147,6 +207,24 @@ describe('DockerfileGenerator', () => {
 
       expect(dockerfile).toContain('FROM python');
     });
+
+    it('should render runtime values into the template', async () => {
+      const dockerfile = await generator.generate({
+        framework: 'python',
+        port: 9000,
+        startCommand: ['uvicorn', 'app:app'],
+      });
+
+      expect(dockerfile).toContain('EXPOSE 9000');
+      expect(dockerfile).toContain('CMD ["uvicorn","app:app"]');
+      expect(dockerfile).not.toContain('{{');
+    });
+
+    it('should reject unknown template variables', () => {
+      expect(() => generator.render('FROM {{BASE_IMAGE}}', {})).toThrow(
+        'Unknown Dockerfile template variable: BASE_IMAGE'
+      );
+    });
   });
 });
 
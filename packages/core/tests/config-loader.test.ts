@@ -0,0 +1,148 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  DEFAULT_CONFIG,
+  applyConfigDefaults,
+  loadMorpheusConfig,
+  resolveEnvironment,
+} from '../src/config/loader';
+import { ConfigValidationError } from '../src/config/schema';
+
+describe('applyConfigDefaults', () => {
+  it('should fill every section of an empty config', () => {
+    const config = applyConfigDefaults({});
+
+    expect(config).toEqual({
+      ...DEFAULT_CONFIG,
+      env: undefined,
+      services: undefined,
+    });
+  });
+
+  it('should keep network and funding.duration from the file', () => {
+    const config = applyConfigDefaults({
+      network: 'testnet',
+      funding: { duration: '30d' },
+    });
+
+    expect(config.network).toBe('testnet');
+    expect(config.funding?.duration).toBe('30d');
+    expect(config.funding?.sourceToken).toBe('USDC');
+  });
+
+  it('should merge nested sections key by key', () => {
+    const config = applyConfigDefaults({
+      resources: { cpu: 4 },
+      runtime: { framework: 'python' },
+    });
+
+    expect(config.resources).toEqual({ tier: 'medium', cpu: 4, memory: '4Gi', storage: '10Gi' });
+    expect(config.runtime).toEqual({ port: 8000, framework: 'python' });
+  });
+
+  it('should not share default objects between configs', () => {
+    const first = applyConfigDefaults({});
+    first.funding!.split.staking = 0;
+
+    expect(applyConfigDefaults({}).funding?.split.staking).toBe(0.6);
+  });
+});
+
+describe('resolveEnvironment', () => {
+  const config = {
+    project: 'my-agent',
+    network: 'mainnet' as const,
+    resources: { cpu: 4, memory: '8Gi' },
+    env: { variables: { NODE_ENV: 'production', LOG_LEVEL: 'info' }, secrets: ['API_KEY'] },
+    environments: {
+      staging: {
+        network: 'testnet' as const,
+        resources: { cpu: 1 },
+        funding: { duration: '30d' },
+        env: { variables: { LOG_LEVEL: 'debug' }, secrets: ['STAGING_API_KEY'] },
+      },
+    },
+  };
+
+  it('should deep-merge the overlay over the base config', () => {
+    const staging = resolveEnvironment(config, 'staging');
+
+    expect(staging.network).toBe('testnet');
+    expect(staging.resources).toEqual({ cpu: 1, memory: '8Gi' });
+    expect(staging.funding).toEqual({ duration: '30d' });
+    expect(staging.env?.variables).toEqual({ NODE_ENV: 'production', LOG_LEVEL: 'debug' });
+  });
+
+  it('should replace lists instead of concatenating them', () => {
+    expect(resolveEnvironment(config, 'staging').env?.secrets).toEqual(['STAGING_API_KEY']);
+  });
+
+  it('should drop environments from the resolved config', () => {
+    expect(resolveEnvironment(config, 'staging')).not.toHaveProperty('environments');
+    expect(resolveEnvironment(config)).not.toHaveProperty('environments');
+    expect(resolveEnvironment(config).resources).toEqual({ cpu: 4, memory: '8Gi' });
+  });
+
+  it('should reject unknown environments', () => {
+    expect(() => resolveEnvironment(config, 'prod')).toThrow(
+      'Unknown environment "prod" (available: staging)'
+    );
+    expect(() => resolveEnvironment({}, 'prod')).toThrow('(available: none)');
+  });
+});
+
+describe('loadMorpheusConfig', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'morpheus-config-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read, validate and apply defaults', async () => {
+    const path = join(dir, 'morpheus.yaml');
+    await writeFile(path, 'project: my-agent\nnetwork: testnet\nresources:\n  cpu: 1\n');
+
+    const config = await loadMorpheusConfig(path);
+
+    expect(config.project).toBe('my-agent');
+    expect(config.network).toBe('testnet');
+    expect(config.resources?.cpu).toBe(1);
+    expect(config.resources?.memory).toBe('4Gi');
+  });
+
+  it('should apply the selected environment before defaults', async () => {
+    const path = join(dir, 'morpheus.yaml');
+    await writeFile(
+      path,
+      'project: my-agent\nenvironments:\n  staging:\n    network: testnet\n    funding:\n      duration: 30d\n'
+    );
+
+    const production = await loadMorpheusConfig(path);
+    const staging = await loadMorpheusConfig(path, 'staging');
+
+    expect(production.network).toBe('mainnet');
+    expect(production.funding?.duration).toBe('1y');
+    expect(staging.network).toBe('testnet');
+    expect(staging.funding?.duration).toBe('30d');
+    expect(staging.funding?.sourceToken).toBe('USDC');
+  });
+
+  it('should report errors against the file name', async () => {
+    const path = join(dir, 'morpheus.yaml');
+    await writeFile(path, 'netwrok: testnet\n');
+
+    const error = await loadMorpheusConfig(path).catch(e => e);
+
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect(error.file).toBe('morpheus.yaml');
+    expect(error.message).toContain('morpheus.yaml:1:1 netwrok: Unknown key "netwrok"');
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+
+import { ConfigValidationError, parseMorpheusConfig } from '../src/config/schema';
+
+function issuesOf(source: string) {
+  try {
+    parseMorpheusConfig(source);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    return (error as ConfigValidationError).issues;
+  }
+  throw new Error('Expected validation to fail');
+}
+
+describe('parseMorpheusConfig', () => {
+  it('should accept a complete configuration', () => {
+    const config = parseMorpheusConfig(
+      [
+        'project: my-agent',
+        'template: ai-agent',
+        'funding:',
+        '  duration: 30d',
+        '  split:',
+        '    staking: 0.6',
+        '    compute: 0.4',
+        'resources:',
+        '  cpu: 2',
+        '  memory: 4Gi',
+        'env:',
+        '  variables:',
+        '    PORT: 8000',
+        '    DEBUG: false',
+      ].join('\n')
+    );
+
+    expect(config.project).toBe('my-agent');
+    expect(config.funding?.split).toEqual({ staking: 0.6, compute: 0.4 });
+    expect(config.env?.variables).toEqual({ PORT: '8000', DEBUG: 'false' });
+  });
+
+  it('should accept an empty file', () => {
+    expect(parseMorpheusConfig('')).toEqual({});
+  });
+
+  it('should report unknown keys at their line and column', () => {
+    const issues = issuesOf('project: app\nresoures:\n  cpu: 2\nruntime:\n  prot: 8000\n');
+
+    expect(issues).toEqual([
+      { path: 'resoures', message: 'Unknown key "resoures"', line: 2, column: 1 },
+      { path: 'runtime.prot', message: 'Unknown key "prot"', line: 5, column: 3 },
+    ]);
+  });
+
+  it('should report type errors at the offending value', () => {
+    const [issue] = issuesOf('runtime:\n  port: "8000"\n');
+
+    expect(issue).toMatchObject({ path: 'runtime.port', line: 2, column: 9 });
+    expect(issue?.message).toMatch(/expected number/i);
+  });
+
+  it('should require the funding split to sum to 1', () => {
+    const [issue] = issuesOf('funding:\n  split:\n    staking: 0.7\n    compute: 0.4\n');
+
+    expect(issue).toMatchObject({
+      path: 'funding.split',
+      message: 'split.staking and split.compute must sum to 1',
+      line: 3,
+    });
+  });
+
+  it('should reject memory sizes without Mi or Gi units', () => {
+    const [issue] = issuesOf('resources:\n  memory: 4GB\n');
+
+    expect(issue).toMatchObject({ path: 'resources.memory', line: 2 });
+    expect(issue?.message).toContain('Invalid size');
+  });
+
+  it('should reject malformed durations', () => {
+    const [issue] = issuesOf('funding:\n  duration: forever\n');
+
+    expect(issue).toMatchObject({ path: 'funding.duration', line: 2 });
+    expect(issue?.message).toContain('Invalid duration');
+  });
+
+  it('should validate environment overlays like the base config', () => {
+    const issues = issuesOf(
+      'environments:\n  staging:\n    project: other\n    resources:\n      memory: 1GB\n'
+    );
+
+    expect(issues).toEqual([
+      {
+        path: 'environments.staging.project',
+        message: 'Unknown key "project"',
+        line: 3,
+        column: 5,
+      },
+      expect.objectContaining({ path: 'environments.staging.resources.memory', line: 5 }),
+    ]);
+  });
+
+  it('should reject environment names that are unsafe in file names', () => {
+    const [issue] = issuesOf('environments:\n  ../prod:\n    network: testnet\n');
+
+    expect(issue?.message).toContain('Invalid environment name');
+  });
+
+  it('should validate provider addresses in placement', () => {
+    const [issue] = issuesOf(
+      'placement:\n  strategy: uptime-weighted\n  deny:\n    - akash1notanaddress\n'
+    );
+
+    expect(issue).toMatchObject({ path: 'placement.deny.0', line: 4, column: 7 });
+    expect(issue?.message).toContain('Invalid Akash address');
+  });
+
+  it('should validate runtime health checks', () => {
+    expect(
+      parseMorpheusConfig('runtime:\n  healthCheck:\n    path: /health\n    retries: 3\n').runtime
+    ).toEqual({ healthCheck: { path: '/health', retries: 3 } });
+
+    const issues = issuesOf('runtime:\n  healthCheck:\n    path: health\n    status: 42\n');
+    expect(issues.map(issue => issue.path)).toEqual([
+      'runtime.healthCheck.path',
+      'runtime.healthCheck.status',
+    ]);
+  });
+
+  it('should report YAML syntax errors with their location', () => {
+    const issues = issuesOf('project: app\nruntime:\n  port: [8000\n');
+
+    expect(issues[0]?.line).toBeGreaterThan(0);
+    expect(issues[0]?.path).toBe('');
+  });
+
+  it('should format every issue in the error message', () => {
+    expect(() => parseMorpheusConfig('resoures: {}\ntemplate: blog\n', 'app.yaml')).toThrow(
+      /Invalid app\.yaml:\n {2}app\.yaml:1:1 resoures: Unknown key "resoures"\n {2}app\.yaml:2:11 template: /
+    );
+  });
+});
@@ -1,13 +1,22 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-
-import { EconomicEngine, type SwapConfig } from '../src/economic/engine';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { SpendLimitError, SpendTracker } from '../src/economic/budget';
+import { EconomicEngine, SwapBroadcastError, type SwapConfig } from '../src/economic/engine';
+import { AKT, Amount, MOR, USDC } from '../src/economic/money';
+import { PriceOracle } from '../src/economic/oracle';
+import { SkipGoClient } from '../src/economic/skip-go';
+import { SwapProtectionError } from '../src/economic/swap-guard';
 import type { MorpheusConfig } from '../src/sdl/types';
 
 // Mock the SkipGoClient
 vi.mock('../src/economic/skip-go', () => ({
   SkipGoClient: vi.fn().mockImplementation(() => ({
-    getRoute: vi.fn().mockResolvedValue({
-      estimatedOutput: '2450000',
+    // 2.45 USDC per AKT or MOR, matching the oracle
+    getRoute: vi.fn().mockImplementation(async ({ amount, destToken }) => ({
+      estimatedOutput: (destToken === 'USDC'
+        ? (BigInt(amount) * 245n) / 100n
+        : (BigInt(amount) * (destToken === 'MOR' ? 10n ** 12n : 1n) * 100n) / 245n
+      ).toString(),
       estimatedFee: '10000',
       route: [
         { from: 'base', to: 'osmosis' },
@@ -16,7 +25,7 @@ vi.mock('../src/economic/skip-go', () => ({
       priceImpact: 0.01,
       estimatedTime: 120,
       sourceChain: 'base',
-    }),
+    })),
     buildTransaction: vi.fn().mockResolvedValue({
       chainId: '8453',
       to: '0x123',
@@ -95,123 +104,358 @@ describe('EconomicEngine', () => {
     it('should return a swap quote', async () => {
       const config: SwapConfig = {
         sourceToken: 'USDC',
-        amount: 100,
+        amount: Amount.parse('100', USDC),
         destination: 'akash',
       };
 
       const quote = await engine.getSwapQuote(config);
 
       expect(quote).toBeDefined();
-      expect(typeof quote.sourceAmount).toBe('number');
-      expect(typeof quote.destinationAmount).toBe('number');
-      expect(typeof quote.estimatedFee).toBe('number');
+      expect(quote.sourceAmount.toString()).toBe('100 USDC');
+      expect(quote.destinationAmount.toString()).toBe('40.816326 AKT');
+      expect(quote.estimatedFee.toString()).toBe('0.01 USDC');
       expect(Array.isArray(quote.route)).toBe(true);
     });
+
+    it('should quote MOR in wei for morpheus', async () => {
+      const quote = await engine.getSwapQuote({
+        sourceToken: 'USDC',
+        amount: Amount.parse('100', USDC),
+        destination: 'morpheus',
+      });
+
+      expect(quote.destinationAmount.currency).toBe(MOR);
+      expect(quote.destinationAmount.units).toBe(40_816_326_530_612_244_897n);
+    });
   });
 
   describe('executeSwap', () => {
     it('should execute a swap and return result', async () => {
       const config: SwapConfig = {
         sourceToken: 'USDC',
-        amount: 100,
+        amount: Amount.parse('100', USDC),
         destination: 'akash',
       };
 
       const result = await engine.executeSwap(config);
 
       expect(result).toBeDefined();
-      expect(typeof result.sourceAmount).toBe('number');
-      expect(typeof result.destinationAmount).toBe('number');
+      expect(result.sourceAmount.currency).toBe(USDC);
+      expect(result.destinationAmount.currency).toBe(AKT);
       expect(typeof result.txHash).toBe('string');
     });
 
     it('should apply funding split when destination is akash', async () => {
       const config: SwapConfig = {
         sourceToken: 'USDC',
-        amount: 100,
+        amount: Amount.parse('100', USDC),
         destination: 'akash',
       };
 
-      const result = await engine.executeSwap(config);
+      await engine.executeSwap(config);
+
+      // Should apply 40% compute, 60% staking split, in base units
+      const { getRoute } = vi.mocked(SkipGoClient).mock.results[0]!.value;
+      expect(getRoute).toHaveBeenCalledWith(
+        expect.objectContaining({ destToken: 'AKT', amount: '40000000' })
+      );
+      expect(getRoute).toHaveBeenCalledWith(
+        expect.objectContaining({ destToken: 'MOR', amount: '60000000' })
+      );
+    });
+
+    it('should give staking the remainder of an uneven split', async () => {
+      await engine.executeSwap({
+        sourceToken: 'USDC',
+        amount: Amount.fromUnits(3, USDC),
+        destination: 'akash',
+      });
+
+      const { getRoute } = vi.mocked(SkipGoClient).mock.results[0]!.value;
+      expect(getRoute).toHaveBeenCalledWith(
+        expect.objectContaining({ destToken: 'AKT', amount: '1' })
+      );
+      expect(getRoute).toHaveBeenCalledWith(
+        expect.objectContaining({ destToken: 'MOR', amount: '2' })
+      );
+    });
+  });
+
+  describe('swap protection', () => {
+    const options: SwapConfig = {
+      sourceToken: 'USDC',
+      amount: Amount.parse('100', USDC),
+      destination: 'akash',
+    };
+
+    function skipGo() {
+      return vi.mocked(SkipGoClient).mock.results.at(-1)!.value;
+    }
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should pass the slippage tolerance to the route', async () => {
+      const strict = new EconomicEngine(
+        {
+          ...morpheusConfig,
+          funding: { ...morpheusConfig.funding!, swap: { maxSlippage: 0.5 } },
+        },
+        mockWallet
+      );
+
+      await strict.executeSwap(options);
+
+      expect(skipGo().buildTransaction).toHaveBeenCalledWith(expect.anything(), 0.5);
+    });
+
+    it('should refuse a route with too much price impact before signing', async () => {
+      const { getRoute } = skipGo();
+      getRoute.mockImplementationOnce(async (request: { amount: string }) => ({
+        ...(await getRoute.getMockImplementation()!(request)),
+        priceImpact: 4.2,
+      }));
+
+      const error = await engine.executeSwap(options).catch(e => e);
+
+      expect(error).toBeInstanceOf(SwapProtectionError);
+      expect(error).toMatchObject({ reason: 'price-impact', limit: 3, actual: 4.2 });
+      expect(mockWallet.signTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a quote too far below the oracle price', async () => {
+      const { getPrice } = vi.mocked(PriceOracle).mock.results.at(-1)!.value;
+      getPrice.mockResolvedValueOnce(2.2);
+
+      await expect(engine.getSwapQuote(options)).rejects.toMatchObject({
+        reason: 'oracle-deviation',
+      });
+    });
+
+    it('should re-quote and sign again when signing outlasts the quote', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      mockWallet.signTransaction.mockImplementationOnce(async () => {
+        vi.setSystemTime(Date.now() + 31_000);
+        return '0xslow';
+      });
 
-      // Should apply 40% compute, 60% staking split
-      expect(result.sourceAmount).toBeLessThanOrEqual(100);
+      await engine.executeSwap(options);
+
+      const { getRoute, broadcastTransaction } = skipGo();
+      const akt = getRoute.mock.calls.filter(([request]) => request.destToken === 'AKT');
+      expect(akt).toHaveLength(2);
+      expect(broadcastTransaction).not.toHaveBeenCalledWith('0xslow', expect.anything());
+    });
+
+    it('should abort when the re-quote is worse than the slippage tolerance', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      mockWallet.signTransaction.mockImplementationOnce(async () => {
+        vi.setSystemTime(Date.now() + 31_000);
+        return '0xslow';
+      });
+      const { getRoute, broadcastTransaction } = skipGo();
+      getRoute
+        .mockImplementationOnce(getRoute.getMockImplementation()!)
+        .mockImplementationOnce(async (request: { amount: string }) => {
+          // 2% less than before
+          const route = await getRoute.getMockImplementation()!(request);
+          return {
+            ...route,
+            estimatedOutput: String((BigInt(route.estimatedOutput) * 98n) / 100n),
+          };
+        });
+
+      await expect(engine.executeSwap(options)).rejects.toMatchObject({ reason: 'quote-moved' });
+      expect(broadcastTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('swapToUsdc', () => {
+    it('should swap AKT on Akash to USDC on Base', async () => {
+      const result = await engine.swapToUsdc(Amount.parse('10', AKT));
+
+      const { getRoute } = vi.mocked(SkipGoClient).mock.results[0]!.value;
+      expect(getRoute).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sourceChain: 'akash',
+          sourceToken: 'AKT',
+          destChain: 'base',
+          destToken: 'USDC',
+          amount: '10000000',
+        })
+      );
+      expect(result.destinationAmount).toEqual(Amount.parse('24.5', USDC));
+    });
+
+    it('should check the quote against the AKT price', async () => {
+      const { getPrice } = vi.mocked(PriceOracle).mock.results[0]!.value;
+      getPrice.mockResolvedValueOnce(3);
+
+      await expect(engine.swapToUsdc(Amount.parse('10', AKT))).rejects.toMatchObject({
+        reason: 'oracle-deviation',
+      });
     });
   });
 
   describe('calculateRequiredFunding', () => {
+    // 0.6 AKT per hour at 6 second blocks
+    const pricePerBlock = Amount.fromUnits(1000, AKT);
+
     it('should calculate funding requirements', async () => {
-      const hourlyRate = 0.5; // AKT per hour
       const durationHours = 24;
 
-      const funding = await engine.calculateRequiredFunding(hourlyRate, durationHours);
+      const funding = await engine.calculateRequiredFunding(pricePerBlock, durationHours);
 
       expect(funding).toBeDefined();
-      expect(typeof funding.akt).toBe('number');
-      expect(typeof funding.usdc).toBe('number');
-      expect(funding.akt).toBeGreaterThan(0);
+      expect(funding.blocks).toBe(14_400n);
+      expect(funding.akt.currency).toBe(AKT);
+      expect(funding.usdc.currency).toBe(USDC);
+      expect(funding.akt.gt(Amount.zero(AKT))).toBe(true);
     });
 
     it('should calculate 1 year funding correctly with default buffer', async () => {
-      const hourlyRate = 0.5;
       const oneYearHours = 365 * 24;
-      const defaultBuffer = 0.2;
 
-      const funding = await engine.calculateRequiredFunding(hourlyRate, oneYearHours);
+      const funding = await engine.calculateRequiredFunding(pricePerBlock, oneYearHours);
 
-      expect(funding.akt).toBe(hourlyRate * oneYearHours * (1 + defaultBuffer));
+      expect(funding.blocks).toBe(5_256_000n);
+      expect(funding.akt.toDecimal()).toBe('6307.2');
+      expect(funding.usdc.toDecimal()).toBe('15452.64');
     });
 
     it('should calculate 6 month funding correctly with default buffer', async () => {
-      const hourlyRate = 0.5;
       const sixMonthHours = 6 * 30 * 24;
-      const defaultBuffer = 0.2;
 
-      const funding = await engine.calculateRequiredFunding(hourlyRate, sixMonthHours);
+      const funding = await engine.calculateRequiredFunding(pricePerBlock, sixMonthHours);
 
-      expect(funding.akt).toBe(hourlyRate * sixMonthHours * (1 + defaultBuffer));
+      expect(funding.akt.units).toBe((1000n * 2_592_000n * 12n) / 10n);
     });
 
     it('should calculate 30 day funding correctly with default buffer', async () => {
-      const hourlyRate = 0.5;
       const thirtyDayHours = 30 * 24;
-      const defaultBuffer = 0.2;
 
-      const funding = await engine.calculateRequiredFunding(hourlyRate, thirtyDayHours);
+      const funding = await engine.calculateRequiredFunding(pricePerBlock, thirtyDayHours);
 
-      expect(funding.akt).toBe(hourlyRate * thirtyDayHours * (1 + defaultBuffer));
+      expect(funding.akt.units).toBe((1000n * 432_000n * 12n) / 10n);
     });
 
     it('should calculate funding without buffer when specified', async () => {
-      const hourlyRate = 0.5;
       const oneYearHours = 365 * 24;
 
-      const funding = await engine.calculateRequiredFunding(hourlyRate, oneYearHours, 0);
+      const funding = await engine.calculateRequiredFunding(pricePerBlock, oneYearHours, 0);
+
+      expect(funding.akt.units).toBe(1000n * 5_256_000n);
+    });
+
+    it('should count blocks at the configured block time', async () => {
+      const slow = new EconomicEngine(
+        { ...morpheusConfig, funding: { ...morpheusConfig.funding!, blockTime: 7 } },
+        mockWallet
+      );
+
+      const funding = await slow.calculateRequiredFunding(pricePerBlock, 1, 0);
 
-      expect(funding.akt).toBe(hourlyRate * oneYearHours);
+      // 3600 / 7 = 514.3 blocks, rounded up
+      expect(funding.blocks).toBe(515n);
+      expect(funding.akt.units).toBe(515_000n);
     });
   });
 
   describe('checkEscrowHealth', () => {
     it('should return health status', async () => {
-      const currentBalance = 10; // AKT
-      const burnRate = 0.5; // AKT per hour
+      const currentBalance = Amount.parse('10', AKT);
+      const burnRate = Amount.fromUnits(1000, AKT); // uakt per block
 
       const health = await engine.checkEscrowHealth(currentBalance, burnRate);
 
       expect(health).toBeDefined();
       expect(typeof health.needsTopUp).toBe('boolean');
-      expect(typeof health.hoursRemaining).toBe('number');
-      expect(typeof health.recommendedTopUp).toBe('number');
+      expect(health.blocksRemaining).toBe(10_000n);
+      expect(health.hoursRemaining).toBeCloseTo(16.67, 2);
+      expect(health.recommendedTopUp.currency).toBe(AKT);
     });
 
     it('should indicate top-up needed when balance is low', async () => {
-      const currentBalance = 0.1; // Very low balance
-      const burnRate = 1; // AKT per hour
+      const currentBalance = Amount.parse('0.1', AKT); // Very low balance
+      const burnRate = Amount.fromUnits(1000, AKT);
 
       const health = await engine.checkEscrowHealth(currentBalance, burnRate);
 
       expect(health.needsTopUp).toBe(true);
+      // A week at 1000 uakt per block, less the balance
+      expect(health.recommendedTopUp.toDecimal()).toBe('100.7');
+    });
+
+    it('should report no expiry when nothing is billed', async () => {
+      const health = await engine.checkEscrowHealth(Amount.parse('1', AKT), Amount.zero(AKT));
+
+      expect(health.needsTopUp).toBe(false);
+      expect(health.blocksRemaining).toBeUndefined();
+      expect(health.hoursRemaining).toBe(Infinity);
+    });
+  });
+
+  describe('autoTopUp', () => {
+    const low = Amount.parse('0.1', AKT);
+    const burnRate = Amount.fromUnits(1000, AKT);
+
+    it('should record what a top-up spent', async () => {
+      mockWallet.getBalance.mockResolvedValueOnce({ usdc: 1000, eth: 0, akt: 0, mor: 0 });
+      const budget = new SpendTracker({ deployment: { daily: 500 } });
+      const limited = new EconomicEngine(morpheusConfig, mockWallet, budget);
+
+      const result = await limited.autoTopUp('12345', low, burnRate);
+
+      expect(result?.txHash).toBe('0x123abc');
+      const [daily] = await budget.usage('12345', '0xabc123');
+      // A week at 1000 uakt per block less the balance, at 2.45 USDC per AKT
+      expect(daily?.spent.toDecimal()).toBe('246.715');
+    });
+
+    it('should count a broadcast route even when the rest of the swap fails', async () => {
+      mockWallet.getBalance.mockResolvedValueOnce({ usdc: 1000, eth: 0, akt: 0, mor: 0 });
+      const budget = new SpendTracker({ deployment: { daily: 500 } });
+      const limited = new EconomicEngine(morpheusConfig, mockWallet, budget);
+      const skipGo = vi.mocked(SkipGoClient).mock.results.at(-1)!.value;
+      skipGo.waitForCompletion.mockRejectedValueOnce(new Error('route failed'));
+
+      await expect(limited.autoTopUp('12345', low, burnRate)).rejects.toThrow('route failed');
+
+      const [daily] = await budget.usage('12345', '0xabc123');
+      // The compute route (40% of 246.715) was broadcast; staking never started
+      expect(daily?.spent.toDecimal()).toBe('98.686');
+    });
+
+    it('should tell failures after broadcast from those before any payment', async () => {
+      const funded = { usdc: 1000, eth: 0, akt: 0, mor: 0 };
+      mockWallet.getBalance.mockResolvedValueOnce(funded).mockResolvedValueOnce(funded);
+      const skipGo = vi.mocked(SkipGoClient).mock.results.at(-1)!.value;
+      skipGo.waitForCompletion.mockRejectedValueOnce(new Error('route failed'));
+
+      const after = await engine.autoTopUp('12345', low, burnRate).catch(error => error);
+      expect(after).toBeInstanceOf(SwapBroadcastError);
+      expect(after.txHashes).toEqual(['0x123abc']);
+
+      skipGo.getRoute.mockImplementationOnce(async (request: { amount: string }) => ({
+        ...(await skipGo.getRoute.getMockImplementation()!(request)),
+        priceImpact: 50,
+      }));
+      const before = await engine.autoTopUp('12345', low, burnRate).catch(error => error);
+      expect(before).toBeInstanceOf(SwapProtectionError);
+    });
+
+    it('should refuse a top-up over a spend limit before paying', async () => {
+      const limited = new EconomicEngine(
+        {
+          ...morpheusConfig,
+          funding: { ...morpheusConfig.funding!, limits: { wallet: { daily: 50 } } },
+        },
+        mockWallet
+      );
+
+      await expect(limited.autoTopUp('12345', low, burnRate)).rejects.toThrow(SpendLimitError);
+      expect(mockWallet.getBalance).not.toHaveBeenCalled();
     });
   });
 
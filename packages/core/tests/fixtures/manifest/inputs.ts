@@ -0,0 +1,75 @@
+/**
+ * SDL hashed into the golden manifest fixtures. Shared by manifest.test.ts,
+ * which builds the manifest with our code, and scripts/generate-manifest-fixtures.ts,
+ * which builds it with @akashnetwork/akashjs.
+ */
+import type { SDL } from '../../../src/sdl/model';
+
+const AUDITOR = 'akash1365yvmc4s7awdyj3n2sav7xfx76adc6dnmlx63';
+
+// Services are listed out of name order to check that the manifest sorts them
+export const sdl: SDL = {
+  version: '2.0',
+  services: {
+    web: {
+      image: 'ghcr.io/morpheus/web:1.2.0',
+      env: ['GREETING=<hello> & welcome', 'API_URL=http://api:3000'],
+      expose: [
+        { port: 8080, as: 80, accept: ['agent.example.com'], to: [{ global: true }] },
+        { port: 9090, to: [{ service: 'api' }] },
+      ],
+    },
+    api: {
+      image: 'ghcr.io/morpheus/api:1.2.0',
+      command: ['node'],
+      args: ['dist/server.js'],
+      expose: [
+        { port: 3000, to: [{ service: 'web' }, { global: true }] },
+        { port: 5353, proto: 'udp', to: [{ global: true }] },
+      ],
+      params: {
+        storage: {
+          data: { mount: '/var/lib/api' },
+          cache: { mount: '/tmp/cache', readOnly: true },
+        },
+      },
+    },
+  },
+  profiles: {
+    compute: {
+      web: {
+        resources: {
+          cpu: { units: 0.5 },
+          memory: { size: '512Mi' },
+          storage: [{ size: '1Gi' }],
+        },
+      },
+      api: {
+        resources: {
+          cpu: { units: 2 },
+          memory: { size: '4Gi' },
+          storage: [
+            { size: '5Gi' },
+            { name: 'data', size: '20Gi', attributes: { persistent: true, class: 'beta3' } },
+            { name: 'cache', size: '1Gi', attributes: { class: 'ram' } },
+          ],
+          gpu: { units: 1, attributes: { vendor: { nvidia: [{ model: 'a100' }] } } },
+        },
+      },
+    },
+    placement: {
+      akash: {
+        attributes: { region: 'us-west' },
+        signedBy: { anyOf: [AUDITOR] },
+        pricing: {
+          web: { denom: 'uakt', amount: 1000 },
+          api: { denom: 'uakt', amount: 25000 },
+        },
+      },
+    },
+  },
+  deployment: {
+    web: { akash: { profile: 'web', count: 2 } },
+    api: { akash: { profile: 'api', count: 1 } },
+  },
+};
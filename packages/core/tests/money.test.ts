@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+
+import { AKT, Amount, BlockClock, MOR, USDC } from '../src/economic/money';
+
+describe('Amount', () => {
+  it('should parse decimal strings exactly', () => {
+    expect(Amount.parse('12.5', AKT).units).toBe(12_500_000n);
+    expect(Amount.parse('0.000001', USDC).units).toBe(1n);
+    expect(Amount.parse('1.000000000000000001', MOR).units).toBe(1_000_000_000_000_000_001n);
+  });
+
+  it('should reject malformed or over-precise input', () => {
+    expect(() => Amount.parse('1.5e3', USDC)).toThrow('Invalid USDC amount');
+    expect(() => Amount.parse('', AKT)).toThrow('Invalid AKT amount');
+    expect(() => Amount.parse('0.0000001', USDC)).toThrow('at most 6 decimal places');
+  });
+
+  it('should not drift when adding small amounts', () => {
+    let total = Amount.zero(USDC);
+    for (let i = 0; i < 10; i++) {
+      total = total.plus(Amount.parse('0.1', USDC));
+    }
+
+    expect(total.toDecimal()).toBe('1');
+  });
+
+  it('should refuse to mix currencies', () => {
+    expect(() => Amount.parse('1', AKT).plus(Amount.parse('1', USDC))).toThrow(
+      'Cannot combine AKT with USDC'
+    );
+  });
+
+  it('should round ratios down to the base unit', () => {
+    expect(Amount.fromUnits(3, USDC).times(0.4).units).toBe(1n);
+    expect(Amount.parse('100', USDC).times(0.6).toDecimal()).toBe('60');
+    expect(Amount.fromUnits(1000, AKT).times(600n).toDecimal()).toBe('0.6');
+  });
+
+  it('should convert between currencies at a price', () => {
+    expect(Amount.parse('2', AKT).convert(USDC, 2.45).toDecimal()).toBe('4.9');
+    expect(Amount.parse('1', USDC).convert(MOR, 0.5).units).toBe(500_000_000_000_000_000n);
+  });
+
+  it('should count how many times an amount fits', () => {
+    expect(Amount.parse('10', AKT).count(Amount.fromUnits(3000, AKT))).toBe(3333n);
+    expect(() => Amount.parse('1', AKT).count(Amount.zero(AKT))).toThrow('zero amount');
+  });
+
+  it('should format for display and the chain', () => {
+    const amount = Amount.parse('1.23456', AKT);
+
+    expect(amount.toFixed(4)).toBe('1.2346');
+    expect(amount.toFixed(0)).toBe('1');
+    expect(Amount.parse('-1.5', AKT).toDecimal()).toBe('-1.5');
+    expect(amount.toString()).toBe('1.23456 AKT');
+    expect(amount.toCoin()).toEqual({ denom: 'uakt', amount: '1234560' });
+    expect(JSON.stringify({ amount })).toBe('{"amount":{"denom":"uakt","amount":"1234560"}}');
+  });
+});
+
+describe('BlockClock', () => {
+  it('should convert durations to blocks at the default block time', () => {
+    const clock = new BlockClock();
+
+    expect(clock.blocksPerHour).toBe(600);
+    expect(clock.blocks(24)).toBe(14_400n);
+    expect(clock.hours(14_400n)).toBe(24);
+  });
+
+  it('should round block counts up', () => {
+    expect(new BlockClock(7).blocks(1)).toBe(515n);
+  });
+
+  it('should reject a non-positive block time', () => {
+    expect(() => new BlockClock(0)).toThrow('Invalid block time');
+  });
+});
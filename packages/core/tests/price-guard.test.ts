@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+
+import { BidPriceGuard, orderPrice, withOrderPrice } from '../src/placement/price-guard';
+import type { ProviderBid } from '../src/placement/strategies';
+import { SDLSynthesizer } from '../src/sdl/synthesizer';
+import type { MorpheusConfig } from '../src/sdl/types';
+
+const config: MorpheusConfig = {
+  project: 'guarded',
+  template: 'custom',
+  provider: 'akash',
+  services: {
+    api: { port: 8000, count: 2, resources: { cpu: 1, memory: '1Gi', storage: '1Gi' } },
+    worker: { resources: { cpu: 2, memory: '2Gi', storage: '1Gi' } },
+  },
+};
+
+function bid(provider: string, price: number): ProviderBid {
+  return { id: `1-1-1-${provider}`, provider, price, attributes: {} };
+}
+
+// api: 16,000 uakt/hour per replica; worker: 31,000 uakt/hour at fallback rates
+async function synthesize(placement: MorpheusConfig['placement'] = {}) {
+  return new SDLSynthesizer({ ...config, placement }).synthesize({
+    image: { tag: 'guarded:v1' },
+  });
+}
+
+describe('BidPriceGuard', () => {
+  it('should sum every replica into the order ceiling', async () => {
+    const sdl = await synthesize();
+
+    // 32 per api replica and 62 for the worker, per block with 20% headroom
+    expect(orderPrice(sdl)).toBe(2 * 32 + 62);
+  });
+
+  it('should accept bids within the warning margin', async () => {
+    const sdl = await synthesize();
+    const review = new BidPriceGuard().review(sdl, bid('a', 110), [bid('a', 110), bid('b', 120)]);
+
+    // 63,000 uakt/hour / 600 blocks
+    expect(review.expected).toBe(105);
+    expect(review.warnings).toEqual([]);
+    expect(review.action).toBe('accept');
+  });
+
+  it('should warn when the best bid is above the margin or every bid is at the ceiling', async () => {
+    const sdl = await synthesize();
+    const review = new BidPriceGuard({ priceWarnMargin: 0.1 }).review(sdl, bid('a', 126), [
+      bid('a', 126),
+      bid('b', 126),
+    ]);
+
+    expect(review.atCeiling).toBe(true);
+    expect(review.warnings).toEqual([
+      "Every bid is at the order's ceiling of 126 uakt/block; the market may be pricier than the estimate",
+      'Best bid of 126 uakt/block is 20% above the estimate of 105 uakt/block',
+    ]);
+    // Warning only, unless placement.repost is set
+    expect(review.action).toBe('accept');
+  });
+
+  it('should re-post at the margin, capped by maxPricePerBlock', async () => {
+    const sdl = await synthesize();
+    const bids = [bid('a', 126)];
+
+    expect(
+      new BidPriceGuard({ priceWarnMargin: 0.1, repost: true }).review(sdl, bids[0]!, bids)
+    ).toMatchObject({ action: 'repost', repostCeiling: 115 });
+    expect(
+      new BidPriceGuard({ priceWarnMargin: 0.1, repost: true, maxPricePerBlock: 100 }).review(
+        sdl,
+        bids[0]!,
+        bids
+      )
+    ).toMatchObject({ action: 'repost', repostCeiling: 100 });
+  });
+
+  it('should scale placement prices to a new ceiling', async () => {
+    const sdl = await synthesize();
+    const repriced = withOrderPrice(sdl, 63);
+
+    expect(repriced.profiles.placement.akash?.pricing).toEqual({
+      api: { denom: 'uakt', amount: 16 },
+      worker: { denom: 'uakt', amount: 31 },
+    });
+    expect(orderPrice(repriced)).toBe(63);
+    expect(orderPrice(sdl)).toBe(126);
+  });
+
+  it('should never synthesize an order above maxPricePerBlock', async () => {
+    const sdl = await synthesize({ maxPricePerBlock: 63 });
+
+    expect(orderPrice(sdl)).toBe(63);
+    expect(sdl.raw).toContain('amount: 16');
+  });
+});
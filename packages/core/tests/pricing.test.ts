@@ -0,0 +1,106 @@
+import type { MarketBid, MarketResources } from '@morpheus-deploy/contracts';
+import { describe, it, expect, vi } from 'vitest';
+
+import {
+  BLOCKS_PER_HOUR,
+  FALLBACK_AKT_USD,
+  FALLBACK_RATES,
+  PricingService,
+} from '../src/economic/pricing';
+import type { SDLResources } from '../src/sdl/model';
+
+const GIB = 1024 ** 3;
+
+const resources: SDLResources = {
+  cpu: { units: 2 },
+  memory: { size: '4Gi' },
+  storage: [{ size: '10Gi' }],
+};
+
+const a100: SDLResources = {
+  ...resources,
+  gpu: { units: 1, attributes: { vendor: { nvidia: [{ model: 'a100' }] } } },
+};
+
+/** One CPU, 1 GiB of memory and 1 GiB of storage: 16,000 uakt/hour at fallback rates */
+function unit(gpu = 0, gpuModels: string[] = []): MarketResources {
+  return { cpu: 1000, memory: GIB, storage: GIB, gpu, gpuModels, count: 1 };
+}
+
+function marketBid(hourly: number, resources = [unit()]): MarketBid {
+  return { provider: 'akash1provider', price: hourly / BLOCKS_PER_HOUR, resources };
+}
+
+describe('PricingService', () => {
+  it('should quote from the fallback table without a market or oracle', async () => {
+    const quote = await new PricingService().quote();
+    const cost = quote.service(resources, 2);
+
+    expect(quote.source).toEqual({ rates: 'fallback', aktUsd: 'fallback' });
+    expect(quote.warnings).toEqual([expect.stringContaining('AKT price unavailable')]);
+    expect(cost.uakt).toEqual({
+      cpu: 2 * 2 * FALLBACK_RATES.cpu,
+      memory: 2 * 4 * FALLBACK_RATES.memory,
+      storage: 2 * 10 * FALLBACK_RATES.storage,
+      gpu: 0,
+      total: 100_000,
+    });
+    expect(cost.usd.total).toBeCloseTo(0.1 * FALLBACK_AKT_USD);
+  });
+
+  it('should scale rates to recent bids', async () => {
+    const bids = [
+      ...Array.from({ length: 5 }, () => marketBid(32_000)),
+      ...Array.from({ length: 5 }, () => marketBid(32_000 + 3_000_000, [unit(1, ['a100'])])),
+    ];
+    const market = { listRecentBids: vi.fn().mockResolvedValue(bids) };
+    const oracle = { getPrice: vi.fn().mockResolvedValue(2.5) };
+
+    const quote = await new PricingService({ market, oracle }).quote();
+
+    expect(quote.source).toEqual({ rates: 'market', aktUsd: 'oracle' });
+    expect(quote.warnings).toEqual([]);
+    expect(quote.rates.cpu).toBeCloseTo(FALLBACK_RATES.cpu * 2);
+    expect(quote.rates.gpu.a100).toBeCloseTo(3_000_000);
+    expect(quote.rates.gpu.h100).toBe(FALLBACK_RATES.gpu.h100);
+    expect(oracle.getPrice).toHaveBeenCalledWith('AKT', 'USDC');
+
+    const cost = quote.service(a100);
+    expect(cost.uakt.gpu).toBeCloseTo(3_000_000);
+    expect(cost.usd.gpu).toBeCloseTo(7.5);
+  });
+
+  it('should fall back when there are too few bids or the market is unreachable', async () => {
+    const sparse = new PricingService({
+      market: { listRecentBids: vi.fn().mockResolvedValue([marketBid(32_000)]) },
+    });
+    const offline = new PricingService({
+      market: { listRecentBids: vi.fn().mockRejectedValue(new Error('fetch failed')) },
+      oracle: { getPrice: vi.fn().mockRejectedValue(new Error('fetch failed')) },
+    });
+
+    expect((await sparse.quote()).source.rates).toBe('fallback');
+    expect((await offline.quote()).source).toEqual({ rates: 'fallback', aktUsd: 'fallback' });
+    expect((await offline.quote()).rates).toBe(FALLBACK_RATES);
+  });
+
+  it('should reuse market rates until the cache expires', async () => {
+    const market = { listRecentBids: vi.fn().mockResolvedValue([]) };
+    const pricing = new PricingService({ market, cacheTTL: 60_000 });
+
+    await pricing.quote();
+    await pricing.quote();
+
+    expect(market.listRecentBids).toHaveBeenCalledTimes(1);
+  });
+
+  it('should price multi-model GPUs at the most expensive model', async () => {
+    const quote = await new PricingService().quote();
+    const gpu = {
+      units: 2,
+      attributes: { vendor: { nvidia: [{ model: 'a10' }, { model: 'h100' }] } },
+    };
+
+    expect(quote.service({ ...resources, gpu }).uakt.gpu).toBe(2 * FALLBACK_RATES.gpu.h100!);
+  });
+});
@@ -0,0 +1,111 @@
+import { Endpoint_Kind } from '@morpheus-deploy/contracts';
+import { describe, it, expect } from 'vitest';
+
+import { buildGroupSpecs } from '../src/sdl/groups';
+import { SDLBuilder } from '../src/sdl/model';
+
+const AUDITOR = 'akash1365yvmc4s7awdyj3n2sav7xfx76adc6dnmlx63';
+
+const decode = (value?: { val: Uint8Array }) => new TextDecoder().decode(value?.val);
+
+function buildSDL() {
+  return new SDLBuilder()
+    .addService(
+      'web',
+      {
+        image: 'nginx:alpine',
+        expose: [
+          { port: 8080, as: 80, to: [{ global: true }] },
+          { port: 9090, to: [{ service: 'worker' }] },
+        ],
+      },
+      {
+        cpu: { units: 0.5 },
+        memory: { size: '512Mi' },
+        storage: [{ size: '1Gi' }],
+      },
+      { count: 2, pricing: { denom: 'uakt', amount: 1000 } }
+    )
+    .addService(
+      'worker',
+      { image: 'worker:1', expose: [{ port: 5000, to: [{ global: true }] }] },
+      {
+        cpu: { units: 4 },
+        memory: { size: '16Gi' },
+        storage: [
+          { size: '10Gi' },
+          { name: 'data', size: '100Gi', attributes: { persistent: true, class: 'beta3' } },
+        ],
+        gpu: { units: 1, attributes: { vendor: { nvidia: [{ model: 'a100' }] } } },
+      },
+      { pricing: { denom: 'uakt', amount: 25000.5 } }
+    )
+    .setPlacementAttributes({ region: 'us-west', host: 'akash' })
+    .setSignedBy({ anyOf: [AUDITOR] })
+    .build();
+}
+
+describe('buildGroupSpecs', () => {
+  it('should create one group per placement with a resource unit per service', () => {
+    const [group, ...rest] = buildGroupSpecs(buildSDL());
+
+    expect(rest).toHaveLength(0);
+    expect(group?.name).toBe('akash');
+    expect(group?.requirements?.attributes).toEqual([
+      { key: 'host', value: 'akash' },
+      { key: 'region', value: 'us-west' },
+    ]);
+    expect(group?.requirements?.signedBy).toEqual({ allOf: [], anyOf: [AUDITOR] });
+    expect(group?.resources.map(unit => [unit.resource?.id, unit.count])).toEqual([
+      [1, 2],
+      [2, 1],
+    ]);
+  });
+
+  it('should convert resources to on-chain units', () => {
+    const [web, worker] = buildGroupSpecs(buildSDL())[0]!.resources;
+
+    expect(decode(web?.resource?.cpu?.units)).toBe('500');
+    expect(decode(web?.resource?.memory?.quantity)).toBe(String(512 * 1024 ** 2));
+    expect(decode(web?.resource?.gpu?.units)).toBe('0');
+
+    expect(worker?.resource?.storage.map(s => [s.name, decode(s.quantity)])).toEqual([
+      ['default', String(10 * 1024 ** 3)],
+      ['data', String(100 * 1024 ** 3)],
+    ]);
+    expect(worker?.resource?.storage[1]?.attributes).toEqual([
+      { key: 'class', value: 'beta3' },
+      { key: 'persistent', value: 'true' },
+    ]);
+    expect(worker?.resource?.gpu?.attributes).toEqual([
+      { key: 'vendor/nvidia/model/a100', value: 'true' },
+    ]);
+  });
+
+  it('should add endpoints for global ports only', () => {
+    const [web, worker] = buildGroupSpecs(buildSDL())[0]!.resources;
+
+    expect(web?.resource?.endpoints).toEqual([
+      { kind: Endpoint_Kind.SHARED_HTTP, sequenceNumber: 0 },
+    ]);
+    expect(worker?.resource?.endpoints).toEqual([
+      { kind: Endpoint_Kind.RANDOM_PORT, sequenceNumber: 0 },
+    ]);
+  });
+
+  it('should scale prices to 18 decimal places', () => {
+    const [web, worker] = buildGroupSpecs(buildSDL())[0]!.resources;
+
+    expect(web?.price).toEqual({ denom: 'uakt', amount: '1000000000000000000000' });
+    expect(worker?.price).toEqual({ denom: 'uakt', amount: '25000500000000000000000' });
+  });
+
+  it('should fail when a profile has no price', () => {
+    const sdl = buildSDL();
+    delete sdl.profiles.placement.akash!.pricing.worker;
+
+    expect(() => buildGroupSpecs(sdl)).toThrow(
+      'Compute profile "worker" has no pricing in placement "akash"'
+    );
+  });
+});
@@ -0,0 +1,54 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { describe, it, expect } from 'vitest';
+
+import { buildGroupSpecs } from '../src/sdl/groups';
+import { buildManifest, manifestJSON, manifestVersion } from '../src/sdl/manifest';
+
+import { sdl } from './fixtures/manifest/inputs';
+
+// Golden fixtures are built from the same SDL by akashjs;
+// see ../scripts/generate-manifest-fixtures.ts
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, 'fixtures', 'manifest', name), 'utf-8').trim();
+}
+
+describe('manifestJSON', () => {
+  it('should match the manifest akashjs builds', () => {
+    expect(manifestJSON(sdl)).toBe(fixture('manifest.json'));
+  });
+
+  it('should escape HTML characters like the provider', () => {
+    expect(manifestJSON(sdl)).toContain('GREETING=\\u003chello\\u003e \\u0026 welcome');
+  });
+});
+
+describe('manifestVersion', () => {
+  it('should match the version akashjs computes', () => {
+    expect(Buffer.from(manifestVersion(sdl)).toString('hex')).toBe(fixture('version.hex'));
+  });
+
+  it('should change when the manifest changes', () => {
+    const changed = structuredClone(sdl);
+    changed.services.web!.env = ['API_KEY=sealed'];
+
+    expect(manifestVersion(changed)).not.toEqual(manifestVersion(sdl));
+  });
+});
+
+describe('buildManifest', () => {
+  it('should give each service the ID of its resource unit', () => {
+    const [group] = buildManifest(sdl);
+    const [groupSpec] = buildGroupSpecs(sdl);
+
+    expect(group?.services.map(service => [service.name, service.resources.id])).toEqual([
+      ['api', 1],
+      ['web', 2],
+    ]);
+    expect(groupSpec?.resources.map(unit => [unit.resource?.id, unit.count])).toEqual([
+      [1, 1],
+      [2, 2],
+    ]);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+
+import { SDLBuilder, parseSDL, stringifySDL } from '../src/sdl/model';
+import { SDLSynthesizer } from '../src/sdl/synthesizer';
+
+describe('SDLBuilder', () => {
+  const resources = {
+    cpu: { units: 1 },
+    memory: { size: '1Gi' },
+    storage: [{ size: '1Gi' }],
+  };
+
+  it('should add a compute profile, pricing and deployment per service', () => {
+    const sdl = new SDLBuilder()
+      .addService('web', { image: 'nginx:alpine' }, resources, {
+        count: 2,
+        pricing: { denom: 'uakt', amount: 1000 },
+      })
+      .build();
+
+    expect(sdl.version).toBe('2.0');
+    expect(sdl.profiles.compute.web).toEqual({ resources });
+    expect(sdl.profiles.placement.akash?.pricing.web).toEqual({ denom: 'uakt', amount: 1000 });
+    expect(sdl.deployment.web).toEqual({ akash: { profile: 'web', count: 2 } });
+  });
+
+  it('should reject duplicate services', () => {
+    const builder = new SDLBuilder().addService('web', { image: 'nginx' }, resources);
+
+    expect(() => builder.addService('web', { image: 'nginx' }, resources)).toThrow(
+      'SDL already defines service "web"'
+    );
+  });
+
+  it('should require pricing for every service', () => {
+    const builder = new SDLBuilder().addService('web', { image: 'nginx' }, resources);
+
+    expect(() => builder.build()).toThrow('Service "web" has no pricing in placement "akash"');
+  });
+});
+
+describe('parseSDL', () => {
+  it('should round-trip synthesized SDL through YAML', async () => {
+    const sdl = await new SDLSynthesizer({
+      project: 'roundtrip',
+      template: 'ai-agent',
+      provider: 'akash',
+      resources: {
+        cpu: 2,
+        memory: '4Gi',
+        storage: '10Gi',
+        gpu: { model: 'nvidia-a100', units: 1 },
+      },
+    }).synthesize({ image: { tag: 'roundtrip:v1' } });
+
+    const parsed = parseSDL(sdl.raw);
+
+    expect(parsed).toEqual({
+      version: sdl.version,
+      services: sdl.services,
+      profiles: sdl.profiles,
+      deployment: sdl.deployment,
+    });
+    expect(stringifySDL(parsed)).toBe(sdl.raw);
+  });
+
+  it('should accept an unquoted version', () => {
+    const sdl = parseSDL(`
+version: 2.0
+services:
+  web:
+    image: nginx
+profiles:
+  compute:
+    web:
+      resources:
+        cpu: { units: 1 }
+        memory: { size: 512Mi }
+        storage: [{ size: 1Gi }]
+  placement:
+    dcloud:
+      pricing:
+        web: { denom: uakt, amount: 100 }
+deployment:
+  web:
+    dcloud:
+      profile: web
+      count: 1
+`);
+
+    expect(sdl.version).toBe('2.0');
+    expect(sdl.deployment.web?.dcloud?.profile).toBe('web');
+  });
+
+  it('should reject unsupported versions', () => {
+    expect(() => parseSDL('version: "1.0"\nservices: {}')).toThrow(
+      'Invalid SDL: unsupported version "1.0"'
+    );
+  });
+
+  it('should reject deployments that reference unknown profiles', () => {
+    const source = stringifySDL(
+      new SDLBuilder()
+        .addService(
+          'web',
+          { image: 'nginx' },
+          {
+            cpu: { units: 1 },
+            memory: { size: '1Gi' },
+            storage: [{ size: '1Gi' }],
+          },
+          { pricing: { denom: 'uakt', amount: 100 } }
+        )
+        .build()
+    ).replace('profile: web', 'profile: missing');
+
+    expect(() => parseSDL(source)).toThrow(
+      'Invalid SDL: deployment "web" uses unknown compute profile "missing"'
+    );
+  });
+});
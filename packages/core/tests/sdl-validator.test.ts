@@ -1,12 +1,12 @@
 import { describe, it, expect } from 'vitest';
 
 import { SDLValidator } from '../src/sdl/validator';
-import type { SDLOutput } from '../src/sdl/synthesizer';
+import type { SDL } from '../src/sdl/model';
 
 describe('SDLValidator', () => {
   const validator = new SDLValidator();
 
-  const createValidSDL = (): SDLOutput => ({
+  const createValidSDL = (): SDL => ({
     version: '2.0',
     services: {
       agent: {
@@ -19,11 +19,6 @@ describe('SDLValidator', () => {
           },
         ],
         env: ['NODE_ENV=production'],
-        resources: {
-          cpu: { units: 2 },
-          memory: { size: '4Gi' },
-          storage: [{ size: '10Gi' }],
-        },
       },
     },
     profiles: {
@@ -32,26 +27,24 @@ describe('SDLValidator', () => {
           resources: {
             cpu: { units: 2 },
             memory: { size: '4Gi' },
+            storage: [{ size: '10Gi' }],
+          },
+        },
+      },
+      placement: {
+        akash: {
+          attributes: { region: 'us-west' },
+          pricing: {
+            agent: { denom: 'uakt', amount: 10000 },
           },
         },
       },
     },
     deployment: {
       agent: {
-        profile: 'agent',
-        count: 1,
+        akash: { profile: 'agent', count: 1 },
       },
     },
-    placement: {
-      akash: {
-        attributes: { region: 'us-west' },
-        pricing: {
-          agent: { denom: 'uakt', amount: 10000 },
-        },
-      },
-    },
-    raw: 'version: "2.0"',
-    estimatedCost: 100,
   });
 
   describe('validate', () => {
@@ -65,7 +58,7 @@ describe('SDLValidator', () => {
 
     it('should fail on invalid version', () => {
       const sdl = createValidSDL();
-      sdl.version = '1.0';
+      (sdl as any).version = '1.0';
 
       const result = validator.validate(sdl);
 
@@ -95,7 +88,7 @@ describe('SDLValidator', () => {
 
     it('should fail on missing resources', () => {
       const sdl = createValidSDL();
-      delete (sdl.services.agent as any).resources;
+      delete (sdl.profiles.compute.agent as any).resources;
 
       const result = validator.validate(sdl);
 
@@ -105,7 +98,7 @@ describe('SDLValidator', () => {
 
     it('should fail on invalid CPU units', () => {
       const sdl = createValidSDL();
-      sdl.services.agent.resources.cpu.units = 0;
+      sdl.profiles.compute.agent.resources.cpu.units = 0;
 
       const result = validator.validate(sdl);
 
@@ -115,7 +108,7 @@ describe('SDLValidator', () => {
 
     it('should fail on missing memory', () => {
       const sdl = createValidSDL();
-      delete (sdl.services.agent.resources as any).memory;
+      delete (sdl.profiles.compute.agent.resources as any).memory;
 
       const result = validator.validate(sdl);
 
@@ -125,7 +118,7 @@ describe('SDLValidator', () => {
 
     it('should fail on missing placement pricing', () => {
       const sdl = createValidSDL();
-      delete (sdl.placement as any).akash;
+      delete (sdl.profiles.placement.akash as any).pricing.agent;
 
       const result = validator.validate(sdl);
 
@@ -144,12 +137,41 @@ describe('SDLValidator', () => {
 
     it('should warn on high CPU usage', () => {
       const sdl = createValidSDL();
-      sdl.services.agent.resources.cpu.units = 20;
+      sdl.profiles.compute.agent.resources.cpu.units = 20;
 
       const result = validator.validate(sdl);
 
       expect(result.warnings.some(w => w.code === 'HIGH_CPU_USAGE')).toBe(true);
     });
+
+    it('should warn on a GPU request without a region constraint', () => {
+      const sdl = createValidSDL();
+      sdl.profiles.compute.agent.resources.gpu = {
+        units: 1,
+        attributes: { vendor: { nvidia: [{ model: 'a100' }] } },
+      };
+
+      expect(validator.validate(sdl).warnings.some(w => w.code === 'GPU_WITHOUT_REGION')).toBe(
+        false
+      );
+
+      delete sdl.profiles.placement.akash.attributes;
+      const result = validator.validate(sdl);
+
+      expect(result.valid).toBe(true);
+      expect(result.warnings.some(w => w.code === 'GPU_WITHOUT_REGION')).toBe(true);
+    });
+
+    it('should fail on malformed placement attributes and auditors', () => {
+      const sdl = createValidSDL();
+      sdl.profiles.placement.akash.attributes = { 'bad key': 'x' };
+      sdl.profiles.placement.akash.signedBy = { anyOf: ['not-an-address'] };
+
+      const result = validator.validate(sdl);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.map(e => e.code)).toEqual(['INVALID_ATTRIBUTE', 'INVALID_AUDITOR']);
+    });
   });
 
   describe('validateEnvironment', () => {
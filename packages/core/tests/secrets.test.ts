@@ -1,6 +1,10 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from 'vitest';
 
 import { SealedSecrets } from '../src/sdl/secrets';
+import { SDLSynthesizer } from '../src/sdl/synthesizer';
 
 describe('SealedSecrets', () => {
   let secrets: SealedSecrets;
@@ -123,4 +127,70 @@ describe('SealedSecrets', () => {
       expect(result.unencrypted).toContain('DB_PASSWORD');
     });
   });
+
+  describe('provider sealing', () => {
+    const provider = 'akash1provider';
+    const keypair = new SealedSecrets().generateKeyPair();
+    let server: Server;
+    let providerUrl: string;
+    let requests = 0;
+
+    // Stub provider serving its public key the way a real provider would
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        requests++;
+        if (req.url === '/v1/public-key') {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ publicKey: keypair.publicKey }));
+          return;
+        }
+        res.writeHead(404);
+        res.end();
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      providerUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should fetch and cache the provider public key', async () => {
+      requests = 0;
+
+      expect(await secrets.fetchProviderPublicKey(provider, providerUrl)).toBe(keypair.publicKey);
+      expect(await secrets.fetchProviderPublicKey(provider, providerUrl)).toBe(keypair.publicKey);
+      expect(requests).toBe(1);
+    });
+
+    it('should fail instead of sealing to a key the provider cannot use', async () => {
+      await expect(
+        secrets.fetchProviderPublicKey('akash1other', `${providerUrl}/missing`)
+      ).rejects.toThrow('Failed to fetch public key for provider akash1other');
+    });
+
+    it('should seal synthesized secrets so only the provider can decrypt them', async () => {
+      const sdl = await new SDLSynthesizer({
+        project: 'sealed',
+        template: 'ai-agent',
+        provider: 'akash',
+        network: 'testnet',
+      }).synthesize({ image: { tag: 'agent:1' } });
+      const password = sdl.credentials!.postgresPassword;
+
+      const publicKey = await secrets.fetchProviderPublicKey(provider, providerUrl);
+      const sealed = await secrets.seal(sdl, publicKey);
+
+      const sealedPassword = sealed.services.postgres?.env
+        ?.find(e => e.startsWith('POSTGRES_PASSWORD='))
+        ?.slice('POSTGRES_PASSWORD='.length);
+
+      expect(sealed.pendingSecrets).toHaveLength(0);
+      expect(sealedPassword?.startsWith('enc:')).toBe(true);
+      expect(await secrets.decrypt(sealedPassword!, keypair.privateKey)).toBe(password);
+      expect(JSON.stringify(sealed.services)).not.toContain(password);
+      // The unsealed SDL is left untouched
+      expect(sdl.services.postgres?.env).toContain('POSTGRES_PASSWORD=${POSTGRES_PASSWORD}');
+    });
+  });
 });
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+
+import { SkipGoClient, type RouteResponse } from '../src/economic/skip-go';
+import { SkipGoMockServer } from '../src/economic/skip-go-mock';
+
+describe('SkipGoClient against SkipGoMockServer', () => {
+  const server = new SkipGoMockServer();
+  let client: SkipGoClient;
+
+  async function submit(): Promise<{ txHash: string; route: RouteResponse }> {
+    const route = await client.getRoute({
+      sourceChain: 'base',
+      sourceToken: 'USDC',
+      destChain: 'akash',
+      destToken: 'AKT',
+      amount: '10000000',
+    });
+    const tx = await client.buildTransaction(route);
+    const { txHash } = await client.broadcastTransaction(tx.data, route.sourceChain);
+    return { txHash, route };
+  }
+
+  beforeAll(async () => {
+    client = new SkipGoClient({ baseUrl: await server.listen(), pollInterval: 1 });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.setScenario('success');
+  });
+
+  it('should quote a deterministic route', async () => {
+    const { route } = await submit();
+
+    expect(route).toMatchObject({
+      estimatedOutput: '4000000',
+      estimatedFee: '10000',
+      priceImpact: 0.1,
+      sourceChain: '8453',
+      destChain: 'akashnet-2',
+    });
+    expect(route.route.map(hop => hop.type)).toEqual(['bridge', 'swap', 'transfer']);
+  });
+
+  it('should complete a transaction in the success scenario', async () => {
+    const { txHash, route } = await submit();
+
+    await expect(client.waitForCompletion(txHash, route)).resolves.toBeUndefined();
+    expect(server.requests.map(request => request.path)).toContain(`/v2/tx/status/8453/${txHash}`);
+  });
+
+  it('should surface a slippage failure', async () => {
+    server.setScenario('slippage');
+    const { txHash, route } = await submit();
+
+    await expect(client.waitForCompletion(txHash, route)).rejects.toThrow(/slippage/);
+  });
+
+  it('should time out on a stuck relay', async () => {
+    server.setScenario('stuck');
+    const { txHash, route } = await submit();
+
+    await expect(client.waitForCompletion(txHash, route, 20)).rejects.toThrow(
+      'Transaction timeout'
+    );
+  });
+
+  it('should reject a partial completion', async () => {
+    server.setScenario('partial');
+    const { txHash, route } = await submit();
+
+    await expect(client.waitForCompletion(txHash, route)).rejects.toThrow(
+      'only completed 1 of 3 steps'
+    );
+  });
+
+  it('should settle each transaction by the scenario it was submitted under', async () => {
+    const first = await submit();
+    server.setScenario('slippage');
+    await submit();
+
+    await expect(client.waitForCompletion(first.txHash, first.route)).resolves.toBeUndefined();
+  });
+
+  it('should report unknown transactions as API errors', async () => {
+    const { route } = await submit();
+
+    await expect(client.waitForCompletion('0xunknown', route)).rejects.toThrow(
+      'Skip Go API error: Transaction not found'
+    );
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+
+import { AKT, Amount, USDC } from '../src/economic/money';
+import { SwapGuard, SwapProtectionError, type GuardedQuote } from '../src/economic/swap-guard';
+
+function quote(usdc: string, akt: string, priceImpact = 0.1): GuardedQuote {
+  return {
+    sourceAmount: Amount.parse(usdc, USDC),
+    destinationAmount: Amount.parse(akt, AKT),
+    priceImpact,
+    expiresAt: new Date(0),
+  };
+}
+
+describe('SwapGuard', () => {
+  it('should accept a quote near the oracle price', () => {
+    expect(() => new SwapGuard().check(quote('100', '39'), 2.5)).not.toThrow();
+  });
+
+  it('should measure the shortfall against the oracle price', () => {
+    const guard = new SwapGuard({ maxOracleDeviation: 2 });
+
+    expect(() => guard.check(quote('100', '38'), 2.5)).toThrow(
+      new SwapProtectionError('oracle-deviation', 2, 5)
+    );
+  });
+
+  it('should not count a quote better than the oracle against it', () => {
+    expect(() =>
+      new SwapGuard({ maxOracleDeviation: 0 }).check(quote('100', '50'), 2.5)
+    ).not.toThrow();
+  });
+
+  it('should allow for outputs rounded down to nothing', () => {
+    const dust = { ...quote('0', '0'), sourceAmount: Amount.fromUnits(1, USDC) };
+
+    expect(() => new SwapGuard().check(dust, 2.5)).not.toThrow();
+  });
+
+  it('should expire quotes after the TTL', () => {
+    const guard = new SwapGuard({ quoteTtl: 10 });
+    const fresh = { ...quote('100', '40'), expiresAt: guard.expiresAt(1_000) };
+
+    expect(guard.isExpired(fresh, 10_999)).toBe(false);
+    expect(guard.isExpired(fresh, 11_000)).toBe(true);
+  });
+
+  it('should only allow a re-quote to fall by the slippage tolerance', () => {
+    const guard = new SwapGuard({ maxSlippage: 1 });
+
+    expect(() => guard.checkRequote(quote('100', '40'), quote('100', '39.7'))).not.toThrow();
+    expect(() => guard.checkRequote(quote('100', '40'), quote('100', '39.5'))).toThrow(
+      /re-quoted output fell 1.25%/
+    );
+  });
+});
@@ -1,4 +1,5 @@
-import { stringify } from 'yaml';
+import { SDLBuilder, stringifySDL } from '@morpheus-deploy/core';
+
 import type { Template, SDLOutput, TemplateConfig } from '../types.js';
 
 export class CustomTemplate implements Template {
@@ -27,8 +28,9 @@ export class CustomTemplate implements Template {
       }
     }
 
-    const services: Record<string, unknown> = {
-      app: {
+    const builder = new SDLBuilder().addService(
+      'app',
+      {
         image: config.image,
         expose: [
           {
@@ -44,63 +46,32 @@ export class CustomTemplate implements Template {
           },
         },
       },
-    };
-
-    // Add GPU if configured
-    const gpuConfig = config.resources?.gpu ? {
-      gpu: {
-        units: config.resources.gpu.units,
-        attributes: {
-          vendor: {
-            nvidia: [{ model: config.resources.gpu.model.replace('nvidia-', '') }],
+      {
+        cpu: { units: cpu },
+        memory: { size: memory },
+        storage: [
+          {
+            size: storage,
+            attributes: { persistent: true },
           },
-        },
-      },
-    } : {};
-
-    const profiles = {
-      compute: {
-        app: {
-          resources: {
-            cpu: { units: cpu },
-            memory: { size: memory },
-            storage: [
-              {
-                size: storage,
-                attributes: { persistent: true },
+        ],
+        // Add GPU if configured
+        ...(config.resources?.gpu && {
+          gpu: {
+            units: config.resources.gpu.units,
+            attributes: {
+              vendor: {
+                nvidia: [{ model: config.resources.gpu.model.replace('nvidia-', '') }],
               },
-            ],
-            ...gpuConfig,
+            },
           },
-        },
+        }),
       },
-      placement: {
-        akash: {
-          pricing: {
-            app: { denom: 'uakt', amount: 5000 },
-          },
-        },
-      },
-    };
-
-    const deployment = {
-      app: { akash: { profile: 'app', count: 1 } },
-    };
+      { pricing: { denom: 'uakt', amount: 5000 } }
+    );
 
-    const sdl = {
-      version: '2.0',
-      services,
-      profiles,
-      deployment,
-    };
-
-    return {
-      version: '2.0',
-      services: services as SDLOutput['services'],
-      profiles: profiles as SDLOutput['profiles'],
-      deployment: deployment as SDLOutput['deployment'],
-      raw: stringify(sdl, { indent: 2, lineWidth: 0 }),
-    };
+    const sdl = builder.build();
+    return { ...sdl, raw: stringifySDL(sdl) };
   }
 
   getDefaults(): Partial<TemplateConfig> {
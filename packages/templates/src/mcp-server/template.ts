@@ -1,4 +1,5 @@
-import { stringify } from 'yaml';
+import { SDLBuilder, stringifySDL } from '@morpheus-deploy/core';
+
 import type { Template, SDLOutput, TemplateConfig } from '../types.js';
 
 export class MCPServerTemplate implements Template {
@@ -30,9 +31,10 @@ export class MCPServerTemplate implements Template {
       }
     }
 
-    const services: Record<string, unknown> = {
+    const builder = new SDLBuilder().addService(
       // MCP Server service
-      'mcp-server': {
+      'mcp-server',
+      {
         image: config.image,
         expose: [
           {
@@ -53,45 +55,16 @@ export class MCPServerTemplate implements Template {
           },
         },
       },
-    };
-
-    const profiles = {
-      compute: {
-        'mcp-server': {
-          resources: {
-            cpu: { units: cpu },
-            memory: { size: memory },
-            storage: [{ size: storage }],
-          },
-        },
-      },
-      placement: {
-        akash: {
-          pricing: {
-            'mcp-server': { denom: 'uakt', amount: 5000 },
-          },
-        },
+      {
+        cpu: { units: cpu },
+        memory: { size: memory },
+        storage: [{ size: storage }],
       },
-    };
-
-    const deployment = {
-      'mcp-server': { akash: { profile: 'mcp-server', count: 1 } },
-    };
+      { pricing: { denom: 'uakt', amount: 5000 } }
+    );
 
-    const sdl = {
-      version: '2.0',
-      services,
-      profiles,
-      deployment,
-    };
-
-    return {
-      version: '2.0',
-      services: services as SDLOutput['services'],
-      profiles: profiles as SDLOutput['profiles'],
-      deployment: deployment as SDLOutput['deployment'],
-      raw: stringify(sdl, { indent: 2, lineWidth: 0 }),
-    };
+    const sdl = builder.build();
+    return { ...sdl, raw: stringifySDL(sdl) };
   }
 
   getDefaults(): Partial<TemplateConfig> {
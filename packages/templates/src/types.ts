@@ -1,3 +1,14 @@
+import type { DeploymentCredentials, PendingSecret, SDL } from '@morpheus-deploy/core';
+
+export type {
+  SDL,
+  SDLService,
+  SDLExpose,
+  SDLComputeProfile,
+  SDLPlacementProfile,
+  SDLDeployment,
+} from '@morpheus-deploy/core';
+
 export type TemplateType = 'ai-agent' | 'mcp-server' | 'website' | 'custom';
 
 export interface TemplateConfig {
@@ -16,6 +27,11 @@ export interface TemplateConfig {
   env?: Record<string, string>;
   secrets?: string[];
   port?: number;
+  /**
+   * PostgreSQL sidecar password (ai-agent). Generated when omitted; persist it
+   * alongside the deployment so redeploys keep access to the data volume.
+   */
+  postgresPassword?: string;
 }
 
 export interface Template {
@@ -34,73 +50,13 @@ export interface Template {
   getDefaults(): Partial<TemplateConfig>;
 }
 
-export interface SDLOutput {
-  version: string;
-  services: Record<string, SDLService>;
-  profiles: {
-    compute: Record<string, SDLComputeProfile>;
-    placement: Record<string, SDLPlacementProfile>;
-  };
-  deployment: Record<string, SDLDeployment>;
+/**
+ * Template output: the canonical SDL plus its YAML serialization
+ */
+export interface SDLOutput extends SDL {
   raw: string;
-}
-
-export interface SDLService {
-  image: string;
-  expose: SDLExpose[];
-  env?: string[];
-  command?: string[];
-  args?: string[];
-  params?: {
-    storage?: Record<string, { mount: string }>;
-  };
-}
-
-export interface SDLExpose {
-  port: number;
-  as: number;
-  proto?: 'tcp' | 'udp';
-  to: Array<{
-    global?: boolean;
-    service?: string;
-  }>;
-  accept?: string[];
-}
-
-export interface SDLComputeProfile {
-  resources: {
-    cpu: { units: number };
-    memory: { size: string };
-    storage: Array<{
-      size: string;
-      attributes?: {
-        persistent?: boolean;
-        class?: string;
-      };
-    }>;
-    gpu?: {
-      units: number;
-      attributes: {
-        vendor: {
-          nvidia: Array<{ model: string }>;
-        };
-      };
-    };
-  };
-}
-
-export interface SDLPlacementProfile {
-  pricing: {
-    [serviceName: string]: {
-      denom: string;
-      amount: number;
-    };
-  };
-}
-
-export interface SDLDeployment {
-  [placementName: string]: {
-    profile: string;
-    count: number;
-  };
+  /** Plaintext credentials used by sidecars; persist these, never the SDL alone */
+  credentials?: DeploymentCredentials;
+  /** Plaintext secrets to seal once the provider is known; never serialized into `raw` */
+  pendingSecrets?: PendingSecret[];
 }
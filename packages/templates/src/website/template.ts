@@ -1,4 +1,5 @@
-import { stringify } from 'yaml';
+import { SDLBuilder, stringifySDL } from '@morpheus-deploy/core';
+
 import type { Template, SDLOutput, TemplateConfig } from '../types.js';
 
 export class WebsiteTemplate implements Template {
@@ -23,9 +24,10 @@ export class WebsiteTemplate implements Template {
       }
     }
 
-    const services: Record<string, unknown> = {
+    const builder = new SDLBuilder().addService(
       // Web server service
-      web: {
+      'web',
+      {
         image: config.image,
         expose: [
           {
@@ -37,45 +39,16 @@ export class WebsiteTemplate implements Template {
         ],
         env,
       },
-    };
-
-    const profiles = {
-      compute: {
-        web: {
-          resources: {
-            cpu: { units: cpu },
-            memory: { size: memory },
-            storage: [{ size: storage }],
-          },
-        },
+      {
+        cpu: { units: cpu },
+        memory: { size: memory },
+        storage: [{ size: storage }],
       },
-      placement: {
-        akash: {
-          pricing: {
-            web: { denom: 'uakt', amount: 1000 },
-          },
-        },
-      },
-    };
+      { pricing: { denom: 'uakt', amount: 1000 } }
+    );
 
-    const deployment = {
-      web: { akash: { profile: 'web', count: 1 } },
-    };
-
-    const sdl = {
-      version: '2.0',
-      services,
-      profiles,
-      deployment,
-    };
-
-    return {
-      version: '2.0',
-      services: services as SDLOutput['services'],
-      profiles: profiles as SDLOutput['profiles'],
-      deployment: deployment as SDLOutput['deployment'],
-      raw: stringify(sdl, { indent: 2, lineWidth: 0 }),
-    };
+    const sdl = builder.build();
+    return { ...sdl, raw: stringifySDL(sdl) };
   }
 
   getDefaults(): Partial<TemplateConfig> {